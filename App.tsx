@@ -1,185 +1,129 @@
-import React, { useState, useCallback, useEffect, useRef } from 'react';
-import { createPortal } from 'react-dom';
-import { NodeData, EdgeData, NodeType, Position, FlowchartData, AnnotationData, Project, HistoryState } from './types';
+import React, { useState, useCallback, useEffect, useRef, useMemo } from 'react';
+import { createPortal, flushSync } from 'react-dom';
+import { NodeData, EdgeData, EdgeRouting, NodeType, Position, FlowchartData, AnnotationData, Project, HistoryState, SwimlaneOrientation, CommentThread, CommentTarget, Viewport } from './types';
 import Canvas from './components/Canvas';
 import Sidebar from './components/Sidebar';
 import ContextMenu from './components/ContextMenu';
 import PermissionModal from './components/PermissionModal';
 import Tabs from './components/Tabs';
-import { StartIcon, ProcessIcon, DecisionIcon } from './components/Icons';
+import { StartIcon, ProcessIcon, DecisionIcon, SubprocessIcon } from './components/Icons';
 import ProjectManagerModal from './components/ProjectManagerModal';
-
-const defaultDimensions = {
-    start: { width: 150, height: 60 },
-    end: { width: 150, height: 60 },
-    process: { width: 150, height: 70 },
-    decision: { width: 160, height: 100 },
-};
+import AiPanel, { AiInsertTarget } from './components/AiPanel';
+import ValidationPanel from './components/ValidationPanel';
+import HistoryPanel from './components/HistoryPanel';
+import CollaborationPanel, { CollabSessionSettings } from './components/CollaborationPanel';
+import CommentsPanel from './components/CommentsPanel';
+import SearchBar from './components/SearchBar';
+import SimulationPanel from './components/SimulationPanel';
+import CodeGenerationModal from './components/CodeGenerationModal';
+import { sanitizeFlowchartData, getNodeSize, defaultDimensions } from './services/flowchartUtils';
+import { generateFlowchart } from './services/geminiService';
+import { exportToMermaid, parseMermaid } from './services/mermaidService';
+import { exportToDrawio, parseDrawio } from './services/drawioService';
+import { exportToBpmn, parseBpmn } from './services/bpmnService';
+import { layoutFlowchart, LayoutDirection } from './services/layoutService';
+import { exportToSvg, rasterizeSvg } from './services/svgExportService';
+import { validateFlowchart, ValidationIssue } from './services/validationService';
+import { SimulationStep, startSimulation, advanceSimulation, exportSimulationPath } from './services/simulationService';
+import { StoredData, loadStoredData, saveStoredData, isQuotaExceededError, loadProjects, markProjectsSaved, hasUnsavedChanges } from './services/storageService';
+import { TabSync, createTabId, createTabSync } from './services/tabSyncService';
+import { createCommentThread, addCommentReply } from './services/commentService';
+import { SearchMatch, findMatches, replaceInProject } from './services/searchService';
+import {
+    createSwimlane, assignNodesToLanes, moveSwimlane, resizeLane, resizeSwimlaneLength,
+    addLane, removeLane, deleteSwimlane, getSwimlaneBounds,
+} from './services/swimlaneService';
+import { extendNavigationTrail } from './services/subprocessService';
+import { addGroup, moveGroup, pruneGroups } from './services/groupService';
+import { DEFAULT_HISTORY_LIMIT, createHistoryEntry, pushHistory, trimHistory } from './services/historyService';
+import { createVersion, diffVersion, diffColors } from './services/versionService';
+import { CollabClient, CollabPeer, CollabStatus, createClientId, createCollabClient, peerColors } from './services/collabClient';
 
 const nodeTypeTextMap: Record<NodeType, string> = {
     start: 'Início',
     process: 'Processo',
     decision: 'Decisão',
     end: 'Fim',
+    subprocess: 'Subprocesso',
+    inputOutput: 'Entrada/Saída',
+    document: 'Documento',
+    database: 'Banco de Dados',
+    manualInput: 'Entrada Manual',
+    delay: 'Espera',
+    offPage: 'Conector',
+    preparation: 'Preparação',
 };
 
 const createNewProject = (name: string): Project => {
-    const emptyState: HistoryState = { nodes: [], edges: [], annotations: [] };
+    const emptyState: HistoryState = { nodes: [], edges: [], annotations: [], swimlanes: [], groups: [] };
     return {
         id: `project-${Date.now()}`,
         name,
         ...emptyState,
-        history: [emptyState],
+        history: [createHistoryEntry(emptyState, 'Projeto criado')],
         historyIndex: 0,
+        versions: [],
+        comments: [],
         isDirty: false,
     };
 };
 
-const sanitizeFlowchartData = (data: any): FlowchartData => {
-    if (!data || typeof data !== 'object') {
-        throw new Error('Formato de arquivo inválido.');
+const createInitialData = (): StoredData => {
+    const firstProject = createNewProject('Meu Primeiro Fluxograma');
+    return {
+        projects: [firstProject],
+        openProjectIds: [firstProject.id],
+        activeProjectId: firstProject.id,
+    };
+};
+
+const resolveInitialData = (stored: StoredData): StoredData => {
+    // Projetos salvos antes das raias e dos grupos não possuem os campos "swimlanes" e "groups"
+    // (o histórico antigo é normalizado ao ser carregado).
+    const projects = stored.projects.map(p => ({
+        ...p,
+        swimlanes: p.swimlanes ?? [],
+        groups: p.groups ?? [],
+        versions: p.versions ?? [],
+        comments: p.comments ?? [],
+        isDirty: p.isDirty ?? false,
+    }));
+    if (projects.length === 0) {
+        return createInitialData();
     }
 
-    const seenNodeIds = new Set<string>();
-    const sanitizedNodes = (Array.isArray(data.nodes) ? data.nodes : [])
-        .map((n: any) => {
-            if (!n || typeof n.id !== 'string' || !n.id.trim()) return null;
-            if (seenNodeIds.has(n.id)) return null; 
-            
-            seenNodeIds.add(n.id);
-            
-            const position = n.position || {};
-            const x = parseFloat(position.x);
-            const y = parseFloat(position.y);
-            if (!isFinite(x) || !isFinite(y)) return null;
-
-            const width = n.width !== undefined ? parseFloat(n.width) : undefined;
-            const height = n.height !== undefined ? parseFloat(n.height) : undefined;
-            if ((width !== undefined && !isFinite(width)) || (height !== undefined && !isFinite(height))) return null;
-
-            return {
-                id: n.id,
-                type: ['start', 'process', 'decision', 'end'].includes(n.type) ? n.type : 'process',
-                text: typeof n.text === 'string' ? n.text : 'Node',
-                position: { x, y },
-                width: width,
-                height: height,
-                color: typeof n.color === 'string' ? n.color : undefined,
-            };
-        })
-        .filter((n): n is NodeData => n !== null);
-
-    const validNodeIds = new Set(sanitizedNodes.map(n => n.id));
-    const seenEdgeIds = new Set<string>();
-    const sanitizedEdges = (Array.isArray(data.edges) ? data.edges : [])
-        .map((e: any) => {
-            if (!e || typeof e.id !== 'string' || !e.id.trim()) return null;
-            if (seenEdgeIds.has(e.id)) return null;
-
-            if (typeof e.source !== 'string' || !e.source.trim() || typeof e.target !== 'string' || !e.target.trim()) return null;
-            if (!validNodeIds.has(e.source) || !validNodeIds.has(e.target)) return null;
-            
-            seenEdgeIds.add(e.id);
-            
-            const sourceHandle = e.sourceHandle !== undefined ? parseInt(e.sourceHandle, 10) : undefined;
-            const targetHandle = e.targetHandle !== undefined ? parseInt(e.targetHandle, 10) : undefined;
-            if ((sourceHandle !== undefined && !isFinite(sourceHandle)) || (targetHandle !== undefined && !isFinite(targetHandle))) return null;
-
-            return {
-                id: e.id,
-                source: e.source,
-                target: e.target,
-                label: typeof e.label === 'string' ? e.label : undefined,
-                sourceHandle: sourceHandle,
-                targetHandle: targetHandle,
-            };
-        })
-        .filter((e): e is EdgeData => e !== null);
-        
-    const seenAnnotationIds = new Set<string>();
-    const sanitizedAnnotations = (Array.isArray(data.annotations) ? data.annotations : [])
-        .map((a: any) => {
-            if (!a || typeof a.id !== 'string' || !a.id.trim()) return null;
-            if (seenAnnotationIds.has(a.id)) return null;
-
-            seenAnnotationIds.add(a.id);
-            
-            const position = a.position || {};
-            const x = parseFloat(position.x);
-            const y = parseFloat(position.y);
-            if (!isFinite(x) || !isFinite(y)) return null;
-
-            const width = a.width !== undefined ? parseFloat(a.width) : undefined;
-            const height = a.height !== undefined ? parseFloat(a.height) : undefined;
-            if ((width !== undefined && !isFinite(width)) || (height !== undefined && !isFinite(height))) return null;
-
-            return {
-                id: a.id,
-                text: typeof a.text === 'string' ? a.text : 'Anotação',
-                position: { x, y },
-                width: width,
-                height: height,
-            };
-        })
-        .filter((a): a is AnnotationData => a !== null);
+    let openProjectIds = stored.openProjectIds.filter(id => projects.some(p => p.id === id));
+    if (openProjectIds.length === 0) {
+        openProjectIds = [projects[0].id];
+    }
 
+    const activeProjectId = stored.activeProjectId && openProjectIds.includes(stored.activeProjectId)
+        ? stored.activeProjectId
+        : openProjectIds[0] || null;
 
-    return { nodes: sanitizedNodes, edges: sanitizedEdges, annotations: sanitizedAnnotations };
+    return { projects, openProjectIds, activeProjectId };
 };
 
-const loadInitialData = (): { projects: Project[], openProjectIds: string[], activeProjectId: string | null } => {
-    try {
-        const savedProjects = window.localStorage.getItem('flowchart-projects');
-        const savedOpenIds = window.localStorage.getItem('flowchart-open-ids');
-        const savedActiveId = window.localStorage.getItem('flowchart-active-project-id');
-
-        let projects: Project[] = [];
-        if (savedProjects) {
-            const parsed = JSON.parse(savedProjects);
-            if (Array.isArray(parsed)) {
-                projects = parsed.map(p => ({ ...p, isDirty: p.isDirty ?? false }));
-            }
-        }
-
-        if (projects.length === 0) {
-            const firstProject = createNewProject('Meu Primeiro Fluxograma');
-            return {
-                projects: [firstProject],
-                openProjectIds: [firstProject.id],
-                activeProjectId: firstProject.id,
-            };
-        }
-
-        let openProjectIds: string[] = [];
-        if (savedOpenIds) {
-            const parsed = JSON.parse(savedOpenIds);
-            if (Array.isArray(parsed)) {
-                openProjectIds = parsed.filter(id => projects.some(p => p.id === id));
-            }
-        }
-        
-        if (openProjectIds.length === 0) {
-            openProjectIds = [projects[0].id];
-        }
+const getInitialHistoryLimit = (): number => {
+  const savedLimit = parseInt(window.localStorage.getItem('flowchart-history-limit') ?? '', 10);
+  return isFinite(savedLimit) && savedLimit > 1 ? savedLimit : DEFAULT_HISTORY_LIMIT;
+};
 
-        let activeProjectId: string | null = null;
-        if (savedActiveId && openProjectIds.includes(savedActiveId)) {
-            activeProjectId = savedActiveId;
-        } else {
-            activeProjectId = openProjectIds[0] || null;
-        }
+// Nome usado na colaboração em tempo real e como autor dos comentários.
+const getInitialUserName = (): string =>
+  window.localStorage.getItem('flowchart-user-name') || 'Participante';
 
-        return { projects, openProjectIds, activeProjectId };
+// Última visualização do canvas de cada projeto. Fica fora dos projetos para que
+// mover ou dar zoom não regrave o projeto nem seja avisado às outras abas.
+const VIEWPORTS_KEY = 'flowchart-viewports';
 
-    } catch (error) {
-        console.error("Falha ao carregar dados do armazenamento local.", error);
-        const firstProject = createNewProject('Meu Primeiro Fluxograma');
-        return {
-            projects: [firstProject],
-            openProjectIds: [firstProject.id],
-            activeProjectId: firstProject.id,
-        };
-    }
+const loadViewports = (): Record<string, Viewport> => {
+  try {
+    const parsed = JSON.parse(window.localStorage.getItem(VIEWPORTS_KEY) ?? '{}');
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
 };
 
 const getInitialTheme = (): 'light' | 'dark' => {
@@ -190,25 +134,12 @@ const getInitialTheme = (): 'light' | 'dark' => {
   return 'dark';
 };
 
-const saveDataToLocalStorage = (projects: Project[], openProjectIds: string[], activeId: string | null) => {
-    try {
-        localStorage.setItem('flowchart-projects', JSON.stringify(projects));
-        localStorage.setItem('flowchart-open-ids', JSON.stringify(openProjectIds));
-        if (activeId) {
-            localStorage.setItem('flowchart-active-project-id', activeId);
-        } else {
-            localStorage.removeItem('flowchart-active-project-id');
-        }
-    } catch (error) {
-        console.error("Falha ao salvar dados no armazenamento local.", error);
-    }
-};
-
 const App: React.FC = () => {
-  const [initialData] = useState(loadInitialData);
-  const [projects, setProjects] = useState<Project[]>(initialData.projects);
-  const [openProjectIds, setOpenProjectIds] = useState<string[]>(initialData.openProjectIds);
-  const [activeProjectId, setActiveProjectId] = useState<string | null>(initialData.activeProjectId);
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [openProjectIds, setOpenProjectIds] = useState<string[]>([]);
+  const [activeProjectId, setActiveProjectId] = useState<string | null>(null);
+  const [isStorageReady, setIsStorageReady] = useState(false);
+  const [storageError, setStorageError] = useState<string | null>(null);
 
   const activeProject = projects.find(p => p.id === activeProjectId);
   const openProjects = openProjectIds.map(id => projects.find(p => p.id === id)).filter((p): p is Project => !!p);
@@ -218,14 +149,56 @@ const App: React.FC = () => {
   const [selectedAnnotationIds, setSelectedAnnotationIds] = useState<Set<string>>(new Set());
   const [autoConnect, setAutoConnect] = useState<boolean>(true);
   const [snapToGrid, setSnapToGrid] = useState<boolean>(true);
+  const [edgeRouting, setEdgeRouting] = useState<EdgeRouting>('curved');
   const [contextMenu, setContextMenu] = useState<{ x: number; y: number; node: NodeData } | null>(null);
   const [fontsLoaded, setFontsLoaded] = useState(false);
   const [isPermissionModalOpen, setIsPermissionModalOpen] = useState(false);
   const [theme, setTheme] = useState<'light' | 'dark'>(getInitialTheme);
   const [isProjectManagerOpen, setIsProjectManagerOpen] = useState(false);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [aiError, setAiError] = useState<string | null>(null);
+  const [isValidationOpen, setIsValidationOpen] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [historyLimit, setHistoryLimit] = useState<number>(getInitialHistoryLimit);
+  const [versionComparison, setVersionComparison] = useState<{ projectId: string; versionId: string } | null>(null);
+  const [isCollaborationOpen, setIsCollaborationOpen] = useState(false);
+  const [collabSession, setCollabSession] = useState<(CollabSessionSettings & { projectId: string }) | null>(null);
+  const [collabStatus, setCollabStatus] = useState<CollabStatus>('offline');
+  const [collabPeers, setCollabPeers] = useState<CollabPeer[]>([]);
+  const [collabPendingCount, setCollabPendingCount] = useState(0);
+  const [otherTabProjects, setOtherTabProjects] = useState<Record<string, string | null>>({});
+  const [userName, setUserName] = useState<string>(getInitialUserName);
+  const [isCommentsOpen, setIsCommentsOpen] = useState(false);
+  const [isPlacingComment, setIsPlacingComment] = useState(false);
+  const [commentDraftTarget, setCommentDraftTarget] = useState<CommentTarget | null>(null);
+  const [activeCommentThreadId, setActiveCommentThreadId] = useState<string | null>(null);
+  const [includeCommentsInImages, setIncludeCommentsInImages] = useState(false);
+  const [focusRequest, setFocusRequest] = useState<{ nodeIds: string[]; edgeIds?: string[]; annotationIds?: string[]; key: number } | null>(null);
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [replaceText, setReplaceText] = useState('');
+  const [searchAllProjects, setSearchAllProjects] = useState(false);
+  // Resultado atual da busca; -1 enquanto nenhum foi visitado.
+  const [searchIndex, setSearchIndex] = useState(-1);
+  const [searchFocusKey, setSearchFocusKey] = useState(0);
+  const [simulationSteps, setSimulationSteps] = useState<SimulationStep[] | null>(null);
+  const [isCodeModalOpen, setIsCodeModalOpen] = useState(false);
+  // Projetos percorridos ao abrir subprocessos, do primeiro até o ativo.
+  const [navigationTrail, setNavigationTrail] = useState<string[]>([]);
 
   const isRestoring = useRef(false);
   const debounceTimeout = useRef<number | null>(null);
+  const collabClient = useRef<CollabClient | null>(null);
+  // Estado mais recente, lido fora do ciclo de renderização pela colaboração e
+  // pela sincronização entre abas.
+  const projectsRef = useRef(projects);
+  projectsRef.current = projects;
+  const openProjectIdsRef = useRef(openProjectIds);
+  openProjectIdsRef.current = openProjectIds;
+  const activeProjectIdRef = useRef(activeProjectId);
+  activeProjectIdRef.current = activeProjectId;
+  const tabId = useMemo(createTabId, []);
+  const tabSync = useRef<TabSync | null>(null);
 
   useEffect(() => {
     document.fonts.ready.then(() => {
@@ -246,10 +219,175 @@ const App: React.FC = () => {
     }
   }, [theme]);
   
-  // Auto-save projects and session state
   useEffect(() => {
-    saveDataToLocalStorage(projects, openProjectIds, activeProjectId);
-  }, [projects, openProjectIds, activeProjectId]);
+    try {
+      localStorage.setItem('flowchart-user-name', userName);
+    } catch (error) {
+      console.error('Falha ao salvar o nome do usuário no localStorage.', error);
+    }
+  }, [userName]);
+
+  // Um limite menor vale para o histórico já existente de todos os projetos.
+  useEffect(() => {
+    setProjects(prev => prev.map(p => {
+        const trimmed = trimHistory(p.history, p.historyIndex, historyLimit);
+        return trimmed.history === p.history ? p : { ...p, ...trimmed };
+    }));
+    try {
+      localStorage.setItem('flowchart-history-limit', String(historyLimit));
+    } catch (error) {
+      console.error('Falha ao salvar o limite do histórico no localStorage.', error);
+    }
+  }, [historyLimit]);
+
+  // Load projects from IndexedDB (migrating old localStorage data on the first run)
+  useEffect(() => {
+    loadStoredData()
+      .then(stored => resolveInitialData(stored))
+      .catch(error => {
+        console.error("Falha ao carregar os projetos salvos.", error);
+        setStorageError(`Não foi possível carregar os projetos salvos: ${error instanceof Error ? error.message : String(error)}`);
+        return createInitialData();
+      })
+      .then(initialData => {
+        setProjects(initialData.projects);
+        setOpenProjectIds(initialData.openProjectIds);
+        setActiveProjectId(initialData.activeProjectId);
+        setIsStorageReady(true);
+      });
+  }, []);
+
+  // Auto-save projects and session state; only projects that changed are written
+  useEffect(() => {
+    if (!isStorageReady) return;
+    const timeout = window.setTimeout(() => {
+      saveStoredData(projects, openProjectIds, activeProjectId)
+        .then(({ savedIds, removedIds }) => {
+          setStorageError(null);
+          if (savedIds.length > 0 || removedIds.length > 0) {
+            tabSync.current?.post({ type: 'saved', tabId, projectIds: savedIds, removedIds });
+          }
+        })
+        .catch(error => {
+          console.error("Falha ao salvar os projetos.", error);
+          setStorageError(isQuotaExceededError(error)
+            ? 'O espaço de armazenamento do navegador está cheio e as últimas alterações não foram salvas. Exporte ou exclua projetos antigos para liberar espaço.'
+            : `Falha ao salvar os projetos: ${error instanceof Error ? error.message : String(error)}`);
+        });
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [projects, openProjectIds, activeProjectId, isStorageReady, tabId]);
+
+  // Sincronização entre abas: cada aba grava só os próprios projetos alterados e
+  // avisa as outras, que leem os projetos atualizados do banco. Se a mesma
+  // alteração concorrer com edições ainda não salvas desta aba, o usuário escolhe
+  // qual versão fica, e a outra é guardada como uma versão nomeada do projeto.
+  const applyChangesFromOtherTab = useCallback(async (projectIds: string[], removedIds: string[]) => {
+    let remoteProjects: Project[];
+    try {
+      remoteProjects = await loadProjects(projectIds);
+    } catch (error) {
+      console.error('Falha ao carregar os projetos alterados em outra aba.', error);
+      return;
+    }
+
+    const current = projectsRef.current;
+    const time = new Date().toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' });
+    const stateOf = (p: Project): HistoryState => ({ nodes: p.nodes, edges: p.edges, annotations: p.annotations, swimlanes: p.swimlanes, groups: p.groups });
+
+    const replacements = new Map<string, Project>();
+    remoteProjects.forEach(remote => {
+        const local = current.find(p => p.id === remote.id);
+        if (!local || !hasUnsavedChanges(local)) {
+            replacements.set(remote.id, remote);
+            return;
+        }
+        const useRemote = window.confirm(
+            `O projeto "${remote.name}" foi alterado em outra aba enquanto também era editado aqui.\n\n` +
+            'OK: usar a versão da outra aba (as alterações desta aba ficam guardadas como uma versão do projeto).\n' +
+            'Cancelar: manter a versão desta aba (as alterações da outra aba ficam guardadas como uma versão do projeto).'
+        );
+        replacements.set(remote.id, useRemote
+            ? { ...remote, versions: [...remote.versions, createVersion(`Alterações desta aba (${time})`, stateOf(local))] }
+            : { ...local, versions: [...local.versions, createVersion(`Alterações de outra aba (${time})`, stateOf(remote))] });
+    });
+
+    const removed = new Set(removedIds.filter(id => {
+        const local = current.find(p => p.id === id);
+        return !local || !hasUnsavedChanges(local) ||
+            !window.confirm(`O projeto "${local.name}" foi excluído em outra aba, mas tem alterações não salvas aqui. Deseja mantê-lo?`);
+    }));
+
+    const nextProjects = [
+        ...current.filter(p => !removed.has(p.id)).map(p => replacements.get(p.id) ?? p),
+        ...Array.from(replacements.values()).filter(p => !current.some(c => c.id === p.id)),
+    ];
+    let nextOpenIds = openProjectIdsRef.current.filter(id => !removed.has(id));
+    let nextActiveId = activeProjectIdRef.current && !removed.has(activeProjectIdRef.current) ? activeProjectIdRef.current : nextOpenIds[0] ?? null;
+    if (nextProjects.length === 0) {
+        nextProjects.push(createNewProject('Meu Primeiro Fluxograma'));
+    }
+    if (nextActiveId === null) {
+        nextActiveId = nextProjects[0].id;
+        nextOpenIds = [nextActiveId];
+    }
+
+    // O estado vindo da outra aba já traz o próprio passo no histórico.
+    const activeBefore = current.find(p => p.id === nextActiveId);
+    const activeAfter = replacements.get(nextActiveId);
+    if (activeBefore && activeAfter && nextActiveId === activeProjectIdRef.current) {
+        const before = stateOf(activeBefore);
+        const after = stateOf(activeAfter);
+        if ((Object.keys(before) as (keyof HistoryState)[]).some(key => before[key] !== after[key])) {
+            isRestoring.current = true;
+        }
+    }
+    // O estado é aplicado de imediato para que nenhum salvamento desta aba grave
+    // a versão antiga por cima da que acabou de chegar.
+    flushSync(() => {
+        setProjects(nextProjects);
+        setOpenProjectIds(nextOpenIds);
+        setActiveProjectId(nextActiveId);
+    });
+    markProjectsSaved(remoteProjects, Array.from(removed));
+  }, []);
+
+  useEffect(() => {
+    if (!isStorageReady) return;
+    const sync = createTabSync(message => {
+        if (message.tabId === tabId) return;
+        switch (message.type) {
+            case 'saved':
+                applyChangesFromOtherTab(message.projectIds, message.removedIds);
+                break;
+            case 'hello':
+                sync.post({ type: 'presence', tabId, activeProjectId: activeProjectIdRef.current });
+                break;
+            case 'presence':
+                setOtherTabProjects(prev => ({ ...prev, [message.tabId]: message.activeProjectId }));
+                break;
+            case 'bye':
+                setOtherTabProjects(({ [message.tabId]: _, ...rest }) => rest);
+                break;
+        }
+    });
+    tabSync.current = sync;
+    sync.post({ type: 'hello', tabId });
+    const handleUnload = () => sync.post({ type: 'bye', tabId });
+    window.addEventListener('beforeunload', handleUnload);
+    return () => {
+        handleUnload();
+        window.removeEventListener('beforeunload', handleUnload);
+        sync.close();
+        tabSync.current = null;
+    };
+  }, [isStorageReady, tabId, applyChangesFromOtherTab]);
+
+  useEffect(() => {
+    tabSync.current?.post({ type: 'presence', tabId, activeProjectId });
+  }, [activeProjectId, isStorageReady, tabId]);
+
+  const isActiveProjectOpenElsewhere = !!activeProjectId && Object.values(otherTabProjects).includes(activeProjectId);
 
   // History management
   useEffect(() => {
@@ -266,9 +404,11 @@ const App: React.FC = () => {
         const currentState: HistoryState = { 
             nodes: activeProject.nodes, 
             edges: activeProject.edges, 
-            annotations: activeProject.annotations 
+            annotations: activeProject.annotations,
+            swimlanes: activeProject.swimlanes,
+            groups: activeProject.groups,
         };
-        const lastState = activeProject.history[activeProject.historyIndex];
+        const lastState = activeProject.history[activeProject.historyIndex]?.state;
         
         if (JSON.stringify(currentState) === JSON.stringify(lastState)) {
             return;
@@ -276,11 +416,9 @@ const App: React.FC = () => {
         
         setProjects(prevProjects => prevProjects.map(p => {
             if (p.id === activeProjectId) {
-                const newHistory = p.history.slice(0, p.historyIndex + 1);
                 return {
                     ...p,
-                    history: [...newHistory, currentState],
-                    historyIndex: newHistory.length,
+                    ...pushHistory(p.history, p.historyIndex, currentState, historyLimit),
                     isDirty: true,
                 };
             }
@@ -293,28 +431,30 @@ const App: React.FC = () => {
           clearTimeout(debounceTimeout.current);
         }
       };
-    }, [activeProject?.nodes, activeProject?.edges, activeProject?.annotations, activeProjectId]);
+    }, [activeProject?.nodes, activeProject?.edges, activeProject?.annotations, activeProject?.swimlanes, activeProject?.groups, activeProjectId, historyLimit]);
 
   const updateActiveProject = useCallback((updater: (project: Project) => Project) => {
     if (!activeProjectId) return;
     setProjects(prev => prev.map(p => p.id === activeProjectId ? updater(p) : p));
   }, [activeProjectId]);
 
-  const handleUndo = useCallback(() => {
-    if (!activeProject || activeProject.historyIndex <= 0) return;
+  // Restaura qualquer passo do histórico; desfazer e refazer são passos vizinhos.
+  const handleJumpToHistory = useCallback((index: number) => {
+    if (!activeProject || index === activeProject.historyIndex || index < 0 || index >= activeProject.history.length) return;
     isRestoring.current = true;
-    const newIndex = activeProject.historyIndex - 1;
-    const prevState = activeProject.history[newIndex];
-    updateActiveProject(p => ({ ...p, ...prevState, historyIndex: newIndex, isDirty: true }));
+    const { state } = activeProject.history[index];
+    updateActiveProject(p => ({ ...p, ...state, historyIndex: index, isDirty: true }));
   }, [activeProject, updateActiveProject]);
 
+  const handleUndo = useCallback(() => {
+    if (!activeProject) return;
+    handleJumpToHistory(activeProject.historyIndex - 1);
+  }, [activeProject, handleJumpToHistory]);
+
   const handleRedo = useCallback(() => {
-    if (!activeProject || activeProject.historyIndex >= activeProject.history.length - 1) return;
-    isRestoring.current = true;
-    const newIndex = activeProject.historyIndex + 1;
-    const nextState = activeProject.history[newIndex];
-    updateActiveProject(p => ({ ...p, ...nextState, historyIndex: newIndex, isDirty: true }));
-  }, [activeProject, updateActiveProject]);
+    if (!activeProject) return;
+    handleJumpToHistory(activeProject.historyIndex + 1);
+  }, [activeProject, handleJumpToHistory]);
 
   const addNode = useCallback((type: NodeType) => {
     const GRID_SIZE = 20;
@@ -329,7 +469,7 @@ const App: React.FC = () => {
       text: nodeTypeTextMap[type],
       position: finalPos,
     };
-    updateActiveProject(p => ({ ...p, nodes: [...p.nodes, newNode] }));
+    updateActiveProject(p => ({ ...p, nodes: assignNodesToLanes([...p.nodes, newNode], p.swimlanes, new Set([newNode.id])) }));
   }, [snapToGrid, updateActiveProject]);
 
   const addAnnotation = useCallback(() => {
@@ -370,11 +510,15 @@ const App: React.FC = () => {
   }, [setNodes]);
   
   const deleteNode = useCallback((nodeId: string) => {
-    updateActiveProject(p => ({
-        ...p,
-        nodes: p.nodes.filter(n => n.id !== nodeId),
-        edges: p.edges.filter(e => e.source !== nodeId && e.target !== nodeId),
-    }));
+    updateActiveProject(p => {
+        const nodes = p.nodes.filter(n => n.id !== nodeId);
+        return {
+            ...p,
+            nodes,
+            edges: p.edges.filter(e => e.source !== nodeId && e.target !== nodeId),
+            groups: pruneGroups(p.groups, nodes, p.annotations),
+        };
+    });
     setSelectedNodeIds(prev => {
         const next = new Set(prev);
         next.delete(nodeId);
@@ -392,6 +536,14 @@ const App: React.FC = () => {
     setEdges(eds => eds.map(e => e.id === edgeId ? { ...e, label } : e));
   }, [setEdges]);
 
+  const updateEdgeRouting = useCallback((edgeId: string, routing?: EdgeRouting) => {
+    setEdges(eds => eds.map(e => e.id === edgeId ? { ...e, routing } : e));
+  }, [setEdges]);
+
+  const updateEdgeWaypoints = useCallback((edgeId: string, waypoints?: Position[]) => {
+    setEdges(eds => eds.map(e => e.id === edgeId ? { ...e, waypoints } : e));
+  }, [setEdges]);
+
   const updateAnnotationPosition = useCallback((id: string, position: Position) => {
     setAnnotations(prev => prev.map(ann => ann.id === id ? { ...ann, position } : ann));
   }, [setAnnotations]);
@@ -405,13 +557,96 @@ const App: React.FC = () => {
   }, [setAnnotations]);
 
   const deleteAnnotation = useCallback((id: string) => {
-    setAnnotations(prev => prev.filter(ann => ann.id !== id));
+    updateActiveProject(p => {
+        const annotations = p.annotations.filter(ann => ann.id !== id);
+        return { ...p, annotations, groups: pruneGroups(p.groups, p.nodes, annotations) };
+    });
     setSelectedAnnotationIds(prev => {
         const next = new Set(prev);
         next.delete(id);
         return next;
     });
-  }, [setAnnotations]);
+  }, [updateActiveProject]);
+
+  const handleAddSwimlane = useCallback((orientation: SwimlaneOrientation) => {
+    updateActiveProject(p => {
+        // Novas piscinas ficam abaixo (ou à direita, se verticais) das já existentes.
+        const offset = p.swimlanes.reduce((max, s) => {
+            const bounds = getSwimlaneBounds(s);
+            return orientation === 'horizontal' ? Math.max(max, bounds.y + bounds.height + 40) : Math.max(max, bounds.x + bounds.width + 40);
+        }, 40);
+        const position = orientation === 'horizontal' ? { x: 40, y: offset } : { x: offset, y: 40 };
+        const swimlanes = [...p.swimlanes, createSwimlane(orientation, position)];
+        const looseNodeIds = new Set<string>(p.nodes.filter(n => !n.laneId).map(n => n.id));
+        return { ...p, swimlanes, nodes: assignNodesToLanes(p.nodes, swimlanes, looseNodeIds) };
+    });
+  }, [updateActiveProject]);
+
+  const handleMoveSwimlane = useCallback((id: string, position: Position) => {
+    updateActiveProject(p => ({ ...p, ...moveSwimlane(p.swimlanes, p.nodes, id, position) }));
+  }, [updateActiveProject]);
+
+  const handleResizeLane = useCallback((id: string, laneId: string, size: number) => {
+    updateActiveProject(p => ({ ...p, ...resizeLane(p.swimlanes, p.nodes, id, laneId, size) }));
+  }, [updateActiveProject]);
+
+  const handleResizeSwimlaneLength = useCallback((id: string, length: number) => {
+    updateActiveProject(p => ({ ...p, swimlanes: resizeSwimlaneLength(p.swimlanes, id, length) }));
+  }, [updateActiveProject]);
+
+  const updateSwimlaneTitle = useCallback((id: string, title: string) => {
+    updateActiveProject(p => ({ ...p, swimlanes: p.swimlanes.map(s => s.id === id ? { ...s, title } : s) }));
+  }, [updateActiveProject]);
+
+  const updateLaneTitle = useCallback((id: string, laneId: string, title: string) => {
+    updateActiveProject(p => ({
+        ...p,
+        swimlanes: p.swimlanes.map(s => s.id === id ? { ...s, lanes: s.lanes.map(l => l.id === laneId ? { ...l, title } : l) } : s),
+    }));
+  }, [updateActiveProject]);
+
+  const handleAddLane = useCallback((id: string) => {
+    updateActiveProject(p => ({ ...p, swimlanes: addLane(p.swimlanes, id) }));
+  }, [updateActiveProject]);
+
+  const handleRemoveLane = useCallback((id: string, laneId: string) => {
+    updateActiveProject(p => ({ ...p, ...removeLane(p.swimlanes, p.nodes, id, laneId) }));
+  }, [updateActiveProject]);
+
+  const handleDeleteSwimlane = useCallback((id: string) => {
+    updateActiveProject(p => ({ ...p, ...deleteSwimlane(p.swimlanes, p.nodes, id) }));
+  }, [updateActiveProject]);
+
+  const handleCreateGroup = useCallback(() => {
+    if (selectedNodeIds.size === 0) return;
+    const nodeIds = Array.from<string>(selectedNodeIds);
+    const annotationIds = Array.from<string>(selectedAnnotationIds);
+    updateActiveProject(p => ({ ...p, groups: addGroup(p.groups, nodeIds, annotationIds).groups }));
+  }, [selectedNodeIds, selectedAnnotationIds, updateActiveProject]);
+
+  const handleMoveGroup = useCallback((id: string, position: Position) => {
+    updateActiveProject(p => ({ ...p, ...moveGroup(p.groups, p.nodes, p.annotations, p.edges, id, position) }));
+  }, [updateActiveProject]);
+
+  const updateGroupTitle = useCallback((id: string, title: string) => {
+    updateActiveProject(p => ({ ...p, groups: p.groups.map(g => g.id === id ? { ...g, title } : g) }));
+  }, [updateActiveProject]);
+
+  const handleToggleGroup = useCallback((id: string) => {
+    const group = activeProject?.groups.find(g => g.id === id);
+    if (!group) return;
+    updateActiveProject(p => ({ ...p, groups: p.groups.map(g => g.id === id ? { ...g, collapsed: !g.collapsed || undefined } : g) }));
+    if (!group.collapsed) {
+        // Itens ocultos não podem continuar selecionados.
+        setSelectedNodeIds(prev => new Set(Array.from(prev).filter(nid => !group.nodeIds.includes(nid))));
+        setSelectedAnnotationIds(prev => new Set(Array.from(prev).filter(aid => !group.annotationIds.includes(aid))));
+        setSelectedEdgeId(null);
+    }
+  }, [activeProject, updateActiveProject]);
+
+  const handleUngroup = useCallback((id: string) => {
+    updateActiveProject(p => ({ ...p, groups: p.groups.filter(g => g.id !== id) }));
+  }, [updateActiveProject]);
 
   const removeNodeConnections = useCallback((nodeId: string) => {
     setEdges(eds => eds.filter(e => e.source !== nodeId && e.target !== nodeId));
@@ -419,7 +654,16 @@ const App: React.FC = () => {
   }, [setEdges]);
 
   const updateNodeType = useCallback((nodeId: string, type: NodeType) => {
-    setNodes(nds => nds.map(n => n.id === nodeId ? { ...n, type, color: undefined } : n));
+    setNodes(nds => nds.map(n => {
+        if (n.id !== nodeId) return n;
+        const { linkedProjectId: _link, ...rest } = n;
+        return type === 'subprocess' ? { ...n, type, color: undefined } : { ...rest, type, color: undefined };
+    }));
+    closeContextMenu();
+  }, [setNodes]);
+
+  const linkNodeToProject = useCallback((nodeId: string, projectId?: string) => {
+    setNodes(nds => nds.map(n => n.id === nodeId ? { ...n, linkedProjectId: projectId } : n));
     closeContextMenu();
   }, [setNodes]);
   
@@ -452,10 +696,89 @@ const App: React.FC = () => {
       id: `e-${parentNode.id}-${newNode.id}-${Date.now()}`, source: parentNode.id, target: newNode.id,
     };
     
-    updateActiveProject(p => ({ ...p, nodes: [...p.nodes, newNode], edges: [...p.edges, newEdge] }));
+    updateActiveProject(p => ({
+        ...p,
+        nodes: assignNodesToLanes([...p.nodes, newNode], p.swimlanes, new Set([newNode.id])),
+        edges: [...p.edges, newEdge],
+    }));
     closeContextMenu();
   }, [activeProject, snapToGrid, updateActiveProject]);
 
+  const handleAutoLayout = useCallback((direction: LayoutDirection) => {
+    const GRID_SIZE = 20;
+    const snap = (val: number) => Math.round(val / GRID_SIZE) * GRID_SIZE;
+
+    // Nós e conexões são atualizados juntos para gerar um único passo no histórico.
+    updateActiveProject(p => {
+        if (p.nodes.length === 0) return p;
+        const origin = {
+            x: Math.min(...p.nodes.map(n => n.position.x)),
+            y: Math.min(...p.nodes.map(n => n.position.y)),
+        };
+        const laidOut = layoutFlowchart({ nodes: p.nodes, edges: p.edges }, { direction, origin });
+        const nodes = snapToGrid
+            ? laidOut.nodes.map(n => ({ ...n, position: { x: snap(n.position.x), y: snap(n.position.y) } }))
+            : laidOut.nodes;
+        return { ...p, nodes: assignNodesToLanes(nodes, p.swimlanes), edges: laidOut.edges };
+    });
+  }, [snapToGrid, updateActiveProject]);
+
+  const activeNodes = activeProject?.nodes;
+  const activeEdges = activeProject?.edges;
+  const comparedVersion = versionComparison && activeProject?.id === versionComparison.projectId
+    ? activeProject.versions.find(v => v.id === versionComparison.versionId) ?? null
+    : null;
+  const versionDiff = useMemo(
+    () => comparedVersion && activeProject ? diffVersion(comparedVersion.state, activeProject) : null,
+    [comparedVersion, activeProject]
+  );
+
+  const validationIssues = useMemo(
+    () => (isValidationOpen && activeNodes && activeEdges ? validateFlowchart({ nodes: activeNodes, edges: activeEdges }) : []),
+    [isValidationOpen, activeNodes, activeEdges]
+  );
+
+  const handleSelectIssue = useCallback((issue: ValidationIssue) => {
+    if (issue.nodeIds.length === 0) return;
+    setSelectedNodeIds(new Set(issue.nodeIds));
+    setSelectedEdgeId(null);
+    setSelectedAnnotationIds(new Set());
+    setFocusRequest({ nodeIds: issue.nodeIds, key: Date.now() });
+  }, []);
+
+  const simulationNodeId = simulationSteps ? simulationSteps[simulationSteps.length - 1].nodeId : null;
+
+  // A simulação pertence ao projeto em que foi iniciada.
+  useEffect(() => {
+    setSimulationSteps(null);
+  }, [activeProjectId]);
+
+  useEffect(() => {
+    if (simulationNodeId) setFocusRequest({ nodeIds: [simulationNodeId], key: Date.now() });
+  }, [simulationNodeId]);
+
+  const handleToggleSimulation = useCallback(() => {
+    if (simulationSteps) {
+        setSimulationSteps(null);
+        return;
+    }
+    if (!activeProject) return;
+    try {
+        setSimulationSteps(startSimulation(activeProject));
+    } catch (error) {
+        alert(error instanceof Error ? error.message : String(error));
+    }
+  }, [activeProject, simulationSteps]);
+
+  const handleRestartSimulation = useCallback(() => {
+    if (!activeProject) return;
+    try {
+        setSimulationSteps(startSimulation(activeProject));
+    } catch (error) {
+        alert(error instanceof Error ? error.message : String(error));
+    }
+  }, [activeProject]);
+
   const handleCopy = useCallback(() => {
     if (selectedNodeIds.size === 0 || !activeProject) return;
     const selectedNodes = activeProject.nodes.filter(n => selectedNodeIds.has(n.id));
@@ -492,23 +815,103 @@ const App: React.FC = () => {
                 const newSourceId = idMap.get(edge.source);
                 const newTargetId = idMap.get(edge.target);
                 if (newSourceId && newTargetId) {
-                    newEdges.push({ ...edge, id: `e-${newSourceId}-${newTargetId}-${Date.now()}`, source: newSourceId, target: newTargetId });
+                    const waypoints = Array.isArray(edge.waypoints) ? edge.waypoints.map(p => ({ x: p.x + 30, y: p.y + 30 })) : undefined;
+                    newEdges.push({ ...edge, id: `e-${newSourceId}-${newTargetId}-${Date.now()}`, source: newSourceId, target: newTargetId, waypoints });
                 }
             });
         }
-        updateActiveProject(p => ({ ...p, nodes: [...p.nodes, ...newNodes], edges: [...p.edges, ...newEdges] }));
-        setSelectedNodeIds(new Set(newNodes.map(n => n.id)));
+        const pastedIds = new Set(newNodes.map(n => n.id));
+        updateActiveProject(p => ({
+            ...p,
+            nodes: assignNodesToLanes([...p.nodes, ...newNodes], p.swimlanes, pastedIds),
+            edges: [...p.edges, ...newEdges],
+        }));
+        setSelectedNodeIds(pastedIds);
         setSelectedEdgeId(null);
         setSelectedAnnotationIds(new Set());
     } catch (err) { console.warn('Falha ao colar:', err); }
   }, [updateActiveProject]);
 
+  const insertIntoActiveProject = useCallback((data: FlowchartData) => {
+    const idMap = new Map<string, string>();
+    const stamp = Date.now();
+    const newNodes: NodeData[] = data.nodes.map((node, i) => {
+        const newId = `${node.type}-${stamp}${i}`;
+        idMap.set(node.id, newId);
+        return { ...node, id: newId };
+    });
+    const newEdges: EdgeData[] = data.edges
+        .filter(edge => idMap.has(edge.source) && idMap.has(edge.target))
+        .map((edge, i) => {
+            const source = idMap.get(edge.source)!;
+            const target = idMap.get(edge.target)!;
+            return { ...edge, id: `e-${source}-${target}-${stamp}${i}`, source, target };
+        });
+    const newAnnotations: AnnotationData[] = (data.annotations || []).map((ann, i) => ({ ...ann, id: `annotation-${stamp}${i}` }));
+
+    updateActiveProject(p => {
+        // Posiciona o conteúdo inserido abaixo do que já existe no projeto.
+        let offset = { x: 0, y: 0 };
+        if (p.nodes.length > 0) {
+            const minX = Math.min(...p.nodes.map(n => n.position.x));
+            const maxY = Math.max(...p.nodes.map(n => n.position.y + getNodeSize(n).height));
+            const insertedMinX = Math.min(...newNodes.map(n => n.position.x));
+            const insertedMinY = Math.min(...newNodes.map(n => n.position.y));
+            offset = { x: minX - insertedMinX, y: maxY + 100 - insertedMinY };
+        }
+        const shift = (point: Position): Position => ({ x: point.x + offset.x, y: point.y + offset.y });
+        const move = <T extends { position: Position }>(item: T): T => ({ ...item, position: shift(item.position) });
+        const moveWaypoints = (edge: EdgeData): EdgeData => edge.waypoints ? { ...edge, waypoints: edge.waypoints.map(shift) } : edge;
+        return {
+            ...p,
+            nodes: assignNodesToLanes([...p.nodes, ...newNodes.map(move)], p.swimlanes, new Set(newNodes.map(n => n.id))),
+            edges: [...p.edges, ...newEdges.map(moveWaypoints)],
+            annotations: [...p.annotations, ...newAnnotations.map(move)],
+        };
+    });
+    setSelectedNodeIds(new Set(newNodes.map(n => n.id)));
+    setSelectedEdgeId(null);
+    setSelectedAnnotationIds(new Set());
+  }, [updateActiveProject]);
+
+  const openProjectWithData = useCallback((name: string, data: FlowchartData) => {
+    const state: HistoryState = { nodes: data.nodes, edges: data.edges, annotations: data.annotations || [], swimlanes: data.swimlanes || [], groups: data.groups || [] };
+    const newProject: Project = { ...createNewProject(name), ...state, history: [createHistoryEntry(state, 'Projeto criado')], isDirty: true };
+    setProjects(prev => [...prev, newProject]);
+    setOpenProjectIds(prev => [...prev, newProject.id]);
+    setActiveProjectId(newProject.id);
+    setSelectedNodeIds(new Set()); setSelectedEdgeId(null); setSelectedAnnotationIds(new Set());
+  }, []);
+
+  const handleGenerateFlowchart = useCallback(async (prompt: string, target: AiInsertTarget) => {
+    setIsGenerating(true);
+    setAiError(null);
+    try {
+        const generated = await generateFlowchart(prompt);
+        if (target === 'current' && activeProjectId) {
+            insertIntoActiveProject(generated);
+        } else {
+            openProjectWithData(`Fluxograma ${projects.length + 1}`, generated);
+        }
+    } catch (error) {
+        setAiError(error instanceof Error ? error.message : String(error));
+    } finally {
+        setIsGenerating(false);
+    }
+  }, [activeProjectId, insertIntoActiveProject, openProjectWithData, projects.length]);
+
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
+        const isMac = navigator.platform.toUpperCase().includes('MAC');
+        if ((isMac ? e.metaKey : e.ctrlKey) && e.key.toLowerCase() === 'f') {
+            e.preventDefault();
+            setIsSearchOpen(true);
+            setSearchFocusKey(key => key + 1);
+            return;
+        }
         const activeEl = document.activeElement;
         const isTyping = activeEl && ['INPUT', 'TEXTAREA'].includes(activeEl.tagName);
         if (isTyping) return;
-        const isMac = navigator.platform.toUpperCase().includes('MAC');
         const isCopy = (isMac ? e.metaKey : e.ctrlKey) && e.key === 'c';
         const isPaste = (isMac ? e.metaKey : e.ctrlKey) && e.key === 'v';
         const isDelete = e.key === 'Backspace' || e.key === 'Delete';
@@ -523,16 +926,23 @@ const App: React.FC = () => {
             if (selectedEdgeId) deleteEdge(selectedEdgeId);
             if (selectedNodeIds.size > 0) {
                 const nodeIdsToDelete = Array.from(selectedNodeIds);
-                updateActiveProject(p => ({
-                    ...p,
-                    nodes: p.nodes.filter(n => !nodeIdsToDelete.includes(n.id)),
-                    edges: p.edges.filter(edge => !nodeIdsToDelete.includes(edge.source) && !nodeIdsToDelete.includes(edge.target))
-                }));
+                updateActiveProject(p => {
+                    const nodes = p.nodes.filter(n => !nodeIdsToDelete.includes(n.id));
+                    return {
+                        ...p,
+                        nodes,
+                        edges: p.edges.filter(edge => !nodeIdsToDelete.includes(edge.source) && !nodeIdsToDelete.includes(edge.target)),
+                        groups: pruneGroups(p.groups, nodes, p.annotations),
+                    };
+                });
                 setSelectedNodeIds(new Set());
             }
              if (selectedAnnotationIds.size > 0) {
                 const annotationIdsToDelete = Array.from(selectedAnnotationIds);
-                setAnnotations(anns => anns.filter(a => !annotationIdsToDelete.includes(a.id)));
+                updateActiveProject(p => {
+                    const annotations = p.annotations.filter(a => !annotationIdsToDelete.includes(a.id));
+                    return { ...p, annotations, groups: pruneGroups(p.groups, p.nodes, annotations) };
+                });
                 setSelectedAnnotationIds(new Set());
             }
         }
@@ -541,84 +951,93 @@ const App: React.FC = () => {
     return () => window.removeEventListener('keydown', handleKeyDown);
   }, [selectedEdgeId, deleteEdge, selectedNodeIds, selectedAnnotationIds, handleCopy, handlePaste, handleUndo, handleRedo, updateActiveProject, setAnnotations]);
 
-  const openContextMenu = (x: number, y: number, node: NodeData) => setContextMenu({ x, y, node });
+  const openContextMenu = useCallback((x: number, y: number, node: NodeData) => setContextMenu({ x, y, node }), []);
   const closeContextMenu = () => setContextMenu(null);
 
-  const handleExportPNG = useCallback(async () => {
+  const downloadActiveProjectFile = useCallback((content: string, mimeType: string, extension: string) => {
     if (!activeProject) return;
-    let toPng;
-    try {
-        const module = await import('https://esm.sh/html-to-image@1.11.11');
-        toPng = module.toPng || (module.default && module.default.toPng);
-        if (typeof toPng !== 'function') throw new Error('toPng not found');
-    } catch (error) {
-        alert(`Falha ao carregar biblioteca de exportação: ${error instanceof Error ? error.message : String(error)}`);
-        return;
-    }
-    const svgElement = document.getElementById('flowchart-canvas');
-    if (!svgElement) { alert('Canvas não encontrado.'); return; }
-    const gElement = svgElement.querySelector<SVGGElement>('#flowchart-group');
-    if (!gElement) { alert('Grupo do fluxograma não encontrado.'); return; }
-    if (activeProject.nodes.length === 0 && activeProject.annotations.length === 0) {
-        alert("Não há nada para exportar!"); return;
+    const blob = new Blob([content], { type: mimeType });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.download = `${activeProject.name.replace(/\s+/g, '_') || 'fluxograma'}.${extension}`;
+    link.href = url; link.click(); URL.revokeObjectURL(url);
+  }, [activeProject]);
+
+  const handleExportJSON = useCallback(() => {
+    if (!activeProject) return;
+    const data: FlowchartData = { nodes: activeProject.nodes, edges: activeProject.edges, annotations: activeProject.annotations, swimlanes: activeProject.swimlanes, groups: activeProject.groups, comments: activeProject.comments };
+    downloadActiveProjectFile(JSON.stringify(data, null, 2), 'application/json', 'json');
+  }, [activeProject, downloadActiveProjectFile]);
+
+  const handleExportMermaid = useCallback(() => {
+    if (!activeProject) return;
+    downloadActiveProjectFile(exportToMermaid(activeProject), 'text/plain', 'mmd');
+  }, [activeProject, downloadActiveProjectFile]);
+
+  const handleExportDrawio = useCallback(() => {
+    if (!activeProject) return;
+    downloadActiveProjectFile(exportToDrawio(activeProject, { name: activeProject.name, edgeRouting }), 'application/xml', 'drawio');
+  }, [activeProject, edgeRouting, downloadActiveProjectFile]);
+
+  const handleExportBpmn = useCallback(() => {
+    if (!activeProject) return;
+    downloadActiveProjectFile(exportToBpmn(activeProject, { name: activeProject.name }), 'application/xml', 'bpmn');
+  }, [activeProject, downloadActiveProjectFile]);
+
+  const exportActiveProjectToSvg = useCallback(() => {
+    if (!activeProject) return null;
+    if (activeProject.nodes.length === 0 && activeProject.annotations.length === 0 && activeProject.swimlanes.length === 0) {
+        alert("Não há nada para exportar!"); return null;
     }
-    const PADDING = 50; let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
-    activeProject.nodes.forEach(node => {
-        const nodeWidth = node.width ?? defaultDimensions[node.type].width;
-        const nodeHeight = node.height ?? defaultDimensions[node.type].height;
-        minX = Math.min(minX, node.position.x); minY = Math.min(minY, node.position.y);
-        maxX = Math.max(maxX, node.position.x + nodeWidth); maxY = Math.max(maxY, node.position.y + nodeHeight);
-    });
-    activeProject.annotations.forEach(ann => {
-        minX = Math.min(minX, ann.position.x); minY = Math.min(minY, ann.position.y);
-        maxX = Math.max(maxX, ann.position.x + (ann.width || 160)); maxY = Math.max(maxY, ann.position.y + (ann.height || 120));
-    });
-    const exportWidth = (maxX - minX) + PADDING * 2; const exportHeight = (maxY - minY) + PADDING * 2;
-    const originalTransform = gElement.getAttribute('transform');
-    gElement.setAttribute('transform', `translate(${-minX + PADDING}, ${-minY + PADDING}) scale(1)`);
-    svgElement.classList.add('exporting');
+    return exportToSvg(activeProject, { theme, autoConnect, edgeRouting, includeComments: includeCommentsInImages });
+  }, [activeProject, theme, autoConnect, edgeRouting, includeCommentsInImages]);
+
+  const handleExportSVG = useCallback(() => {
+    const result = exportActiveProjectToSvg();
+    if (!result) return;
+    downloadActiveProjectFile(result.svg, 'image/svg+xml', 'svg');
+  }, [exportActiveProjectToSvg, downloadActiveProjectFile]);
+
+  const handleExportPNG = useCallback(async () => {
+    const result = exportActiveProjectToSvg();
+    if (!result || !activeProject) return;
     try {
-        const fontURL = 'https://fonts.googleapis.com/css2?family=Inter:wght@400;500;600;700&display=swap';
-        const fontCSS = await fetch(fontURL).then(res => res.text());
-        const dataUrl = await toPng(svgElement, {
-            width: exportWidth, height: exportHeight,
-            backgroundColor: theme === 'dark' ? '#111827' : '#F9FAFB', fontEmbedCSS: fontCSS,
-        });
+        const dataUrl = await rasterizeSvg(result.svg, result.width, result.height);
         const link = document.createElement('a');
         link.download = `${activeProject.name.replace(/\s+/g, '_') || 'fluxograma'}.png`;
         link.href = dataUrl; link.click();
     } catch (error) {
         alert(`Erro ao exportar PNG: ${error instanceof Error ? error.message : String(error)}`);
-    } finally {
-        svgElement.classList.remove('exporting');
-        if (originalTransform) gElement.setAttribute('transform', originalTransform);
-        else gElement.removeAttribute('transform');
     }
-}, [activeProject, theme]);
+  }, [activeProject, exportActiveProjectToSvg]);
 
-  const handleExportJSON = useCallback(() => {
-    if (!activeProject) return;
-    const data: FlowchartData = { nodes: activeProject.nodes, edges: activeProject.edges, annotations: activeProject.annotations };
-    const jsonString = JSON.stringify(data, null, 2);
-    const blob = new Blob([jsonString], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.download = `${activeProject.name.replace(/\s+/g, '_') || 'fluxograma'}.json`;
-    link.href = url; link.click(); URL.revokeObjectURL(url);
-  }, [activeProject]);
+  const handleExportSimulation = useCallback(() => {
+    if (!activeProject || !simulationSteps) return;
+    downloadActiveProjectFile(exportSimulationPath(activeProject, simulationSteps), 'text/plain', 'txt');
+  }, [activeProject, simulationSteps, downloadActiveProjectFile]);
 
-  const handleImportJSON = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+  const handleDownloadCode = useCallback((content: string, extension: string) => {
+    downloadActiveProjectFile(content, 'text/plain', extension);
+  }, [downloadActiveProjectFile]);
+
+  const importFileIntoActiveProject = useCallback((event: React.ChangeEvent<HTMLInputElement>, parse: (content: string) => FlowchartData | Promise<FlowchartData>) => {
     const file = event.target.files?.[0];
     const input = event.target;
     if (!file || !activeProjectId) return;
     const reader = new FileReader();
-    reader.onload = (e) => {
+    reader.onload = async (e) => {
         try {
             if (typeof e.target?.result !== 'string') throw new Error('Falha ao ler o arquivo.');
-            const sanitizedData = sanitizeFlowchartData(JSON.parse(e.target.result));
+            const sanitizedData = await parse(e.target.result);
             if (window.confirm('Isso substituirá o fluxograma ATUAL. Deseja continuar?')) {
-                const newState: HistoryState = { nodes: sanitizedData.nodes, edges: sanitizedData.edges, annotations: sanitizedData.annotations || [] };
-                updateActiveProject(p => ({ ...p, ...newState, history: [newState], historyIndex: 0, isDirty: true }));
+                const newState: HistoryState = {
+                    nodes: sanitizedData.nodes,
+                    edges: sanitizedData.edges,
+                    annotations: sanitizedData.annotations || [],
+                    swimlanes: sanitizedData.swimlanes || [],
+                    groups: sanitizedData.groups || [],
+                };
+                updateActiveProject(p => ({ ...p, ...newState, comments: sanitizedData.comments || [], history: [createHistoryEntry(newState, 'Importou arquivo')], historyIndex: 0, isDirty: true }));
                 setSelectedNodeIds(new Set()); setSelectedEdgeId(null); setSelectedAnnotationIds(new Set());
             }
         } catch (error) {
@@ -628,11 +1047,27 @@ const App: React.FC = () => {
     reader.onerror = () => { alert('Erro ao ler o arquivo.'); if (input) input.value = ''; };
     reader.readAsText(file);
   }, [activeProjectId, updateActiveProject]);
+
+  const handleImportJSON = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+    importFileIntoActiveProject(event, content => sanitizeFlowchartData(JSON.parse(content)));
+  }, [importFileIntoActiveProject]);
+
+  const handleImportMermaid = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+    importFileIntoActiveProject(event, parseMermaid);
+  }, [importFileIntoActiveProject]);
+
+  const handleImportDrawio = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+    importFileIntoActiveProject(event, parseDrawio);
+  }, [importFileIntoActiveProject]);
+
+  const handleImportBpmn = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+    importFileIntoActiveProject(event, parseBpmn);
+  }, [importFileIntoActiveProject]);
   
   const handleClear = useCallback(() => {
     if (window.confirm('Tem certeza que deseja limpar o fluxograma ATUAL?')) {
-        const emptyState: HistoryState = { nodes: [], edges: [], annotations: [] };
-        updateActiveProject(p => ({ ...p, ...emptyState, history: [emptyState], historyIndex: 0, isDirty: true }));
+        const emptyState: HistoryState = { nodes: [], edges: [], annotations: [], swimlanes: [], groups: [] };
+        updateActiveProject(p => ({ ...p, ...emptyState, history: [createHistoryEntry(emptyState, 'Limpou o fluxograma')], historyIndex: 0, isDirty: true }));
         setSelectedEdgeId(null); setSelectedNodeIds(new Set()); setSelectedAnnotationIds(new Set());
     }
   }, [updateActiveProject]);
@@ -676,6 +1111,298 @@ const App: React.FC = () => {
     setIsProjectManagerOpen(false);
   }, [openProjectIds]);
 
+  const searchScope = useCallback((list: Project[]) =>
+    searchAllProjects ? list : list.filter(p => p.id === activeProjectId), [searchAllProjects, activeProjectId]);
+
+  const searchMatches = useMemo(
+    () => isSearchOpen ? findMatches(searchScope(projects), searchQuery) : [],
+    [isSearchOpen, searchScope, projects, searchQuery]
+  );
+
+  const goToSearchMatch = useCallback((index: number, matches: SearchMatch[]) => {
+    const match = matches[index];
+    if (!match) return;
+    setSearchIndex(index);
+    if (match.projectId !== activeProjectIdRef.current) handleOpenProject(match.projectId);
+    setSelectedNodeIds(new Set(match.kind === 'node' ? [match.itemId] : []));
+    setSelectedEdgeId(match.kind === 'edge' ? match.itemId : null);
+    setSelectedAnnotationIds(new Set(match.kind === 'annotation' ? [match.itemId] : []));
+    setFocusRequest({
+        nodeIds: match.kind === 'node' ? [match.itemId] : [],
+        edgeIds: match.kind === 'edge' ? [match.itemId] : [],
+        annotationIds: match.kind === 'annotation' ? [match.itemId] : [],
+        key: Date.now(),
+    });
+  }, [handleOpenProject]);
+
+  // Buscando só no projeto ativo, trocar de aba recomeça a navegação pelos resultados.
+  useEffect(() => {
+    if (!searchAllProjects) setSearchIndex(-1);
+  }, [activeProjectId]);
+
+  const handleSearchQueryChange = useCallback((query: string) => {
+    setSearchQuery(query);
+    setSearchIndex(-1);
+  }, []);
+
+  const handleSearchAllProjectsChange = useCallback((allProjects: boolean) => {
+    setSearchAllProjects(allProjects);
+    setSearchIndex(-1);
+  }, []);
+
+  const handleSearchNext = useCallback(() => {
+    if (searchMatches.length === 0) return;
+    const current = searchIndex < searchMatches.length ? searchIndex : -1;
+    goToSearchMatch((current + 1) % searchMatches.length, searchMatches);
+  }, [searchMatches, searchIndex, goToSearchMatch]);
+
+  const handleSearchPrevious = useCallback(() => {
+    if (searchMatches.length === 0) return;
+    const current = searchIndex >= 0 && searchIndex < searchMatches.length ? searchIndex : 0;
+    goToSearchMatch((current - 1 + searchMatches.length) % searchMatches.length, searchMatches);
+  }, [searchMatches, searchIndex, goToSearchMatch]);
+
+  // Substitui o texto nos projetos da busca (ou só no item indicado). Cada projeto
+  // alterado ganha um único passo no histórico, que desfaz toda a substituição.
+  const applySearchReplacement = useCallback((only?: SearchMatch) => {
+    const description = `Substituiu "${searchQuery}" por "${replaceText}"`;
+    const inScope = new Set(searchScope(projects).map(p => p.id));
+    const updated = projects.map(p => {
+        if (only ? p.id !== only.projectId : !inScope.has(p.id)) return p;
+        const replaced = replaceInProject(p, searchQuery, replaceText, only && { kind: only.kind, itemId: only.itemId });
+        if (replaced === p) return p;
+        const { nodes, edges, annotations, swimlanes, groups } = replaced;
+        return {
+            ...replaced,
+            ...pushHistory(p.history, p.historyIndex, { nodes, edges, annotations, swimlanes, groups }, historyLimit, description),
+            isDirty: true,
+        };
+    });
+    setProjects(updated);
+    return updated;
+  }, [projects, searchQuery, replaceText, searchScope, historyLimit]);
+
+  const handleReplaceCurrent = useCallback(() => {
+    const match = searchMatches[searchIndex];
+    if (!match) {
+        goToSearchMatch(0, searchMatches);
+        return;
+    }
+    const remaining = findMatches(searchScope(applySearchReplacement(match)), searchQuery);
+    if (remaining.length === 0) {
+        setSearchIndex(-1);
+        return;
+    }
+    // Se o novo texto ainda contém a busca, o item continua na lista e o próximo vem depois dele.
+    const stillMatches = remaining.some(m => m.projectId === match.projectId && m.kind === match.kind && m.itemId === match.itemId);
+    goToSearchMatch((stillMatches ? searchIndex + 1 : searchIndex) % remaining.length, remaining);
+  }, [searchMatches, searchIndex, searchScope, searchQuery, applySearchReplacement, goToSearchMatch]);
+
+  const handleReplaceAll = useCallback(() => {
+    if (searchMatches.length === 0) return;
+    applySearchReplacement();
+    setSearchIndex(-1);
+  }, [searchMatches, applySearchReplacement]);
+
+  // A visualização fica fora do histórico e do projeto; o Canvas só a lê ao trocar de projeto.
+  const [savedViewports] = useState(loadViewports);
+  const viewportsRef = useRef(savedViewports);
+  const handleViewportChange = useCallback((projectId: string, viewport: Viewport) => {
+    const current = viewportsRef.current[projectId];
+    if (current && current.x === viewport.x && current.y === viewport.y && current.zoom === viewport.zoom) return;
+    // Visualizações de projetos excluídos são descartadas a cada gravação.
+    const projectIds = new Set(projectsRef.current.map(p => p.id));
+    viewportsRef.current = Object.fromEntries(
+        Object.entries({ ...viewportsRef.current, [projectId]: viewport }).filter(([id]) => projectIds.has(id))
+    );
+    try {
+      localStorage.setItem(VIEWPORTS_KEY, JSON.stringify(viewportsRef.current));
+    } catch (error) {
+      console.error('Falha ao salvar a visualização no localStorage.', error);
+    }
+  }, []);
+
+  const handleSaveVersion = useCallback((projectId: string, name: string) => {
+    setProjects(prev => prev.map(p => {
+        if (p.id !== projectId) return p;
+        const { nodes, edges, annotations, swimlanes, groups } = p;
+        return { ...p, versions: [...p.versions, createVersion(name, { nodes, edges, annotations, swimlanes, groups })] };
+    }));
+  }, []);
+
+  const handleDeleteVersion = useCallback((projectId: string, versionId: string) => {
+    setProjects(prev => prev.map(p => p.id === projectId ? { ...p, versions: p.versions.filter(v => v.id !== versionId) } : p));
+    setVersionComparison(current => current?.versionId === versionId ? null : current);
+  }, []);
+
+  // A restauração entra no histórico como um passo comum, e pode ser desfeita.
+  const handleRestoreVersion = useCallback((projectId: string, versionId: string) => {
+    setProjects(prev => prev.map(p => {
+        const version = p.id === projectId ? p.versions.find(v => v.id === versionId) : undefined;
+        if (!version) return p;
+        return {
+            ...p,
+            ...version.state,
+            ...pushHistory(p.history, p.historyIndex, version.state, historyLimit, `Restaurou a versão "${version.name}"`),
+            isDirty: true,
+        };
+    }));
+    setSelectedNodeIds(new Set()); setSelectedEdgeId(null); setSelectedAnnotationIds(new Set());
+    setVersionComparison(null);
+    handleOpenProject(projectId);
+  }, [historyLimit, handleOpenProject]);
+
+  const handleCompareVersion = useCallback((projectId: string, versionId: string) => {
+    setVersionComparison({ projectId, versionId });
+    handleOpenProject(projectId);
+  }, [handleOpenProject]);
+
+  // Colaboração em tempo real: a sessão vale para um projeto, que é sincronizado
+  // com a sala escolhida no servidor (ver server/collab-server.mjs).
+  useEffect(() => {
+    if (!collabSession) return;
+    const { projectId } = collabSession;
+    const client = createCollabClient({
+        url: collabSession.url,
+        room: collabSession.room,
+        clientId: createClientId(),
+        name: collabSession.name,
+        color: peerColors[Math.floor(Math.random() * peerColors.length)],
+        getLocalState: () => {
+            const p = projectsRef.current.find(p => p.id === projectId);
+            return p
+                ? { nodes: p.nodes, edges: p.edges, annotations: p.annotations, swimlanes: p.swimlanes, groups: p.groups }
+                : { nodes: [], edges: [], annotations: [], swimlanes: [], groups: [] };
+        },
+        onRemoteState: state => setProjects(prev => prev.map(p => p.id === projectId ? { ...p, ...state, isDirty: true } : p)),
+        onPeersChange: setCollabPeers,
+        onStatusChange: setCollabStatus,
+        onPendingChange: setCollabPendingCount,
+    });
+    collabClient.current = client;
+    return () => {
+        client.stop();
+        collabClient.current = null;
+        setCollabPeers([]);
+        setCollabPendingCount(0);
+    };
+  }, [collabSession]);
+
+  const collabProject = collabSession ? projects.find(p => p.id === collabSession.projectId) : undefined;
+
+  useEffect(() => {
+    if (collabSession && !collabProject) setCollabSession(null);
+  }, [collabSession, collabProject]);
+
+  useEffect(() => {
+    if (!collabProject) return;
+    collabClient.current?.pushLocalState({
+        nodes: collabProject.nodes,
+        edges: collabProject.edges,
+        annotations: collabProject.annotations,
+        swimlanes: collabProject.swimlanes,
+        groups: collabProject.groups,
+    });
+  }, [collabProject?.nodes, collabProject?.edges, collabProject?.annotations, collabProject?.swimlanes, collabProject?.groups]);
+
+  const isCollabProjectActive = !!collabSession && collabSession.projectId === activeProjectId;
+
+  useEffect(() => {
+    collabClient.current?.updatePresence(isCollabProjectActive ? { selection: Array.from(selectedNodeIds) } : { selection: [], cursor: null });
+  }, [collabSession, isCollabProjectActive, selectedNodeIds]);
+
+  const handleCollabCursorMove = useCallback((position: Position | null) => {
+    collabClient.current?.updatePresence({ cursor: position && { x: position.x, y: position.y } });
+  }, []);
+
+  const handleStartCollaboration = useCallback((settings: CollabSessionSettings) => {
+    if (!activeProjectId) return;
+    setUserName(settings.name);
+    setCollabSession({ ...settings, projectId: activeProjectId });
+  }, [activeProjectId]);
+
+  // Comentários de revisão do projeto ativo. Não entram no histórico de desfazer.
+  const updateComments = useCallback((updater: (threads: CommentThread[]) => CommentThread[]) => {
+    updateActiveProject(p => ({ ...p, comments: updater(p.comments), isDirty: true }));
+  }, [updateActiveProject]);
+
+  const commentAuthor = userName.trim() || 'Anônimo';
+
+  useEffect(() => {
+    setIsPlacingComment(false);
+    setCommentDraftTarget(null);
+    setActiveCommentThreadId(null);
+  }, [activeProjectId]);
+
+  const handlePlaceComment = useCallback((target: CommentTarget) => {
+    setIsPlacingComment(false);
+    setCommentDraftTarget(target);
+  }, []);
+
+  const handleCreateCommentThread = useCallback((text: string) => {
+    if (!commentDraftTarget) return;
+    const thread = createCommentThread(commentDraftTarget, commentAuthor, text);
+    updateComments(threads => [...threads, thread]);
+    setCommentDraftTarget(null);
+    setActiveCommentThreadId(thread.id);
+  }, [commentDraftTarget, commentAuthor, updateComments]);
+
+  const handleReplyComment = useCallback((threadId: string, text: string) => {
+    updateComments(threads => threads.map(t => t.id === threadId ? addCommentReply(t, commentAuthor, text) : t));
+  }, [commentAuthor, updateComments]);
+
+  const handleToggleCommentResolved = useCallback((threadId: string) => {
+    updateComments(threads => threads.map(t => t.id === threadId ? { ...t, resolved: t.resolved ? undefined : true } : t));
+  }, [updateComments]);
+
+  const handleDeleteCommentThread = useCallback((threadId: string) => {
+    if (!window.confirm('Excluir esta conversa e todas as respostas?')) return;
+    updateComments(threads => threads.filter(t => t.id !== threadId));
+    setActiveCommentThreadId(id => id === threadId ? null : id);
+  }, [updateComments]);
+
+  const handleSelectCommentThread = useCallback((threadId: string) => {
+    const thread = activeProject?.comments.find(t => t.id === threadId);
+    if (!thread) return;
+    setIsCommentsOpen(true);
+    setActiveCommentThreadId(threadId);
+    if (thread.target.kind === 'node') {
+        setFocusRequest({ nodeIds: [thread.target.id], key: Date.now() });
+    } else if (thread.target.kind === 'edge') {
+        setSelectedEdgeId(thread.target.id);
+    }
+  }, [activeProject]);
+
+  const handleOpenSubprocess = useCallback((node: NodeData) => {
+    if (!activeProjectId || !node.linkedProjectId) return;
+    if (!projects.some(p => p.id === node.linkedProjectId)) {
+        alert('O projeto vinculado a este subprocesso não existe mais.');
+        return;
+    }
+    setNavigationTrail(trail => extendNavigationTrail(trail, activeProjectId, node.linkedProjectId!));
+    setSelectedNodeIds(new Set());
+    setSelectedAnnotationIds(new Set());
+    setSelectedEdgeId(null);
+    handleOpenProject(node.linkedProjectId);
+  }, [activeProjectId, projects, handleOpenProject]);
+
+  // A trilha só vale enquanto o projeto ativo for o último passo dela.
+  useEffect(() => {
+    setNavigationTrail(trail => trail.length > 0 && trail[trail.length - 1] !== activeProjectId ? [] : trail);
+  }, [activeProjectId]);
+
+  const handleNavigateTrail = useCallback((index: number) => {
+    const projectId = navigationTrail[index];
+    if (!projectId) return;
+    setNavigationTrail(trail => trail.slice(0, index + 1));
+    handleOpenProject(projectId);
+  }, [navigationTrail, handleOpenProject]);
+
+  const projectNames = useMemo(() => new Map(projects.map(p => [p.id, p.name])), [projects]);
+  const breadcrumb = navigationTrail.length > 1 && navigationTrail[navigationTrail.length - 1] === activeProjectId
+    ? navigationTrail.map(id => ({ id, name: projectNames.get(id) }))
+    : [];
+
   const handleDeleteProject = useCallback((idToDelete: string) => {
     // This logic needs to be atomic to prevent inconsistent states.
     // We calculate the next state completely before setting it.
@@ -730,14 +1457,18 @@ const App: React.FC = () => {
 
   const handleSaveProject = useCallback(() => {
     if (!activeProjectId) return;
-    setProjects(currentProjects => {
-        const updatedProjects = currentProjects.map(p => 
-            p.id === activeProjectId ? { ...p, isDirty: false } : p
-        );
-        saveDataToLocalStorage(updatedProjects, openProjectIds, activeProjectId);
-        return updatedProjects;
-    });
-  }, [activeProjectId, openProjectIds]);
+    setProjects(currentProjects => currentProjects.map(p => 
+        p.id === activeProjectId ? { ...p, isDirty: false } : p
+    ));
+  }, [activeProjectId]);
+
+  if (!isStorageReady) {
+    return (
+      <div className="flex h-screen items-center justify-center font-sans bg-[var(--color-bg)] text-[var(--color-text-secondary)]">
+        Carregando projetos...
+      </div>
+    );
+  }
 
   return (
     <div className="flex h-screen font-sans bg-[var(--color-bg)] text-[var(--color-text-primary)] overflow-hidden" onClick={closeContextMenu}>
@@ -746,6 +1477,10 @@ const App: React.FC = () => {
               <h1 className="text-2xl font-bold text-[var(--color-accent)]">Criador de Fluxogramas</h1>
               <p className="text-sm text-[var(--color-text-secondary)] mt-1">Crie, visualize e edite seus processos.</p>
           </header>
+
+          <div className="border-b border-[var(--color-border)]">
+            <AiPanel onGenerate={handleGenerateFlowchart} isLoading={isGenerating} error={aiError} />
+          </div>
           
           <Sidebar 
             addNode={addNode} 
@@ -753,11 +1488,36 @@ const App: React.FC = () => {
             setAutoConnect={setAutoConnect}
             snapToGrid={snapToGrid}
             setSnapToGrid={setSnapToGrid}
+            edgeRouting={edgeRouting}
+            setEdgeRouting={setEdgeRouting}
             onExportPNG={handleExportPNG}
+            onExportSVG={handleExportSVG}
             onExportJSON={handleExportJSON}
             onImportJSON={handleImportJSON}
+            onExportMermaid={handleExportMermaid}
+            onImportMermaid={handleImportMermaid}
+            onExportDrawio={handleExportDrawio}
+            onImportDrawio={handleImportDrawio}
+            onExportBpmn={handleExportBpmn}
+            onImportBpmn={handleImportBpmn}
             onClear={handleClear}
+            onAutoLayout={handleAutoLayout}
+            onToggleValidation={() => setIsValidationOpen(open => !open)}
+            isValidationOpen={isValidationOpen}
+            onToggleHistory={() => setIsHistoryOpen(open => !open)}
+            isHistoryOpen={isHistoryOpen}
+            onToggleComments={() => setIsCommentsOpen(open => !open)}
+            isCommentsOpen={isCommentsOpen}
+            onToggleCollaboration={() => setIsCollaborationOpen(open => !open)}
+            isCollaborationOpen={isCollaborationOpen}
+            isCollaborating={collabSession !== null}
+            onToggleSimulation={handleToggleSimulation}
+            isSimulating={simulationSteps !== null}
+            onOpenCodeGenerator={() => setIsCodeModalOpen(true)}
             onAddAnnotation={addAnnotation}
+            onAddSwimlane={handleAddSwimlane}
+            onGroupSelection={handleCreateGroup}
+            canGroupSelection={selectedNodeIds.size > 0}
             theme={theme}
             setTheme={setTheme}
             onSaveProject={handleSaveProject}
@@ -767,6 +1527,17 @@ const App: React.FC = () => {
           
       </div>
       <main className="flex-1 flex flex-col relative bg-[var(--color-bg)]">
+         {storageError && (
+            <div className="flex items-center justify-between gap-4 px-4 py-2 text-sm text-red-200 bg-red-900/80 border-b border-red-700">
+                <span>{storageError}</span>
+                <button onClick={() => setStorageError(null)} className="font-semibold hover:text-white" aria-label="Fechar aviso">✕</button>
+            </div>
+         )}
+         {isActiveProjectOpenElsewhere && (
+            <div className="px-4 py-1.5 text-sm text-amber-200 bg-amber-900/70 border-b border-amber-700">
+                Este projeto também está aberto em outra aba. As alterações salvas em uma aba aparecem na outra automaticamente.
+            </div>
+         )}
          <Tabs 
             projects={openProjects}
             activeProjectId={activeProjectId}
@@ -775,11 +1546,33 @@ const App: React.FC = () => {
             onCloseProject={handleCloseProject}
             onRenameProject={handleRenameProject}
          />
+         {breadcrumb.length > 0 && (
+            <nav className="flex items-center gap-1 px-4 py-1.5 text-sm bg-[var(--color-bg-secondary)] border-b border-[var(--color-border)]" aria-label="Trilha de subprocessos">
+                {breadcrumb.map((step, index) => (
+                    <React.Fragment key={`${index}-${step.id}`}>
+                        {index > 0 && <span className="text-[var(--color-text-secondary)]">›</span>}
+                        {index === breadcrumb.length - 1 ? (
+                            <span className="font-semibold text-[var(--color-text-primary)]">{step.name ?? '(projeto excluído)'}</span>
+                        ) : (
+                            <button
+                                onClick={() => handleNavigateTrail(index)}
+                                disabled={!step.name}
+                                className="text-[var(--color-accent)] hover:underline disabled:text-[var(--color-text-secondary)] disabled:no-underline"
+                            >
+                                {step.name ?? '(projeto excluído)'}
+                            </button>
+                        )}
+                    </React.Fragment>
+                ))}
+            </nav>
+         )}
         <div className="flex-grow relative">
             <Canvas
               nodes={activeProject?.nodes || []}
               edges={activeProject?.edges || []}
               annotations={activeProject?.annotations || []}
+              swimlanes={activeProject?.swimlanes || []}
+              groups={activeProject?.groups || []}
               setNodes={setNodes}
               setEdges={setEdges}
               setAnnotations={setAnnotations}
@@ -791,26 +1584,153 @@ const App: React.FC = () => {
               updateAnnotationText={updateAnnotationText}
               updateAnnotationDimensions={updateAnnotationDimensions}
               deleteAnnotation={deleteAnnotation}
+              moveSwimlane={handleMoveSwimlane}
+              resizeSwimlaneLane={handleResizeLane}
+              resizeSwimlaneLength={handleResizeSwimlaneLength}
+              updateSwimlaneTitle={updateSwimlaneTitle}
+              updateLaneTitle={updateLaneTitle}
+              addSwimlaneLane={handleAddLane}
+              removeSwimlaneLane={handleRemoveLane}
+              deleteSwimlane={handleDeleteSwimlane}
+              moveGroup={handleMoveGroup}
+              updateGroupTitle={updateGroupTitle}
+              toggleGroupCollapsed={handleToggleGroup}
+              ungroup={handleUngroup}
               autoConnect={autoConnect}
               onOpenContextMenu={openContextMenu}
               selectedEdgeId={selectedEdgeId}
               setSelectedEdgeId={setSelectedEdgeId}
               deleteEdge={deleteEdge}
               updateEdgeLabel={updateEdgeLabel}
+              updateEdgeRouting={updateEdgeRouting}
+              updateEdgeWaypoints={updateEdgeWaypoints}
+              edgeRouting={edgeRouting}
               fontsLoaded={fontsLoaded}
               selectedNodeIds={selectedNodeIds}
               setSelectedNodeIds={setSelectedNodeIds}
               selectedAnnotationIds={selectedAnnotationIds}
               setSelectedAnnotationIds={setSelectedAnnotationIds}
               snapToGrid={snapToGrid}
+              focusRequest={focusRequest}
+              simulationNodeId={simulationNodeId}
+              projectNames={projectNames}
+              onOpenSubprocess={handleOpenSubprocess}
+              versionDiff={versionDiff}
+              remotePeers={isCollabProjectActive ? collabPeers : undefined}
+              onCursorMove={isCollabProjectActive ? handleCollabCursorMove : undefined}
+              comments={activeProject?.comments}
+              activeCommentThreadId={activeCommentThreadId}
+              onSelectCommentThread={handleSelectCommentThread}
+              onPlaceComment={isPlacingComment ? handlePlaceComment : undefined}
+              viewport={activeProjectId ? viewportsRef.current[activeProjectId] : undefined}
+              viewportKey={activeProjectId ?? undefined}
+              onViewportChange={handleViewportChange}
             />
+            {isSearchOpen && (
+                <SearchBar
+                    query={searchQuery}
+                    onQueryChange={handleSearchQueryChange}
+                    replacement={replaceText}
+                    onReplacementChange={setReplaceText}
+                    allProjects={searchAllProjects}
+                    onAllProjectsChange={handleSearchAllProjectsChange}
+                    matchCount={searchMatches.length}
+                    currentIndex={searchIndex}
+                    onNext={handleSearchNext}
+                    onPrevious={handleSearchPrevious}
+                    onReplace={handleReplaceCurrent}
+                    onReplaceAll={handleReplaceAll}
+                    onClose={() => setIsSearchOpen(false)}
+                    focusKey={searchFocusKey}
+                />
+            )}
+            {comparedVersion && versionDiff && (
+                <div className="absolute top-4 left-1/2 -translate-x-1/2 bg-[var(--color-bg-secondary)]/90 backdrop-blur-sm px-4 py-2 rounded-lg text-sm text-[var(--color-text-primary)] shadow-lg flex items-center gap-4 border border-[var(--color-border)]">
+                    <span>Comparando com a versão <strong>{comparedVersion.name}</strong></span>
+                    <span className="flex items-center gap-3 text-xs">
+                        <span style={{ color: diffColors.added }}>+{versionDiff.summary.added} incluídos</span>
+                        <span style={{ color: diffColors.removed }}>−{versionDiff.summary.removed} removidos</span>
+                        <span style={{ color: diffColors.changed }}>~{versionDiff.summary.changed} alterados</span>
+                    </span>
+                    <button onClick={() => setVersionComparison(null)} className="font-semibold text-[var(--color-accent)] hover:opacity-80">Encerrar</button>
+                </div>
+            )}
             <div className="absolute bottom-4 right-4 bg-[var(--color-bg-secondary)]/80 backdrop-blur-sm p-3 rounded-lg text-xs text-[var(--color-text-secondary)] shadow-lg flex items-center gap-6 border border-[var(--color-border)]">
                 <div className="flex items-center gap-2"><StartIcon className="w-4 h-4 text-green-400"/> Início/Fim</div>
                 <div className="flex items-center gap-2"><ProcessIcon className="w-4 h-4 text-blue-400"/> Processo</div>
                 <div className="flex items-center gap-2"><DecisionIcon className="w-4 h-4 text-purple-400"/> Decisão</div>
+                <div className="flex items-center gap-2"><SubprocessIcon className="w-4 h-4 text-teal-400"/> Subprocesso</div>
             </div>
         </div>
       </main>
+      {simulationSteps && activeProject && (
+        <SimulationPanel
+          data={activeProject}
+          steps={simulationSteps}
+          onAdvance={edge => setSimulationSteps(steps => steps && advanceSimulation(steps, edge))}
+          onBack={() => setSimulationSteps(steps => steps && steps.length > 1 ? steps.slice(0, -1) : steps)}
+          onRestart={handleRestartSimulation}
+          onJumpTo={index => setSimulationSteps(steps => steps && steps.slice(0, index + 1))}
+          onExport={handleExportSimulation}
+          onClose={() => setSimulationSteps(null)}
+        />
+      )}
+      {isValidationOpen && (
+        <ValidationPanel
+          issues={validationIssues}
+          onSelectIssue={handleSelectIssue}
+          onClose={() => setIsValidationOpen(false)}
+        />
+      )}
+      {isHistoryOpen && activeProject && (
+        <HistoryPanel
+          entries={activeProject.history}
+          currentIndex={activeProject.historyIndex}
+          onJump={handleJumpToHistory}
+          limit={historyLimit}
+          onLimitChange={setHistoryLimit}
+          onClose={() => setIsHistoryOpen(false)}
+        />
+      )}
+      {isCommentsOpen && activeProject && (
+        <CommentsPanel
+          threads={activeProject.comments}
+          nodes={activeProject.nodes}
+          edges={activeProject.edges}
+          authorName={userName}
+          onAuthorNameChange={setUserName}
+          isPlacing={isPlacingComment}
+          onTogglePlacing={() => setIsPlacingComment(placing => !placing)}
+          draftTarget={commentDraftTarget}
+          onCreateThread={handleCreateCommentThread}
+          onCancelDraft={() => setCommentDraftTarget(null)}
+          onReply={handleReplyComment}
+          onToggleResolved={handleToggleCommentResolved}
+          onDeleteThread={handleDeleteCommentThread}
+          activeThreadId={activeCommentThreadId}
+          onSelectThread={handleSelectCommentThread}
+          includeInImages={includeCommentsInImages}
+          onIncludeInImagesChange={setIncludeCommentsInImages}
+          onClose={() => {
+            setIsCommentsOpen(false);
+            setIsPlacingComment(false);
+          }}
+        />
+      )}
+      {isCollaborationOpen && (
+        <CollaborationPanel
+          session={collabSession}
+          sessionProjectName={collabProject?.name ?? null}
+          status={collabStatus}
+          peers={collabPeers}
+          pendingCount={collabPendingCount}
+          defaultRoom={activeProjectId}
+          defaultName={userName}
+          onStart={handleStartCollaboration}
+          onStop={() => setCollabSession(null)}
+          onClose={() => setIsCollaborationOpen(false)}
+        />
+      )}
       {contextMenu && createPortal(
         <ContextMenu
             x={contextMenu.x}
@@ -823,6 +1743,9 @@ const App: React.FC = () => {
             onChangeColor={updateNodeColor}
             onResetSize={resetNodeSize}
             onAddChild={handleAddChild}
+            projects={projects}
+            currentProjectId={activeProjectId}
+            onLinkProject={linkNodeToProject}
         />,
         document.body
       )}
@@ -834,6 +1757,15 @@ const App: React.FC = () => {
             handlePaste();
         }}
       />
+      {activeProject && (
+        <CodeGenerationModal
+          isOpen={isCodeModalOpen}
+          onClose={() => setIsCodeModalOpen(false)}
+          data={activeProject}
+          projectName={activeProject.name}
+          onDownload={handleDownloadCode}
+        />
+      )}
       <ProjectManagerModal
         isOpen={isProjectManagerOpen}
         onClose={() => setIsProjectManagerOpen(false)}
@@ -845,6 +1777,10 @@ const App: React.FC = () => {
             handleAddProject();
             setIsProjectManagerOpen(false);
         }}
+        onSaveVersion={handleSaveVersion}
+        onRestoreVersion={handleRestoreVersion}
+        onCompareVersion={handleCompareVersion}
+        onDeleteVersion={handleDeleteVersion}
       />
     </div>
   );
@@ -1,23 +1,26 @@
 import React, { useState } from 'react';
 
+export type AiInsertTarget = 'current' | 'new';
+
 interface AiPanelProps {
-  onGenerate: (prompt: string) => void;
+  onGenerate: (prompt: string, target: AiInsertTarget) => void;
   isLoading: boolean;
   error: string | null;
 }
 
 const AiPanel: React.FC<AiPanelProps> = ({ onGenerate, isLoading, error }) => {
   const [prompt, setPrompt] = useState('');
+  const [target, setTarget] = useState<AiInsertTarget>('new');
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (prompt.trim()) {
-      onGenerate(prompt);
+      onGenerate(prompt, target);
     }
   };
 
   return (
-    <div className="p-4 flex-grow flex flex-col">
+    <div className="p-4 flex flex-col">
       <form onSubmit={handleSubmit} className="flex flex-col h-full">
         <label htmlFor="prompt" className="mb-2 font-semibold text-gray-300">
           Descreva seu processo
@@ -31,6 +34,16 @@ const AiPanel: React.FC<AiPanelProps> = ({ onGenerate, isLoading, error }) => {
           rows={6}
           disabled={isLoading}
         />
+        <div className="mt-3 flex items-center gap-4 text-sm text-gray-300">
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input type="radio" name="ai-target" checked={target === 'new'} onChange={() => setTarget('new')} disabled={isLoading} />
+            Nova aba
+          </label>
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input type="radio" name="ai-target" checked={target === 'current'} onChange={() => setTarget('current')} disabled={isLoading} />
+            Projeto atual
+          </label>
+        </div>
         <button
           type="submit"
           disabled={isLoading || !prompt.trim()}
@@ -9,7 +9,7 @@ interface AnnotationProps {
   onTextChange: (id: string, text: string) => void;
   onSizeChange: (id: string, dimensions: { width: number; height: number }) => void;
   onDelete: (id: string) => void;
-  onMouseDown: (e: React.MouseEvent) => void;
+  onMouseDown: (e: React.MouseEvent, id: string) => void;
   isSelected: boolean;
   viewZoom: number;
   fontsLoaded: boolean;
@@ -90,7 +90,7 @@ const Annotation: React.FC<AnnotationProps> = ({
             return;
         }
         e.stopPropagation();
-        onMouseDown(e);
+        onMouseDown(e, data.id);
     };
 
     const handleResizeMouseDown = (e: React.MouseEvent, handle: string) => {
@@ -282,4 +282,4 @@ const Annotation: React.FC<AnnotationProps> = ({
     );
 };
 
-export default Annotation;
\ No newline at end of file
+export default React.memo(Annotation);
\ No newline at end of file
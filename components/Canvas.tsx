@@ -1,9 +1,25 @@
 
-import React, { useState, useRef, useCallback, useEffect } from 'react';
-import { NodeData, EdgeData, Position, AnnotationData } from '../types';
+import React, { useState, useRef, useCallback, useEffect, useMemo } from 'react';
+import { NodeData, EdgeData, EdgeRouting, Position, AnnotationData, SwimlaneData, GroupData, CommentThread, CommentTarget, Viewport } from '../types';
 import Node from './Node';
-import Edge, { getClosestConnection, getCurvePath, getConnectionPoints } from './Edge';
+import Edge from './Edge';
 import Annotation from './Annotation';
+import Swimlane from './Swimlane';
+import Group from './Group';
+import VersionDiffOverlay from './VersionDiffOverlay';
+import RemotePresenceOverlay from './RemotePresenceOverlay';
+import CommentBadges from './CommentBadges';
+import Minimap, { MINIMAP_HEIGHT, MINIMAP_MARGIN } from './Minimap';
+import ZoomControls from './ZoomControls';
+import { assignNodesToLanes } from '../services/swimlaneService';
+import { applyCollapsedGroups, getGroupDisplayRect, ANNOTATION_DEFAULT } from '../services/groupService';
+import { defaultDimensions, getNodeSize } from '../services/flowchartUtils';
+import { VersionDiff } from '../services/versionService';
+import { getFlowchartBounds } from '../services/svgExportService';
+import { SpatialIndex, createSpatialIndex, expandRect, pointRect } from '../services/spatialIndex';
+import { getClosestConnection, getConnectionPoints, getCurvePath, getEdgeBoundsEstimate, getEdgeGeometry } from '../services/edgeRoutingService';
+import { Rect } from '../services/swimlaneService';
+import { CollabPeer } from '../services/collabClient';
 
 type SnapTarget = {
     edgeId: string;
@@ -24,18 +40,25 @@ type SnapHandle = {
 
 const CROWDED_THRESHOLD = 250; 
 const SNAP_DISTANCE = 30; // Distância em pixels para ativar o "ímã" da conexão
-
-const defaultDimensions = {
-    start: { width: 150, height: 60 },
-    end: { width: 150, height: 60 },
-    process: { width: 150, height: 70 },
-    decision: { width: 160, height: 100 },
-};
+const MIN_READABLE_ZOOM = 0.6;
+const MIN_ZOOM = 0.2;
+const MAX_ZOOM = 3;
+const ZOOM_STEP = 1.2;
+const FIT_PADDING = 40;
+const DEFAULT_VIEW: Viewport = { x: 0, y: 0, zoom: 1 };
+// Itens até esta distância da tela (em pixels) continuam desenhados, para que
+// apareçam já prontos ao mover a visualização.
+const CULLING_MARGIN = 200;
+const EDGE_SNAP_DISTANCE = 35;
+
+const clampZoom = (zoom: number) => Math.max(MIN_ZOOM, Math.min(zoom, MAX_ZOOM));
 
 interface CanvasProps {
   nodes: NodeData[];
   edges: EdgeData[];
   annotations: AnnotationData[];
+  swimlanes: SwimlaneData[];
+  groups: GroupData[];
   setNodes: React.Dispatch<React.SetStateAction<NodeData[]>>;
   setEdges: React.Dispatch<React.SetStateAction<EdgeData[]>>;
   setAnnotations: React.Dispatch<React.SetStateAction<AnnotationData[]>>;
@@ -47,29 +70,112 @@ interface CanvasProps {
   updateAnnotationText: (id: string, text: string) => void;
   updateAnnotationDimensions: (id: string, dimensions: { width: number; height: number }) => void;
   deleteAnnotation: (id: string) => void;
+  moveSwimlane: (id: string, position: Position) => void;
+  resizeSwimlaneLane: (id: string, laneId: string, size: number) => void;
+  resizeSwimlaneLength: (id: string, length: number) => void;
+  updateSwimlaneTitle: (id: string, title: string) => void;
+  updateLaneTitle: (id: string, laneId: string, title: string) => void;
+  addSwimlaneLane: (id: string) => void;
+  removeSwimlaneLane: (id: string, laneId: string) => void;
+  deleteSwimlane: (id: string) => void;
+  moveGroup: (id: string, position: Position) => void;
+  updateGroupTitle: (id: string, title: string) => void;
+  toggleGroupCollapsed: (id: string) => void;
+  ungroup: (id: string) => void;
   autoConnect: boolean;
   onOpenContextMenu: (x: number, y: number, node: NodeData) => void;
   selectedEdgeId: string | null;
   setSelectedEdgeId: (id: string | null) => void;
   deleteEdge: (id: string) => void;
   updateEdgeLabel: (id: string, label: string) => void;
+  updateEdgeRouting: (id: string, routing?: EdgeRouting) => void;
+  updateEdgeWaypoints: (id: string, waypoints?: Position[]) => void;
+  edgeRouting: EdgeRouting;
   fontsLoaded: boolean;
   selectedNodeIds: Set<string>;
   setSelectedNodeIds: React.Dispatch<React.SetStateAction<Set<string>>>;
   selectedAnnotationIds: Set<string>;
   setSelectedAnnotationIds: React.Dispatch<React.SetStateAction<Set<string>>>;
   snapToGrid: boolean;
+  focusRequest?: { nodeIds: string[]; edgeIds?: string[]; annotationIds?: string[]; key: number } | null;
+  simulationNodeId?: string | null;
+  projectNames?: Map<string, string>;
+  onOpenSubprocess?: (node: NodeData) => void;
+  versionDiff?: VersionDiff | null;
+  remotePeers?: CollabPeer[];
+  onCursorMove?: (position: Position | null) => void;
+  comments?: CommentThread[];
+  activeCommentThreadId?: string | null;
+  onSelectCommentThread?: (threadId: string) => void;
+  // Quando definido, o próximo clique escolhe onde prender um novo comentário.
+  onPlaceComment?: (target: CommentTarget) => void;
+  // Visualização salva do projeto exibido; é restaurada quando viewportKey muda.
+  viewport?: Viewport;
+  viewportKey?: string;
+  onViewportChange?: (key: string, viewport: Viewport) => void;
 }
 
 const Canvas: React.FC<CanvasProps> = ({ 
-    nodes, edges, annotations, setNodes, setEdges, setAnnotations,
+    nodes: allNodes, edges: allEdges, annotations: allAnnotations, swimlanes, groups, setNodes, setEdges, setAnnotations,
     updateNodePosition, updateNodeText, updateNodeDimensions, deleteNode, 
     updateAnnotationPosition, updateAnnotationText, updateAnnotationDimensions, deleteAnnotation,
+    moveSwimlane, resizeSwimlaneLane, resizeSwimlaneLength, updateSwimlaneTitle, updateLaneTitle,
+    addSwimlaneLane, removeSwimlaneLane, deleteSwimlane,
+    moveGroup, updateGroupTitle, toggleGroupCollapsed, ungroup,
     autoConnect, onOpenContextMenu,
-    selectedEdgeId, setSelectedEdgeId, deleteEdge, updateEdgeLabel,
-    fontsLoaded, selectedNodeIds, setSelectedNodeIds, selectedAnnotationIds, setSelectedAnnotationIds, snapToGrid
+    selectedEdgeId, setSelectedEdgeId, deleteEdge, updateEdgeLabel, updateEdgeRouting, updateEdgeWaypoints, edgeRouting,
+    fontsLoaded, selectedNodeIds, setSelectedNodeIds, selectedAnnotationIds, setSelectedAnnotationIds, snapToGrid, focusRequest, simulationNodeId,
+    projectNames, onOpenSubprocess, versionDiff, remotePeers, onCursorMove,
+    comments, activeCommentThreadId, onSelectCommentThread, onPlaceComment,
+    viewport, viewportKey, onViewportChange
 }) => {
-    const [view, setView] = useState({ x: 0, y: 0, zoom: 1 });
+    // Membros de grupos recolhidos ficam fora do canvas; suas conexões passam a
+    // apontar para o bloco provisório do grupo, que só as arestas enxergam.
+    const { nodes, edges, annotations, placeholders } = useMemo(
+        () => applyCollapsedGroups(allNodes, allEdges, allAnnotations, groups),
+        [allNodes, allEdges, allAnnotations, groups]
+    );
+    const edgeNodes = useMemo(() => placeholders.length > 0 ? [...nodes, ...placeholders] : nodes, [nodes, placeholders]);
+
+    // Índices espaciais para encontrar os itens na tela, sob o cursor ou na caixa de
+    // seleção sem percorrer o fluxograma inteiro a cada movimento do mouse.
+    const nodeById = useMemo(() => new Map(nodes.map(node => [node.id, node])), [nodes]);
+    const nodeIndex = useMemo(() => createSpatialIndex(nodes.map(node => ({
+        rect: { x: node.position.x, y: node.position.y, ...getNodeSize(node) },
+        item: node,
+    }))), [nodes]);
+    const annotationIndex = useMemo(() => createSpatialIndex(annotations.map(annotation => ({
+        rect: {
+            x: annotation.position.x,
+            y: annotation.position.y,
+            width: annotation.width ?? ANNOTATION_DEFAULT.width,
+            height: annotation.height ?? ANNOTATION_DEFAULT.height,
+        },
+        item: annotation,
+    }))), [annotations]);
+    const edgeNodeById = useMemo(() => new Map<string, NodeData>(edgeNodes.map(node => [node.id, node])), [edgeNodes]);
+    const edgeNodeIndex = useMemo(() => placeholders.length === 0 ? nodeIndex : createSpatialIndex(edgeNodes.map(node => ({
+        rect: { x: node.position.x, y: node.position.y, ...getNodeSize(node) },
+        item: node,
+    }))), [nodeIndex, edgeNodes, placeholders]);
+    const getEdgeBounds = useCallback((edge: EdgeData) => {
+        const source = edgeNodeById.get(edge.source);
+        const target = edgeNodeById.get(edge.target);
+        return source && target ? getEdgeBoundsEstimate(source, target, edge.waypoints) : null;
+    }, [edgeNodeById]);
+    const edgeIndex = useMemo(() => createSpatialIndex(edges.flatMap(edge => {
+        const rect = getEdgeBounds(edge);
+        return rect ? [{ rect, item: edge }] : [];
+    })), [edges, getEdgeBounds]);
+    // Blocos que podem influenciar o traçado de uma conexão (as pontas e os que o
+    // traçado ortogonal contorna): só os próximos a ela, e não o fluxograma inteiro.
+    const getEdgeObstacles = useCallback((edge: EdgeData) => {
+        const rect = getEdgeBounds(edge);
+        return rect ? edgeNodeIndex.search(rect) : edgeNodes;
+    }, [getEdgeBounds, edgeNodeIndex, edgeNodes]);
+
+    const [view, setView] = useState<Viewport>(viewport ?? DEFAULT_VIEW);
+    const [canvasSize, setCanvasSize] = useState({ width: 0, height: 0 });
     const [isPanning, setIsPanning] = useState(false);
     const [lastMousePosition, setLastMousePosition] = useState<Position | null>(null);
 
@@ -83,6 +189,8 @@ const Canvas: React.FC<CanvasProps> = ({
       startMousePos: Position;
       nodeStartPositions: Map<string, Position>;
       annotationStartPositions: Map<string, Position>;
+      // Pontos intermediários das conexões com as duas pontas na seleção.
+      edgeStartWaypoints: Map<string, Position[]>;
       primaryDragId: string;
     } | null>(null);
 
@@ -142,14 +250,52 @@ const Canvas: React.FC<CanvasProps> = ({
             if (ann) annotationStartPositions.set(aid, ann.position);
         });
         
+        const edgeStartWaypoints = new Map<string, Position[]>();
+        edges.forEach(edge => {
+            if (edge.waypoints?.length && newSelectedNodes.has(edge.source) && newSelectedNodes.has(edge.target)) {
+                edgeStartWaypoints.set(edge.id, edge.waypoints);
+            }
+        });
+        
         setDragInfo({
             startMousePos: getSVGPoint(e),
             nodeStartPositions,
             annotationStartPositions,
+            edgeStartWaypoints,
             primaryDragId: id,
         });
     };
 
+    // Blocos e anotações são memorizados; estes atalhos estáveis evitam que todos
+    // sejam redesenhados a cada renderização do canvas.
+    const itemMouseDownRef = useRef(handleItemMouseDown);
+    itemMouseDownRef.current = handleItemMouseDown;
+    const handleNodeMouseDown = useCallback((e: React.MouseEvent, id: string) => itemMouseDownRef.current(e, id, 'node'), []);
+    const handleAnnotationMouseDown = useCallback((e: React.MouseEvent, id: string) => itemMouseDownRef.current(e, id, 'annotation'), []);
+    const handleNodeInteractionStart = useCallback(() => {
+        setSelectedEdgeId(null);
+        setSelectedAnnotationIds(new Set());
+    }, [setSelectedEdgeId, setSelectedAnnotationIds]);
+
+    // No modo de novo comentário, o clique prende a conversa ao bloco, à conexão ou
+    // ao ponto do canvas sob o cursor, sem iniciar nenhuma outra interação.
+    const handlePlaceComment = (e: React.MouseEvent<SVGSVGElement>) => {
+        const target = e.target instanceof Element ? e.target : null;
+        if (!onPlaceComment || e.button !== 0 || target?.closest('.minimap')) return;
+        e.stopPropagation();
+        e.preventDefault();
+        const nodeElement = target?.closest('.node-group');
+        const edgeElement = target?.closest('[data-edge-id]');
+        if (nodeElement && nodes.some(n => n.id === nodeElement.id)) {
+            onPlaceComment({ kind: 'node', id: nodeElement.id });
+        } else if (edgeElement) {
+            onPlaceComment({ kind: 'edge', id: edgeElement.getAttribute('data-edge-id')! });
+        } else {
+            const { x, y } = getSVGPoint(e);
+            onPlaceComment({ kind: 'point', position: { x, y } });
+        }
+    };
+
     const handleMouseDown = (e: React.MouseEvent<SVGSVGElement>) => {
         const target = e.target;
         if (!(target instanceof Element)) return;
@@ -187,6 +333,7 @@ const Canvas: React.FC<CanvasProps> = ({
         }
 
         const currentMousePos = getSVGPoint(e);
+        onCursorMove?.(currentMousePos);
 
         if (connecting || reconnecting) {
             // Lógica de "ímã" (Snapping) para conexão
@@ -197,7 +344,7 @@ const Canvas: React.FC<CanvasProps> = ({
             const sourceId = connecting?.sourceId || 
                            (reconnecting?.handle === 'source' ? edges.find(ed => ed.id === reconnecting.edgeId)?.target : edges.find(ed => ed.id === reconnecting.edgeId)?.source);
 
-            nodes.forEach(node => {
+            nodeIndex.search(pointRect(currentMousePos.x, currentMousePos.y, SNAP_DISTANCE)).forEach(node => {
                 if (node.id === sourceId) return; // Não conectar no próprio nó
                 
                 const points = getConnectionPoints(node);
@@ -226,7 +373,7 @@ const Canvas: React.FC<CanvasProps> = ({
                 if (edge) {
                     const isSourceHandle = reconnecting.handle === 'source';
                     const fixedNodeId = isSourceHandle ? edge.target : edge.source;
-                    const fixedNode = nodes.find(n => n.id === fixedNodeId);
+                    const fixedNode = nodeById.get(fixedNodeId);
                     
                     if (fixedNode) {
                         const fixedPoints = getConnectionPoints(fixedNode);
@@ -276,6 +423,13 @@ const Canvas: React.FC<CanvasProps> = ({
                     if (startPos) return { ...ann, position: { x: startPos.x + finalDx, y: startPos.y + finalDy } };
                     return ann;
                  }));
+                 if (dragInfo.edgeStartWaypoints.size > 0) {
+                    setEdges(currentEdges => currentEdges.map(edge => {
+                        const startWaypoints = dragInfo.edgeStartWaypoints.get(edge.id);
+                        if (startWaypoints) return { ...edge, waypoints: startWaypoints.map(p => ({ x: p.x + finalDx, y: p.y + finalDy })) };
+                        return edge;
+                    }));
+                 }
 
                  if (snapTarget) setSnapTarget(null);
                  if (displacedNodeInfo) setDisplacedNodeInfo(null);
@@ -334,8 +488,13 @@ const Canvas: React.FC<CanvasProps> = ({
         } else {
             if (snapTarget) setSnapTarget(null);
         }
+        // Os blocos soltos passam a pertencer à raia sob o seu centro.
+        if (dragInfo.nodeStartPositions.size > 0 && swimlanes.length > 0) {
+            const movedIds = new Set<string>(dragInfo.nodeStartPositions.keys());
+            setNodes(currentNodes => assignNodesToLanes(currentNodes, swimlanes, movedIds));
+        }
         setDragInfo(null);
-    }, [dragInfo, handleSingleNodeDragEnd, snapTarget]);
+    }, [dragInfo, handleSingleNodeDragEnd, snapTarget, swimlanes, setNodes]);
 
     const finishConnecting = useCallback((targetId: string, targetHandleIndex?: number) => {
         if (connecting && connecting.sourceId !== targetId) {
@@ -434,8 +593,9 @@ const Canvas: React.FC<CanvasProps> = ({
             const y2 = Math.max(start.y, end.y);
 
             if (Math.abs(start.x - end.x) > 5 || Math.abs(start.y - end.y) > 5) {
+                const area = { x: x1, y: y1, width: x2 - x1, height: y2 - y1 };
                 const newlySelectedNodes = new Set<string>(selectedNodeIds);
-                nodes.forEach(node => {
+                nodeIndex.search(area).forEach(node => {
                     const nodeWidth = node.width || defaultDimensions[node.type].width;
                     const nodeHeight = node.height || defaultDimensions[node.type].height;
                     if (node.position.x < x2 && node.position.x + nodeWidth > x1 &&
@@ -446,7 +606,7 @@ const Canvas: React.FC<CanvasProps> = ({
                 setSelectedNodeIds(newlySelectedNodes);
 
                 const newlySelectedAnns = new Set<string>(selectedAnnotationIds);
-                annotations.forEach(ann => {
+                annotationIndex.search(area).forEach(ann => {
                     if (ann.position.x < x2 && ann.position.x + (ann.width || 100) > x1 &&
                         ann.position.y < y2 && ann.position.y + (ann.height || 80) > y1) {
                         newlySelectedAnns.add(ann.id);
@@ -470,7 +630,7 @@ const Canvas: React.FC<CanvasProps> = ({
             setPreviewLine(null);
             setSnapHandle(null);
         }
-    }, [isPanning, endDrag, selectionBox, connecting, reconnecting, finishConnecting, finishReconnecting, nodes, annotations, selectedNodeIds, setSelectedNodeIds, selectedAnnotationIds, setSelectedAnnotationIds, snapHandle]);
+    }, [isPanning, endDrag, selectionBox, connecting, reconnecting, finishConnecting, finishReconnecting, nodeIndex, annotationIndex, selectedNodeIds, setSelectedNodeIds, selectedAnnotationIds, setSelectedAnnotationIds, snapHandle]);
 
 
     const getSVGPointFromEvent = useCallback((e: globalThis.MouseEvent): Position => {
@@ -490,22 +650,9 @@ const Canvas: React.FC<CanvasProps> = ({
 
         const handleGlobalMouseUp = (e: globalThis.MouseEvent) => {
             const point = getSVGPointFromEvent(e);
-            let targetNodeId: string | null = null;
-            
-            // Iterate backwards to find the top-most node
-            for (let i = nodes.length - 1; i >= 0; i--) {
-                const node = nodes[i];
-                const nodeWidth = node.width ?? defaultDimensions[node.type].width;
-                const nodeHeight = node.height ?? defaultDimensions[node.type].height;
-                
-                if (
-                    point.x >= node.position.x && point.x <= node.position.x + nodeWidth &&
-                    point.y >= node.position.y && point.y <= node.position.y + nodeHeight
-                ) {
-                    targetNodeId = node.id;
-                    break;
-                }
-            }
+            // O último bloco sob o cursor é o que está por cima.
+            const hits = nodeIndex.search(pointRect(point.x, point.y));
+            const targetNodeId = hits.length > 0 ? hits[hits.length - 1].id : null;
             
             handleEndInteraction(targetNodeId);
         };
@@ -517,8 +664,85 @@ const Canvas: React.FC<CanvasProps> = ({
         return () => {
             window.removeEventListener('mouseup', handleGlobalMouseUp);
         };
-    }, [connecting, reconnecting, dragInfo, selectionBox, isPanning, nodes, getSVGPointFromEvent, handleEndInteraction]);
+    }, [connecting, reconnecting, dragInfo, selectionBox, isPanning, nodeIndex, getSVGPointFromEvent, handleEndInteraction]);
+
+
+    // Ao trocar de projeto, guarda a visualização do anterior e restaura a do novo.
+    // Fica antes do efeito de foco, que pode reposicionar a visualização restaurada.
+    const viewRef = useRef(view);
+    viewRef.current = view;
+    const shownViewportKey = useRef(viewportKey);
+    useEffect(() => {
+        if (shownViewportKey.current === viewportKey) return;
+        if (shownViewportKey.current) onViewportChange?.(shownViewportKey.current, viewRef.current);
+        shownViewportKey.current = viewportKey;
+        setView(viewport ?? DEFAULT_VIEW);
+    }, [viewportKey]);
+
+    useEffect(() => {
+        if (!viewportKey || !onViewportChange) return;
+        const timeout = window.setTimeout(() => onViewportChange(viewportKey, view), 300);
+        return () => clearTimeout(timeout);
+    }, [view]);
+
+    // Centraliza a visualização nos itens pedidos (ex: ao clicar em um problema da
+    // validação ou ao percorrer os resultados da busca). Se estiverem pequenos demais
+    // para ler, ou não couberem na tela, o zoom também é ajustado.
+    useEffect(() => {
+        if (!focusRequest || !canvasRef.current) return;
+        let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+        const include = (x: number, y: number, width: number, height: number) => {
+            minX = Math.min(minX, x); minY = Math.min(minY, y);
+            maxX = Math.max(maxX, x + width); maxY = Math.max(maxY, y + height);
+        };
+        nodes.filter(n => focusRequest.nodeIds.includes(n.id)).forEach(node => {
+            const width = node.width ?? defaultDimensions[node.type].width;
+            const height = node.height ?? defaultDimensions[node.type].height;
+            include(node.position.x, node.position.y, width, height);
+        });
+        annotations.filter(a => focusRequest.annotationIds?.includes(a.id)).forEach(annotation => {
+            include(annotation.position.x, annotation.position.y, annotation.width ?? ANNOTATION_DEFAULT.width, annotation.height ?? ANNOTATION_DEFAULT.height);
+        });
+        edges.filter(e => focusRequest.edgeIds?.includes(e.id)).forEach(edge => {
+            const source = edgeNodes.find(n => n.id === edge.source);
+            const target = edgeNodes.find(n => n.id === edge.target);
+            if (!source || !target) return;
+            const { labelPos } = getEdgeGeometry(edge, source, target, autoConnect, edgeRouting, edgeNodes);
+            include(labelPos.x - 40, labelPos.y - 20, 80, 40);
+        });
+        if (!isFinite(minX)) return;
+        const rect = canvasRef.current.getBoundingClientRect();
+        setView(prev => {
+            const fitZoom = Math.min(rect.width / (maxX - minX + 120), rect.height / (maxY - minY + 120));
+            const zoom = clampZoom(Math.min(prev.zoom < MIN_READABLE_ZOOM ? 1 : prev.zoom, fitZoom));
+            return {
+                zoom,
+                x: rect.width / 2 - ((minX + maxX) / 2) * zoom,
+                y: rect.height / 2 - ((minY + maxY) / 2) * zoom,
+            };
+        });
+    }, [focusRequest]);
 
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        if (!canvas) return;
+        const observer = new ResizeObserver(() => {
+            const rect = canvas.getBoundingClientRect();
+            setCanvasSize({ width: rect.width, height: rect.height });
+        });
+        observer.observe(canvas);
+        return () => observer.disconnect();
+    }, []);
+
+    const centerViewOn = useCallback((point: Position) => {
+        if (!canvasRef.current) return;
+        const rect = canvasRef.current.getBoundingClientRect();
+        setView(prev => ({
+            ...prev,
+            x: rect.width / 2 - point.x * prev.zoom,
+            y: rect.height / 2 - point.y * prev.zoom,
+        }));
+    }, []);
 
     const handleWheel = (e: React.WheelEvent<SVGSVGElement>) => {
         e.preventDefault();
@@ -527,13 +751,81 @@ const Canvas: React.FC<CanvasProps> = ({
         
         setView(prev => {
             const newZoom = e.deltaY < 0 ? prev.zoom * zoomFactor : prev.zoom / zoomFactor;
-            const clampedZoom = Math.max(0.2, Math.min(newZoom, 3));
+            const clampedZoom = clampZoom(newZoom);
             const newX = x - (x - prev.x) * (clampedZoom / prev.zoom);
             const newY = y - (y - prev.y) * (clampedZoom / prev.zoom);
             return { zoom: clampedZoom, x: newX, y: newY };
         });
     };
 
+    // Zoom pelos controles e atalhos: mantém fixo o centro da tela.
+    const zoomAroundCenter = useCallback((getZoom: (zoom: number) => number) => {
+        if (!canvasRef.current) return;
+        const rect = canvasRef.current.getBoundingClientRect();
+        const centerX = rect.width / 2;
+        const centerY = rect.height / 2;
+        setView(prev => {
+            const zoom = clampZoom(getZoom(prev.zoom));
+            return {
+                zoom,
+                x: centerX - (centerX - prev.x) * (zoom / prev.zoom),
+                y: centerY - (centerY - prev.y) * (zoom / prev.zoom),
+            };
+        });
+    }, []);
+
+    const fitBounds = useCallback((bounds: Rect | null) => {
+        if (!bounds || !canvasRef.current) return;
+        const rect = canvasRef.current.getBoundingClientRect();
+        const zoom = clampZoom(Math.min(
+            (rect.width - FIT_PADDING * 2) / Math.max(bounds.width, 1),
+            (rect.height - FIT_PADDING * 2) / Math.max(bounds.height, 1)
+        ));
+        setView({
+            zoom,
+            x: rect.width / 2 - (bounds.x + bounds.width / 2) * zoom,
+            y: rect.height / 2 - (bounds.y + bounds.height / 2) * zoom,
+        });
+    }, []);
+
+    const hasSelection = selectedNodeIds.size > 0 || selectedAnnotationIds.size > 0 || !!selectedEdgeId;
+
+    const handleFitAll = useCallback(() => {
+        fitBounds(getFlowchartBounds({ nodes: allNodes, edges: allEdges, annotations: allAnnotations, swimlanes, groups }, autoConnect, edgeRouting));
+    }, [fitBounds, allNodes, allEdges, allAnnotations, swimlanes, groups, autoConnect, edgeRouting]);
+
+    // A conexão selecionada entra no enquadramento junto com os blocos das suas pontas.
+    const handleFitSelection = useCallback(() => {
+        const selectedEdge = selectedEdgeId ? allEdges.find(e => e.id === selectedEdgeId) : undefined;
+        const nodeIds = new Set(selectedNodeIds);
+        if (selectedEdge) {
+            nodeIds.add(selectedEdge.source);
+            nodeIds.add(selectedEdge.target);
+        }
+        const selection = {
+            nodes: allNodes.filter(n => nodeIds.has(n.id)),
+            edges: allEdges.filter(e => e === selectedEdge || (selectedNodeIds.has(e.source) && selectedNodeIds.has(e.target))),
+            annotations: allAnnotations.filter(a => selectedAnnotationIds.has(a.id)),
+        };
+        fitBounds(getFlowchartBounds(selection, autoConnect, edgeRouting));
+    }, [fitBounds, allNodes, allEdges, allAnnotations, selectedNodeIds, selectedAnnotationIds, selectedEdgeId, autoConnect, edgeRouting]);
+
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            const activeEl = document.activeElement;
+            if (activeEl && (['INPUT', 'TEXTAREA'].includes(activeEl.tagName) || (activeEl as HTMLElement).isContentEditable)) return;
+            const isMac = navigator.platform.toUpperCase().includes('MAC');
+            const modifier = isMac ? e.metaKey : e.ctrlKey;
+            if (modifier && (e.key === '+' || e.key === '=')) { e.preventDefault(); zoomAroundCenter(zoom => zoom * ZOOM_STEP); }
+            else if (modifier && e.key === '-') { e.preventDefault(); zoomAroundCenter(zoom => zoom / ZOOM_STEP); }
+            else if (modifier && e.key === '0') { e.preventDefault(); zoomAroundCenter(() => 1); }
+            else if (e.shiftKey && !modifier && e.code === 'Digit1') { e.preventDefault(); handleFitAll(); }
+            else if (e.shiftKey && !modifier && e.code === 'Digit2') { e.preventDefault(); handleFitSelection(); }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [zoomAroundCenter, handleFitAll, handleFitSelection]);
+
     const startConnecting = useCallback((sourceId: string, sourcePos: Position, label?: string, sourceHandle?: number) => {
         setConnecting({ sourceId, sourcePos, label, sourceHandle });
     }, []);
@@ -549,7 +841,7 @@ const Canvas: React.FC<CanvasProps> = ({
     const handleSingleNodeDrag = useCallback((nodeId: string, newPosition: Position) => {
         updateNodePosition(nodeId, newPosition);
 
-        const draggedNode = nodes.find(n => n.id === nodeId);
+        const draggedNode = nodeById.get(nodeId);
         if (!draggedNode) return;
 
         const nodeCenter = {
@@ -560,22 +852,22 @@ const Canvas: React.FC<CanvasProps> = ({
         let intersectedEdge: EdgeData | null = null;
         let closestDistance = Infinity;
 
-        for (const edge of edges) {
+        // Só as conexões cujo retângulo alcança o centro do bloco podem ter o rótulo perto dele.
+        for (const edge of edgeIndex.search(pointRect(nodeCenter.x, nodeCenter.y, EDGE_SNAP_DISTANCE))) {
             if (edge.source === nodeId || edge.target === nodeId) continue;
-            const sourceNode = nodes.find(n => n.id === edge.source);
-            const targetNode = nodes.find(n => n.id === edge.target);
+            const sourceNode = nodeById.get(edge.source);
+            const targetNode = nodeById.get(edge.target);
 
             if (!sourceNode || !targetNode) continue;
 
-            const closest = getClosestConnection(sourceNode, targetNode);
-            const { labelPos } = getCurvePath(closest.source, closest.sourceIndex, closest.target, closest.targetIndex);
+            const obstacles = nodeIndex.search(getEdgeBoundsEstimate(sourceNode, targetNode, edge.waypoints));
+            const { labelPos } = getEdgeGeometry(edge, sourceNode, targetNode, autoConnect, edgeRouting, obstacles);
 
             const distance = Math.sqrt(
                 Math.pow(nodeCenter.x - labelPos.x, 2) + Math.pow(nodeCenter.y - labelPos.y, 2)
             );
 
-            const SNAP_THRESHOLD = 35;
-            if (distance < SNAP_THRESHOLD && distance < closestDistance) {
+            if (distance < EDGE_SNAP_DISTANCE && distance < closestDistance) {
                 intersectedEdge = edge;
                 closestDistance = distance;
             }
@@ -583,8 +875,8 @@ const Canvas: React.FC<CanvasProps> = ({
 
         if (intersectedEdge) {
             if (!snapTarget || snapTarget.edgeId !== intersectedEdge.id) {
-                const sourceNode = nodes.find(n => n.id === intersectedEdge!.source);
-                const targetNode = nodes.find(n => n.id === intersectedEdge!.target);
+                const sourceNode = nodeById.get(intersectedEdge.source);
+                const targetNode = nodeById.get(intersectedEdge.target);
 
                 if (sourceNode && targetNode) {
                     const dx = targetNode.position.x - sourceNode.position.x;
@@ -614,7 +906,7 @@ const Canvas: React.FC<CanvasProps> = ({
             }
             setSnapTarget(null);
         }
-    }, [nodes, edges, updateNodePosition, snapTarget, displacedNodeInfo]);
+    }, [nodeById, nodeIndex, edgeIndex, updateNodePosition, snapTarget, displacedNodeInfo, autoConnect, edgeRouting]);
     
     const renderSnapPreview = () => {
         if (!snapTarget || !dragInfo || (dragInfo.nodeStartPositions.size + dragInfo.annotationStartPositions.size) > 1) return null;
@@ -639,19 +931,61 @@ const Canvas: React.FC<CanvasProps> = ({
         )
     }
     
+    const renderGroup = (group: GroupData) => {
+        const bounds = getGroupDisplayRect(group, allNodes, allAnnotations);
+        if (!bounds) return null;
+        return (
+            <Group
+                key={group.id}
+                data={group}
+                bounds={bounds}
+                onMove={moveGroup}
+                onTitleChange={updateGroupTitle}
+                onToggleCollapsed={toggleGroupCollapsed}
+                onUngroup={ungroup}
+                viewZoom={view.zoom}
+                snapToGrid={snapToGrid}
+            />
+        );
+    };
+
+    // Só os itens na tela (ou perto dela) são desenhados. Os selecionados e os que
+    // estão sendo arrastados continuam montados mesmo quando saem dela.
+    const visibleArea = canvasSize.width > 0 && canvasSize.height > 0
+        ? expandRect({
+            x: -view.x / view.zoom,
+            y: -view.y / view.zoom,
+            width: canvasSize.width / view.zoom,
+            height: canvasSize.height / view.zoom,
+        }, CULLING_MARGIN / view.zoom)
+        : null;
+    const isKeptMounted = (id: string) =>
+        selectedNodeIds.has(id) || selectedAnnotationIds.has(id) ||
+        !!dragInfo?.nodeStartPositions.has(id) || !!dragInfo?.annotationStartPositions.has(id);
+    const cull = <T extends { id: string }>(items: T[], index: SpatialIndex<T>) => {
+        if (!visibleArea) return items;
+        const visible = new Set(index.search(visibleArea));
+        return items.filter(item => visible.has(item) || isKeptMounted(item.id));
+    };
+    const visibleNodes: NodeData[] = cull(nodes, nodeIndex);
+    const visibleAnnotations: AnnotationData[] = cull(annotations, annotationIndex);
+
     const selectedEdge = selectedEdgeId ? edges.find(e => e.id === selectedEdgeId) : null;
-    const unselectedEdges = edges.filter(e => e.id !== selectedEdgeId);
+    const unselectedEdges = cull(edges, edgeIndex).filter(e => e.id !== selectedEdgeId);
 
     return (
+        <>
         <svg
             ref={canvasRef}
             id="flowchart-canvas"
             width="100%"
             height="100%"
             className="select-none"
-            style={{ cursor: isPanning || dragInfo ? 'grabbing' : 'grab' }}
+            style={{ cursor: onPlaceComment ? 'crosshair' : isPanning || dragInfo ? 'grabbing' : 'grab' }}
+            onMouseDownCapture={handlePlaceComment}
             onMouseDown={handleMouseDown}
             onMouseMove={handleMouseMove}
+            onMouseLeave={() => onCursorMove?.(null)}
             onWheel={handleWheel}
             onContextMenu={(e) => {
                 const target = e.target;
@@ -680,6 +1014,38 @@ const Canvas: React.FC<CanvasProps> = ({
                     <stop offset="0%" stopColor="#8B5CF6" />
                     <stop offset="100%" stopColor="#7C3AED" />
                 </linearGradient>
+                <linearGradient id="grad-subprocess" x1="0%" y1="0%" x2="0%" y2="100%">
+                    <stop offset="0%" stopColor="#14B8A6" />
+                    <stop offset="100%" stopColor="#0D9488" />
+                </linearGradient>
+                <linearGradient id="grad-inputOutput" x1="0%" y1="0%" x2="0%" y2="100%">
+                    <stop offset="0%" stopColor="#F97316" />
+                    <stop offset="100%" stopColor="#EA580C" />
+                </linearGradient>
+                <linearGradient id="grad-document" x1="0%" y1="0%" x2="0%" y2="100%">
+                    <stop offset="0%" stopColor="#0EA5E9" />
+                    <stop offset="100%" stopColor="#0284C7" />
+                </linearGradient>
+                <linearGradient id="grad-database" x1="0%" y1="0%" x2="0%" y2="100%">
+                    <stop offset="0%" stopColor="#6366F1" />
+                    <stop offset="100%" stopColor="#4F46E5" />
+                </linearGradient>
+                <linearGradient id="grad-manualInput" x1="0%" y1="0%" x2="0%" y2="100%">
+                    <stop offset="0%" stopColor="#EC4899" />
+                    <stop offset="100%" stopColor="#DB2777" />
+                </linearGradient>
+                <linearGradient id="grad-delay" x1="0%" y1="0%" x2="0%" y2="100%">
+                    <stop offset="0%" stopColor="#EAB308" />
+                    <stop offset="100%" stopColor="#CA8A04" />
+                </linearGradient>
+                <linearGradient id="grad-offPage" x1="0%" y1="0%" x2="0%" y2="100%">
+                    <stop offset="0%" stopColor="#64748B" />
+                    <stop offset="100%" stopColor="#475569" />
+                </linearGradient>
+                <linearGradient id="grad-preparation" x1="0%" y1="0%" x2="0%" y2="100%">
+                    <stop offset="0%" stopColor="#84CC16" />
+                    <stop offset="100%" stopColor="#65A30D" />
+                </linearGradient>
                 <filter id="annotation-shadow" x="-50%" y="-50%" width="200%" height="200%">
                     <feDropShadow dx="3" dy="5" stdDeviation="5" floodColor="var(--color-shadow)" floodOpacity="0.4" />
                 </filter>
@@ -688,12 +1054,36 @@ const Canvas: React.FC<CanvasProps> = ({
             <rect width="100%" height="100%" fill="url(#pattern-dots)" />
 
             <g ref={gRef} id="flowchart-group" transform={`translate(${view.x}, ${view.y}) scale(${view.zoom})`}>
+                {/* Swimlanes stay behind everything else */}
+                {swimlanes.map((swimlane) => (
+                    <Swimlane
+                        key={swimlane.id}
+                        data={swimlane}
+                        onMove={moveSwimlane}
+                        onLaneResize={resizeSwimlaneLane}
+                        onLengthChange={resizeSwimlaneLength}
+                        onTitleChange={updateSwimlaneTitle}
+                        onLaneTitleChange={updateLaneTitle}
+                        onAddLane={addSwimlaneLane}
+                        onRemoveLane={removeSwimlaneLane}
+                        onDelete={deleteSwimlane}
+                        viewZoom={view.zoom}
+                        snapToGrid={snapToGrid}
+                    />
+                ))}
+
+                {groups.filter(group => !group.collapsed).map(renderGroup)}
+
+                {versionDiff && (
+                    <VersionDiffOverlay diff={versionDiff} layer="removed" nodes={edgeNodes} edges={edges} autoConnect={autoConnect} edgeRouting={edgeRouting} />
+                )}
+
                 {/* Render unselected edges first */}
                 {unselectedEdges.map((edge) => (
                     <Edge 
                         key={edge.id} 
                         edge={edge} 
-                        nodes={nodes} 
+                        nodes={getEdgeObstacles(edge)} 
                         autoConnect={autoConnect} 
                         isSelected={false}
                         onSelect={setSelectedEdgeId}
@@ -703,10 +1093,14 @@ const Canvas: React.FC<CanvasProps> = ({
                         isHidden={snapTarget?.edgeId === edge.id}
                         isReconnecting={reconnecting?.edgeId === edge.id}
                         onStartReconnecting={startReconnecting}
+                        defaultRouting={edgeRouting}
+                        onUpdateRouting={updateEdgeRouting}
+                        onUpdateWaypoints={updateEdgeWaypoints}
+                        snapToGrid={snapToGrid}
                     />
                 ))}
 
-                {annotations.map((ann) => (
+                {visibleAnnotations.map((ann) => (
                     <Annotation
                         key={ann.id}
                         data={ann}
@@ -714,7 +1108,7 @@ const Canvas: React.FC<CanvasProps> = ({
                         onTextChange={updateAnnotationText}
                         onSizeChange={updateAnnotationDimensions}
                         onDelete={deleteAnnotation}
-                        onMouseDown={(e) => handleItemMouseDown(e, ann.id, 'annotation')}
+                        onMouseDown={handleAnnotationMouseDown}
                         isSelected={selectedAnnotationIds.has(ann.id)}
                         viewZoom={view.zoom}
                         fontsLoaded={fontsLoaded}
@@ -722,7 +1116,7 @@ const Canvas: React.FC<CanvasProps> = ({
                 ))}
 
                 {/* Then render all nodes */}
-                {nodes.map((node) => (
+                {visibleNodes.map((node) => (
                     <Node
                         key={node.id}
                         data={node}
@@ -734,22 +1128,45 @@ const Canvas: React.FC<CanvasProps> = ({
                         onOpenContextMenu={onOpenContextMenu}
                         isConnecting={!!connecting || !!reconnecting}
                         viewZoom={view.zoom}
-                        onInteractionStart={() => {
-                            setSelectedEdgeId(null);
-                            setSelectedAnnotationIds(new Set());
-                        }}
-                        onMouseDown={(e, id) => handleItemMouseDown(e, id, 'node')}
+                        onInteractionStart={handleNodeInteractionStart}
+                        onMouseDown={handleNodeMouseDown}
                         isSelected={selectedNodeIds.has(node.id)}
                         fontsLoaded={fontsLoaded}
+                        isSimulationCurrent={node.id === simulationNodeId}
+                        linkedProjectName={node.linkedProjectId ? projectNames?.get(node.linkedProjectId) ?? null : null}
+                        onOpenSubprocess={onOpenSubprocess}
                     />
                 ))}
 
+                {groups.filter(group => group.collapsed).map(renderGroup)}
+
+                {versionDiff && (
+                    <VersionDiffOverlay diff={versionDiff} layer="current" nodes={edgeNodes} edges={edges} autoConnect={autoConnect} edgeRouting={edgeRouting} />
+                )}
+
+                {remotePeers && remotePeers.length > 0 && (
+                    <RemotePresenceOverlay peers={remotePeers} nodes={edgeNodes} viewZoom={view.zoom} />
+                )}
+
+                {comments && comments.length > 0 && onSelectCommentThread && (
+                    <CommentBadges
+                        threads={comments}
+                        nodes={edgeNodes}
+                        edges={edges}
+                        autoConnect={autoConnect}
+                        edgeRouting={edgeRouting}
+                        viewZoom={view.zoom}
+                        activeThreadId={activeCommentThreadId}
+                        onSelectThread={onSelectCommentThread}
+                    />
+                )}
+
                 {/* Then render the selected edge on top */}
                 {selectedEdge && (
                     <Edge 
                         key={selectedEdge.id} 
                         edge={selectedEdge} 
-                        nodes={nodes} 
+                        nodes={getEdgeObstacles(selectedEdge)} 
                         autoConnect={autoConnect} 
                         isSelected={true}
                         onSelect={setSelectedEdgeId}
@@ -759,6 +1176,10 @@ const Canvas: React.FC<CanvasProps> = ({
                         isHidden={snapTarget?.edgeId === selectedEdge.id}
                         isReconnecting={reconnecting?.edgeId === selectedEdge.id}
                         onStartReconnecting={startReconnecting}
+                        defaultRouting={edgeRouting}
+                        onUpdateRouting={updateEdgeRouting}
+                        onUpdateWaypoints={updateEdgeWaypoints}
+                        snapToGrid={snapToGrid}
                     />
                 )}
                 
@@ -804,7 +1225,29 @@ const Canvas: React.FC<CanvasProps> = ({
                     />
                 )}
             </g>
+
+            {(nodes.length > 0 || annotations.length > 0) && (
+                <Minimap
+                    nodes={edgeNodes}
+                    edges={edges}
+                    annotations={annotations}
+                    view={view}
+                    canvasSize={canvasSize}
+                    onCenterView={centerViewOn}
+                />
+            )}
         </svg>
+        <ZoomControls
+            zoom={view.zoom}
+            hasSelection={hasSelection}
+            onZoomIn={() => zoomAroundCenter(zoom => zoom * ZOOM_STEP)}
+            onZoomOut={() => zoomAroundCenter(zoom => zoom / ZOOM_STEP)}
+            onResetZoom={() => zoomAroundCenter(() => 1)}
+            onFitAll={handleFitAll}
+            onFitSelection={handleFitSelection}
+            style={{ left: MINIMAP_MARGIN, bottom: MINIMAP_MARGIN + (nodes.length > 0 || annotations.length > 0 ? MINIMAP_HEIGHT + 8 : 0) }}
+        />
+        </>
     );
 };
 
@@ -0,0 +1,122 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { createPortal } from 'react-dom';
+import { FlowchartData } from '../types';
+import { CodeLanguage, codeLanguages, generateCode } from '../services/codeGenerationService';
+import { DownloadIcon } from './Icons';
+
+interface CodeGenerationModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    data: FlowchartData;
+    projectName: string;
+    onDownload: (content: string, extension: string) => void;
+}
+
+const CodeGenerationModal: React.FC<CodeGenerationModalProps> = ({ isOpen, onClose, data, projectName, onDownload }) => {
+    const [language, setLanguage] = useState<CodeLanguage>('pseudocode');
+    const [copied, setCopied] = useState(false);
+
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') {
+                onClose();
+            }
+        };
+        if (isOpen) {
+            window.addEventListener('keydown', handleKeyDown);
+        }
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [isOpen, onClose]);
+
+    const result = useMemo(() => {
+        if (!isOpen) return { code: '', error: null };
+        try {
+            return { code: generateCode(data, language, projectName), error: null };
+        } catch (error) {
+            return { code: '', error: error instanceof Error ? error.message : String(error) };
+        }
+    }, [isOpen, data, language, projectName]);
+
+    useEffect(() => {
+        setCopied(false);
+    }, [result.code]);
+
+    const handleCopy = async () => {
+        try {
+            await navigator.clipboard.writeText(result.code);
+            setCopied(true);
+        } catch {
+            alert('Não foi possível copiar o código para a área de transferência.');
+        }
+    };
+
+    if (!isOpen) return null;
+
+    const extension = codeLanguages.find(l => l.id === language)!.extension;
+
+    return createPortal(
+        <div
+            className="fixed inset-0 z-40 flex items-center justify-center bg-[var(--color-bg-overlay)] backdrop-blur-sm"
+            onClick={onClose}
+        >
+            <div
+                className="bg-[var(--color-bg-secondary)] text-[var(--color-text-primary)] rounded-xl shadow-2xl border border-[var(--color-border)] p-6 m-4 w-full max-w-3xl transform transition-all flex flex-col"
+                style={{ maxHeight: '80vh' }}
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="flex justify-between items-center mb-4 flex-shrink-0">
+                    <h2 className="text-2xl font-bold text-[var(--color-text-primary)]">Gerar Código</h2>
+                    <button
+                        onClick={onClose}
+                        className="w-8 h-8 rounded-full flex items-center justify-center text-[var(--color-text-secondary)] hover:bg-[var(--color-bg-tertiary-hover)] hover:text-white transition-colors"
+                        aria-label="Fechar"
+                    >
+                        <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2.5} stroke="currentColor" className="w-6 h-6"><path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" /></svg>
+                    </button>
+                </div>
+
+                <div className="flex items-center justify-between mb-4 flex-shrink-0">
+                    <div className="flex gap-2">
+                        {codeLanguages.map(l => (
+                            <button
+                                key={l.id}
+                                onClick={() => setLanguage(l.id)}
+                                className={`px-4 py-1.5 text-sm font-semibold rounded-md border transition-colors ${language === l.id ? 'bg-[var(--color-accent)] text-white border-transparent' : 'bg-[var(--color-bg)] border-[var(--color-border)] hover:bg-[var(--color-bg-tertiary-hover)]'}`}
+                            >
+                                {l.label}
+                            </button>
+                        ))}
+                    </div>
+                    <div className="flex gap-2">
+                        <button
+                            onClick={handleCopy}
+                            disabled={!result.code}
+                            className="px-4 py-1.5 text-sm font-semibold bg-[var(--color-bg)] rounded-md hover:bg-[var(--color-bg-tertiary-hover)] border border-[var(--color-border)] transition-colors disabled:opacity-50"
+                        >
+                            {copied ? 'Copiado!' : 'Copiar'}
+                        </button>
+                        <button
+                            onClick={() => onDownload(result.code, extension)}
+                            disabled={!result.code}
+                            className="flex items-center gap-2 px-4 py-1.5 text-sm font-semibold bg-[var(--color-bg)] rounded-md hover:bg-[var(--color-bg-tertiary-hover)] border border-[var(--color-border)] transition-colors disabled:opacity-50"
+                        >
+                            <DownloadIcon className="w-4 h-4" />
+                            Baixar
+                        </button>
+                    </div>
+                </div>
+
+                {result.error ? (
+                    <p className="text-sm text-red-300 bg-red-900/60 p-3 rounded-md">{result.error}</p>
+                ) : (
+                    <pre className="flex-grow overflow-auto custom-scrollbar bg-[var(--color-bg)] border border-[var(--color-border)] rounded-lg p-4 text-sm font-mono whitespace-pre">
+                        {result.code}
+                    </pre>
+                )}
+            </div>
+        </div>,
+        document.body
+    );
+};
+
+export default CodeGenerationModal;
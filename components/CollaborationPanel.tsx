@@ -0,0 +1,142 @@
+import React, { useEffect, useState } from 'react';
+import { CollabPeer, CollabStatus } from '../services/collabClient';
+
+export interface CollabSessionSettings {
+    url: string;
+    room: string;
+    name: string;
+}
+
+interface CollaborationPanelProps {
+    session: CollabSessionSettings | null;
+    sessionProjectName: string | null;
+    status: CollabStatus;
+    peers: CollabPeer[];
+    pendingCount: number;
+    defaultRoom: string | null;
+    defaultName: string;
+    onStart: (settings: CollabSessionSettings) => void;
+    onStop: () => void;
+    onClose: () => void;
+}
+
+const statusLabels: Record<CollabStatus, { text: string; color: string }> = {
+    connecting: { text: 'Conectando...', color: 'bg-amber-400' },
+    online: { text: 'Conectado', color: 'bg-green-400' },
+    offline: { text: 'Sem conexão (as alterações serão enviadas ao reconectar)', color: 'bg-red-400' },
+};
+
+const inputClasses = "w-full px-2 py-1.5 text-sm rounded-md bg-[var(--color-bg-tertiary)] text-[var(--color-text-primary)] border border-[var(--color-border)] focus:outline-none focus:border-[var(--color-accent)]";
+
+const CollaborationPanel: React.FC<CollaborationPanelProps> = ({
+    session, sessionProjectName, status, peers, pendingCount, defaultRoom, defaultName, onStart, onStop, onClose
+}) => {
+    const [url, setUrl] = useState(() => `ws://${window.location.hostname || 'localhost'}:3001`);
+    const [room, setRoom] = useState(defaultRoom ?? '');
+    const [name, setName] = useState(defaultName);
+
+    // Fora de uma sessão, a sala sugerida acompanha o projeto ativo.
+    useEffect(() => {
+        if (!session) setRoom(defaultRoom ?? '');
+    }, [defaultRoom, session]);
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!url.trim() || !room.trim() || !name.trim()) return;
+        onStart({ url: url.trim(), room: room.trim(), name: name.trim() });
+    };
+
+    return (
+        <aside className="w-72 flex flex-col bg-[var(--color-bg-secondary)] border-l border-[var(--color-border)] shadow-lg">
+            <div className="p-4 border-b border-[var(--color-border)] flex items-center justify-between">
+                <div>
+                    <h2 className="text-lg font-semibold text-[var(--color-text-primary)]">Colaboração</h2>
+                    <p className="text-xs text-[var(--color-text-secondary)] mt-1">
+                        {session ? `Projeto: ${sessionProjectName ?? ''}` : 'Edite o projeto com outras pessoas'}
+                    </p>
+                </div>
+                <button
+                    onClick={onClose}
+                    className="w-8 h-8 rounded-full flex items-center justify-center text-[var(--color-text-secondary)] hover:bg-[var(--color-bg-tertiary-hover)] hover:text-[var(--color-text-primary)] transition-colors"
+                    aria-label="Fechar"
+                >
+                    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2.5} stroke="currentColor" className="w-5 h-5"><path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" /></svg>
+                </button>
+            </div>
+
+            <div className="flex-grow overflow-y-auto p-4 custom-scrollbar text-sm">
+                {session ? (
+                    <div className="space-y-4">
+                        <div className="flex items-start gap-2">
+                            <span className={`mt-1.5 w-2.5 h-2.5 rounded-full flex-shrink-0 ${statusLabels[status].color}`} />
+                            <span className="text-[var(--color-text-primary)]">{statusLabels[status].text}</span>
+                        </div>
+                        <dl className="space-y-1 text-xs text-[var(--color-text-secondary)]">
+                            <div><dt className="inline">Servidor: </dt><dd className="inline break-all">{session.url}</dd></div>
+                            <div><dt className="inline">Sala: </dt><dd className="inline break-all">{session.room}</dd></div>
+                            {pendingCount > 0 && (
+                                <div><dt className="inline">Alterações pendentes: </dt><dd className="inline">{pendingCount}</dd></div>
+                            )}
+                        </dl>
+                        <div>
+                            <h3 className="text-xs font-semibold uppercase tracking-wider text-[var(--color-text-secondary)] mb-2">Participantes</h3>
+                            <ul className="space-y-1.5">
+                                <li className="flex items-center gap-2 text-[var(--color-text-primary)]">
+                                    <span className="w-2.5 h-2.5 rounded-full bg-[var(--color-accent)]" />
+                                    {session.name} (você)
+                                </li>
+                                {peers.map(peer => (
+                                    <li key={peer.clientId} className="flex items-center gap-2 text-[var(--color-text-primary)]">
+                                        <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: peer.color }} />
+                                        {peer.name}
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    </div>
+                ) : (
+                    <form id="collab-form" onSubmit={handleSubmit} className="space-y-3">
+                        <div>
+                            <label htmlFor="collab-url" className="block text-xs text-[var(--color-text-secondary)] mb-1">Servidor</label>
+                            <input id="collab-url" value={url} onChange={(e) => setUrl(e.target.value)} className={inputClasses} />
+                        </div>
+                        <div>
+                            <label htmlFor="collab-room" className="block text-xs text-[var(--color-text-secondary)] mb-1">Sala</label>
+                            <input id="collab-room" value={room} onChange={(e) => setRoom(e.target.value)} className={inputClasses} />
+                        </div>
+                        <div>
+                            <label htmlFor="collab-name" className="block text-xs text-[var(--color-text-secondary)] mb-1">Seu nome</label>
+                            <input id="collab-name" value={name} onChange={(e) => setName(e.target.value)} className={inputClasses} />
+                        </div>
+                        <p className="text-xs text-[var(--color-text-secondary)]">
+                            Inicie o servidor com <code className="text-[var(--color-text-primary)]">npm run collab-server</code>.
+                            Se a sala já tiver conteúdo, ele substitui o do projeto ativo; se estiver vazia, recebe o projeto ativo.
+                        </p>
+                    </form>
+                )}
+            </div>
+
+            <div className="p-4 border-t border-[var(--color-border)]">
+                {session ? (
+                    <button
+                        onClick={onStop}
+                        className="w-full px-4 py-2 text-sm font-semibold rounded-md bg-[var(--color-bg-tertiary)] text-[var(--color-text-primary)] hover:bg-[var(--color-bg-tertiary-hover)] transition-colors"
+                    >
+                        Sair da Sessão
+                    </button>
+                ) : (
+                    <button
+                        type="submit"
+                        form="collab-form"
+                        disabled={!defaultRoom}
+                        className="w-full px-4 py-2 text-sm font-semibold rounded-md bg-[var(--color-accent)] text-white hover:opacity-90 transition-opacity disabled:opacity-50"
+                    >
+                        Entrar na Sala
+                    </button>
+                )}
+            </div>
+        </aside>
+    );
+};
+
+export default CollaborationPanel;
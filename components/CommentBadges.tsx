@@ -0,0 +1,72 @@
+import React from 'react';
+import { CommentThread, EdgeData, EdgeRouting, NodeData } from '../types';
+import { COMMENT_BADGE_COLOR, getCommentAnchor, getCommentTargetKey } from '../services/commentService';
+
+interface CommentBadgesProps {
+  threads: CommentThread[];
+  nodes: NodeData[];
+  edges: EdgeData[];
+  autoConnect: boolean;
+  edgeRouting: EdgeRouting;
+  viewZoom: number;
+  activeThreadId?: string | null;
+  onSelectThread: (threadId: string) => void;
+}
+
+// Marcadores dos itens comentados. Itens só com conversas resolvidas aparecem
+// esmaecidos; clicar no marcador abre a conversa no painel de comentários.
+const CommentBadges: React.FC<CommentBadgesProps> = ({ threads, nodes, edges, autoConnect, edgeRouting, viewZoom, activeThreadId, onSelectThread }) => {
+    const byTarget = new Map<string, CommentThread[]>();
+    threads.forEach(thread => {
+        const key = getCommentTargetKey(thread);
+        byTarget.set(key, [...(byTarget.get(key) || []), thread]);
+    });
+
+    return (
+        <g>
+            {Array.from(byTarget.entries()).map(([key, targetThreads]) => {
+                const anchor = getCommentAnchor(targetThreads[0].target, nodes, edges, autoConnect, edgeRouting);
+                if (!anchor) return null;
+                const open = targetThreads.filter(thread => !thread.resolved);
+                const shown = open.length > 0 ? open : targetThreads;
+                const count = shown.reduce((sum, thread) => sum + thread.messages.length, 0);
+                const isActive = targetThreads.some(thread => thread.id === activeThreadId);
+                return (
+                    <g
+                        key={key}
+                        transform={`translate(${anchor.x}, ${anchor.y}) scale(${1 / viewZoom})`}
+                        className="cursor-pointer"
+                        opacity={open.length > 0 ? 1 : 0.45}
+                        onMouseDown={(e) => e.stopPropagation()}
+                        onClick={(e) => {
+                            e.stopPropagation();
+                            onSelectThread(shown[0].id);
+                        }}
+                    >
+                        <title>{`${shown.length} conversa(s) ${open.length > 0 ? 'em aberto' : 'resolvida(s)'}`}</title>
+                        <path
+                            d="M -11 -11 h 22 a 3 3 0 0 1 3 3 v 14 a 3 3 0 0 1 -3 3 h -12 l -6 5 v -5 h -4 a 3 3 0 0 1 -3 -3 v -14 a 3 3 0 0 1 3 -3 Z"
+                            transform="translate(-1, -3)"
+                            fill={COMMENT_BADGE_COLOR}
+                            stroke={isActive ? 'var(--color-text-primary)' : 'var(--color-bg)'}
+                            strokeWidth={2}
+                        />
+                        <text
+                            y={-1}
+                            textAnchor="middle"
+                            dominantBaseline="central"
+                            fill="white"
+                            fontSize={11}
+                            fontWeight={700}
+                            style={{ fontFamily: 'Inter, sans-serif' }}
+                        >
+                            {count}
+                        </text>
+                    </g>
+                );
+            })}
+        </g>
+    );
+};
+
+export default CommentBadges;
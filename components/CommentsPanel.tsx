@@ -0,0 +1,196 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CommentTarget, CommentThread, EdgeData, NodeData } from '../types';
+import { describeCommentTarget } from '../services/commentService';
+
+interface CommentsPanelProps {
+    threads: CommentThread[];
+    nodes: NodeData[];
+    edges: EdgeData[];
+    authorName: string;
+    onAuthorNameChange: (name: string) => void;
+    isPlacing: boolean;
+    onTogglePlacing: () => void;
+    draftTarget: CommentTarget | null;
+    onCreateThread: (text: string) => void;
+    onCancelDraft: () => void;
+    onReply: (threadId: string, text: string) => void;
+    onToggleResolved: (threadId: string) => void;
+    onDeleteThread: (threadId: string) => void;
+    activeThreadId: string | null;
+    onSelectThread: (threadId: string) => void;
+    includeInImages: boolean;
+    onIncludeInImagesChange: (include: boolean) => void;
+    onClose: () => void;
+}
+
+const formatDate = (timestamp: number) =>
+    timestamp > 0 ? new Date(timestamp).toLocaleString('pt-BR', { day: '2-digit', month: '2-digit', hour: '2-digit', minute: '2-digit' }) : '';
+
+const textareaClasses = "w-full p-2 text-sm rounded-md bg-[var(--color-bg)] text-[var(--color-text-primary)] border border-[var(--color-border)] focus:outline-none focus:border-[var(--color-accent)] resize-none";
+const primaryButtonClasses = "px-3 py-1 text-xs font-semibold rounded-md bg-[var(--color-accent)] text-white hover:opacity-90 transition-opacity disabled:opacity-50";
+const secondaryButtonClasses = "px-3 py-1 text-xs font-semibold rounded-md text-[var(--color-text-secondary)] hover:bg-[var(--color-bg-tertiary-hover)] hover:text-[var(--color-text-primary)] transition-colors";
+
+// Campo de texto que envia com Ctrl+Enter (ou Cmd+Enter).
+const MessageForm: React.FC<{ placeholder: string; submitLabel: string; onSubmit: (text: string) => void; onCancel?: () => void; autoFocus?: boolean }> = ({
+    placeholder, submitLabel, onSubmit, onCancel, autoFocus
+}) => {
+    const [text, setText] = useState('');
+    const submit = () => {
+        if (!text.trim()) return;
+        onSubmit(text.trim());
+        setText('');
+    };
+    return (
+        <div className="space-y-2">
+            <textarea
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+                onKeyDown={(e) => {
+                    if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) submit();
+                    if (e.key === 'Escape' && onCancel) onCancel();
+                }}
+                placeholder={placeholder}
+                rows={2}
+                autoFocus={autoFocus}
+                className={textareaClasses}
+            />
+            <div className="flex justify-end gap-2">
+                {onCancel && <button onClick={onCancel} className={secondaryButtonClasses}>Cancelar</button>}
+                <button onClick={submit} disabled={!text.trim()} className={primaryButtonClasses}>{submitLabel}</button>
+            </div>
+        </div>
+    );
+};
+
+const CommentsPanel: React.FC<CommentsPanelProps> = ({
+    threads, nodes, edges, authorName, onAuthorNameChange, isPlacing, onTogglePlacing, draftTarget, onCreateThread, onCancelDraft,
+    onReply, onToggleResolved, onDeleteThread, activeThreadId, onSelectThread, includeInImages, onIncludeInImagesChange, onClose
+}) => {
+    const [showResolved, setShowResolved] = useState(false);
+    const activeRef = useRef<HTMLLIElement>(null);
+
+    const activeThread = threads.find(thread => thread.id === activeThreadId);
+    // Uma conversa resolvida escolhida no canvas continua visível.
+    const visibleThreads = threads.filter(thread => showResolved || !thread.resolved || thread.id === activeThreadId);
+    const openCount = threads.filter(thread => !thread.resolved).length;
+
+    useEffect(() => {
+        activeRef.current?.scrollIntoView({ block: 'nearest' });
+    }, [activeThreadId, activeThread?.messages.length]);
+
+    return (
+        <aside className="w-80 flex flex-col bg-[var(--color-bg-secondary)] border-l border-[var(--color-border)] shadow-lg">
+            <div className="p-4 border-b border-[var(--color-border)] flex items-center justify-between">
+                <div>
+                    <h2 className="text-lg font-semibold text-[var(--color-text-primary)]">Comentários</h2>
+                    <p className="text-xs text-[var(--color-text-secondary)] mt-1">
+                        {openCount === 1 ? '1 conversa em aberto' : `${openCount} conversas em aberto`}
+                    </p>
+                </div>
+                <button
+                    onClick={onClose}
+                    className="w-8 h-8 rounded-full flex items-center justify-center text-[var(--color-text-secondary)] hover:bg-[var(--color-bg-tertiary-hover)] hover:text-[var(--color-text-primary)] transition-colors"
+                    aria-label="Fechar"
+                >
+                    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2.5} stroke="currentColor" className="w-5 h-5"><path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" /></svg>
+                </button>
+            </div>
+
+            <div className="p-4 border-b border-[var(--color-border)] space-y-3 text-sm">
+                <div className="flex items-center gap-2">
+                    <label htmlFor="comment-author" className="text-[var(--color-text-secondary)] flex-shrink-0">Seu nome</label>
+                    <input
+                        id="comment-author"
+                        value={authorName}
+                        onChange={(e) => onAuthorNameChange(e.target.value)}
+                        className="flex-grow min-w-0 px-2 py-1 rounded-md bg-[var(--color-bg-tertiary)] text-[var(--color-text-primary)] border border-[var(--color-border)] focus:outline-none focus:border-[var(--color-accent)]"
+                    />
+                </div>
+                {draftTarget ? (
+                    <div className="p-3 rounded-lg bg-[var(--color-bg-tertiary)] space-y-2">
+                        <p className="text-xs text-[var(--color-text-secondary)]">Novo comentário em {describeCommentTarget(draftTarget, nodes, edges)}</p>
+                        <MessageForm placeholder="Escreva o comentário..." submitLabel="Comentar" onSubmit={onCreateThread} onCancel={onCancelDraft} autoFocus />
+                    </div>
+                ) : (
+                    <button
+                        onClick={onTogglePlacing}
+                        className={`w-full px-4 py-2 text-sm font-semibold rounded-md transition-colors ${isPlacing ? 'bg-[var(--color-bg-tertiary)] text-[var(--color-text-primary)] hover:bg-[var(--color-bg-tertiary-hover)]' : 'bg-[var(--color-accent)] text-white hover:opacity-90'}`}
+                    >
+                        {isPlacing ? 'Cancelar' : 'Novo Comentário'}
+                    </button>
+                )}
+                {isPlacing && (
+                    <p className="text-xs text-[var(--color-text-secondary)]">Clique em um bloco, em uma conexão ou em um ponto vazio do canvas.</p>
+                )}
+            </div>
+
+            <div className="flex-grow overflow-y-auto p-4 custom-scrollbar">
+                {visibleThreads.length === 0 ? (
+                    <p className="text-sm text-center text-[var(--color-text-secondary)] mt-4">
+                        {threads.length === 0 ? 'Nenhum comentário neste projeto.' : 'Todas as conversas foram resolvidas.'}
+                    </p>
+                ) : (
+                    <ul className="space-y-3">
+                        {visibleThreads.map(thread => {
+                            const isActive = thread.id === activeThreadId;
+                            return (
+                                <li
+                                    key={thread.id}
+                                    ref={isActive ? activeRef : undefined}
+                                    className={`rounded-lg border transition-colors ${isActive ? 'border-[var(--color-accent)] bg-[var(--color-bg-tertiary)]' : 'border-[var(--color-border)]'} ${thread.resolved ? 'opacity-60' : ''}`}
+                                >
+                                    <button
+                                        onClick={() => onSelectThread(thread.id)}
+                                        className="w-full px-3 pt-2 text-left text-xs font-semibold text-[var(--color-accent)] hover:underline truncate"
+                                        title="Mostrar no canvas"
+                                    >
+                                        {describeCommentTarget(thread.target, nodes, edges)}
+                                        {thread.resolved && <span className="ml-2 text-green-400 no-underline">Resolvida</span>}
+                                    </button>
+                                    <ol className="px-3 py-2 space-y-2">
+                                        {thread.messages.map((message, index) => (
+                                            <li key={message.id} className={index > 0 ? 'pl-3 border-l-2 border-[var(--color-border)]' : ''}>
+                                                <div className="flex items-baseline justify-between gap-2">
+                                                    <span className="text-sm font-semibold text-[var(--color-text-primary)] truncate">{message.author}</span>
+                                                    <span className="text-xs text-[var(--color-text-secondary)] flex-shrink-0">{formatDate(message.createdAt)}</span>
+                                                </div>
+                                                <p className="text-sm text-[var(--color-text-primary)] whitespace-pre-wrap break-words">{message.text}</p>
+                                            </li>
+                                        ))}
+                                    </ol>
+                                    <div className="px-3 pb-3 space-y-2">
+                                        {isActive && !thread.resolved && (
+                                            <MessageForm placeholder="Responder..." submitLabel="Responder" onSubmit={text => onReply(thread.id, text)} />
+                                        )}
+                                        <div className="flex justify-end gap-2">
+                                            {!isActive && !thread.resolved && (
+                                                <button onClick={() => onSelectThread(thread.id)} className={secondaryButtonClasses}>Responder</button>
+                                            )}
+                                            <button onClick={() => onToggleResolved(thread.id)} className={secondaryButtonClasses}>
+                                                {thread.resolved ? 'Reabrir' : 'Resolver'}
+                                            </button>
+                                            <button onClick={() => onDeleteThread(thread.id)} className={`${secondaryButtonClasses} hover:text-red-400`}>Excluir</button>
+                                        </div>
+                                    </div>
+                                </li>
+                            );
+                        })}
+                    </ul>
+                )}
+            </div>
+
+            <div className="p-4 border-t border-[var(--color-border)] space-y-2 text-sm">
+                <label className="flex items-center gap-2 text-[var(--color-text-secondary)] cursor-pointer">
+                    <input type="checkbox" checked={showResolved} onChange={(e) => setShowResolved(e.target.checked)} />
+                    Mostrar conversas resolvidas
+                </label>
+                <label className="flex items-center gap-2 text-[var(--color-text-secondary)] cursor-pointer">
+                    <input type="checkbox" checked={includeInImages} onChange={(e) => onIncludeInImagesChange(e.target.checked)} />
+                    Incluir comentários em aberto nas imagens exportadas
+                </label>
+            </div>
+        </aside>
+    );
+};
+
+export default CommentsPanel;
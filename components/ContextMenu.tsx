@@ -1,6 +1,6 @@
 import React, { useState, useRef, useLayoutEffect } from 'react';
-import { NodeData, NodeType } from '../types';
-import { TrashIcon, DisconnectIcon, ShapeIcon, ColorPaletteIcon, ChevronRightIcon, StartIcon, ProcessIcon, DecisionIcon, EndIcon, ResetSizeIcon, AddChildIcon } from './Icons';
+import { NodeData, NodeType, Project } from '../types';
+import { TrashIcon, DisconnectIcon, ShapeIcon, ColorPaletteIcon, ChevronRightIcon, StartIcon, ProcessIcon, DecisionIcon, EndIcon, SubprocessIcon, InputOutputIcon, DocumentIcon, DatabaseIcon, ManualInputIcon, DelayIcon, OffPageIcon, PreparationIcon, ResetSizeIcon, AddChildIcon, LinkIcon } from './Icons';
 
 interface ContextMenuProps {
     x: number;
@@ -13,6 +13,9 @@ interface ContextMenuProps {
     onChangeColor: (id: string, color?: string) => void;
     onResetSize: (id: string) => void;
     onAddChild: (id: string) => void;
+    projects: Project[];
+    currentProjectId: string | null;
+    onLinkProject: (id: string, projectId?: string) => void;
 }
 
 const nodeTypes: { type: NodeType; label: string; icon: React.ReactNode }[] = [
@@ -20,11 +23,19 @@ const nodeTypes: { type: NodeType; label: string; icon: React.ReactNode }[] = [
     { type: 'process', label: 'Processo', icon: <ProcessIcon className="w-5 h-5 text-blue-400" /> },
     { type: 'decision', label: 'Decisão', icon: <DecisionIcon className="w-5 h-5 text-purple-400" /> },
     { type: 'end', label: 'Fim', icon: <EndIcon className="w-5 h-5 text-red-400" /> },
+    { type: 'subprocess', label: 'Subprocesso', icon: <SubprocessIcon className="w-5 h-5 text-teal-400" /> },
+    { type: 'inputOutput', label: 'Entrada/Saída', icon: <InputOutputIcon className="w-5 h-5 text-orange-400" /> },
+    { type: 'document', label: 'Documento', icon: <DocumentIcon className="w-5 h-5 text-sky-400" /> },
+    { type: 'database', label: 'Banco de Dados', icon: <DatabaseIcon className="w-5 h-5 text-indigo-400" /> },
+    { type: 'manualInput', label: 'Entrada Manual', icon: <ManualInputIcon className="w-5 h-5 text-pink-400" /> },
+    { type: 'delay', label: 'Espera', icon: <DelayIcon className="w-5 h-5 text-yellow-400" /> },
+    { type: 'offPage', label: 'Conector de Página', icon: <OffPageIcon className="w-5 h-5 text-slate-400" /> },
+    { type: 'preparation', label: 'Preparação', icon: <PreparationIcon className="w-5 h-5 text-lime-400" /> },
 ];
 
 const colors = ['#F87171', '#FBBF24', '#34D399', '#60A5FA', '#A78BFA', '#F472B6'];
 
-const ContextMenu: React.FC<ContextMenuProps> = ({ x, y, node, onClose, onDelete, onRemoveConnections, onChangeType, onChangeColor, onResetSize, onAddChild }) => {
+const ContextMenu: React.FC<ContextMenuProps> = ({ x, y, node, onClose, onDelete, onRemoveConnections, onChangeType, onChangeColor, onResetSize, onAddChild, projects, currentProjectId, onLinkProject }) => {
     const [openSubmenu, setOpenSubmenu] = useState<string | null>(null);
     const menuRef = useRef<HTMLDivElement>(null);
     
@@ -87,6 +98,8 @@ const ContextMenu: React.FC<ContextMenuProps> = ({ x, y, node, onClose, onDelete
     
     const shapeSubmenuRef = useRef<HTMLLIElement>(null);
     const colorSubmenuRef = useRef<HTMLLIElement>(null);
+    const linkSubmenuRef = useRef<HTMLLIElement>(null);
+    const linkableProjects = projects.filter(p => p.id !== currentProjectId);
 
     return (
         <div
@@ -141,6 +154,42 @@ const ContextMenu: React.FC<ContextMenuProps> = ({ x, y, node, onClose, onDelete
                     )}
                 </li>
 
+                {node.type === 'subprocess' && (
+                    <li ref={linkSubmenuRef} className="relative" onMouseEnter={() => setOpenSubmenu('link')} onMouseLeave={() => setOpenSubmenu(null)}>
+                        <button className="flex items-center w-full text-left p-2 rounded-md hover:bg-[var(--color-bg-tertiary-hover)] transition-colors duration-150">
+                            <LinkIcon className="w-5 h-5 mr-3" />
+                            <span className="flex-grow">Vincular Projeto</span>
+                            <ChevronRightIcon className="w-4 h-4" />
+                        </button>
+                        {openSubmenu === 'link' && (
+                            <Submenu parentRef={linkSubmenuRef}>
+                                <ul className="space-y-1 w-52 max-h-64 overflow-y-auto custom-scrollbar">
+                                    {linkableProjects.length === 0 && (
+                                        <li className="p-2 text-xs text-[var(--color-text-secondary)]">Nenhum outro projeto disponível.</li>
+                                    )}
+                                    {linkableProjects.map(project => (
+                                        <li key={project.id}>
+                                            <button
+                                                onClick={handleAction(() => onLinkProject(node.id, project.id))}
+                                                className={`w-full text-left p-2 rounded-md truncate hover:bg-[var(--color-bg-tertiary-hover)] transition-colors duration-150 ${node.linkedProjectId === project.id ? 'text-[var(--color-accent)] font-semibold' : ''}`}
+                                            >
+                                                {project.name}
+                                            </button>
+                                        </li>
+                                    ))}
+                                    {node.linkedProjectId && (
+                                        <li>
+                                            <button onClick={handleAction(() => onLinkProject(node.id, undefined))} className="w-full text-left text-xs p-2 rounded-md hover:bg-[var(--color-bg-tertiary-hover)] transition-colors duration-150">
+                                                Remover Vínculo
+                                            </button>
+                                        </li>
+                                    )}
+                                </ul>
+                            </Submenu>
+                        )}
+                    </li>
+                )}
+
                 <li>
                     <button onClick={handleAction(() => onResetSize(node.id))} className="flex items-center w-full text-left p-2 rounded-md hover:bg-[var(--color-bg-tertiary-hover)] transition-colors duration-150">
                         <ResetSizeIcon className="w-5 h-5 mr-3" />
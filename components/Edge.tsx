@@ -1,7 +1,8 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { EdgeData, NodeData, Position } from '../types';
+import { EdgeData, EdgeRouting, NodeData, Position } from '../types';
 import { TrashIcon } from './Icons';
+import { getEdgeGeometry, findWaypointInsertIndex, edgeRoutingOptions } from '../services/edgeRoutingService';
 
 interface EdgeProps {
   edge: EdgeData;
@@ -15,139 +16,71 @@ interface EdgeProps {
   isHidden: boolean;
   isReconnecting: boolean;
   onStartReconnecting: (edgeId: string, handle: 'source' | 'target') => void;
+  defaultRouting: EdgeRouting;
+  onUpdateRouting: (id: string, routing?: EdgeRouting) => void;
+  onUpdateWaypoints: (id: string, waypoints?: Position[]) => void;
+  snapToGrid: boolean;
 }
 
-const defaultDimensions = {
-    start: { width: 150, height: 60 },
-    end: { width: 150, height: 60 },
-    process: { width: 150, height: 70 },
-    decision: { width: 160, height: 100 },
-};
-
-
-export const getConnectionPoints = (node: NodeData): Position[] => {
-    const { type, position } = node;
-    const { width, height } = node.width && node.height 
-        ? { width: node.width, height: node.height } 
-        : defaultDimensions[type];
-
-    let points: Position[];
-
-    if (type === 'decision') {
-        points = [
-            { x: width / 2, y: 0 },         // Top (0)
-            { x: width, y: height / 2 },    // Right (1)
-            { x: width / 2, y: height },    // Bottom (2)
-            { x: 0, y: height / 2 },        // Left (3) - Adicionado para permitir entrada pela esquerda se necessário
-        ];
-    } else {
-        points = [
-            { x: width / 2, y: 0 },         // Top (0)
-            { x: width, y: height / 2 },    // Right (1)
-            { x: width / 2, y: height },    // Bottom (2)
-            { x: 0, y: height / 2 },        // Left (3)
-        ];
-    }
+// Arraste de um ponto intermediário. Com "insert", o ponto ainda não existe e só é
+// criado depois que o mouse se move o suficiente (um clique simples apenas seleciona).
+interface WaypointDrag {
+  index: number;
+  insert: boolean;
+  startWaypoints: Position[];
+  startClient: Position;
+}
 
-    return points.map(p => ({ x: p.x + position.x, y: p.y + position.y }));
-};
+const GRID_SIZE = 20;
+const DRAG_THRESHOLD = 3;
+const snap = (val: number) => Math.round(val / GRID_SIZE) * GRID_SIZE;
 
-export const getClosestConnection = (sourceNode: NodeData, targetNode: NodeData) => {
-    const sourcePoints = getConnectionPoints(sourceNode);
-    const targetPoints = getConnectionPoints(targetNode);
+const Edge: React.FC<EdgeProps> = ({ edge, nodes, autoConnect, isSelected, onSelect, onDelete, onUpdateLabel, isSnapTarget, isHidden, isReconnecting, onStartReconnecting, defaultRouting, onUpdateRouting, onUpdateWaypoints, snapToGrid }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [labelText, setLabelText] = useState(edge.label || '');
+  const [waypointDrag, setWaypointDrag] = useState<WaypointDrag | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const groupRef = useRef<SVGGElement>(null);
+
+  // Converte coordenadas da tela para o sistema do canvas (já considerando pan e zoom).
+  const toCanvasPoint = (clientX: number, clientY: number): Position | null => {
+    const group = groupRef.current;
+    const ctm = group?.getScreenCTM();
+    if (!group?.ownerSVGElement || !ctm) return null;
+    const point = group.ownerSVGElement.createSVGPoint();
+    point.x = clientX;
+    point.y = clientY;
+    const { x, y } = point.matrixTransform(ctm.inverse());
+    return { x, y };
+  };
 
-    let minDistance = Infinity;
-    let closestPair = {
-        source: sourcePoints[0],
-        target: targetPoints[0],
-        sourceIndex: 0,
-        targetIndex: 0,
+  useEffect(() => {
+    if (!waypointDrag) return;
+
+    let moved = false;
+    const handleMouseMove = (e: MouseEvent) => {
+        if (!moved && Math.hypot(e.clientX - waypointDrag.startClient.x, e.clientY - waypointDrag.startClient.y) < DRAG_THRESHOLD) return;
+        moved = true;
+        const point = toCanvasPoint(e.clientX, e.clientY);
+        if (!point) return;
+        const position = snapToGrid ? { x: snap(point.x), y: snap(point.y) } : point;
+        const { index, insert, startWaypoints } = waypointDrag;
+        const waypoints = insert
+            ? [...startWaypoints.slice(0, index), position, ...startWaypoints.slice(index)]
+            : startWaypoints.map((p, i) => (i === index ? position : p));
+        onUpdateWaypoints(edge.id, waypoints);
     };
 
-    sourcePoints.forEach((sp, si) => {
-        targetPoints.forEach((tp, ti) => {
-            if (sourceNode.id === targetNode.id) return;
-            
-            const dx = sp.x - tp.x;
-            const dy = sp.y - tp.y;
-            const distance = Math.sqrt(dx * dx + dy * dy);
-
-            if (distance < minDistance) {
-                minDistance = distance;
-                closestPair = { source: sp, target: tp, sourceIndex: si, targetIndex: ti };
-            }
-        });
-    });
-    return closestPair;
-};
-
-
-export const getCurvePath = (sourcePos: Position, sourceIndex: number, targetPos: Position, targetIndex: number) => {
-    const { x: sx, y: sy } = sourcePos;
-    const { x: tx, y: ty } = targetPos;
+    const handleMouseUp = () => setWaypointDrag(null);
 
-    const dx = tx - sx;
-    const dy = ty - sy;
-    const dist = Math.sqrt(dx*dx + dy*dy);
-    
-    // Aumenta a curvatura baseada na distância para evitar linhas muito retas e coladas
-    const offset = Math.min(150, Math.max(50, dist * 0.5));
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
 
-    let c1x = sx, c1y = sy;
-    let c2x = tx, c2y = ty;
-    
-    // Helper para determinar a direção do vetor de controle baseado no índice do ponto
-    // Índices: 0: Top, 1: Right, 2: Bottom, 3: Left
-    const getControlDirection = (index: number) => {
-        if (index === 0) return { x: 0, y: -1 }; // Sai para cima
-        if (index === 1) return { x: 1, y: 0 };  // Sai para direita
-        if (index === 2) return { x: 0, y: 1 };  // Sai para baixo
-        if (index === 3) return { x: -1, y: 0 }; // Sai para esquerda
-        return { x: 0, y: 0 };
+    return () => {
+        window.removeEventListener('mousemove', handleMouseMove);
+        window.removeEventListener('mouseup', handleMouseUp);
     };
-
-    if (sourceIndex >= 0 && sourceIndex <= 3) {
-        const dir = getControlDirection(sourceIndex);
-        c1x = sx + dir.x * offset;
-        c1y = sy + dir.y * offset;
-    } else {
-        // Fallback dinâmico para preview line (arrastando mouse)
-        if (Math.abs(dx) > Math.abs(dy)) {
-             c1x = sx + (dx > 0 ? offset : -offset);
-        } else {
-             c1y = sy + (dy > 0 ? offset : -offset);
-        }
-    }
-
-    if (targetIndex >= 0 && targetIndex <= 3) {
-        const dir = getControlDirection(targetIndex);
-        c2x = tx + dir.x * offset;
-        c2y = ty + dir.y * offset;
-    } else {
-        // Fallback dinâmico para preview line
-        if (Math.abs(dx) > Math.abs(dy)) {
-            c2x = tx + (dx > 0 ? -offset : offset);
-        } else {
-            c2y = ty + (dy > 0 ? -offset : offset);
-        }
-    }
-
-    const path = `M ${sx} ${sy} C ${c1x} ${c1y}, ${c2x} ${c2y}, ${tx} ${ty}`;
-    
-    // Ponto médio da curva de Bezier Cúbica para o rótulo
-    const t = 0.5;
-    const mt = 1 - t;
-    const midX = mt*mt*mt*sx + 3*mt*mt*t*c1x + 3*mt*t*t*c2x + t*t*t*tx;
-    const midY = mt*mt*mt*sy + 3*mt*mt*t*c1y + 3*mt*t*t*c2y + t*t*t*ty;
-
-    return { path, labelPos: { x: midX, y: midY } };
-};
-
-
-const Edge: React.FC<EdgeProps> = ({ edge, nodes, autoConnect, isSelected, onSelect, onDelete, onUpdateLabel, isSnapTarget, isHidden, isReconnecting, onStartReconnecting }) => {
-  const [isEditing, setIsEditing] = useState(false);
-  const [labelText, setLabelText] = useState(edge.label || '');
-  const inputRef = useRef<HTMLInputElement>(null);
+  }, [waypointDrag, edge.id, snapToGrid, onUpdateWaypoints]);
 
   useEffect(() => {
     if (isEditing && inputRef.current) {
@@ -165,33 +98,35 @@ const Edge: React.FC<EdgeProps> = ({ edge, nodes, autoConnect, isSelected, onSel
     return null;
   }
   
-  let finalSourcePos: Position, finalTargetPos: Position, finalSourceIndex: number, finalTargetIndex: number;
-
-  // Se autoConnect for true E não houver handles definidos explicitamente (legado ou reset)
-  const useAutoConnect = autoConnect && (edge.sourceHandle === undefined || edge.targetHandle === undefined);
-
-  if (useAutoConnect) {
-      const closest = getClosestConnection(sourceNode, targetNode);
-      finalSourcePos = closest.source;
-      finalTargetPos = closest.target;
-      finalSourceIndex = closest.sourceIndex;
-      finalTargetIndex = closest.targetIndex;
-  } else {
-      const sourcePoints = getConnectionPoints(sourceNode);
-      const targetPoints = getConnectionPoints(targetNode);
-      
-      finalSourceIndex = edge.sourceHandle ?? 0; // Default to Top if undefined but autoconnect is off
-      finalTargetIndex = edge.targetHandle ?? 0;
-      
-      // Fallback de segurança se o índice salvo for inválido para o tipo atual
-      if (finalSourceIndex >= sourcePoints.length) finalSourceIndex = 0;
-      if (finalTargetIndex >= targetPoints.length) finalTargetIndex = 0;
+  const { sourcePos: finalSourcePos, targetPos: finalTargetPos, routing, path, labelPos } = getEdgeGeometry(edge, sourceNode, targetNode, autoConnect, defaultRouting, nodes);
+  const waypoints = edge.waypoints ?? [];
+
+  // Arrastar a linha de uma conexão selecionada cria um novo ponto no trecho mais próximo.
+  const handlePathMouseDown = (e: React.MouseEvent) => {
+    if (!isSelected || e.button !== 0 || e.altKey) return;
+    const point = toCanvasPoint(e.clientX, e.clientY);
+    if (!point) return;
+    e.stopPropagation();
+    e.preventDefault();
+    setWaypointDrag({
+        index: findWaypointInsertIndex(finalSourcePos, waypoints, finalTargetPos, point),
+        insert: true,
+        startWaypoints: waypoints,
+        startClient: { x: e.clientX, y: e.clientY },
+    });
+  };
 
-      finalSourcePos = sourcePoints[finalSourceIndex];
-      finalTargetPos = targetPoints[finalTargetIndex];
-  }
+  const handleWaypointMouseDown = (e: React.MouseEvent, index: number) => {
+    if (e.button !== 0 || e.altKey) return;
+    e.stopPropagation();
+    e.preventDefault();
+    setWaypointDrag({ index, insert: false, startWaypoints: waypoints, startClient: { x: e.clientX, y: e.clientY } });
+  };
 
-  const { path, labelPos } = getCurvePath(finalSourcePos, finalSourceIndex, finalTargetPos, finalTargetIndex);
+  const removeWaypoint = (index: number) => {
+    const remaining = waypoints.filter((_, i) => i !== index);
+    onUpdateWaypoints(edge.id, remaining.length > 0 ? remaining : undefined);
+  };
 
   const handleLabelSave = () => {
     onUpdateLabel(edge.id, labelText.trim());
@@ -211,11 +146,18 @@ const Edge: React.FC<EdgeProps> = ({ edge, nodes, autoConnect, isSelected, onSel
 
   return (
     <g 
+        ref={groupRef}
         className="group-edge"
+        data-edge-id={edge.id}
         onClick={(e) => { e.stopPropagation(); onSelect(edge.id); }}
         onDoubleClick={(e) => { e.stopPropagation(); setIsEditing(true); }}
     >
-      <path d={path} className="edge-hitbox" />
+      <path
+        d={path}
+        className="edge-hitbox"
+        style={isSelected ? { cursor: 'copy' } : undefined}
+        onMouseDown={handlePathMouseDown}
+      />
       <path
         d={path}
         stroke={strokeColor}
@@ -247,6 +189,24 @@ const Edge: React.FC<EdgeProps> = ({ edge, nodes, autoConnect, isSelected, onSel
                 >
                     <TrashIcon />
                 </button>
+            </foreignObject>
+            {/* Estilo da conexão; clicar no estilo já fixado volta a seguir o padrão global */}
+            <foreignObject x={labelPos.x - 90} y={labelPos.y + 16} width="180" height="28" className="overflow-visible pointer-events-auto">
+                <div className="flex justify-center gap-1">
+                    {edgeRoutingOptions.map(option => (
+                        <button
+                            key={option.id}
+                            onClick={(e) => { e.stopPropagation(); onUpdateRouting(edge.id, edge.routing === option.id ? undefined : option.id); }}
+                            onDoubleClick={(e) => e.stopPropagation()}
+                            title={edge.routing === option.id ? 'Usar o estilo padrão' : `Traçado: ${option.label}`}
+                            className={`px-2 py-0.5 text-xs rounded-md border transition-colors ${routing === option.id
+                                ? 'bg-[var(--color-accent)] text-white border-[var(--color-accent)]'
+                                : 'bg-[var(--color-bg-secondary)] text-[var(--color-text-secondary)] border-[var(--color-border)] hover:text-[var(--color-text-primary)]'}`}
+                        >
+                            {option.label}{edge.routing === option.id ? ' •' : ''}
+                        </button>
+                    ))}
+                </div>
             </foreignObject>
              <circle
                 cx={finalSourcePos.x}
@@ -268,6 +228,25 @@ const Edge: React.FC<EdgeProps> = ({ edge, nodes, autoConnect, isSelected, onSel
                 className="cursor-move"
                 onMouseDown={(e) => { e.stopPropagation(); onStartReconnecting(edge.id, 'target'); }}
             />
+            {/* Pontos intermediários: arraste para mover, clique duplo para remover */}
+            {waypoints.map((point, index) => (
+                <rect
+                    key={index}
+                    x={point.x - 6}
+                    y={point.y - 6}
+                    width={12}
+                    height={12}
+                    rx={2}
+                    fill="var(--color-bg)"
+                    stroke="var(--color-accent)"
+                    strokeWidth="2"
+                    className="cursor-move"
+                    onMouseDown={(e) => handleWaypointMouseDown(e, index)}
+                    onDoubleClick={(e) => { e.stopPropagation(); removeWaypoint(index); }}
+                >
+                    <title>Arraste para mover; clique duplo para remover</title>
+                </rect>
+            ))}
          </>
       )}
 
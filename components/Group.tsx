@@ -0,0 +1,182 @@
+import React, { useState, useRef, useEffect, KeyboardEvent } from 'react';
+import { GroupData, Position } from '../types';
+import { Rect } from '../services/swimlaneService';
+import { GROUP_HEADER_SIZE } from '../services/groupService';
+import { TrashIcon } from './Icons';
+
+interface GroupProps {
+  data: GroupData;
+  // Quadro do grupo expandido ou área do bloco provisório, se recolhido.
+  bounds: Rect;
+  onMove: (id: string, position: Position) => void;
+  onTitleChange: (id: string, title: string) => void;
+  onToggleCollapsed: (id: string) => void;
+  onUngroup: (id: string) => void;
+  viewZoom: number;
+  snapToGrid: boolean;
+}
+
+const GRID_SIZE = 20;
+const snap = (val: number) => Math.round(val / GRID_SIZE) * GRID_SIZE;
+
+const Group: React.FC<GroupProps> = ({ data, bounds, onMove, onTitleChange, onToggleCollapsed, onUngroup, viewZoom, snapToGrid }) => {
+    const [drag, setDrag] = useState<{ startX: number; startY: number; startPosition: Position } | null>(null);
+    const [isEditing, setIsEditing] = useState(false);
+    const [editText, setEditText] = useState('');
+    const inputRef = useRef<HTMLInputElement>(null);
+
+    const isCollapsed = !!data.collapsed;
+
+    useEffect(() => {
+        if (!drag) return;
+
+        const handleMouseMove = (e: MouseEvent) => {
+            const x = drag.startPosition.x + (e.clientX - drag.startX) / viewZoom;
+            const y = drag.startPosition.y + (e.clientY - drag.startY) / viewZoom;
+            onMove(data.id, snapToGrid ? { x: snap(x), y: snap(y) } : { x, y });
+        };
+
+        const handleMouseUp = () => setDrag(null);
+
+        window.addEventListener('mousemove', handleMouseMove);
+        window.addEventListener('mouseup', handleMouseUp);
+
+        return () => {
+            window.removeEventListener('mousemove', handleMouseMove);
+            window.removeEventListener('mouseup', handleMouseUp);
+        };
+    }, [drag, data.id, viewZoom, snapToGrid, onMove]);
+
+    useEffect(() => {
+        if (isEditing && inputRef.current) {
+            inputRef.current.focus();
+            inputRef.current.select();
+        }
+    }, [isEditing]);
+
+    // "onMove" recebe a nova origem da área desenhada (quadro ou bloco provisório).
+    const startDrag = (e: React.MouseEvent) => {
+        if (e.button !== 0 || e.altKey) return;
+        e.stopPropagation();
+        e.preventDefault();
+        setDrag({ startX: e.clientX, startY: e.clientY, startPosition: { x: bounds.x, y: bounds.y } });
+    };
+
+    const startEditing = () => {
+        setEditText(data.title);
+        setIsEditing(true);
+    };
+
+    const commitEditing = () => {
+        onTitleChange(data.id, editText.trim() || data.title);
+        setIsEditing(false);
+    };
+
+    const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+        if (e.key === 'Enter') commitEditing();
+        if (e.key === 'Escape') setIsEditing(false);
+    };
+
+    const toolbar = (
+        <foreignObject x={bounds.x + bounds.width - 56} y={bounds.y - 12} width="56" height="24" className="overflow-visible">
+            <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                <button
+                    onClick={(e) => { e.stopPropagation(); onToggleCollapsed(data.id); }}
+                    onMouseDown={(e) => e.stopPropagation()}
+                    className="w-6 h-6 rounded-full bg-[var(--color-accent)] text-white flex items-center justify-center focus:outline-none text-sm font-bold leading-none transform hover:scale-110"
+                    title={isCollapsed ? 'Expandir grupo' : 'Recolher grupo'}
+                >
+                    {isCollapsed ? '+' : '−'}
+                </button>
+                <button
+                    onClick={(e) => { e.stopPropagation(); onUngroup(data.id); }}
+                    onMouseDown={(e) => e.stopPropagation()}
+                    className="w-6 h-6 rounded-full bg-red-600 text-white flex items-center justify-center focus:outline-none p-1 transform hover:scale-110"
+                    title="Desfazer grupo (mantém os blocos)"
+                >
+                    <TrashIcon />
+                </button>
+            </div>
+        </foreignObject>
+    );
+
+    const titleEditor = isEditing && (
+        <foreignObject x={bounds.x + 4} y={bounds.y + 4} width={Math.max(120, Math.min(220, bounds.width - 8))} height={28}>
+            <input
+                ref={inputRef}
+                value={editText}
+                onChange={(e) => setEditText(e.target.value)}
+                onBlur={commitEditing}
+                onKeyDown={handleKeyDown}
+                onMouseDown={(e) => e.stopPropagation()}
+                className="w-full h-full px-2 text-sm rounded-md bg-[var(--color-bg-tertiary)] text-[var(--color-text-primary)] border border-[var(--color-accent)] focus:outline-none"
+            />
+        </foreignObject>
+    );
+
+    if (isCollapsed) {
+        return (
+            <g id={data.id} className="group group-frame">
+                {/* Camadas deslocadas sugerem os blocos recolhidos */}
+                <rect
+                    x={bounds.x + 6} y={bounds.y + 6} width={bounds.width} height={bounds.height} rx={8}
+                    fill="var(--color-bg-tertiary)" stroke="var(--color-text-secondary)" strokeWidth={1.5}
+                    className="pointer-events-none"
+                />
+                <rect
+                    x={bounds.x} y={bounds.y} width={bounds.width} height={bounds.height} rx={8}
+                    fill="var(--color-bg-secondary)" stroke="var(--color-accent)" strokeWidth={2} strokeDasharray="6 4"
+                    className="cursor-grab"
+                    onMouseDown={startDrag}
+                    onDoubleClick={(e) => { e.stopPropagation(); onToggleCollapsed(data.id); }}
+                >
+                    <title>Clique duplo para expandir</title>
+                </rect>
+                <text
+                    x={bounds.x + bounds.width / 2}
+                    y={bounds.y + bounds.height / 2}
+                    textAnchor="middle"
+                    dominantBaseline="central"
+                    className="pointer-events-none fill-[var(--color-text-primary)] text-sm font-semibold"
+                    style={{ fontFamily: 'Inter, sans-serif' }}
+                >
+                    {data.title} ({data.nodeIds.length})
+                </text>
+                {toolbar}
+            </g>
+        );
+    }
+
+    return (
+        <g id={data.id} className="group group-frame">
+            <rect
+                x={bounds.x} y={bounds.y} width={bounds.width} height={bounds.height} rx={10}
+                fill="var(--color-accent)" fillOpacity={0.04}
+                stroke="var(--color-accent)" strokeOpacity={0.6} strokeWidth={1.5} strokeDasharray="6 4"
+                className="pointer-events-none"
+            />
+            <rect
+                x={bounds.x} y={bounds.y} width={bounds.width} height={GROUP_HEADER_SIZE} rx={10}
+                fill="transparent"
+                className="cursor-grab"
+                onMouseDown={startDrag}
+                onDoubleClick={(e) => { e.stopPropagation(); startEditing(); }}
+            />
+            {!isEditing && (
+                <text
+                    x={bounds.x + 12}
+                    y={bounds.y + GROUP_HEADER_SIZE / 2}
+                    dominantBaseline="central"
+                    className="pointer-events-none fill-[var(--color-text-primary)] text-sm font-semibold"
+                    style={{ fontFamily: 'Inter, sans-serif' }}
+                >
+                    {data.title}
+                </text>
+            )}
+            {titleEditor}
+            {toolbar}
+        </g>
+    );
+};
+
+export default Group;
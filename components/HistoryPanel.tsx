@@ -0,0 +1,86 @@
+import React, { useEffect, useRef } from 'react';
+import { HistoryEntry } from '../types';
+import { historyLimitOptions } from '../services/historyService';
+
+interface HistoryPanelProps {
+    entries: HistoryEntry[];
+    currentIndex: number;
+    onJump: (index: number) => void;
+    limit: number;
+    onLimitChange: (limit: number) => void;
+    onClose: () => void;
+}
+
+const formatTime = (timestamp: number) =>
+    timestamp > 0 ? new Date(timestamp).toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit', second: '2-digit' }) : '';
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ entries, currentIndex, onJump, limit, onLimitChange, onClose }) => {
+    const currentRef = useRef<HTMLLIElement>(null);
+
+    useEffect(() => {
+        currentRef.current?.scrollIntoView({ block: 'nearest' });
+    }, [currentIndex, entries.length]);
+
+    const limitOptions = historyLimitOptions.includes(limit) ? historyLimitOptions : [...historyLimitOptions, limit].sort((a, b) => a - b);
+
+    return (
+        <aside className="w-72 flex flex-col bg-[var(--color-bg-secondary)] border-l border-[var(--color-border)] shadow-lg">
+            <div className="p-4 border-b border-[var(--color-border)] flex items-center justify-between">
+                <div>
+                    <h2 className="text-lg font-semibold text-[var(--color-text-primary)]">Histórico</h2>
+                    <p className="text-xs text-[var(--color-text-secondary)] mt-1">
+                        Passo {currentIndex + 1} de {entries.length}
+                    </p>
+                </div>
+                <button
+                    onClick={onClose}
+                    className="w-8 h-8 rounded-full flex items-center justify-center text-[var(--color-text-secondary)] hover:bg-[var(--color-bg-tertiary-hover)] hover:text-[var(--color-text-primary)] transition-colors"
+                    aria-label="Fechar"
+                >
+                    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2.5} stroke="currentColor" className="w-5 h-5"><path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" /></svg>
+                </button>
+            </div>
+
+            <div className="flex-grow overflow-y-auto p-4 custom-scrollbar">
+                <ol className="relative border-l border-[var(--color-border)] ml-2">
+                    {entries.map((entry, index) => {
+                        const isCurrent = index === currentIndex;
+                        // Passos depois do atual foram desfeitos e ainda podem ser refeitos.
+                        const isUndone = index > currentIndex;
+                        return (
+                            <li key={`${index}-${entry.timestamp}`} ref={isCurrent ? currentRef : undefined} className="mb-1 ml-4">
+                                <span
+                                    className={`absolute -left-[5px] mt-3 w-2.5 h-2.5 rounded-full border ${isCurrent ? 'bg-[var(--color-accent)] border-[var(--color-accent)]' : 'bg-[var(--color-bg-secondary)] border-[var(--color-text-secondary)]'}`}
+                                />
+                                <button
+                                    onClick={() => onJump(index)}
+                                    className={`w-full p-2 text-left text-sm rounded-lg transition-colors border ${isCurrent ? 'bg-[var(--color-bg-tertiary)] border-[var(--color-accent)]' : 'border-transparent hover:bg-[var(--color-bg-tertiary-hover)]'} ${isUndone ? 'opacity-50' : ''}`}
+                                    title={isCurrent ? 'Estado atual' : 'Voltar para este passo'}
+                                >
+                                    <span className="block text-[var(--color-text-primary)]">{entry.description}</span>
+                                    {entry.timestamp > 0 && (
+                                        <span className="block text-xs text-[var(--color-text-secondary)] mt-0.5">{formatTime(entry.timestamp)}</span>
+                                    )}
+                                </button>
+                            </li>
+                        );
+                    })}
+                </ol>
+            </div>
+
+            <div className="p-4 border-t border-[var(--color-border)] flex items-center justify-between gap-3 text-sm">
+                <label htmlFor="history-limit" className="text-[var(--color-text-secondary)]">Limite de passos</label>
+                <select
+                    id="history-limit"
+                    value={limit}
+                    onChange={(e) => onLimitChange(parseInt(e.target.value, 10))}
+                    className="px-2 py-1 rounded-md bg-[var(--color-bg-tertiary)] text-[var(--color-text-primary)] border border-[var(--color-border)] focus:outline-none focus:border-[var(--color-accent)]"
+                >
+                    {limitOptions.map(option => <option key={option} value={option}>{option}</option>)}
+                </select>
+            </div>
+        </aside>
+    );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,201 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { AnnotationData, EdgeData, NodeData, Position } from '../types';
+import { getNodeSize } from '../services/flowchartUtils';
+import { ANNOTATION_DEFAULT } from '../services/groupService';
+
+interface MinimapProps {
+    nodes: NodeData[];
+    edges: EdgeData[];
+    annotations: AnnotationData[];
+    view: { x: number; y: number; zoom: number };
+    canvasSize: { width: number; height: number };
+    // Centraliza a visualização no ponto indicado, em coordenadas do fluxograma.
+    onCenterView: (point: Position) => void;
+}
+
+interface Bounds {
+    minX: number;
+    minY: number;
+    maxX: number;
+    maxY: number;
+}
+
+export const MINIMAP_WIDTH = 200;
+export const MINIMAP_HEIGHT = 140;
+export const MINIMAP_MARGIN = 16;
+const CONTENT_PADDING = 80;
+
+const unionBounds = (a: Bounds, b: Bounds): Bounds => ({
+    minX: Math.min(a.minX, b.minX), minY: Math.min(a.minY, b.minY),
+    maxX: Math.max(a.maxX, b.maxX), maxY: Math.max(a.maxY, b.maxY),
+});
+
+// Escala e deslocamento que encaixam os limites no retângulo do minimapa.
+const getLayout = (bounds: Bounds) => {
+    const width = Math.max(bounds.maxX - bounds.minX, 1);
+    const height = Math.max(bounds.maxY - bounds.minY, 1);
+    const scale = Math.min(MINIMAP_WIDTH / width, MINIMAP_HEIGHT / height);
+    return {
+        scale,
+        offsetX: (MINIMAP_WIDTH - width * scale) / 2 - bounds.minX * scale,
+        offsetY: (MINIMAP_HEIGHT - height * scale) / 2 - bounds.minY * scale,
+    };
+};
+
+// Visão reduzida de todo o fluxograma, com o retângulo da área visível. Clicar
+// centraliza a visualização no ponto; arrastar o retângulo move a visualização.
+const Minimap: React.FC<MinimapProps> = ({ nodes, edges, annotations, view, canvasSize, onCenterView }) => {
+    const svgRef = useRef<SVGSVGElement>(null);
+    // Durante o arraste os limites ficam fixos, para o desenho não se mover sob o cursor.
+    const [dragBounds, setDragBounds] = useState<Bounds | null>(null);
+    const dragOffset = useRef<Position>({ x: 0, y: 0 });
+
+    // O conteúdo só é redesenhado quando o fluxograma muda, não a cada movimento da visualização.
+    const { contentBounds, content } = useMemo(() => {
+        let bounds: Bounds | null = null;
+        const include = (x: number, y: number, width: number, height: number) => {
+            const itemBounds = { minX: x, minY: y, maxX: x + width, maxY: y + height };
+            bounds = bounds ? unionBounds(bounds, itemBounds) : itemBounds;
+        };
+        const centers = new Map<string, Position>();
+        nodes.forEach(node => {
+            const { width, height } = getNodeSize(node);
+            include(node.position.x, node.position.y, width, height);
+            centers.set(node.id, { x: node.position.x + width / 2, y: node.position.y + height / 2 });
+        });
+        annotations.forEach(annotation => {
+            include(annotation.position.x, annotation.position.y, annotation.width ?? ANNOTATION_DEFAULT.width, annotation.height ?? ANNOTATION_DEFAULT.height);
+        });
+
+        const content = (
+            <>
+                {edges.map(edge => {
+                    const source = centers.get(edge.source);
+                    const target = centers.get(edge.target);
+                    if (!source || !target) return null;
+                    return (
+                        <line
+                            key={edge.id}
+                            x1={source.x} y1={source.y} x2={target.x} y2={target.y}
+                            stroke="var(--color-text-secondary)"
+                            strokeWidth={1}
+                            vectorEffect="non-scaling-stroke"
+                        />
+                    );
+                })}
+                {annotations.map(annotation => (
+                    <rect
+                        key={annotation.id}
+                        x={annotation.position.x}
+                        y={annotation.position.y}
+                        width={annotation.width ?? ANNOTATION_DEFAULT.width}
+                        height={annotation.height ?? ANNOTATION_DEFAULT.height}
+                        fill="#FBBF24"
+                        opacity={0.6}
+                    />
+                ))}
+                {nodes.map(node => {
+                    const { width, height } = getNodeSize(node);
+                    return (
+                        <rect
+                            key={node.id}
+                            x={node.position.x}
+                            y={node.position.y}
+                            width={width}
+                            height={height}
+                            rx={Math.min(width, height) / 6}
+                            fill={node.color || `url(#grad-${node.type})`}
+                        />
+                    );
+                })}
+            </>
+        );
+        return { contentBounds: bounds as Bounds | null, content };
+    }, [nodes, edges, annotations]);
+
+    const viewport: Bounds = {
+        minX: -view.x / view.zoom,
+        minY: -view.y / view.zoom,
+        maxX: (canvasSize.width - view.x) / view.zoom,
+        maxY: (canvasSize.height - view.y) / view.zoom,
+    };
+
+    const bounds = dragBounds ?? (contentBounds
+        ? unionBounds({
+            minX: contentBounds.minX - CONTENT_PADDING, minY: contentBounds.minY - CONTENT_PADDING,
+            maxX: contentBounds.maxX + CONTENT_PADDING, maxY: contentBounds.maxY + CONTENT_PADDING,
+        }, viewport)
+        : viewport);
+    const layout = getLayout(bounds);
+
+    const toWorld = useCallback((clientX: number, clientY: number, currentLayout: ReturnType<typeof getLayout>): Position => {
+        const rect = svgRef.current!.getBoundingClientRect();
+        return {
+            x: (clientX - rect.left - currentLayout.offsetX) / currentLayout.scale,
+            y: (clientY - rect.top - currentLayout.offsetY) / currentLayout.scale,
+        };
+    }, []);
+
+    useEffect(() => {
+        if (!dragBounds) return;
+        const dragLayout = getLayout(dragBounds);
+        const handleMouseMove = (e: MouseEvent) => {
+            const point = toWorld(e.clientX, e.clientY, dragLayout);
+            onCenterView({ x: point.x - dragOffset.current.x, y: point.y - dragOffset.current.y });
+        };
+        const handleMouseUp = () => setDragBounds(null);
+        window.addEventListener('mousemove', handleMouseMove);
+        window.addEventListener('mouseup', handleMouseUp);
+        return () => {
+            window.removeEventListener('mousemove', handleMouseMove);
+            window.removeEventListener('mouseup', handleMouseUp);
+        };
+    }, [dragBounds, toWorld, onCenterView]);
+
+    const handleMouseDown = (e: React.MouseEvent<SVGSVGElement>) => {
+        if (e.button !== 0) return;
+        e.stopPropagation();
+        e.preventDefault();
+        const point = toWorld(e.clientX, e.clientY, layout);
+        const center = { x: (viewport.minX + viewport.maxX) / 2, y: (viewport.minY + viewport.maxY) / 2 };
+        const insideViewport = point.x >= viewport.minX && point.x <= viewport.maxX && point.y >= viewport.minY && point.y <= viewport.maxY;
+        // Arrastando o retângulo, ele acompanha o cursor sem saltar; fora dele, a
+        // visualização é centralizada no ponto clicado.
+        dragOffset.current = insideViewport ? { x: point.x - center.x, y: point.y - center.y } : { x: 0, y: 0 };
+        if (!insideViewport) onCenterView(point);
+        setDragBounds(bounds);
+    };
+
+    if (canvasSize.width === 0 || canvasSize.height === 0) return null;
+
+    return (
+        <svg
+            ref={svgRef}
+            className="minimap"
+            x={MINIMAP_MARGIN}
+            y={canvasSize.height - MINIMAP_HEIGHT - MINIMAP_MARGIN}
+            width={MINIMAP_WIDTH}
+            height={MINIMAP_HEIGHT}
+            onMouseDown={handleMouseDown}
+            style={{ cursor: dragBounds ? 'grabbing' : 'pointer' }}
+        >
+            <rect width={MINIMAP_WIDTH} height={MINIMAP_HEIGHT} rx={8} fill="var(--color-bg-secondary)" fillOpacity={0.9} stroke="var(--color-border)" />
+            <g transform={`translate(${layout.offsetX}, ${layout.offsetY}) scale(${layout.scale})`} className="pointer-events-none">
+                {content}
+                <rect
+                    x={viewport.minX}
+                    y={viewport.minY}
+                    width={viewport.maxX - viewport.minX}
+                    height={viewport.maxY - viewport.minY}
+                    fill="var(--color-accent)"
+                    fillOpacity={0.12}
+                    stroke="var(--color-accent)"
+                    strokeWidth={1.5}
+                    vectorEffect="non-scaling-stroke"
+                />
+            </g>
+        </svg>
+    );
+};
+
+export default React.memo(Minimap);
@@ -2,6 +2,8 @@
 import React, { useState, useRef, useEffect, KeyboardEvent, useLayoutEffect } from 'react';
 import { NodeData, Position, NodeType } from '../types';
 import { TrashIcon } from './Icons';
+import { defaultDimensions } from '../services/flowchartUtils';
+import { getShapeOutline, getShapeDetailPath, getShapeConnectionPoints, getShapeTextInset } from '../services/shapeService';
 
 interface NodeProps {
   data: NodeData;
@@ -17,6 +19,9 @@ interface NodeProps {
   onMouseDown: (e: React.MouseEvent, id: string) => void;
   isSelected: boolean;
   fontsLoaded: boolean;
+  isSimulationCurrent?: boolean;
+  linkedProjectName?: string | null;
+  onOpenSubprocess?: (node: NodeData) => void;
 }
 
 interface ResizingState {
@@ -35,12 +40,10 @@ interface ConnectionPoint {
   index: number;
 }
 
-const MIN_DIMENSIONS: Record<NodeType, { width: number, height: number }> = {
-    start: { width: 150, height: 60 },
-    end: { width: 150, height: 60 },
-    process: { width: 150, height: 70 },
-    decision: { width: 160, height: 100 },
-};
+const MIN_DIMENSIONS = defaultDimensions;
+
+// Recuo das barras laterais que identificam um subprocesso.
+const SUBPROCESS_BAR_INSET = 12;
 
 const MAX_WIDTH = 350;
 
@@ -53,8 +56,10 @@ const getShape = (type: NodeType, width: number, height: number): React.ReactEle
             return <rect x="0" y="0" width={width} height={height} rx="8" ry="8"/>;
         case 'decision':
             return <path d={`M ${width / 2} 0 L ${width} ${height / 2} L ${width / 2} ${height} L 0 ${height / 2} Z`} />;
+        case 'subprocess':
+            return <rect x="0" y="0" width={width} height={height} rx="4" ry="4"/>;
         default:
-            return <rect x="0" y="0" width={width} height={height} />;
+            return <path d={getShapeOutline(type, width, height) ?? `M 0 0 H ${width} V ${height} H 0 Z`} />;
     }
 };
 
@@ -63,6 +68,14 @@ const nodeClasses: Record<NodeType, string> = {
     process: 'node-process',
     decision: 'node-decision',
     end: 'node-end',
+    subprocess: 'node-subprocess',
+    inputOutput: 'node-inputOutput',
+    document: 'node-document',
+    database: 'node-database',
+    manualInput: 'node-manualInput',
+    delay: 'node-delay',
+    offPage: 'node-offPage',
+    preparation: 'node-preparation',
 };
 
 // Índices: 0: Top, 1: Right, 2: Bottom, 3: Left
@@ -75,18 +88,14 @@ const getConnectionPoints = (type: NodeType, width: number, height: number): Con
             { pos: { x: 0, y: height / 2 }, index: 3 },                  // Left (Extra)
         ];
     }
-    return [
-        { pos: { x: width / 2, y: 0 }, index: 0 },    // Top
-        { pos: { x: width, y: height / 2 }, index: 1 }, // Right
-        { pos: { x: width / 2, y: height }, index: 2 }, // Bottom
-        { pos: { x: 0, y: height / 2 }, index: 3 },     // Left
-    ];
+    return getShapeConnectionPoints(type, width, height).map((pos, index) => ({ pos, index }));
 };
 
 const Node: React.FC<NodeProps> = ({ 
     data, onPositionChange, onTextChange, onDelete, onStartConnecting, 
     onSizeChange, onOpenContextMenu, isConnecting, viewZoom, 
-    onInteractionStart, onMouseDown, isSelected, fontsLoaded
+    onInteractionStart, onMouseDown, isSelected, fontsLoaded, isSimulationCurrent = false,
+    linkedProjectName, onOpenSubprocess
 }) => {
     const [resizingState, setResizingState] = useState<ResizingState | null>(null);
     const [isEditing, setIsEditing] = useState(false);
@@ -113,7 +122,7 @@ const Node: React.FC<NodeProps> = ({
         }
     
         const textEl = textRef.current;
-        const paddingX = data.type === 'decision' ? 40 : 20;
+        const paddingX = data.type === 'decision' ? 40 : data.type === 'subprocess' ? 20 + SUBPROCESS_BAR_INSET * 2 : 20 + getShapeTextInset(data.type, width, height);
         const paddingY = data.type === 'decision' ? 20 : 20;
     
         textEl.style.width = 'auto'; 
@@ -148,6 +157,9 @@ const Node: React.FC<NodeProps> = ({
     // No hover, mostra todos os pontos
     const hoverConnectors = data.type === 'decision' ? connectionPoints.filter(p => !p.label) : connectionPoints;
 
+    const textInset = getShapeTextInset(data.type, width, height);
+    const detailPath = getShapeDetailPath(data.type, width);
+
     const shapeComponent = getShape(data.type, width, height);
     const shapeProps: React.SVGProps<any> = {};
 
@@ -191,7 +203,12 @@ const Node: React.FC<NodeProps> = ({
         });
     };
     
-    const handleDoubleClick = () => {
+    // Em subprocessos vinculados, o clique duplo abre o projeto; com Shift, edita o texto.
+    const handleDoubleClick = (e: React.MouseEvent) => {
+        if (data.type === 'subprocess' && data.linkedProjectId && onOpenSubprocess && !e.shiftKey) {
+            onOpenSubprocess(data);
+            return;
+        }
         setIsEditing(true);
     };
 
@@ -325,6 +342,42 @@ const Node: React.FC<NodeProps> = ({
                 {styledShape}
             </g>
 
+            {detailPath && (
+                <path d={detailPath} fill="none" stroke="rgba(255, 255, 255, 0.6)" strokeWidth="1.5" className="pointer-events-none" />
+            )}
+
+            {data.type === 'subprocess' && (
+                <g className="pointer-events-none">
+                    <path
+                        d={`M ${SUBPROCESS_BAR_INSET} 0 V ${height} M ${width - SUBPROCESS_BAR_INSET} 0 V ${height}`}
+                        stroke="rgba(255, 255, 255, 0.6)"
+                        strokeWidth="1.5"
+                    />
+                    <text
+                        x={width / 2}
+                        y={height + 16}
+                        textAnchor="middle"
+                        className={`text-xs font-medium ${data.linkedProjectId && linkedProjectName ? 'fill-[var(--color-accent)]' : 'fill-[var(--color-text-secondary)]'}`}
+                        style={{ fontFamily: 'Inter, sans-serif' }}
+                    >
+                        {!data.linkedProjectId ? 'Nenhum projeto vinculado' : linkedProjectName ? `↗ ${linkedProjectName}` : 'Projeto vinculado não encontrado'}
+                    </text>
+                </g>
+            )}
+
+            {isSimulationCurrent && (
+                <rect
+                    x={-8} y={-8}
+                    width={width + 16}
+                    height={height + 16}
+                    fill="none"
+                    stroke="#FBBF24"
+                    strokeWidth="3"
+                    rx={data.type === 'start' || data.type === 'end' ? (height + 16) / 2 : 14}
+                    className="pointer-events-none animate-pulse"
+                />
+            )}
+
             {isSelected && (
                 <rect
                     x={-4} y={-4}
@@ -358,7 +411,7 @@ const Node: React.FC<NodeProps> = ({
                      <div className="w-full h-full flex items-center justify-center text-center text-white font-medium text-sm break-all p-2 box-border">
                         <div 
                             ref={textRef} 
-                            style={{ maxWidth: data.type === 'decision' ? `${width - 40}px` : undefined }}
+                            style={{ maxWidth: data.type === 'decision' ? `${width - 40}px` : data.type === 'subprocess' ? `${width - SUBPROCESS_BAR_INSET * 2 - 8}px` : textInset ? `${width - textInset - 8}px` : undefined }}
                         >
                             {data.text}
                         </div>
@@ -465,4 +518,4 @@ const Node: React.FC<NodeProps> = ({
     );
 };
 
-export default Node;
+export default React.memo(Node);
@@ -2,7 +2,8 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { createPortal } from 'react-dom';
 import { Project } from '../types';
-import { AddIcon, PencilIcon, TrashIcon } from './Icons';
+import { AddIcon, PencilIcon, TrashIcon, HistoryIcon } from './Icons';
+import { findReferencingProjects } from '../services/subprocessService';
 
 interface ProjectManagerModalProps {
     isOpen: boolean;
@@ -12,8 +13,15 @@ interface ProjectManagerModalProps {
     onDeleteProject: (id: string) => void;
     onRenameProject: (id: string, newName: string) => void;
     onNewProject: () => void;
+    onSaveVersion: (projectId: string, name: string) => void;
+    onRestoreVersion: (projectId: string, versionId: string) => void;
+    onCompareVersion: (projectId: string, versionId: string) => void;
+    onDeleteVersion: (projectId: string, versionId: string) => void;
 }
 
+const formatDate = (timestamp: number) =>
+    new Date(timestamp).toLocaleString('pt-BR', { day: '2-digit', month: '2-digit', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
 const ProjectManagerModal: React.FC<ProjectManagerModalProps> = ({
     isOpen,
     onClose,
@@ -21,10 +29,17 @@ const ProjectManagerModal: React.FC<ProjectManagerModalProps> = ({
     onOpenProject,
     onDeleteProject,
     onRenameProject,
-    onNewProject
+    onNewProject,
+    onSaveVersion,
+    onRestoreVersion,
+    onCompareVersion,
+    onDeleteVersion
 }) => {
     const [renamingId, setRenamingId] = useState<string | null>(null);
     const [renameValue, setRenameValue] = useState('');
+    // Projeto com a lista de versões aberta.
+    const [versionsProjectId, setVersionsProjectId] = useState<string | null>(null);
+    const [versionName, setVersionName] = useState('');
     const renameInputRef = useRef<HTMLInputElement>(null);
 
     useEffect(() => {
@@ -63,11 +78,34 @@ const ProjectManagerModal: React.FC<ProjectManagerModalProps> = ({
     };
     
     const handleDelete = (id: string, name: string) => {
-        if (window.confirm(`Tem certeza de que deseja excluir permanentemente o projeto "${name}"? Esta ação não pode ser desfeita.`)) {
+        const referencing = findReferencingProjects(projects, id);
+        const warning = referencing.length > 0
+            ? `O projeto "${name}" é usado como subprocesso em: ${referencing.map(p => `"${p.name}"`).join(', ')}. Esses blocos ficarão sem projeto vinculado.\n\n`
+            : '';
+        if (window.confirm(`${warning}Tem certeza de que deseja excluir permanentemente o projeto "${name}"? Esta ação não pode ser desfeita.`)) {
             onDeleteProject(id);
         }
     }
 
+    const handleSaveVersion = (e: React.FormEvent, projectId: string) => {
+        e.preventDefault();
+        if (!versionName.trim()) return;
+        onSaveVersion(projectId, versionName.trim());
+        setVersionName('');
+    };
+
+    const handleRestoreVersion = (projectId: string, versionId: string, name: string) => {
+        if (window.confirm(`Restaurar a versão "${name}"? O estado atual continua disponível no histórico de alterações.`)) {
+            onRestoreVersion(projectId, versionId);
+        }
+    };
+
+    const handleDeleteVersion = (projectId: string, versionId: string, name: string) => {
+        if (window.confirm(`Excluir a versão "${name}"? Esta ação não pode ser desfeita.`)) {
+            onDeleteVersion(projectId, versionId);
+        }
+    };
+
     if (!isOpen) return null;
 
     return createPortal(
@@ -105,44 +143,123 @@ const ProjectManagerModal: React.FC<ProjectManagerModalProps> = ({
                         {projects.length > 0 ? projects.map(project => (
                             <li 
                                 key={project.id} 
-                                className="bg-[var(--color-bg-tertiary)] p-3 rounded-lg flex items-center justify-between transition-colors hover:bg-[var(--color-bg-tertiary-hover)]"
+                                className="bg-[var(--color-bg-tertiary)] p-3 rounded-lg transition-colors hover:bg-[var(--color-bg-tertiary-hover)]"
                             >
-                                {renamingId === project.id ? (
-                                    <input
-                                        ref={renameInputRef}
-                                        type="text"
-                                        value={renameValue}
-                                        onChange={(e) => setRenameValue(e.target.value)}
-                                        onBlur={handleRenameSubmit}
-                                        onKeyDown={handleRenameKeyDown}
-                                        className="flex-grow bg-[var(--color-bg)] text-base font-medium focus:outline-none ring-2 ring-[var(--color-accent)] rounded-md px-2 py-1"
-                                    />
-                                ) : (
-                                    <span className="flex-grow font-medium truncate">{project.name}</span>
-                                )}
-
-                                <div className="flex items-center gap-2 ml-4 flex-shrink-0">
-                                    <button 
-                                        onClick={() => onOpenProject(project.id)}
-                                        className="px-4 py-1.5 text-sm font-semibold bg-[var(--color-bg)] rounded-md hover:bg-[var(--color-bg-secondary)] border border-[var(--color-border)] transition-colors"
-                                    >
-                                        Abrir
-                                    </button>
-                                    <button 
-                                        onClick={() => { setRenamingId(project.id); setRenameValue(project.name); }}
-                                        className="p-2 rounded-md text-[var(--color-text-secondary)] hover:bg-[var(--color-bg)] hover:text-[var(--color-accent)] transition-colors"
-                                        aria-label="Renomear projeto"
-                                    >
-                                        <PencilIcon className="w-5 h-5"/>
-                                    </button>
-                                    <button 
-                                        onClick={() => handleDelete(project.id, project.name)}
-                                        className="p-2 rounded-md text-[var(--color-text-secondary)] hover:bg-red-900/40 hover:text-red-400 transition-colors"
-                                        aria-label="Excluir projeto"
-                                    >
-                                        <TrashIcon className="w-5 h-5"/>
-                                    </button>
+                                <div className="flex items-center justify-between">
+                                    {renamingId === project.id ? (
+                                        <input
+                                            ref={renameInputRef}
+                                            type="text"
+                                            value={renameValue}
+                                            onChange={(e) => setRenameValue(e.target.value)}
+                                            onBlur={handleRenameSubmit}
+                                            onKeyDown={handleRenameKeyDown}
+                                            className="flex-grow bg-[var(--color-bg)] text-base font-medium focus:outline-none ring-2 ring-[var(--color-accent)] rounded-md px-2 py-1"
+                                        />
+                                    ) : (
+                                        <div className="flex-grow min-w-0">
+                                            <span className="block font-medium truncate">{project.name}</span>
+                                            {(() => {
+                                                const referenceCount = findReferencingProjects(projects, project.id).length;
+                                                return referenceCount > 0 && (
+                                                    <span className="block text-xs text-[var(--color-text-secondary)]">
+                                                        Usado como subprocesso em {referenceCount} {referenceCount === 1 ? 'fluxograma' : 'fluxogramas'}
+                                                    </span>
+                                                );
+                                            })()}
+                                        </div>
+                                    )}
+    
+                                    <div className="flex items-center gap-2 ml-4 flex-shrink-0">
+                                        <button 
+                                            onClick={() => onOpenProject(project.id)}
+                                            className="px-4 py-1.5 text-sm font-semibold bg-[var(--color-bg)] rounded-md hover:bg-[var(--color-bg-secondary)] border border-[var(--color-border)] transition-colors"
+                                        >
+                                            Abrir
+                                        </button>
+                                        <button 
+                                            onClick={() => { setVersionsProjectId(id => id === project.id ? null : project.id); setVersionName(''); }}
+                                            className={`flex items-center gap-1 p-2 rounded-md text-sm transition-colors hover:bg-[var(--color-bg)] hover:text-[var(--color-accent)] ${versionsProjectId === project.id ? 'text-[var(--color-accent)]' : 'text-[var(--color-text-secondary)]'}`}
+                                            aria-label="Versões do projeto"
+                                            title="Versões salvas"
+                                        >
+                                            <HistoryIcon className="w-5 h-5"/>
+                                            {project.versions.length > 0 && <span>{project.versions.length}</span>}
+                                        </button>
+                                        <button 
+                                            onClick={() => { setRenamingId(project.id); setRenameValue(project.name); }}
+                                            className="p-2 rounded-md text-[var(--color-text-secondary)] hover:bg-[var(--color-bg)] hover:text-[var(--color-accent)] transition-colors"
+                                            aria-label="Renomear projeto"
+                                        >
+                                            <PencilIcon className="w-5 h-5"/>
+                                        </button>
+                                        <button 
+                                            onClick={() => handleDelete(project.id, project.name)}
+                                            className="p-2 rounded-md text-[var(--color-text-secondary)] hover:bg-red-900/40 hover:text-red-400 transition-colors"
+                                            aria-label="Excluir projeto"
+                                        >
+                                            <TrashIcon className="w-5 h-5"/>
+                                        </button>
+                                    </div>
                                 </div>
+
+                                {versionsProjectId === project.id && (
+                                    <div className="mt-3 pt-3 border-t border-[var(--color-border)] space-y-2">
+                                        <form onSubmit={(e) => handleSaveVersion(e, project.id)} className="flex gap-2">
+                                            <input
+                                                type="text"
+                                                value={versionName}
+                                                onChange={(e) => setVersionName(e.target.value)}
+                                                placeholder="Nome da versão (ex: v1 aprovada)"
+                                                className="flex-grow bg-[var(--color-bg)] text-sm focus:outline-none ring-1 ring-[var(--color-border)] focus:ring-2 focus:ring-[var(--color-accent)] rounded-md px-2 py-1.5"
+                                            />
+                                            <button
+                                                type="submit"
+                                                disabled={!versionName.trim()}
+                                                className="px-3 py-1.5 text-sm font-semibold bg-[var(--color-accent)] text-white rounded-md hover:opacity-80 transition-opacity disabled:opacity-50"
+                                            >
+                                                Salvar Versão
+                                            </button>
+                                        </form>
+                                        {project.versions.length === 0 ? (
+                                            <p className="text-sm text-[var(--color-text-secondary)] py-1">Nenhuma versão salva.</p>
+                                        ) : (
+                                            <ul className="space-y-1">
+                                                {[...project.versions].reverse().map(version => (
+                                                    <li key={version.id} className="flex items-center justify-between gap-2 px-2 py-1.5 rounded-md bg-[var(--color-bg)]">
+                                                        <div className="min-w-0">
+                                                            <span className="block text-sm font-medium truncate">{version.name}</span>
+                                                            <span className="block text-xs text-[var(--color-text-secondary)]">
+                                                                {formatDate(version.createdAt)} · {version.state.nodes.length} {version.state.nodes.length === 1 ? 'bloco' : 'blocos'}
+                                                            </span>
+                                                        </div>
+                                                        <div className="flex items-center gap-1 flex-shrink-0">
+                                                            <button
+                                                                onClick={() => onCompareVersion(project.id, version.id)}
+                                                                className="px-2 py-1 text-xs font-semibold rounded-md border border-[var(--color-border)] hover:border-[var(--color-accent)] hover:text-[var(--color-accent)] transition-colors"
+                                                            >
+                                                                Comparar
+                                                            </button>
+                                                            <button
+                                                                onClick={() => handleRestoreVersion(project.id, version.id, version.name)}
+                                                                className="px-2 py-1 text-xs font-semibold rounded-md border border-[var(--color-border)] hover:border-[var(--color-accent)] hover:text-[var(--color-accent)] transition-colors"
+                                                            >
+                                                                Restaurar
+                                                            </button>
+                                                            <button
+                                                                onClick={() => handleDeleteVersion(project.id, version.id, version.name)}
+                                                                className="p-1 rounded-md text-[var(--color-text-secondary)] hover:bg-red-900/40 hover:text-red-400 transition-colors"
+                                                                aria-label="Excluir versão"
+                                                            >
+                                                                <TrashIcon className="w-4 h-4"/>
+                                                            </button>
+                                                        </div>
+                                                    </li>
+                                                ))}
+                                            </ul>
+                                        )}
+                                    </div>
+                                )}
                             </li>
                         )) : (
                             <div className="text-center py-10 text-[var(--color-text-secondary)]">
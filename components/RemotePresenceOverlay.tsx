@@ -0,0 +1,63 @@
+import React from 'react';
+import { NodeData } from '../types';
+import { getNodeSize } from '../services/flowchartUtils';
+import { CollabPeer } from '../services/collabClient';
+
+interface RemotePresenceOverlayProps {
+  peers: CollabPeer[];
+  nodes: NodeData[];
+  viewZoom: number;
+}
+
+const OUTLINE_OFFSET = 5;
+
+// Cursores e seleções dos outros participantes da sessão colaborativa.
+const RemotePresenceOverlay: React.FC<RemotePresenceOverlayProps> = ({ peers, nodes, viewZoom }) => {
+    // Cursores e etiquetas mantêm o mesmo tamanho na tela em qualquer zoom.
+    const scale = 1 / viewZoom;
+
+    return (
+        <g className="pointer-events-none">
+            {peers.map(peer => (peer.selection ?? []).map(nodeId => {
+                const node = nodes.find(n => n.id === nodeId);
+                if (!node) return null;
+                const { width, height } = getNodeSize(node);
+                return (
+                    <g key={`${peer.clientId}-${nodeId}`}>
+                        <rect
+                            x={node.position.x - OUTLINE_OFFSET}
+                            y={node.position.y - OUTLINE_OFFSET}
+                            width={width + OUTLINE_OFFSET * 2}
+                            height={height + OUTLINE_OFFSET * 2}
+                            rx={12}
+                            fill="none"
+                            stroke={peer.color}
+                            strokeWidth={2 * scale}
+                            strokeDasharray={`${6 * scale} ${4 * scale}`}
+                        />
+                        <text
+                            x={node.position.x - OUTLINE_OFFSET}
+                            y={node.position.y - OUTLINE_OFFSET - 4 * scale}
+                            fill={peer.color}
+                            fontSize={11 * scale}
+                            style={{ fontFamily: 'Inter, sans-serif' }}
+                        >
+                            {peer.name}
+                        </text>
+                    </g>
+                );
+            }))}
+            {peers.map(peer => peer.cursor && (
+                <g key={`cursor-${peer.clientId}`} transform={`translate(${peer.cursor.x}, ${peer.cursor.y}) scale(${scale})`}>
+                    <path d="M0 0 L0 16 L4.5 12 L7.5 19 L10 18 L7 11 L13 11 Z" fill={peer.color} stroke="white" strokeWidth={1} />
+                    <rect x={12} y={16} width={peer.name.length * 7 + 12} height={18} rx={4} fill={peer.color} />
+                    <text x={18} y={29} fill="white" fontSize={11} fontWeight={600} style={{ fontFamily: 'Inter, sans-serif' }}>
+                        {peer.name}
+                    </text>
+                </g>
+            ))}
+        </g>
+    );
+};
+
+export default RemotePresenceOverlay;
@@ -0,0 +1,111 @@
+import React, { useEffect, useRef, useState } from 'react';
+
+interface SearchBarProps {
+    query: string;
+    onQueryChange: (query: string) => void;
+    replacement: string;
+    onReplacementChange: (replacement: string) => void;
+    allProjects: boolean;
+    onAllProjectsChange: (allProjects: boolean) => void;
+    matchCount: number;
+    currentIndex: number;
+    onNext: () => void;
+    onPrevious: () => void;
+    onReplace: () => void;
+    onReplaceAll: () => void;
+    onClose: () => void;
+    // Muda a cada Ctrl+F, para devolver o foco ao campo de busca.
+    focusKey: number;
+}
+
+const inputClasses = "w-56 px-2 py-1 text-sm rounded-md bg-[var(--color-bg)] text-[var(--color-text-primary)] border border-[var(--color-border)] focus:outline-none focus:border-[var(--color-accent)]";
+const iconButtonClasses = "w-7 h-7 rounded-md flex items-center justify-center text-[var(--color-text-secondary)] hover:bg-[var(--color-bg-tertiary-hover)] hover:text-[var(--color-text-primary)] transition-colors disabled:opacity-40 disabled:hover:bg-transparent";
+const textButtonClasses = "px-2 py-1 text-xs font-semibold rounded-md text-[var(--color-text-secondary)] hover:bg-[var(--color-bg-tertiary-hover)] hover:text-[var(--color-text-primary)] transition-colors disabled:opacity-40 disabled:hover:bg-transparent";
+
+const SearchBar: React.FC<SearchBarProps> = ({
+    query, onQueryChange, replacement, onReplacementChange, allProjects, onAllProjectsChange,
+    matchCount, currentIndex, onNext, onPrevious, onReplace, onReplaceAll, onClose, focusKey
+}) => {
+    const [isReplaceOpen, setIsReplaceOpen] = useState(false);
+    const inputRef = useRef<HTMLInputElement>(null);
+
+    useEffect(() => {
+        inputRef.current?.focus();
+        inputRef.current?.select();
+    }, [focusKey]);
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (e.key === 'Escape') {
+            e.preventDefault();
+            onClose();
+        } else if (e.key === 'Enter' && e.currentTarget === inputRef.current) {
+            e.preventDefault();
+            if (e.shiftKey) onPrevious(); else onNext();
+        } else if (e.key === 'Enter') {
+            e.preventDefault();
+            if (e.ctrlKey || e.metaKey) onReplaceAll(); else onReplace();
+        }
+    };
+
+    const status = !query.trim()
+        ? ''
+        : matchCount === 0
+            ? 'Nenhum resultado'
+            : currentIndex >= 0 && currentIndex < matchCount
+                ? `${currentIndex + 1} de ${matchCount}`
+                : `${matchCount} ${matchCount === 1 ? 'resultado' : 'resultados'}`;
+
+    return (
+        <div className="absolute top-4 right-4 z-20 bg-[var(--color-bg-secondary)]/95 backdrop-blur-sm p-2 rounded-lg shadow-lg border border-[var(--color-border)] text-[var(--color-text-primary)] space-y-2">
+            <div className="flex items-center gap-1">
+                <button
+                    onClick={() => setIsReplaceOpen(open => !open)}
+                    className={iconButtonClasses}
+                    title={isReplaceOpen ? 'Ocultar substituição' : 'Substituir'}
+                    aria-label="Alternar substituição"
+                >
+                    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className={`w-4 h-4 transition-transform ${isReplaceOpen ? 'rotate-90' : ''}`}><path strokeLinecap="round" strokeLinejoin="round" d="M8.25 4.5l7.5 7.5-7.5 7.5" /></svg>
+                </button>
+                <input
+                    ref={inputRef}
+                    type="text"
+                    value={query}
+                    onChange={(e) => onQueryChange(e.target.value)}
+                    onKeyDown={handleKeyDown}
+                    placeholder="Buscar no fluxograma"
+                    className={inputClasses}
+                />
+                <span className="w-24 text-center text-xs text-[var(--color-text-secondary)]">{status}</span>
+                <button onClick={onPrevious} disabled={matchCount === 0} className={iconButtonClasses} title="Anterior (Shift+Enter)" aria-label="Resultado anterior">
+                    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-4 h-4"><path strokeLinecap="round" strokeLinejoin="round" d="M4.5 15.75l7.5-7.5 7.5 7.5" /></svg>
+                </button>
+                <button onClick={onNext} disabled={matchCount === 0} className={iconButtonClasses} title="Próximo (Enter)" aria-label="Próximo resultado">
+                    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-4 h-4"><path strokeLinecap="round" strokeLinejoin="round" d="M19.5 8.25l-7.5 7.5-7.5-7.5" /></svg>
+                </button>
+                <button onClick={onClose} className={iconButtonClasses} title="Fechar (Esc)" aria-label="Fechar busca">
+                    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2.5} stroke="currentColor" className="w-4 h-4"><path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" /></svg>
+                </button>
+            </div>
+            {isReplaceOpen && (
+                <div className="flex items-center gap-1 pl-8">
+                    <input
+                        type="text"
+                        value={replacement}
+                        onChange={(e) => onReplacementChange(e.target.value)}
+                        onKeyDown={handleKeyDown}
+                        placeholder="Substituir por"
+                        className={inputClasses}
+                    />
+                    <button onClick={onReplace} disabled={matchCount === 0} className={textButtonClasses} title="Substituir (Enter)">Substituir</button>
+                    <button onClick={onReplaceAll} disabled={matchCount === 0} className={textButtonClasses} title="Substituir tudo (Ctrl+Enter)">Substituir tudo</button>
+                </div>
+            )}
+            <label className="flex items-center gap-2 pl-8 text-xs text-[var(--color-text-secondary)] cursor-pointer">
+                <input type="checkbox" checked={allProjects} onChange={(e) => onAllProjectsChange(e.target.checked)} />
+                Buscar em todos os projetos
+            </label>
+        </div>
+    );
+};
+
+export default SearchBar;
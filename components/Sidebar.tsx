@@ -1,7 +1,9 @@
 
 import React, { useRef } from 'react';
-import { NodeData, NodeType } from '../types';
-import { StartIcon, ProcessIcon, DecisionIcon, EndIcon, AddIcon, DownloadIcon, UploadIcon, TrashIcon, AnnotationIcon, SunIcon, MoonIcon, SaveIcon, FolderIcon } from './Icons';
+import { NodeData, NodeType, SwimlaneOrientation, EdgeRouting } from '../types';
+import { LayoutDirection } from '../services/layoutService';
+import { edgeRoutingOptions } from '../services/edgeRoutingService';
+import { StartIcon, ProcessIcon, DecisionIcon, EndIcon, SubprocessIcon, InputOutputIcon, DocumentIcon, DatabaseIcon, ManualInputIcon, DelayIcon, OffPageIcon, PreparationIcon, AddIcon, DownloadIcon, UploadIcon, TrashIcon, AnnotationIcon, SunIcon, MoonIcon, SaveIcon, FolderIcon, LayoutIcon, CheckCircleIcon, HistoryIcon, ChatIcon, UsersIcon, PlayIcon, CodeIcon, SwimlaneIcon, GroupIcon } from './Icons';
 
 interface SidebarProps {
   addNode: (type: NodeType) => void;
@@ -9,11 +11,36 @@ interface SidebarProps {
   setAutoConnect: React.Dispatch<React.SetStateAction<boolean>>;
   snapToGrid: boolean;
   setSnapToGrid: React.Dispatch<React.SetStateAction<boolean>>;
+  edgeRouting: EdgeRouting;
+  setEdgeRouting: React.Dispatch<React.SetStateAction<EdgeRouting>>;
   onExportPNG: () => void;
+  onExportSVG: () => void;
   onExportJSON: () => void;
   onImportJSON: (event: React.ChangeEvent<HTMLInputElement>) => void;
+  onExportMermaid: () => void;
+  onImportMermaid: (event: React.ChangeEvent<HTMLInputElement>) => void;
+  onExportDrawio: () => void;
+  onImportDrawio: (event: React.ChangeEvent<HTMLInputElement>) => void;
+  onExportBpmn: () => void;
+  onImportBpmn: (event: React.ChangeEvent<HTMLInputElement>) => void;
   onClear: () => void;
+  onAutoLayout: (direction: LayoutDirection) => void;
+  onToggleValidation: () => void;
+  isValidationOpen: boolean;
+  onToggleHistory: () => void;
+  isHistoryOpen: boolean;
+  onToggleComments: () => void;
+  isCommentsOpen: boolean;
+  onToggleCollaboration: () => void;
+  isCollaborationOpen: boolean;
+  isCollaborating: boolean;
+  onToggleSimulation: () => void;
+  isSimulating: boolean;
+  onOpenCodeGenerator: () => void;
   onAddAnnotation: () => void;
+  onAddSwimlane: (orientation: SwimlaneOrientation) => void;
+  onGroupSelection: () => void;
+  canGroupSelection: boolean;
   theme: 'light' | 'dark';
   setTheme: React.Dispatch<React.SetStateAction<'light' | 'dark'>>;
   onSaveProject: () => void;
@@ -57,11 +84,14 @@ const NodeButton: React.FC<{ type: NodeType, text: string, icon: React.ReactNode
 }
 
 const Sidebar: React.FC<SidebarProps> = ({ 
-    addNode, autoConnect, setAutoConnect, snapToGrid, setSnapToGrid, 
-    onExportPNG, onExportJSON, onImportJSON, onClear, onAddAnnotation,
+    addNode, autoConnect, setAutoConnect, snapToGrid, setSnapToGrid, edgeRouting, setEdgeRouting,
+    onExportPNG, onExportSVG, onExportJSON, onImportJSON, onExportMermaid, onImportMermaid, onExportDrawio, onImportDrawio, onExportBpmn, onImportBpmn, onClear, onAutoLayout, onToggleValidation, isValidationOpen, onToggleHistory, isHistoryOpen, onToggleComments, isCommentsOpen, onToggleCollaboration, isCollaborationOpen, isCollaborating, onToggleSimulation, isSimulating, onOpenCodeGenerator, onAddAnnotation, onAddSwimlane, onGroupSelection, canGroupSelection,
     theme, setTheme, onSaveProject, isProjectDirty, onOpenProjectManager
 }) => {
   const importInputRef = useRef<HTMLInputElement>(null);
+  const mermaidInputRef = useRef<HTMLInputElement>(null);
+  const drawioInputRef = useRef<HTMLInputElement>(null);
+  const bpmnInputRef = useRef<HTMLInputElement>(null);
   
   const handleImportClick = () => {
     importInputRef.current?.click();
@@ -95,6 +125,55 @@ const Sidebar: React.FC<SidebarProps> = ({
             icon={<EndIcon className="text-red-400" />} 
             onClick={() => addNode('end')} 
         />
+        <NodeButton 
+            text="Subprocesso" 
+            type="subprocess"
+            icon={<SubprocessIcon className="text-teal-400" />} 
+            onClick={() => addNode('subprocess')} 
+        />
+        <h3 className="text-base font-semibold pt-2 text-[var(--color-text-secondary)]">Mais Formas</h3>
+        <NodeButton 
+            text="Entrada/Saída" 
+            type="inputOutput"
+            icon={<InputOutputIcon className="text-orange-400" />} 
+            onClick={() => addNode('inputOutput')} 
+        />
+        <NodeButton 
+            text="Documento" 
+            type="document"
+            icon={<DocumentIcon className="text-sky-400" />} 
+            onClick={() => addNode('document')} 
+        />
+        <NodeButton 
+            text="Banco de Dados" 
+            type="database"
+            icon={<DatabaseIcon className="text-indigo-400" />} 
+            onClick={() => addNode('database')} 
+        />
+        <NodeButton 
+            text="Entrada Manual" 
+            type="manualInput"
+            icon={<ManualInputIcon className="text-pink-400" />} 
+            onClick={() => addNode('manualInput')} 
+        />
+        <NodeButton 
+            text="Espera" 
+            type="delay"
+            icon={<DelayIcon className="text-yellow-400" />} 
+            onClick={() => addNode('delay')} 
+        />
+        <NodeButton 
+            text="Conector de Página" 
+            type="offPage"
+            icon={<OffPageIcon className="text-slate-400" />} 
+            onClick={() => addNode('offPage')} 
+        />
+        <NodeButton 
+            text="Preparação" 
+            type="preparation"
+            icon={<PreparationIcon className="text-lime-400" />} 
+            onClick={() => addNode('preparation')} 
+        />
       </div>
 
        <div className="mt-6 pt-4 border-t border-[var(--color-border)]">
@@ -110,6 +189,62 @@ const Sidebar: React.FC<SidebarProps> = ({
                   icon={<AnnotationIcon className="text-amber-400 w-5 h-5" />}
                   onClick={onAddAnnotation}
               />
+              <ActionButton 
+                  text="Adicionar Raias Horizontais"
+                  icon={<SwimlaneIcon className="text-slate-400 w-5 h-5" />}
+                  onClick={() => onAddSwimlane('horizontal')}
+              />
+              <ActionButton 
+                  text="Adicionar Raias Verticais"
+                  icon={<SwimlaneIcon className="text-slate-400 w-5 h-5 rotate-90" />}
+                  onClick={() => onAddSwimlane('vertical')}
+              />
+              <ActionButton 
+                  text="Agrupar Seleção"
+                  icon={<GroupIcon className="text-cyan-400 w-5 h-5" />}
+                  onClick={onGroupSelection}
+                  disabled={!canGroupSelection}
+              />
+              <ActionButton 
+                  text="Organizar Automaticamente"
+                  icon={<LayoutIcon className="text-cyan-400 w-5 h-5" />}
+                  onClick={() => onAutoLayout('TB')}
+              />
+              <ActionButton 
+                  text="Organizar na Horizontal"
+                  icon={<LayoutIcon className="text-cyan-400 w-5 h-5 -rotate-90" />}
+                  onClick={() => onAutoLayout('LR')}
+              />
+              <ActionButton 
+                  text={isValidationOpen ? "Ocultar Validação" : "Validar Fluxograma"}
+                  icon={<CheckCircleIcon className="text-green-400 w-5 h-5" />}
+                  onClick={onToggleValidation}
+              />
+              <ActionButton 
+                  text={isHistoryOpen ? "Ocultar Histórico" : "Histórico de Alterações"}
+                  icon={<HistoryIcon className="text-cyan-400 w-5 h-5" />}
+                  onClick={onToggleHistory}
+              />
+              <ActionButton 
+                  text={isCommentsOpen ? "Ocultar Comentários" : "Comentários"}
+                  icon={<ChatIcon className="text-pink-400 w-5 h-5" />}
+                  onClick={onToggleComments}
+              />
+              <ActionButton 
+                  text={isCollaborationOpen ? "Ocultar Colaboração" : isCollaborating ? "Colaboração (conectado)" : "Colaborar em Tempo Real"}
+                  icon={<UsersIcon className="text-pink-400 w-5 h-5" />}
+                  onClick={onToggleCollaboration}
+              />
+              <ActionButton 
+                  text={isSimulating ? "Encerrar Simulação" : "Simular Fluxograma"}
+                  icon={<PlayIcon className="text-amber-400 w-5 h-5" />}
+                  onClick={onToggleSimulation}
+              />
+              <ActionButton 
+                  text="Gerar Código"
+                  icon={<CodeIcon className="text-cyan-400 w-5 h-5" />}
+                  onClick={onOpenCodeGenerator}
+              />
               <ActionButton 
                   text="Salvar Projeto"
                   icon={<SaveIcon className="text-cyan-400 w-5 h-5" />}
@@ -121,6 +256,11 @@ const Sidebar: React.FC<SidebarProps> = ({
                   icon={<DownloadIcon className="text-[var(--color-accent)]" />}
                   onClick={onExportPNG}
               />
+              <ActionButton 
+                  text="Exportar para SVG"
+                  icon={<DownloadIcon className="text-[var(--color-accent)]" />}
+                  onClick={onExportSVG}
+              />
               <ActionButton 
                   text="Exportar para JSON"
                   icon={<DownloadIcon className="text-[var(--color-accent)]" />}
@@ -138,6 +278,57 @@ const Sidebar: React.FC<SidebarProps> = ({
                   accept=".json,application/json"
                   onChange={onImportJSON}
               />
+              <ActionButton 
+                  text="Exportar para Mermaid"
+                  icon={<DownloadIcon className="text-[var(--color-accent)]" />}
+                  onClick={onExportMermaid}
+              />
+               <ActionButton 
+                  text="Importar de Mermaid"
+                  icon={<UploadIcon className="text-[var(--color-accent)]" />}
+                  onClick={() => mermaidInputRef.current?.click()}
+              />
+               <input
+                  type="file"
+                  ref={mermaidInputRef}
+                  className="hidden"
+                  accept=".mmd,.mermaid,.md,.txt,text/plain,text/markdown"
+                  onChange={onImportMermaid}
+              />
+              <ActionButton 
+                  text="Exportar para draw.io"
+                  icon={<DownloadIcon className="text-[var(--color-accent)]" />}
+                  onClick={onExportDrawio}
+              />
+               <ActionButton 
+                  text="Importar de draw.io"
+                  icon={<UploadIcon className="text-[var(--color-accent)]" />}
+                  onClick={() => drawioInputRef.current?.click()}
+              />
+               <input
+                  type="file"
+                  ref={drawioInputRef}
+                  className="hidden"
+                  accept=".drawio,.xml,application/xml,text/xml"
+                  onChange={onImportDrawio}
+              />
+              <ActionButton 
+                  text="Exportar para BPMN"
+                  icon={<DownloadIcon className="text-[var(--color-accent)]" />}
+                  onClick={onExportBpmn}
+              />
+               <ActionButton 
+                  text="Importar de BPMN"
+                  icon={<UploadIcon className="text-[var(--color-accent)]" />}
+                  onClick={() => bpmnInputRef.current?.click()}
+              />
+               <input
+                  type="file"
+                  ref={bpmnInputRef}
+                  className="hidden"
+                  accept=".bpmn,.xml,application/xml,text/xml"
+                  onChange={onImportBpmn}
+              />
           </div>
       </div>
 
@@ -212,6 +403,23 @@ const Sidebar: React.FC<SidebarProps> = ({
                   />
               </button>
           </div>
+           <div className="mt-4">
+              <p className="font-medium text-sm text-[var(--color-text-primary)]">
+                  Traçado das Conexões
+                  <span className="block text-xs text-[var(--color-text-secondary)] font-normal mt-1">Padrão para setas sem estilo próprio</span>
+              </p>
+              <div className="flex mt-2 bg-[var(--color-bg)] p-1 rounded-lg">
+                  {edgeRoutingOptions.map(option => (
+                      <button
+                          key={option.id}
+                          onClick={() => setEdgeRouting(option.id)}
+                          className={`flex-1 px-2 py-1 text-xs font-medium rounded-md transition-colors ${edgeRouting === option.id ? 'bg-[var(--color-accent)] text-white' : 'text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)]'}`}
+                      >
+                          {option.label}
+                      </button>
+                  ))}
+              </div>
+          </div>
       </div>
     </div>
   );
@@ -0,0 +1,122 @@
+import React from 'react';
+import { FlowchartData, EdgeData } from '../types';
+import { SimulationStep, getSimulationChoices, getChoiceLabel } from '../services/simulationService';
+import { DownloadIcon } from './Icons';
+
+interface SimulationPanelProps {
+    data: FlowchartData;
+    steps: SimulationStep[];
+    onAdvance: (edge: EdgeData) => void;
+    onBack: () => void;
+    onRestart: () => void;
+    onJumpTo: (index: number) => void;
+    onExport: () => void;
+    onClose: () => void;
+}
+
+const secondaryButtonClass = "flex-1 px-3 py-2 text-sm font-medium bg-[var(--color-bg-tertiary)] hover:bg-[var(--color-bg-tertiary-hover)] rounded-lg transition-colors border border-transparent hover:border-[var(--color-border)] disabled:opacity-50 disabled:cursor-not-allowed";
+
+const SimulationPanel: React.FC<SimulationPanelProps> = ({ data, steps, onAdvance, onBack, onRestart, onJumpTo, onExport, onClose }) => {
+    const currentStep = steps[steps.length - 1];
+    const currentNode = data.nodes.find(n => n.id === currentStep?.nodeId);
+    const choices = currentNode ? getSimulationChoices(data, currentNode.id) : [];
+
+    const renderActions = () => {
+        if (!currentNode) {
+            return <p className="text-sm text-red-300">O bloco atual foi removido. Volte ou reinicie a simulação.</p>;
+        }
+        if (currentNode.type === 'end') {
+            return <p className="text-sm text-green-400">Fim do fluxo alcançado.</p>;
+        }
+        if (choices.length === 0) {
+            return <p className="text-sm text-amber-400">Este bloco não possui saídas; o fluxo para aqui.</p>;
+        }
+        if (currentNode.type !== 'decision' && choices.length === 1) {
+            return (
+                <button
+                    onClick={() => onAdvance(choices[0])}
+                    className="w-full bg-[#0891B2] hover:bg-[#0E7490] text-white font-bold py-2 px-4 rounded-md transition-colors"
+                >
+                    Avançar
+                </button>
+            );
+        }
+        return (
+            <div className="space-y-2">
+                {currentNode.type === 'decision' && (
+                    <p className="text-xs text-[var(--color-text-secondary)]">Escolha um caminho:</p>
+                )}
+                {choices.map(edge => (
+                    <button
+                        key={edge.id}
+                        onClick={() => onAdvance(edge)}
+                        className="w-full bg-[#0891B2] hover:bg-[#0E7490] text-white font-bold py-2 px-4 rounded-md transition-colors"
+                    >
+                        {getChoiceLabel(data, edge)}
+                    </button>
+                ))}
+            </div>
+        );
+    };
+
+    return (
+        <aside className="w-72 flex flex-col bg-[var(--color-bg-secondary)] border-l border-[var(--color-border)] shadow-lg">
+            <div className="p-4 border-b border-[var(--color-border)] flex items-center justify-between">
+                <div>
+                    <h2 className="text-lg font-semibold text-[var(--color-text-primary)]">Simulação</h2>
+                    <p className="text-xs text-[var(--color-text-secondary)] mt-1">Passo {steps.length}</p>
+                </div>
+                <button
+                    onClick={onClose}
+                    className="w-8 h-8 rounded-full flex items-center justify-center text-[var(--color-text-secondary)] hover:bg-[var(--color-bg-tertiary-hover)] hover:text-[var(--color-text-primary)] transition-colors"
+                    aria-label="Fechar"
+                >
+                    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2.5} stroke="currentColor" className="w-5 h-5"><path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" /></svg>
+                </button>
+            </div>
+
+            <div className="p-4 border-b border-[var(--color-border)]">
+                <p className="text-xs uppercase tracking-wide text-[var(--color-text-secondary)] mb-1">Bloco atual</p>
+                <p className="font-semibold mb-4 break-words">{currentNode?.text ?? '—'}</p>
+                {renderActions()}
+                <div className="flex gap-2 mt-4">
+                    <button onClick={onBack} disabled={steps.length <= 1} className={secondaryButtonClass}>Voltar</button>
+                    <button onClick={onRestart} className={secondaryButtonClass}>Reiniciar</button>
+                </div>
+            </div>
+
+            <div className="flex-grow overflow-y-auto p-4 custom-scrollbar">
+                <div className="flex items-center justify-between mb-3">
+                    <h3 className="text-sm font-semibold text-[var(--color-text-secondary)]">Caminho percorrido</h3>
+                    <button
+                        onClick={onExport}
+                        className="flex items-center gap-1 text-xs text-[var(--color-accent)] hover:opacity-80"
+                        title="Exportar passos"
+                    >
+                        <DownloadIcon className="w-4 h-4" />
+                        Exportar
+                    </button>
+                </div>
+                <ol className="space-y-1">
+                    {steps.map((step, index) => {
+                        const node = data.nodes.find(n => n.id === step.nodeId);
+                        const isCurrent = index === steps.length - 1;
+                        return (
+                            <li key={`${index}-${step.nodeId}`}>
+                                <button
+                                    onClick={() => onJumpTo(index)}
+                                    disabled={isCurrent}
+                                    className={`w-full text-left text-sm px-2 py-1 rounded transition-colors ${isCurrent ? 'text-[var(--color-accent)] font-semibold' : 'hover:bg-[var(--color-bg-tertiary-hover)]'}`}
+                                >
+                                    {index + 1}. {node?.text ?? '(bloco removido)'}
+                                </button>
+                            </li>
+                        );
+                    })}
+                </ol>
+            </div>
+        </aside>
+    );
+};
+
+export default SimulationPanel;
@@ -0,0 +1,254 @@
+import React, { useState, useRef, useEffect, KeyboardEvent } from 'react';
+import { SwimlaneData, Position } from '../types';
+import { TrashIcon, AddIcon } from './Icons';
+import { getSwimlaneBounds, getLaneRects, POOL_HEADER_SIZE, LANE_HEADER_SIZE } from '../services/swimlaneService';
+
+interface SwimlaneProps {
+  data: SwimlaneData;
+  onMove: (id: string, position: Position) => void;
+  onLaneResize: (id: string, laneId: string, size: number) => void;
+  onLengthChange: (id: string, length: number) => void;
+  onTitleChange: (id: string, title: string) => void;
+  onLaneTitleChange: (id: string, laneId: string, title: string) => void;
+  onAddLane: (id: string) => void;
+  onRemoveLane: (id: string, laneId: string) => void;
+  onDelete: (id: string) => void;
+  viewZoom: number;
+  snapToGrid: boolean;
+}
+
+type Interaction =
+    | { kind: 'move'; startX: number; startY: number; startPosition: Position }
+    | { kind: 'lane'; laneId: string; startX: number; startY: number; startSize: number }
+    | { kind: 'length'; startX: number; startY: number; startLength: number };
+
+const HANDLE_THICKNESS = 8;
+const GRID_SIZE = 20;
+const snap = (val: number) => Math.round(val / GRID_SIZE) * GRID_SIZE;
+
+const Swimlane: React.FC<SwimlaneProps> = ({
+    data, onMove, onLaneResize, onLengthChange, onTitleChange, onLaneTitleChange,
+    onAddLane, onRemoveLane, onDelete, viewZoom, snapToGrid
+}) => {
+    const [interaction, setInteraction] = useState<Interaction | null>(null);
+    // "pool" edita o título da piscina; qualquer outro valor é o id da raia em edição.
+    const [editing, setEditing] = useState<string | null>(null);
+    const [editText, setEditText] = useState('');
+    const inputRef = useRef<HTMLInputElement>(null);
+
+    const isHorizontal = data.orientation === 'horizontal';
+    const bounds = getSwimlaneBounds(data);
+    const laneRects = getLaneRects(data);
+
+    useEffect(() => {
+        if (!interaction) return;
+
+        const handleMouseMove = (e: MouseEvent) => {
+            const dx = (e.clientX - interaction.startX) / viewZoom;
+            const dy = (e.clientY - interaction.startY) / viewZoom;
+            const round = (val: number) => snapToGrid ? snap(val) : val;
+
+            if (interaction.kind === 'move') {
+                onMove(data.id, { x: round(interaction.startPosition.x + dx), y: round(interaction.startPosition.y + dy) });
+            } else if (interaction.kind === 'lane') {
+                onLaneResize(data.id, interaction.laneId, round(interaction.startSize + (isHorizontal ? dy : dx)));
+            } else {
+                onLengthChange(data.id, round(interaction.startLength + (isHorizontal ? dx : dy)));
+            }
+        };
+
+        const handleMouseUp = () => setInteraction(null);
+
+        window.addEventListener('mousemove', handleMouseMove);
+        window.addEventListener('mouseup', handleMouseUp);
+
+        return () => {
+            window.removeEventListener('mousemove', handleMouseMove);
+            window.removeEventListener('mouseup', handleMouseUp);
+        };
+    }, [interaction, data.id, isHorizontal, viewZoom, snapToGrid, onMove, onLaneResize, onLengthChange]);
+
+    useEffect(() => {
+        if (editing && inputRef.current) {
+            inputRef.current.focus();
+            inputRef.current.select();
+        }
+    }, [editing]);
+
+    const startInteraction = (e: React.MouseEvent, next: Interaction) => {
+        if (e.button !== 0 || e.altKey) return;
+        e.stopPropagation();
+        e.preventDefault();
+        setInteraction(next);
+    };
+
+    const startEditing = (target: string, text: string) => {
+        setEditText(text);
+        setEditing(target);
+    };
+
+    const commitEditing = () => {
+        if (editing === 'pool') onTitleChange(data.id, editText);
+        else if (editing) onLaneTitleChange(data.id, editing, editText);
+        setEditing(null);
+    };
+
+    const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+        if (e.key === 'Enter') commitEditing();
+        if (e.key === 'Escape') setEditing(null);
+    };
+
+    const renderTitle = (text: string, x: number, y: number, width: number, height: number, className: string) => (
+        <text
+            x={x + width / 2}
+            y={y + height / 2}
+            textAnchor="middle"
+            dominantBaseline="central"
+            transform={isHorizontal ? `rotate(-90, ${x + width / 2}, ${y + height / 2})` : undefined}
+            className={`pointer-events-none ${className}`}
+            style={{ fontFamily: 'Inter, sans-serif' }}
+        >
+            {text}
+        </text>
+    );
+
+    const poolHeader = isHorizontal
+        ? { x: bounds.x, y: bounds.y, width: POOL_HEADER_SIZE, height: bounds.height }
+        : { x: bounds.x, y: bounds.y, width: bounds.width, height: POOL_HEADER_SIZE };
+
+    const lengthHandle = isHorizontal
+        ? { x: bounds.x + bounds.width - HANDLE_THICKNESS / 2, y: bounds.y, width: HANDLE_THICKNESS, height: bounds.height, cursor: 'ew-resize' }
+        : { x: bounds.x, y: bounds.y + bounds.height - HANDLE_THICKNESS / 2, width: bounds.width, height: HANDLE_THICKNESS, cursor: 'ns-resize' };
+
+    return (
+        <g id={data.id} className="group swimlane-group">
+            <rect
+                x={bounds.x} y={bounds.y} width={bounds.width} height={bounds.height}
+                fill="var(--color-bg-secondary)" fillOpacity={0.35}
+                stroke="var(--color-text-secondary)" strokeWidth={1.5}
+                className="pointer-events-none"
+            />
+
+            {laneRects.map((rect, index) => {
+                const header = isHorizontal
+                    ? { x: rect.x, y: rect.y, width: LANE_HEADER_SIZE, height: rect.height }
+                    : { x: rect.x, y: rect.y, width: rect.width, height: LANE_HEADER_SIZE };
+                const separator = isHorizontal
+                    ? { x: rect.x, y: rect.y + rect.height - HANDLE_THICKNESS / 2, width: rect.width, height: HANDLE_THICKNESS, cursor: 'ns-resize' }
+                    : { x: rect.x + rect.width - HANDLE_THICKNESS / 2, y: rect.y, width: HANDLE_THICKNESS, height: rect.height, cursor: 'ew-resize' };
+                const isLast = index === laneRects.length - 1;
+
+                return (
+                    <g key={rect.lane.id} className="group/lane">
+                        <rect
+                            x={header.x} y={header.y} width={header.width} height={header.height}
+                            fill="var(--color-bg-tertiary)" fillOpacity={0.6}
+                            stroke="var(--color-text-secondary)" strokeWidth={1}
+                            onDoubleClick={() => startEditing(rect.lane.id, rect.lane.title)}
+                        />
+                        {!isLast && (
+                            <line
+                                x1={isHorizontal ? bounds.x : rect.x + rect.width}
+                                y1={isHorizontal ? rect.y + rect.height : bounds.y + POOL_HEADER_SIZE}
+                                x2={isHorizontal ? bounds.x + bounds.width : rect.x + rect.width}
+                                y2={isHorizontal ? rect.y + rect.height : bounds.y + bounds.height}
+                                stroke="var(--color-text-secondary)"
+                                strokeWidth={1}
+                                className="pointer-events-none"
+                            />
+                        )}
+                        {editing !== rect.lane.id && renderTitle(rect.lane.title, header.x, header.y, header.width, header.height, 'fill-[var(--color-text-primary)] text-xs font-medium')}
+                        <rect
+                            x={separator.x} y={separator.y} width={separator.width} height={separator.height}
+                            fill="transparent"
+                            className="hover:fill-[var(--color-accent)] hover:opacity-40"
+                            style={{ cursor: separator.cursor }}
+                            onMouseDown={(e) => startInteraction(e, { kind: 'lane', laneId: rect.lane.id, startX: e.clientX, startY: e.clientY, startSize: rect.lane.size })}
+                        />
+                        {laneRects.length > 1 && (
+                            <foreignObject
+                                x={isHorizontal ? header.x + 4 : header.x + header.width - 24}
+                                y={isHorizontal ? header.y + header.height - 24 : header.y + 4}
+                                width="20" height="20"
+                                className="overflow-visible"
+                            >
+                                <button
+                                    onClick={(e) => { e.stopPropagation(); onRemoveLane(data.id, rect.lane.id); }}
+                                    onMouseDown={(e) => e.stopPropagation()}
+                                    className="w-5 h-5 rounded-full bg-red-600 text-white flex items-center justify-center opacity-0 group-hover/lane:opacity-100 transition-opacity focus:outline-none p-1"
+                                    title="Remover raia"
+                                >
+                                    <TrashIcon />
+                                </button>
+                            </foreignObject>
+                        )}
+                    </g>
+                );
+            })}
+
+            <rect
+                x={poolHeader.x} y={poolHeader.y} width={poolHeader.width} height={poolHeader.height}
+                fill="var(--color-bg-tertiary)"
+                stroke="var(--color-text-secondary)" strokeWidth={1.5}
+                className="cursor-grab"
+                onMouseDown={(e) => startInteraction(e, { kind: 'move', startX: e.clientX, startY: e.clientY, startPosition: data.position })}
+                onDoubleClick={() => startEditing('pool', data.title)}
+            />
+            {editing !== 'pool' && renderTitle(data.title, poolHeader.x, poolHeader.y, poolHeader.width, poolHeader.height, 'fill-[var(--color-text-primary)] text-sm font-semibold')}
+
+            <rect
+                x={lengthHandle.x} y={lengthHandle.y} width={lengthHandle.width} height={lengthHandle.height}
+                fill="transparent"
+                className="hover:fill-[var(--color-accent)] hover:opacity-40"
+                style={{ cursor: lengthHandle.cursor }}
+                onMouseDown={(e) => startInteraction(e, { kind: 'length', startX: e.clientX, startY: e.clientY, startLength: data.length })}
+            />
+
+            <foreignObject
+                x={isHorizontal ? bounds.x - 12 : bounds.x + bounds.width - 60}
+                y={isHorizontal ? bounds.y - 12 : bounds.y - 12}
+                width="60" height="24"
+                className="overflow-visible"
+            >
+                <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                    <button
+                        onClick={(e) => { e.stopPropagation(); onAddLane(data.id); }}
+                        onMouseDown={(e) => e.stopPropagation()}
+                        className="w-6 h-6 rounded-full bg-[var(--color-accent)] text-white flex items-center justify-center focus:outline-none p-1 transform hover:scale-110"
+                        title="Adicionar raia"
+                    >
+                        <AddIcon />
+                    </button>
+                    <button
+                        onClick={(e) => { e.stopPropagation(); onDelete(data.id); }}
+                        onMouseDown={(e) => e.stopPropagation()}
+                        className="w-6 h-6 rounded-full bg-red-600 text-white flex items-center justify-center focus:outline-none p-1 transform hover:scale-110"
+                        title="Excluir piscina"
+                    >
+                        <TrashIcon />
+                    </button>
+                </div>
+            </foreignObject>
+
+            {editing && (() => {
+                const target = editing === 'pool' ? poolHeader : laneRects.find(r => r.lane.id === editing);
+                if (!target) return null;
+                return (
+                    <foreignObject x={target.x + 4} y={target.y + 4} width={180} height={30}>
+                        <input
+                            ref={inputRef}
+                            value={editText}
+                            onChange={(e) => setEditText(e.target.value)}
+                            onBlur={commitEditing}
+                            onKeyDown={handleKeyDown}
+                            onMouseDown={(e) => e.stopPropagation()}
+                            className="w-full h-full px-2 text-sm rounded-md bg-[var(--color-bg-tertiary)] text-[var(--color-text-primary)] border border-[var(--color-accent)] focus:outline-none"
+                        />
+                    </foreignObject>
+                );
+            })()}
+        </g>
+    );
+};
+
+export default Swimlane;
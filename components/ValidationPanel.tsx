@@ -0,0 +1,63 @@
+import React from 'react';
+import { ValidationIssue } from '../services/validationService';
+import { CheckCircleIcon, WarningIcon } from './Icons';
+
+interface ValidationPanelProps {
+    issues: ValidationIssue[];
+    onSelectIssue: (issue: ValidationIssue) => void;
+    onClose: () => void;
+}
+
+const ValidationPanel: React.FC<ValidationPanelProps> = ({ issues, onSelectIssue, onClose }) => {
+    const errorCount = issues.filter(i => i.severity === 'error').length;
+    const warningCount = issues.length - errorCount;
+
+    return (
+        <aside className="w-72 flex flex-col bg-[var(--color-bg-secondary)] border-l border-[var(--color-border)] shadow-lg">
+            <div className="p-4 border-b border-[var(--color-border)] flex items-center justify-between">
+                <div>
+                    <h2 className="text-lg font-semibold text-[var(--color-text-primary)]">Validação</h2>
+                    <p className="text-xs text-[var(--color-text-secondary)] mt-1">
+                        {errorCount} {errorCount === 1 ? 'erro' : 'erros'}, {warningCount} {warningCount === 1 ? 'aviso' : 'avisos'}
+                    </p>
+                </div>
+                <button
+                    onClick={onClose}
+                    className="w-8 h-8 rounded-full flex items-center justify-center text-[var(--color-text-secondary)] hover:bg-[var(--color-bg-tertiary-hover)] hover:text-[var(--color-text-primary)] transition-colors"
+                    aria-label="Fechar"
+                >
+                    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2.5} stroke="currentColor" className="w-5 h-5"><path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" /></svg>
+                </button>
+            </div>
+
+            <div className="flex-grow overflow-y-auto p-4 custom-scrollbar">
+                {issues.length === 0 ? (
+                    <div className="flex flex-col items-center text-center text-sm text-[var(--color-text-secondary)] mt-8">
+                        <CheckCircleIcon className="w-10 h-10 text-green-400 mb-3" />
+                        Nenhum problema encontrado.
+                    </div>
+                ) : (
+                    <ul className="space-y-2">
+                        {issues.map(issue => {
+                            const isClickable = issue.nodeIds.length > 0;
+                            return (
+                                <li key={issue.id}>
+                                    <button
+                                        onClick={() => onSelectIssue(issue)}
+                                        disabled={!isClickable}
+                                        className="flex items-start gap-3 w-full p-3 text-left text-sm bg-[var(--color-bg-tertiary)] hover:bg-[var(--color-bg-tertiary-hover)] rounded-lg transition-colors border border-transparent hover:border-[var(--color-border)] disabled:cursor-default disabled:hover:bg-[var(--color-bg-tertiary)] disabled:hover:border-transparent"
+                                    >
+                                        <WarningIcon className={`w-5 h-5 flex-shrink-0 ${issue.severity === 'error' ? 'text-red-400' : 'text-amber-400'}`} />
+                                        <span>{issue.message}</span>
+                                    </button>
+                                </li>
+                            );
+                        })}
+                    </ul>
+                )}
+            </div>
+        </aside>
+    );
+};
+
+export default ValidationPanel;
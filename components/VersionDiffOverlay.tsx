@@ -0,0 +1,100 @@
+import React from 'react';
+import { EdgeData, EdgeRouting, NodeData } from '../types';
+import { getNodeSize } from '../services/flowchartUtils';
+import { getEdgeGeometry } from '../services/edgeRoutingService';
+import { VersionDiff, diffColors } from '../services/versionService';
+
+interface VersionDiffOverlayProps {
+  diff: VersionDiff;
+  // "removed" desenha, por baixo de tudo, o que só existe na versão; "current"
+  // destaca por cima os blocos e conexões incluídos ou alterados.
+  layer: 'removed' | 'current';
+  nodes: NodeData[];
+  edges: EdgeData[];
+  autoConnect: boolean;
+  edgeRouting: EdgeRouting;
+}
+
+const OUTLINE_OFFSET = 7;
+
+const VersionDiffOverlay: React.FC<VersionDiffOverlayProps> = ({ diff, layer, nodes, edges, autoConnect, edgeRouting }) => {
+    // Conexões removidas podem ligar blocos que também foram removidos.
+    const geometryNodes = layer === 'removed' ? [...nodes, ...diff.removedNodes] : nodes;
+
+    const renderEdge = (edge: EdgeData, color: string, dashed: boolean) => {
+        const source = geometryNodes.find(n => n.id === edge.source);
+        const target = geometryNodes.find(n => n.id === edge.target);
+        if (!source || !target) return null;
+        const { path } = getEdgeGeometry(edge, source, target, autoConnect, edgeRouting, geometryNodes);
+        return (
+            <path
+                key={`diff-${edge.id}`}
+                d={path}
+                fill="none"
+                stroke={color}
+                strokeWidth={dashed ? 2.5 : 7}
+                strokeOpacity={dashed ? 0.9 : 0.45}
+                strokeDasharray={dashed ? '8 6' : undefined}
+                strokeLinecap="round"
+            />
+        );
+    };
+
+    if (layer === 'removed') {
+        return (
+            <g className="pointer-events-none">
+                {diff.removedEdges.map(edge => renderEdge(edge, diffColors.removed, true))}
+                {diff.removedNodes.map(node => {
+                    const { width, height } = getNodeSize(node);
+                    return (
+                        <g key={`diff-${node.id}`} transform={`translate(${node.position.x}, ${node.position.y})`}>
+                            <rect
+                                width={width} height={height} rx={8}
+                                fill={diffColors.removed} fillOpacity={0.12}
+                                stroke={diffColors.removed} strokeWidth={2} strokeDasharray="6 4"
+                            />
+                            <text
+                                x={width / 2} y={height / 2}
+                                textAnchor="middle" dominantBaseline="central"
+                                fill={diffColors.removed}
+                                className="text-sm font-medium line-through"
+                                style={{ fontFamily: 'Inter, sans-serif' }}
+                            >
+                                {node.text.length > 30 ? `${node.text.slice(0, 29)}…` : node.text}
+                            </text>
+                        </g>
+                    );
+                })}
+            </g>
+        );
+    }
+
+    return (
+        <g className="pointer-events-none">
+            {edges.map(edge => {
+                const status = diff.edges.get(edge.id);
+                return status && status !== 'removed' ? renderEdge(edge, diffColors[status], false) : null;
+            })}
+            {nodes.map(node => {
+                const status = diff.nodes.get(node.id);
+                if (!status || status === 'removed') return null;
+                const { width, height } = getNodeSize(node);
+                return (
+                    <rect
+                        key={`diff-${node.id}`}
+                        x={node.position.x - OUTLINE_OFFSET}
+                        y={node.position.y - OUTLINE_OFFSET}
+                        width={width + OUTLINE_OFFSET * 2}
+                        height={height + OUTLINE_OFFSET * 2}
+                        rx={14}
+                        fill="none"
+                        stroke={diffColors[status]}
+                        strokeWidth={3}
+                    />
+                );
+            })}
+        </g>
+    );
+};
+
+export default VersionDiffOverlay;
@@ -0,0 +1,43 @@
+import React from 'react';
+
+interface ZoomControlsProps {
+    zoom: number;
+    hasSelection: boolean;
+    onZoomIn: () => void;
+    onZoomOut: () => void;
+    onResetZoom: () => void;
+    onFitAll: () => void;
+    onFitSelection: () => void;
+    style?: React.CSSProperties;
+}
+
+const buttonClasses = "h-7 rounded-md flex items-center justify-center text-[var(--color-text-secondary)] hover:bg-[var(--color-bg-tertiary-hover)] hover:text-[var(--color-text-primary)] transition-colors disabled:opacity-40 disabled:hover:bg-transparent";
+
+const isMac = typeof navigator !== 'undefined' && navigator.platform.toUpperCase().includes('MAC');
+const modifier = isMac ? '⌘' : 'Ctrl';
+
+const ZoomControls: React.FC<ZoomControlsProps> = ({ zoom, hasSelection, onZoomIn, onZoomOut, onResetZoom, onFitAll, onFitSelection, style }) => (
+    <div
+        className="absolute flex items-center gap-0.5 p-1 rounded-lg bg-[var(--color-bg-secondary)]/90 backdrop-blur-sm shadow-lg border border-[var(--color-border)]"
+        style={style}
+    >
+        <button onClick={onZoomOut} className={`${buttonClasses} w-7`} title={`Diminuir zoom (${modifier} -)`} aria-label="Diminuir zoom">
+            <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-4 h-4"><path strokeLinecap="round" strokeLinejoin="round" d="M19.5 12h-15" /></svg>
+        </button>
+        <button onClick={onResetZoom} className={`${buttonClasses} w-12 text-xs font-semibold tabular-nums`} title={`Zoom em 100% (${modifier} 0)`}>
+            {Math.round(zoom * 100)}%
+        </button>
+        <button onClick={onZoomIn} className={`${buttonClasses} w-7`} title={`Aumentar zoom (${modifier} +)`} aria-label="Aumentar zoom">
+            <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-4 h-4"><path strokeLinecap="round" strokeLinejoin="round" d="M12 4.5v15m7.5-7.5h-15" /></svg>
+        </button>
+        <div className="w-px h-5 mx-1 bg-[var(--color-border)]" />
+        <button onClick={onFitAll} className={`${buttonClasses} w-7`} title="Enquadrar tudo (Shift+1)" aria-label="Enquadrar tudo">
+            <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-4 h-4"><path strokeLinecap="round" strokeLinejoin="round" d="M3.75 3.75v4.5m0-4.5h4.5m-4.5 0L9 9M3.75 20.25v-4.5m0 4.5h4.5m-4.5 0L9 15M20.25 3.75h-4.5m4.5 0v4.5m0-4.5L15 9m5.25 11.25h-4.5m4.5 0v-4.5m0 4.5L15 15" /></svg>
+        </button>
+        <button onClick={onFitSelection} disabled={!hasSelection} className={`${buttonClasses} w-7`} title="Enquadrar seleção (Shift+2)" aria-label="Enquadrar seleção">
+            <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-4 h-4"><path strokeLinecap="round" strokeLinejoin="round" d="M7.5 3.75H6A2.25 2.25 0 003.75 6v1.5M16.5 3.75H18A2.25 2.25 0 0120.25 6v1.5m0 9V18A2.25 2.25 0 0118 20.25h-1.5m-9 0H6A2.25 2.25 0 013.75 18v-1.5M15 12a3 3 0 11-6 0 3 3 0 016 0z" /></svg>
+        </button>
+    </div>
+);
+
+export default ZoomControls;
@@ -0,0 +1,79 @@
+// Gera um fluxograma grande para medir o desempenho do canvas. O arquivo segue o
+// formato da exportação em JSON e pode ser aberto em "Importar JSON".
+//
+// Uso: npm run benchmark-fixture -- [arquivo] [quantidade de blocos]
+// (padrão: benchmark-2000.json com 2000 blocos).
+//
+// Os blocos formam uma grade em que cada linha é uma sequência de processos, com
+// decisões que desviam para a linha de baixo, algumas anotações espalhadas e
+// conexões em todos os traçados. A saída é sempre a mesma para a mesma quantidade.
+
+import { writeFileSync } from 'node:fs';
+
+const output = process.argv[2] || 'benchmark-2000.json';
+const count = Math.max(2, Number(process.argv[3]) || 2000);
+
+const COLUMNS = 40;
+const SPACING_X = 260;
+const SPACING_Y = 180;
+const ROUTINGS = [undefined, 'straight', 'orthogonal'];
+const SIDE_TYPES = ['inputOutput', 'document', 'database', 'manualInput', 'delay', 'preparation'];
+
+const nodeId = (index) => `n${index}`;
+
+const typeOf = (index) => {
+    if (index === 0) return 'start';
+    if (index === count - 1) return 'end';
+    if (index % 7 === 3) return 'decision';
+    if (index % 11 === 5) return SIDE_TYPES[index % SIDE_TYPES.length];
+    return 'process';
+};
+
+const nodes = Array.from({ length: count }, (_, index) => {
+    const type = typeOf(index);
+    const column = index % COLUMNS;
+    const row = Math.floor(index / COLUMNS);
+    return {
+        id: nodeId(index),
+        type,
+        text: type === 'decision' ? `Condição ${index} atendida?` : `Etapa ${index}`,
+        position: { x: column * SPACING_X, y: row * SPACING_Y + (type === 'decision' ? -15 : 0) },
+    };
+});
+
+const edges = [];
+nodes.forEach((node, index) => {
+    const column = index % COLUMNS;
+    const isDecision = node.type === 'decision';
+    if (column < COLUMNS - 1 && index + 1 < count) {
+        edges.push({
+            id: `e${index}-${index + 1}`,
+            source: node.id,
+            target: nodeId(index + 1),
+            label: isDecision ? 'Sim' : undefined,
+            routing: ROUTINGS[index % ROUTINGS.length],
+        });
+    }
+    // Decisões e o fim de cada linha descem para a linha seguinte.
+    if ((isDecision || column === COLUMNS - 1) && index + COLUMNS < count) {
+        edges.push({
+            id: `e${index}-${index + COLUMNS}`,
+            source: node.id,
+            target: nodeId(index + COLUMNS),
+            label: isDecision ? 'Não' : undefined,
+        });
+    }
+});
+
+const rows = Math.ceil(count / COLUMNS);
+const annotations = Array.from({ length: Math.ceil(count / 100) }, (_, index) => ({
+    id: `a${index}`,
+    text: `Anotação ${index + 1}`,
+    position: {
+        x: ((index * 7) % COLUMNS) * SPACING_X + 60,
+        y: ((index * 13) % rows) * SPACING_Y + 90,
+    },
+}));
+
+writeFileSync(output, JSON.stringify({ nodes, edges, annotations, swimlanes: [], groups: [] }));
+console.log(`${output}: ${nodes.length} blocos, ${edges.length} conexões, ${annotations.length} anotações.`);
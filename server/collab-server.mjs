@@ -0,0 +1,216 @@
+// Servidor de sincronização da colaboração em tempo real. Não tem dependências:
+// implementa o mínimo do protocolo WebSocket (RFC 6455) sobre node:http.
+//
+// Uso: npm run collab-server (porta em COLLAB_PORT, padrão 3001).
+//
+// Cada sala guarda o registro de todas as operações recebidas. Um cliente que
+// entra (ou reconecta) informa a última sequência que já conhece e recebe só o
+// que falta; o merge das operações acontece nos próprios clientes. As salas
+// ficam só na memória e recebem um id novo ao serem criadas, para que os clientes
+// percebam quando o registro foi perdido (ex: o servidor reiniciou).
+
+import { createServer } from 'node:http';
+import { createHash, randomUUID } from 'node:crypto';
+
+const PORT = Number(process.env.COLLAB_PORT) || 3001;
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const MAX_PAYLOAD = 16 * 1024 * 1024;
+
+const rooms = new Map();
+
+const getRoom = (name) => {
+    let room = rooms.get(name);
+    if (!room) {
+        room = { id: randomUUID(), ops: [], opIds: new Set(), clients: new Set() };
+        rooms.set(name, room);
+    }
+    return room;
+};
+
+const collections = new Set(['nodes', 'edges', 'annotations', 'swimlanes', 'groups']);
+
+const isRecord = (value) => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Mesmo formato conferido pelos clientes (isCollabOperation em services/collabDocument.ts).
+const isValidOp = (op) =>
+    isRecord(op)
+    && typeof op.id === 'string'
+    && isRecord(op.stamp) && Number.isFinite(op.stamp.counter) && typeof op.stamp.clientId === 'string'
+    && collections.has(op.collection)
+    && typeof op.itemId === 'string'
+    && (op.kind === 'delete' || (op.kind === 'upsert' && isRecord(op.fields)));
+
+const encodeFrame = (opcode, payload) => {
+    const length = payload.length;
+    let header;
+    if (length < 126) {
+        header = Buffer.alloc(2);
+        header[1] = length;
+    } else if (length < 65536) {
+        header = Buffer.alloc(4);
+        header[1] = 126;
+        header.writeUInt16BE(length, 2);
+    } else {
+        header = Buffer.alloc(10);
+        header[1] = 127;
+        header.writeBigUInt64BE(BigInt(length), 2);
+    }
+    header[0] = 0x80 | opcode;
+    return Buffer.concat([header, payload]);
+};
+
+const send = (client, message) => {
+    if (client.socket.destroyed) return;
+    client.socket.write(encodeFrame(0x1, Buffer.from(JSON.stringify(message))));
+};
+
+const broadcast = (room, sender, message) => {
+    room.clients.forEach(client => {
+        if (client !== sender && client.joined) send(client, message);
+    });
+};
+
+const peersOf = (room, except) =>
+    Array.from(room.clients)
+        .filter(client => client !== except && client.joined)
+        .map(client => ({ clientId: client.clientId, ...client.presence }));
+
+const handleMessage = (client, message) => {
+    switch (message.type) {
+        case 'join': {
+            if (typeof message.room !== 'string' || typeof message.clientId !== 'string') return;
+            client.room = getRoom(message.room);
+            client.clientId = message.clientId;
+            client.presence = message.presence || {};
+            client.joined = true;
+            client.room.clients.add(client);
+            // A sequência só vale para o mesmo registro; de outra sala recebe tudo.
+            const since = message.roomId === client.room.id ? Number(message.since) || 0 : 0;
+            send(client, {
+                type: 'welcome',
+                roomId: client.room.id,
+                ops: client.room.ops.slice(since),
+                seq: client.room.ops.length,
+                peers: peersOf(client.room, client),
+            });
+            broadcast(client.room, client, { type: 'presence', clientId: client.clientId, ...client.presence });
+            break;
+        }
+        case 'ops': {
+            if (!client.joined || !Array.isArray(message.ops)) return;
+            const room = client.room;
+            // Operações malformadas e as reenviadas após uma queda de conexão são ignoradas.
+            const fresh = message.ops.filter(op => isValidOp(op) && !room.opIds.has(op.id));
+            fresh.forEach(op => {
+                room.opIds.add(op.id);
+                room.ops.push(op);
+            });
+            if (fresh.length > 0) broadcast(room, client, { type: 'ops', ops: fresh, seq: room.ops.length });
+            send(client, { type: 'ack', opIds: message.ops.map(op => op && op.id), seq: room.ops.length });
+            break;
+        }
+        case 'presence': {
+            if (!client.joined) return;
+            client.presence = message.presence || {};
+            broadcast(client.room, client, { type: 'presence', clientId: client.clientId, ...client.presence });
+            break;
+        }
+    }
+};
+
+const handleDisconnect = (client) => {
+    if (!client.joined) return;
+    client.joined = false;
+    client.room.clients.delete(client);
+    broadcast(client.room, client, { type: 'leave', clientId: client.clientId });
+};
+
+const attachClient = (socket) => {
+    const client = { socket, joined: false, room: null, clientId: null, presence: {} };
+    let buffer = Buffer.alloc(0);
+    let fragments = [];
+
+    const close = () => {
+        handleDisconnect(client);
+        socket.destroy();
+    };
+
+    socket.on('data', (chunk) => {
+        buffer = Buffer.concat([buffer, chunk]);
+        while (buffer.length >= 2) {
+            const fin = (buffer[0] & 0x80) !== 0;
+            const opcode = buffer[0] & 0x0f;
+            const masked = (buffer[1] & 0x80) !== 0;
+            let length = buffer[1] & 0x7f;
+            let offset = 2;
+            if (length === 126) {
+                if (buffer.length < 4) return;
+                length = buffer.readUInt16BE(2);
+                offset = 4;
+            } else if (length === 127) {
+                if (buffer.length < 10) return;
+                length = Number(buffer.readBigUInt64BE(2));
+                offset = 10;
+            }
+            if (length > MAX_PAYLOAD) return close();
+            const maskOffset = offset;
+            if (masked) offset += 4;
+            if (buffer.length < offset + length) return;
+
+            const payload = Buffer.from(buffer.subarray(offset, offset + length));
+            if (masked) {
+                for (let i = 0; i < payload.length; i++) payload[i] ^= buffer[maskOffset + (i % 4)];
+            }
+            buffer = buffer.subarray(offset + length);
+
+            if (opcode === 0x8) {
+                if (!socket.destroyed) socket.end(encodeFrame(0x8, Buffer.alloc(0)));
+                handleDisconnect(client);
+                return;
+            }
+            if (opcode === 0x9) {
+                socket.write(encodeFrame(0xa, payload));
+                continue;
+            }
+            if (opcode !== 0x0 && opcode !== 0x1) continue;
+
+            fragments.push(payload);
+            if (!fin) continue;
+            const text = Buffer.concat(fragments).toString('utf8');
+            fragments = [];
+            try {
+                handleMessage(client, JSON.parse(text));
+            } catch (error) {
+                console.warn('Mensagem inválida ignorada:', error.message);
+            }
+        }
+    });
+    socket.on('close', () => handleDisconnect(client));
+    socket.on('error', () => handleDisconnect(client));
+};
+
+const server = createServer((req, res) => {
+    res.writeHead(426, { 'Content-Type': 'text/plain; charset=utf-8' });
+    res.end('Servidor de colaboração do Criador de Fluxogramas. Conecte-se via WebSocket.\n');
+});
+
+server.on('upgrade', (req, socket) => {
+    const key = req.headers['sec-websocket-key'];
+    if (!key || (req.headers.upgrade || '').toLowerCase() !== 'websocket') {
+        socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+        return;
+    }
+    const accept = createHash('sha1').update(key + WS_GUID).digest('base64');
+    socket.write(
+        'HTTP/1.1 101 Switching Protocols\r\n' +
+        'Upgrade: websocket\r\n' +
+        'Connection: Upgrade\r\n' +
+        `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+    );
+    socket.setNoDelay(true);
+    attachClient(socket);
+});
+
+server.listen(PORT, () => {
+    console.log(`Servidor de colaboração ouvindo em ws://localhost:${PORT}`);
+});
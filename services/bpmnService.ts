@@ -0,0 +1,298 @@
+import { FlowchartData, NodeData, NodeType, EdgeData, AnnotationData, Position } from '../types';
+import { getNodeSize, sanitizeFlowchartData, defaultDimensions } from './flowchartUtils';
+import { layoutFlowchart } from './layoutService';
+import { Rect } from './swimlaneService';
+import { ANNOTATION_DEFAULT } from './groupService';
+
+// BPMN 2.0 (XML) com o diagrama BPMNDI. O subconjunto mapeado é: início →
+// startEvent, fim → endEvent, processo → task, decisão → exclusiveGateway,
+// subprocesso → callActivity, anotação → textAnnotation e conexão → sequenceFlow.
+// Os demais tipos de bloco são exportados como task. Piscinas e grupos não fazem
+// parte do subconjunto.
+
+const BPMN_NS = 'http://www.omg.org/spec/BPMN/20100524/MODEL';
+const BPMNDI_NS = 'http://www.omg.org/spec/BPMN/20100524/DI';
+const DC_NS = 'http://www.omg.org/spec/DD/20100524/DC';
+const DI_NS = 'http://www.omg.org/spec/DD/20100524/DI';
+
+export interface BpmnExportOptions {
+    // Nome do processo.
+    name: string;
+}
+
+// Tamanhos usuais de eventos e gateways; ficam centralizados no lugar do bloco.
+const EVENT_SIZE = 36;
+const GATEWAY_SIZE = 50;
+
+const elementTypes: Record<NodeType, string> = {
+    start: 'startEvent',
+    end: 'endEvent',
+    process: 'task',
+    decision: 'exclusiveGateway',
+    subprocess: 'callActivity',
+    inputOutput: 'task',
+    document: 'task',
+    database: 'task',
+    manualInput: 'task',
+    delay: 'task',
+    offPage: 'task',
+    preparation: 'task',
+};
+
+const escapeXml = (text: string) =>
+    text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/\n/g, '&#10;');
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Área da forma BPMN de um bloco, em coordenadas do fluxograma.
+const getShapeBounds = (node: NodeData): Rect => {
+    const { width, height } = getNodeSize(node);
+    const size = node.type === 'start' || node.type === 'end' ? EVENT_SIZE : node.type === 'decision' ? GATEWAY_SIZE : null;
+    if (size === null) return { x: node.position.x, y: node.position.y, width, height };
+    return { x: node.position.x + (width - size) / 2, y: node.position.y + (height - size) / 2, width: size, height: size };
+};
+
+// Ponto médio de cada lado. Índices: 0: Top, 1: Right, 2: Bottom, 3: Left
+const getSideAnchors = (bounds: Rect): Position[] => [
+    { x: bounds.x + bounds.width / 2, y: bounds.y },
+    { x: bounds.x + bounds.width, y: bounds.y + bounds.height / 2 },
+    { x: bounds.x + bounds.width / 2, y: bounds.y + bounds.height },
+    { x: bounds.x, y: bounds.y + bounds.height / 2 },
+];
+
+// Lado da forma voltado para o ponto.
+const getFacingSide = (bounds: Rect, point: Position) => {
+    const dx = point.x - (bounds.x + bounds.width / 2);
+    const dy = point.y - (bounds.y + bounds.height / 2);
+    if (Math.abs(dx) * bounds.height > Math.abs(dy) * bounds.width) return dx > 0 ? 1 : 3;
+    return dy > 0 ? 2 : 0;
+};
+
+const getCenter = (bounds: Rect): Position => ({ x: bounds.x + bounds.width / 2, y: bounds.y + bounds.height / 2 });
+
+// Ids do BPMN precisam ser nomes XML válidos; os demais recebem um id novo.
+const createIdMap = (ids: string[], prefix: string) => {
+    const used = new Set<string>();
+    const map = new Map<string, string>();
+    ids.forEach((id, i) => {
+        let bpmnId = /^[A-Za-z_][\w.-]*$/.test(id) ? id : `${prefix}_${i + 1}`;
+        while (used.has(bpmnId)) bpmnId = `${bpmnId}_${i + 1}`;
+        used.add(bpmnId);
+        map.set(id, bpmnId);
+    });
+    return map;
+};
+
+// --- Exportação ---
+
+export const exportToBpmn = (data: FlowchartData, options: BpmnExportOptions): string => {
+    const annotations = data.annotations || [];
+    const ids = createIdMap([...data.nodes.map(n => n.id), ...data.edges.map(e => e.id), ...annotations.map(a => a.id)], 'Element');
+    const nodeById = new Map(data.nodes.map(node => [node.id, node]));
+    const edges = data.edges.filter(edge => nodeById.has(edge.source) && nodeById.has(edge.target));
+
+    const processLines: string[] = [];
+    data.nodes.forEach(node => {
+        const tag = `bpmn:${elementTypes[node.type]}`;
+        const flows = [
+            ...edges.filter(e => e.target === node.id).map(e => `      <bpmn:incoming>${ids.get(e.id)}</bpmn:incoming>`),
+            ...edges.filter(e => e.source === node.id).map(e => `      <bpmn:outgoing>${ids.get(e.id)}</bpmn:outgoing>`),
+        ];
+        const opening = `    <${tag} id="${ids.get(node.id)}" name="${escapeXml(node.text)}"`;
+        processLines.push(flows.length > 0 ? `${opening}>\n${flows.join('\n')}\n    </${tag}>` : `${opening} />`);
+    });
+    edges.forEach(edge => {
+        const opening = `    <bpmn:sequenceFlow id="${ids.get(edge.id)}"${edge.label ? ` name="${escapeXml(edge.label)}"` : ''} sourceRef="${ids.get(edge.source)}" targetRef="${ids.get(edge.target)}"`;
+        // Nas saídas de uma decisão o rótulo também é a condição do caminho.
+        const isCondition = !!edge.label && nodeById.get(edge.source)!.type === 'decision';
+        processLines.push(isCondition
+            ? `${opening}>\n      <bpmn:conditionExpression xsi:type="bpmn:tFormalExpression">${escapeXml(edge.label!)}</bpmn:conditionExpression>\n    </bpmn:sequenceFlow>`
+            : `${opening} />`);
+    });
+    annotations.forEach(annotation => {
+        processLines.push(`    <bpmn:textAnnotation id="${ids.get(annotation.id)}">\n      <bpmn:text>${escapeXml(annotation.text)}</bpmn:text>\n    </bpmn:textAnnotation>`);
+    });
+
+    const diagramLines: string[] = [];
+    const shape = (id: string, bounds: Rect) =>
+        `      <bpmndi:BPMNShape id="${id}_di" bpmnElement="${id}">\n`
+        + `        <dc:Bounds x="${round(bounds.x)}" y="${round(bounds.y)}" width="${round(bounds.width)}" height="${round(bounds.height)}" />\n`
+        + '      </bpmndi:BPMNShape>';
+    data.nodes.forEach(node => diagramLines.push(shape(ids.get(node.id)!, getShapeBounds(node))));
+    annotations.forEach(annotation => diagramLines.push(shape(ids.get(annotation.id)!, {
+        x: annotation.position.x,
+        y: annotation.position.y,
+        width: annotation.width ?? ANNOTATION_DEFAULT.width,
+        height: annotation.height ?? ANNOTATION_DEFAULT.height,
+    })));
+    edges.forEach(edge => {
+        const sourceBounds = getShapeBounds(nodeById.get(edge.source)!);
+        const targetBounds = getShapeBounds(nodeById.get(edge.target)!);
+        const waypoints = edge.waypoints || [];
+        const sourceSide = edge.sourceHandle ?? getFacingSide(sourceBounds, waypoints[0] ?? getCenter(targetBounds));
+        const targetSide = edge.targetHandle ?? getFacingSide(targetBounds, waypoints[waypoints.length - 1] ?? getCenter(sourceBounds));
+        const points = [getSideAnchors(sourceBounds)[sourceSide] ?? getCenter(sourceBounds), ...waypoints, getSideAnchors(targetBounds)[targetSide] ?? getCenter(targetBounds)];
+        const id = ids.get(edge.id)!;
+        diagramLines.push(
+            `      <bpmndi:BPMNEdge id="${id}_di" bpmnElement="${id}">\n`
+            + points.map(p => `        <di:waypoint x="${round(p.x)}" y="${round(p.y)}" />`).join('\n')
+            + '\n      </bpmndi:BPMNEdge>'
+        );
+    });
+
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        `<bpmn:definitions xmlns:bpmn="${BPMN_NS}" xmlns:bpmndi="${BPMNDI_NS}" xmlns:dc="${DC_NS}" xmlns:di="${DI_NS}" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" id="Definitions_1" targetNamespace="http://bpmn.io/schema/bpmn" exporter="Criador de Fluxogramas">`,
+        `  <bpmn:process id="Process_1" name="${escapeXml(options.name)}" isExecutable="false">`,
+        ...processLines,
+        '  </bpmn:process>',
+        '  <bpmndi:BPMNDiagram id="BPMNDiagram_1">',
+        '    <bpmndi:BPMNPlane id="BPMNPlane_1" bpmnElement="Process_1">',
+        ...diagramLines,
+        '    </bpmndi:BPMNPlane>',
+        '  </bpmndi:BPMNDiagram>',
+        '</bpmn:definitions>',
+    ].join('\n') + '\n';
+};
+
+// --- Importação ---
+
+// Elementos BPMN aceitos na importação; variações de tarefa, gateway e subprocesso
+// caem no tipo mais próximo.
+const nodeTypesByElement: Record<string, NodeType> = {
+    startEvent: 'start',
+    endEvent: 'end',
+    task: 'process',
+    userTask: 'process',
+    serviceTask: 'process',
+    manualTask: 'process',
+    scriptTask: 'process',
+    businessRuleTask: 'process',
+    sendTask: 'process',
+    receiveTask: 'process',
+    intermediateCatchEvent: 'process',
+    intermediateThrowEvent: 'process',
+    exclusiveGateway: 'decision',
+    inclusiveGateway: 'decision',
+    parallelGateway: 'decision',
+    eventBasedGateway: 'decision',
+    complexGateway: 'decision',
+    subProcess: 'subprocess',
+    callActivity: 'subprocess',
+    transaction: 'subprocess',
+};
+
+const toNumber = (value: string | null) => {
+    const parsed = value !== null ? parseFloat(value) : NaN;
+    return isFinite(parsed) ? parsed : null;
+};
+
+const isAxisAligned = (points: Position[]) =>
+    points.every((point, i) => i === 0 || point.x === points[i - 1].x || point.y === points[i - 1].y);
+
+export const parseBpmn = (source: string): FlowchartData => {
+    const document = new DOMParser().parseFromString(source, 'application/xml');
+    if (document.getElementsByTagName('parsererror').length > 0) throw new Error('O arquivo não é um XML válido.');
+    const processes = Array.from(document.getElementsByTagNameNS(BPMN_NS, 'process'));
+    if (processes.length === 0) throw new Error('O arquivo não é um processo BPMN 2.0.');
+
+    // Coordenadas do diagrama (BPMNDI), por id do elemento.
+    const boundsById = new Map<string, Rect>();
+    Array.from(document.getElementsByTagNameNS(BPMNDI_NS, 'BPMNShape')).forEach(shape => {
+        const bounds = shape.getElementsByTagNameNS(DC_NS, 'Bounds')[0];
+        const element = shape.getAttribute('bpmnElement');
+        if (!bounds || !element) return;
+        const [x, y, width, height] = ['x', 'y', 'width', 'height'].map(name => toNumber(bounds.getAttribute(name)));
+        if (x === null || y === null || width === null || height === null) return;
+        boundsById.set(element, { x, y, width, height });
+    });
+    const pointsById = new Map<string, Position[]>();
+    Array.from(document.getElementsByTagNameNS(BPMNDI_NS, 'BPMNEdge')).forEach(edge => {
+        const element = edge.getAttribute('bpmnElement');
+        if (!element) return;
+        const points = Array.from(edge.getElementsByTagNameNS(DI_NS, 'waypoint'))
+            .map(point => ({ x: toNumber(point.getAttribute('x')), y: toNumber(point.getAttribute('y')) }))
+            .filter((point): point is Position => point.x !== null && point.y !== null);
+        pointsById.set(element, points);
+    });
+
+    // Só os elementos diretamente no processo; o conteúdo de subprocessos expandidos fica de fora.
+    const elements = processes.flatMap(process => Array.from(process.children).filter(child => child.namespaceURI === BPMN_NS));
+
+    const nodes: NodeData[] = [];
+    const annotations: AnnotationData[] = [];
+    const shapeBounds = new Map<string, Rect>();
+    let hasLayout = true;
+    elements.forEach(element => {
+        const id = element.getAttribute('id');
+        if (!id) return;
+        const bounds = boundsById.get(id);
+        if (element.localName === 'textAnnotation') {
+            const text = element.getElementsByTagNameNS(BPMN_NS, 'text')[0]?.textContent ?? '';
+            annotations.push({
+                id,
+                text: text.trim(),
+                position: bounds ? { x: bounds.x, y: bounds.y } : { x: 0, y: 0 },
+                width: bounds?.width,
+                height: bounds?.height,
+            });
+            return;
+        }
+        const type = nodeTypesByElement[element.localName];
+        if (!type) return;
+        if (!bounds) hasLayout = false;
+        const { width, height } = defaultDimensions[type];
+        // Eventos e gateways têm tamanho próprio no BPMN; o bloco fica centralizado no lugar deles.
+        const keepsSize = type !== 'start' && type !== 'end' && type !== 'decision';
+        const node: NodeData = {
+            id,
+            type,
+            text: (element.getAttribute('name') ?? '').trim(),
+            position: bounds
+                ? keepsSize ? { x: bounds.x, y: bounds.y } : { x: bounds.x + bounds.width / 2 - width / 2, y: bounds.y + bounds.height / 2 - height / 2 }
+                : { x: 0, y: 0 },
+        };
+        if (bounds && keepsSize) {
+            if (bounds.width !== width) node.width = bounds.width;
+            if (bounds.height !== height) node.height = bounds.height;
+        }
+        if (bounds) shapeBounds.set(id, bounds);
+        nodes.push(node);
+    });
+
+    const nodeIds = new Set(nodes.map(node => node.id));
+    const edges: EdgeData[] = elements
+        .filter(element => element.localName === 'sequenceFlow')
+        .flatMap(element => {
+            const id = element.getAttribute('id');
+            const source = element.getAttribute('sourceRef');
+            const target = element.getAttribute('targetRef');
+            if (!id || !source || !target || !nodeIds.has(source) || !nodeIds.has(target)) return [];
+            const condition = element.getElementsByTagNameNS(BPMN_NS, 'conditionExpression')[0]?.textContent?.trim();
+            const edge: EdgeData = { id, source, target, label: element.getAttribute('name')?.trim() || condition || undefined };
+
+            // Conexões com dobras mantêm o desenho: os pontos intermediários viram
+            // pontos de passagem e as pontas definem os lados de saída e de chegada.
+            const points = pointsById.get(id) || [];
+            const sourceBounds = shapeBounds.get(source);
+            const targetBounds = shapeBounds.get(target);
+            if (points.length > 2 && sourceBounds && targetBounds) {
+                edge.waypoints = points.slice(1, -1);
+                edge.sourceHandle = getFacingSide(sourceBounds, points[0]);
+                edge.targetHandle = getFacingSide(targetBounds, points[points.length - 1]);
+                if (isAxisAligned(points)) edge.routing = 'orthogonal';
+            }
+            return [edge];
+        });
+
+    if (nodes.length === 0) throw new Error('O processo BPMN não tem elementos que possam ser importados.');
+
+    const data = sanitizeFlowchartData({ nodes, edges, annotations });
+    // Sem o diagrama BPMNDI não há coordenadas; os blocos são organizados automaticamente.
+    return hasLayout ? data : layoutFlowchart(data);
+};
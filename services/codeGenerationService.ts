@@ -0,0 +1,548 @@
+import { FlowchartData, NodeData, EdgeData } from '../types';
+import { getDecisionBranch } from './layoutService';
+
+// Converte um fluxograma em pseudocódigo ou em esqueletos de JavaScript/Python.
+// Primeiro o grafo é "estruturado" em sequências, if/else e laços (detectados a
+// partir das arestas de retorno da DFS); se o grafo não se encaixar nessas
+// formas, o código é gerado como uma máquina de estados com rótulos.
+
+export type CodeLanguage = 'pseudocode' | 'javascript' | 'python';
+
+export const codeLanguages: { id: CodeLanguage; label: string; extension: string }[] = [
+    { id: 'pseudocode', label: 'Pseudocódigo', extension: 'txt' },
+    { id: 'javascript', label: 'JavaScript', extension: 'js' },
+    { id: 'python', label: 'Python', extension: 'py' },
+];
+
+interface Condition {
+    node: NodeData;
+    negated: boolean;
+    compareTo?: string;
+}
+
+type Statement =
+    | { kind: 'action'; node: NodeData }
+    | { kind: 'end' }
+    | { kind: 'break' }
+    | { kind: 'goto'; target: string | null }
+    | { kind: 'if'; branches: { condition: Condition; body: Statement[] }[]; otherwise: Statement[] }
+    | { kind: 'while'; condition: Condition; body: Statement[] }
+    | { kind: 'doWhile'; condition: Condition; body: Statement[] }
+    | { kind: 'loop'; body: Statement[] };
+
+interface State {
+    label: string;
+    node: NodeData;
+    body: Statement[];
+}
+
+type Program =
+    | { kind: 'structured'; body: Statement[] }
+    | { kind: 'stateMachine'; states: State[] };
+
+// --- Análise do grafo ---
+
+interface FlowGraph {
+    nodeById: Map<string, NodeData>;
+    outgoing: Map<string, EdgeData[]>;
+    backEdgeIds: Set<string>;
+    backSources: Map<string, string[]>;
+    order: string[];
+}
+
+const branchRank = (edge: EdgeData) => {
+    const branch = getDecisionBranch(edge);
+    return branch === 'yes' ? 0 : branch === 'no' ? 2 : 1;
+};
+
+const buildGraph = (data: FlowchartData): FlowGraph => {
+    const start = data.nodes.find(n => n.type === 'start');
+    if (!start) {
+        throw new Error('O fluxograma precisa de um bloco de início para gerar código.');
+    }
+
+    const nodeById = new Map(data.nodes.map(n => [n.id, n]));
+    const outgoing = new Map<string, EdgeData[]>(data.nodes.map(n => [n.id, []]));
+    data.edges.forEach(edge => {
+        if (nodeById.has(edge.source) && nodeById.has(edge.target)) outgoing.get(edge.source)!.push(edge);
+    });
+    // "Sim" sempre vem primeiro e "Não" por último, para que o código seja estável.
+    outgoing.forEach(edges => edges.sort((a, b) => branchRank(a) - branchRank(b)));
+
+    const backEdgeIds = new Set<string>();
+    const backSources = new Map<string, string[]>();
+    const order: string[] = [];
+    const visitState = new Map<string, 'active' | 'done'>();
+    const visit = (id: string) => {
+        visitState.set(id, 'active');
+        order.push(id);
+        outgoing.get(id)!.forEach(edge => {
+            const targetState = visitState.get(edge.target);
+            if (targetState === 'active') {
+                backEdgeIds.add(edge.id);
+                backSources.set(edge.target, [...(backSources.get(edge.target) || []), edge.source]);
+            } else if (!targetState) {
+                visit(edge.target);
+            }
+        });
+        visitState.set(id, 'done');
+    };
+    visit(start.id);
+
+    return { nodeById, outgoing, backEdgeIds, backSources, order };
+};
+
+// Pós-dominador imediato de cada bloco no grafo sem arestas de retorno; é o ponto
+// em que os ramos de uma decisão voltam a se encontrar. null representa a saída.
+const computeImmediatePostDominators = (graph: FlowGraph) => {
+    const EXIT = '';
+    const successors = (id: string) => {
+        const targets = graph.outgoing.get(id)!.filter(e => !graph.backEdgeIds.has(e.id)).map(e => e.target);
+        return targets.length > 0 ? targets : [EXIT];
+    };
+
+    const all = [...graph.order, EXIT];
+    const postDominators = new Map<string, Set<string>>(all.map(id => [id, new Set(all)]));
+    postDominators.set(EXIT, new Set([EXIT]));
+
+    let changed = true;
+    while (changed) {
+        changed = false;
+        [...graph.order].reverse().forEach(id => {
+            const [first, ...rest] = successors(id).map(s => postDominators.get(s)!);
+            const next = new Set([...first].filter(x => rest.every(set => set.has(x))));
+            next.add(id);
+            if (next.size !== postDominators.get(id)!.size) {
+                postDominators.set(id, next);
+                changed = true;
+            }
+        });
+    }
+
+    const immediate = new Map<string, string | null>();
+    graph.order.forEach(id => {
+        const candidates = [...postDominators.get(id)!].filter(x => x !== id);
+        const closest = candidates.reduce((best, x) =>
+            postDominators.get(x)!.size > postDominators.get(best)!.size ? x : best, EXIT);
+        immediate.set(id, closest === EXIT ? null : closest);
+    });
+    return immediate;
+};
+
+// --- Estruturação ---
+
+const conditionFor = (node: NodeData, edge: EdgeData): Condition => {
+    const branch = getDecisionBranch(edge);
+    if (branch) return { node, negated: branch === 'no' };
+    return { node, negated: false, compareTo: edge.label?.trim() || undefined };
+};
+
+const negate = (condition: Condition): Condition => ({ ...condition, negated: !condition.negated });
+
+interface Scope {
+    stops: Map<string, 'merge' | 'loop' | 'exit'>;
+    loopExit?: string;
+}
+
+// "reached" é o ponto de parada para onde o bloco segue ao terminar; null quando
+// todos os caminhos terminam em "fim" ou "interrompa".
+interface Block {
+    statements: Statement[];
+    reached: string | null;
+}
+
+const unstructured = () => new Error('Fluxo não estruturado.');
+
+const structureProgram = (graph: FlowGraph): Statement[] => {
+    const immediatePostDominator = computeImmediatePostDominators(graph);
+    const emitted = new Set<string>();
+    const handledLoops = new Set<string>();
+
+    // Verifica se algum dos alvos é alcançável a partir de "from" sem passar por "avoid".
+    const reaches = (from: string, targets: string[], avoid: string) => {
+        const visited = new Set([avoid]);
+        const queue = [from];
+        while (queue.length > 0) {
+            const id = queue.shift()!;
+            if (visited.has(id)) continue;
+            visited.add(id);
+            if (targets.includes(id)) return true;
+            graph.outgoing.get(id)!.forEach(e => queue.push(e.target));
+        }
+        return false;
+    };
+
+    const buildIf = (node: NodeData, exits: EdgeData[], scope: Scope): { statement: Statement; next: string | null } => {
+        const merge = immediatePostDominator.get(node.id) ?? null;
+        const stops = new Map(scope.stops);
+        // Um ponto que já encerra o escopo (saída ou volta de um laço) mantém esse papel.
+        if (merge && !stops.has(merge)) stops.set(merge, 'merge');
+        const bodies = exits.map(edge => sequence(edge.target, { ...scope, stops }));
+
+        // Os ramos que não terminam precisam seguir para o mesmo ponto.
+        const reached = new Set(bodies.flatMap(body => body.reached === null ? [] : [body.reached]));
+        if (reached.size > 1) throw unstructured();
+        return {
+            statement: {
+                kind: 'if',
+                branches: exits.slice(0, -1).map((edge, i) => ({ condition: conditionFor(node, edge), body: bodies[i].statements })),
+                otherwise: bodies[bodies.length - 1].statements,
+            },
+            next: [...reached][0] ?? null,
+        };
+    };
+
+    // O corpo de um laço só pode seguir para o próprio ponto de repetição.
+    const loopBody = (block: Block, repeatsAt: string) => {
+        if (block.reached !== null && block.reached !== repeatsAt) throw unstructured();
+        return block.statements;
+    };
+
+    const buildLoop = (node: NodeData, scope: Scope): { statement: Statement; next: string | null } => {
+        const sources = graph.backSources.get(node.id)!;
+        const exits = graph.outgoing.get(node.id)!;
+
+        // "enquanto": a própria decisão controla o laço; um ramo volta a ela e o outro sai.
+        if (node.type === 'decision' && exits.length === 2) {
+            const loopsBack = exits.map(e => e.target === node.id || reaches(e.target, sources, node.id));
+            if (loopsBack[0] !== loopsBack[1]) {
+                const bodyEdge = loopsBack[0] ? exits[0] : exits[1];
+                const exitEdge = loopsBack[0] ? exits[1] : exits[0];
+                emitted.add(node.id);
+                const stops = new Map(scope.stops).set(node.id, 'loop').set(exitEdge.target, 'exit');
+                const body = loopBody(sequence(bodyEdge.target, { stops, loopExit: exitEdge.target }), node.id);
+                return { statement: { kind: 'while', condition: conditionFor(node, bodyEdge), body }, next: exitEdge.target };
+            }
+        }
+
+        // "faça ... enquanto": uma única decisão no fim do corpo volta para o início.
+        const latch = sources.length === 1 ? graph.nodeById.get(sources[0])! : null;
+        const latchExits = latch ? graph.outgoing.get(latch.id)! : [];
+        if (latch && latch.id !== node.id && latch.type === 'decision' && latchExits.length === 2) {
+            const backEdge = latchExits.find(e => e.target === node.id)!;
+            const exitEdge = latchExits.find(e => e !== backEdge)!;
+            if (exitEdge.target !== node.id && !emitted.has(latch.id)) {
+                const stops = new Map(scope.stops).set(latch.id, 'loop').set(exitEdge.target, 'exit');
+                const body = loopBody(sequence(node.id, { stops, loopExit: exitEdge.target }), latch.id);
+                emitted.add(latch.id);
+                return { statement: { kind: 'doWhile', condition: conditionFor(latch, backEdge), body }, next: exitEdge.target };
+            }
+        }
+
+        // Qualquer outro laço vira um "enquanto verdadeiro"; a saída só acontece por um bloco de fim.
+        const stops = new Map(scope.stops).set(node.id, 'loop');
+        const body = loopBody(sequence(node.id, { stops }, true), node.id);
+        return { statement: { kind: 'loop', body }, next: null };
+    };
+
+    const sequence = (from: string | null, scope: Scope, isLoopEntry = false): Block => {
+        const statements: Statement[] = [];
+        let current = from;
+        let skipStop = isLoopEntry;
+        while (current !== null) {
+            const stop = skipStop ? undefined : scope.stops.get(current);
+            skipStop = false;
+            if (stop) {
+                if (stop === 'exit') {
+                    if (current !== scope.loopExit) throw unstructured();
+                    statements.push({ kind: 'break' });
+                    return { statements, reached: null };
+                }
+                return { statements, reached: current };
+            }
+
+            const node = graph.nodeById.get(current)!;
+            if (node.type === 'end') {
+                statements.push({ kind: 'end' });
+                return { statements, reached: null };
+            }
+            if (graph.backSources.has(current) && !handledLoops.has(current)) {
+                handledLoops.add(current);
+                const { statement, next } = buildLoop(node, scope);
+                statements.push(statement);
+                current = next;
+                continue;
+            }
+
+            if (emitted.has(current)) throw unstructured();
+            emitted.add(current);
+            const exits = graph.outgoing.get(current)!;
+            if (node.type === 'decision' && exits.length >= 2) {
+                const { statement, next } = buildIf(node, exits, scope);
+                statements.push(statement);
+                current = next;
+                continue;
+            }
+            if (exits.length > 1) throw unstructured();
+            if (node.type !== 'start') statements.push({ kind: 'action', node });
+            current = exits[0]?.target ?? null;
+        }
+        return { statements, reached: null };
+    };
+
+    return sequence(graph.order[0], { stops: new Map() }).statements;
+};
+
+// Remove o "fim" redundante no final do programa e deixa o ramo "então" de
+// um if simples sempre preenchido, invertendo a condição quando necessário.
+const finalize = (statements: Statement[], atTail: boolean): Statement[] =>
+    statements.flatMap((statement, i): Statement[] => {
+        const isLast = atTail && i === statements.length - 1;
+        switch (statement.kind) {
+            case 'end':
+                return isLast ? [] : [statement];
+            case 'if': {
+                const branches = statement.branches.map(b => ({ ...b, body: finalize(b.body, isLast) }));
+                const otherwise = finalize(statement.otherwise, isLast);
+                if (branches.length === 1 && branches[0].body.length === 0 && otherwise.length > 0) {
+                    return [{ kind: 'if', branches: [{ condition: negate(branches[0].condition), body: otherwise }], otherwise: [] }];
+                }
+                return [{ kind: 'if', branches, otherwise }];
+            }
+            case 'while':
+            case 'doWhile':
+            case 'loop':
+                return [{ ...statement, body: finalize(statement.body, false) }];
+            default:
+                return [statement];
+        }
+    });
+
+const buildStateMachine = (graph: FlowGraph): State[] => {
+    const labels = new Map(graph.order.map((id, i) => [id, `passo${i + 1}`]));
+    return graph.order.map(id => {
+        const node = graph.nodeById.get(id)!;
+        const exits = graph.outgoing.get(id)!;
+        const goto = (edge?: EdgeData): Statement => ({ kind: 'goto', target: edge ? labels.get(edge.target)! : null });
+        const body: Statement[] = [];
+        if (node.type === 'end') {
+            body.push(goto());
+        } else if (node.type === 'decision' && exits.length >= 2) {
+            body.push({
+                kind: 'if',
+                branches: exits.slice(0, -1).map(edge => ({ condition: conditionFor(node, edge), body: [goto(edge)] })),
+                otherwise: [goto(exits[exits.length - 1])],
+            });
+        } else {
+            if (node.type !== 'start') body.push({ kind: 'action', node });
+            body.push(goto(exits[0]));
+        }
+        return { label: labels.get(id)!, node, body };
+    });
+};
+
+const buildProgram = (data: FlowchartData): Program => {
+    const graph = buildGraph(data);
+    try {
+        return { kind: 'structured', body: finalize(structureProgram(graph), true) };
+    } catch {
+        return { kind: 'stateMachine', states: buildStateMachine(graph) };
+    }
+};
+
+// --- Geração de texto ---
+
+const INDENT = '    ';
+
+const flattenText = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+// Palavras reservadas e os nomes usados pelo próprio código gerado ("main" e a
+// variável "estado" da máquina de estados).
+const reservedWords: Record<'javascript' | 'python', Set<string>> = {
+    javascript: new Set(['await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'debugger', 'default', 'delete', 'do', 'else', 'enum', 'estado', 'export', 'extends', 'false', 'finally', 'for', 'function', 'if', 'import', 'in', 'instanceof', 'let', 'main', 'new', 'null', 'return', 'static', 'super', 'switch', 'this', 'throw', 'true', 'try', 'typeof', 'var', 'void', 'while', 'with', 'yield']),
+    python: new Set(['and', 'as', 'assert', 'async', 'await', 'break', 'class', 'continue', 'def', 'del', 'elif', 'else', 'estado', 'except', 'false', 'finally', 'for', 'from', 'global', 'if', 'import', 'in', 'is', 'lambda', 'main', 'none', 'nonlocal', 'not', 'or', 'pass', 'raise', 'return', 'true', 'try', 'while', 'with', 'yield']),
+};
+
+// Gera nomes de função estáveis a partir do texto dos blocos e registra os
+// esboços (stubs) que precisam ser declarados no código gerado.
+const createNamer = (language: 'javascript' | 'python') => {
+    const namesByKey = new Map<string, string>();
+    const usedNames = new Set<string>();
+    const stubs: { name: string; text: string; isCondition: boolean }[] = [];
+
+    const nameFor = (node: NodeData) => {
+        const isCondition = node.type === 'decision';
+        const text = flattenText(node.text);
+        const key = `${isCondition}:${text}`;
+        const existing = namesByKey.get(key);
+        if (existing) return existing;
+
+        const words = text
+            .normalize('NFD')
+            .replace(/[\u0300-\u036f]/g, '')
+            .toLowerCase()
+            .split(/[^a-z0-9]+/)
+            .filter(Boolean);
+        let base = language === 'python'
+            ? words.join('_')
+            : words.map((w, i) => (i === 0 ? w : w.charAt(0).toUpperCase() + w.slice(1))).join('');
+        if (!base) base = isCondition ? 'condicao' : 'passo';
+        if (/^\d/.test(base)) base = `_${base}`;
+        if (reservedWords[language].has(base)) base = `${base}_`;
+
+        let name = base;
+        for (let i = 2; usedNames.has(name); i++) name = `${base}${i}`;
+        usedNames.add(name);
+        namesByKey.set(key, name);
+        stubs.push({ name, text, isCondition });
+        return name;
+    };
+
+    return { nameFor, stubs };
+};
+
+const renderPseudocode = (program: Program, title: string): string => {
+    const conditionText = (c: Condition) => {
+        const text = flattenText(c.node.text).replace(/\?+$/, '');
+        if (c.compareTo !== undefined) return `${text} ${c.negated ? '≠' : '='} "${c.compareTo}"`;
+        return c.negated ? `não (${text})` : text;
+    };
+
+    const block = (statements: Statement[], level: number): string[] => statements.flatMap(s => render(s, level));
+    const render = (s: Statement, level: number): string[] => {
+        const pad = INDENT.repeat(level);
+        switch (s.kind) {
+            case 'action': return [`${pad}${flattenText(s.node.text)}`];
+            case 'end': return [`${pad}encerrar`];
+            case 'break': return [`${pad}interromper`];
+            case 'goto': return [`${pad}${s.target ? `vá para ${s.target}` : 'encerrar'}`];
+            case 'if': return [
+                ...s.branches.flatMap((b, i) => [`${pad}${i === 0 ? 'se' : 'senão se'} ${conditionText(b.condition)} então`, ...block(b.body, level + 1)]),
+                ...(s.otherwise.length > 0 ? [`${pad}senão`, ...block(s.otherwise, level + 1)] : []),
+                `${pad}fim_se`,
+            ];
+            case 'while': return [`${pad}enquanto ${conditionText(s.condition)} faça`, ...block(s.body, level + 1), `${pad}fim_enquanto`];
+            case 'doWhile': return [`${pad}repita`, ...block(s.body, level + 1), `${pad}até que ${conditionText(negate(s.condition))}`];
+            case 'loop': return [`${pad}enquanto verdadeiro faça`, ...block(s.body, level + 1), `${pad}fim_enquanto`];
+        }
+    };
+
+    const lines = [`algoritmo "${title}"`];
+    if (program.kind === 'structured') {
+        lines.push('início', ...block(program.body, 1), 'fim');
+    } else {
+        lines.push('// Fluxo não estruturado: cada bloco recebe um rótulo e o controle segue com "vá para".');
+        lines.push('início');
+        program.states.forEach(state => {
+            lines.push(`${state.label}: // ${flattenText(state.node.text)}`, ...block(state.body, 1));
+        });
+        lines.push('fim');
+    }
+    return lines.join('\n') + '\n';
+};
+
+const renderJavaScript = (program: Program, title: string): string => {
+    const namer = createNamer('javascript');
+    const conditionText = (c: Condition) => {
+        const call = `${namer.nameFor(c.node)}()`;
+        if (c.compareTo !== undefined) return `${call} ${c.negated ? '!==' : '==='} ${JSON.stringify(c.compareTo)}`;
+        return c.negated ? `!${call}` : call;
+    };
+
+    const block = (statements: Statement[], level: number): string[] => statements.flatMap(s => render(s, level));
+    const render = (s: Statement, level: number): string[] => {
+        const pad = INDENT.repeat(level);
+        switch (s.kind) {
+            case 'action': return [`${pad}${namer.nameFor(s.node)}();`];
+            case 'end': return [`${pad}return;`];
+            case 'break': return [`${pad}break;`];
+            case 'goto': return [`${pad}estado = ${s.target ? JSON.stringify(s.target) : 'null'};`];
+            case 'if': return [
+                ...s.branches.flatMap((b, i) => [`${pad}${i === 0 ? 'if' : '} else if'} (${conditionText(b.condition)}) {`, ...block(b.body, level + 1)]),
+                ...(s.otherwise.length > 0 ? [`${pad}} else {`, ...block(s.otherwise, level + 1)] : []),
+                `${pad}}`,
+            ];
+            case 'while': return [`${pad}while (${conditionText(s.condition)}) {`, ...block(s.body, level + 1), `${pad}}`];
+            case 'doWhile': return [`${pad}do {`, ...block(s.body, level + 1), `${pad}} while (${conditionText(s.condition)});`];
+            case 'loop': return [`${pad}while (true) {`, ...block(s.body, level + 1), `${pad}}`];
+        }
+    };
+
+    const lines = [`// Gerado a partir do fluxograma "${title}".`];
+    if (program.kind === 'structured') {
+        lines.push('function main() {', ...block(program.body, 1), '}');
+    } else {
+        lines.push('// O fluxo não é estruturado, então foi convertido em uma máquina de estados.');
+        lines.push('function main() {');
+        lines.push(`${INDENT}let estado = ${JSON.stringify(program.states[0].label)};`);
+        lines.push(`${INDENT}while (estado !== null) {`);
+        lines.push(`${INDENT.repeat(2)}switch (estado) {`);
+        program.states.forEach(state => {
+            lines.push(`${INDENT.repeat(3)}case ${JSON.stringify(state.label)}: // ${flattenText(state.node.text)}`);
+            lines.push(...block(state.body, 4), `${INDENT.repeat(4)}break;`);
+        });
+        lines.push(`${INDENT.repeat(2)}}`, `${INDENT}}`, '}');
+    }
+
+    namer.stubs.forEach(stub => {
+        lines.push('', `function ${stub.name}() {`, `${INDENT}// TODO: ${stub.text}`);
+        if (stub.isCondition) lines.push(`${INDENT}return false;`);
+        lines.push('}');
+    });
+    lines.push('', 'main();');
+    return lines.join('\n') + '\n';
+};
+
+const renderPython = (program: Program, title: string): string => {
+    const namer = createNamer('python');
+    const conditionText = (c: Condition) => {
+        const call = `${namer.nameFor(c.node)}()`;
+        if (c.compareTo !== undefined) return `${call} ${c.negated ? '!=' : '=='} ${JSON.stringify(c.compareTo)}`;
+        return c.negated ? `not ${call}` : call;
+    };
+
+    const block = (statements: Statement[], level: number): string[] => {
+        const lines = statements.flatMap(s => render(s, level));
+        return lines.length > 0 ? lines : [`${INDENT.repeat(level)}pass`];
+    };
+    const render = (s: Statement, level: number): string[] => {
+        const pad = INDENT.repeat(level);
+        switch (s.kind) {
+            case 'action': return [`${pad}${namer.nameFor(s.node)}()`];
+            case 'end': return [`${pad}return`];
+            case 'break': return [`${pad}break`];
+            case 'goto': return [`${pad}estado = ${s.target ? JSON.stringify(s.target) : 'None'}`];
+            case 'if': return [
+                ...s.branches.flatMap((b, i) => [`${pad}${i === 0 ? 'if' : 'elif'} ${conditionText(b.condition)}:`, ...block(b.body, level + 1)]),
+                ...(s.otherwise.length > 0 ? [`${pad}else:`, ...block(s.otherwise, level + 1)] : []),
+            ];
+            case 'while': return [`${pad}while ${conditionText(s.condition)}:`, ...block(s.body, level + 1)];
+            case 'doWhile': return [
+                `${pad}while True:`,
+                ...s.body.flatMap(b => render(b, level + 1)),
+                `${pad}${INDENT}if ${conditionText(negate(s.condition))}:`,
+                `${pad}${INDENT.repeat(2)}break`,
+            ];
+            case 'loop': return [`${pad}while True:`, ...block(s.body, level + 1)];
+        }
+    };
+
+    const lines = [`# Gerado a partir do fluxograma "${title}".`];
+    if (program.kind === 'structured') {
+        lines.push('', '', 'def main():', ...block(program.body, 1));
+    } else {
+        lines.push('# O fluxo não é estruturado, então foi convertido em uma máquina de estados.', '', '');
+        lines.push('def main():');
+        lines.push(`${INDENT}estado = ${JSON.stringify(program.states[0].label)}`);
+        lines.push(`${INDENT}while estado is not None:`);
+        program.states.forEach((state, i) => {
+            lines.push(`${INDENT.repeat(2)}${i === 0 ? 'if' : 'elif'} estado == ${JSON.stringify(state.label)}:  # ${flattenText(state.node.text)}`);
+            lines.push(...block(state.body, 3));
+        });
+    }
+
+    namer.stubs.forEach(stub => {
+        lines.push('', '', `def ${stub.name}():`, `${INDENT}# TODO: ${stub.text}`, `${INDENT}${stub.isCondition ? 'return False' : 'pass'}`);
+    });
+    lines.push('', '', 'if __name__ == "__main__":', `${INDENT}main()`);
+    return lines.join('\n') + '\n';
+};
+
+export const generateCode = (data: FlowchartData, language: CodeLanguage, title = 'fluxograma'): string => {
+    const program = buildProgram(data);
+    switch (language) {
+        case 'pseudocode': return renderPseudocode(program, title);
+        case 'javascript': return renderJavaScript(program, title);
+        case 'python': return renderPython(program, title);
+    }
+};
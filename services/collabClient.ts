@@ -0,0 +1,218 @@
+import { CollabOperation, CollabState, createCollabDocument, emptyCollabState, isCollabOperation } from './collabDocument';
+
+// Cliente da colaboração em tempo real (ver server/collab-server.mjs). Mantém o
+// documento compartilhado, envia as alterações locais como operações e avisa a
+// aplicação quando chegam alterações dos outros participantes. Sem conexão, as
+// operações ficam pendentes e são reenviadas ao reconectar.
+
+export type CollabStatus = 'connecting' | 'online' | 'offline';
+
+export interface CollabPresence {
+    name: string;
+    color: string;
+    cursor: { x: number; y: number } | null;
+    selection: string[];
+}
+
+export interface CollabPeer extends CollabPresence {
+    clientId: string;
+}
+
+interface CollabClientOptions {
+    url: string;
+    room: string;
+    clientId: string;
+    name: string;
+    color: string;
+    getLocalState: () => CollabState;
+    onRemoteState: (state: CollabState) => void;
+    onPeersChange: (peers: CollabPeer[]) => void;
+    onStatusChange: (status: CollabStatus) => void;
+    onPendingChange: (count: number) => void;
+}
+
+const RECONNECT_MIN_DELAY = 1000;
+const RECONNECT_MAX_DELAY = 10000;
+const PRESENCE_INTERVAL = 50;
+
+export const peerColors = ['#F472B6', '#34D399', '#FBBF24', '#60A5FA', '#A78BFA', '#F87171', '#2DD4BF', '#FB923C'];
+
+// Operações malformadas vindas do servidor são descartadas.
+const validOps = (ops: unknown): CollabOperation[] => Array.isArray(ops) ? ops.filter(isCollabOperation) : [];
+
+export const createClientId = () => `client-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createCollabClient = (options: CollabClientOptions) => {
+    const doc = createCollabDocument(options.clientId);
+    const peers = new Map<string, CollabPeer>();
+    let socket: WebSocket | null = null;
+    let stopped = false;
+    let synced = false;
+    let lastSeq = 0;
+    // Registro da sala no servidor a que "lastSeq" se refere.
+    let roomId: string | null = null;
+    let reconnectDelay = RECONNECT_MIN_DELAY;
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+    // Estado local já convertido em operações.
+    let snapshot: CollabState = emptyCollabState;
+    let pending: CollabOperation[] = [];
+    let presence: CollabPresence = { name: options.name, color: options.color, cursor: null, selection: [] };
+    let presenceTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const isOpen = () => !!socket && socket.readyState === WebSocket.OPEN;
+
+    const send = (message: object) => {
+        if (isOpen()) socket!.send(JSON.stringify(message));
+    };
+
+    const setPending = (ops: CollabOperation[]) => {
+        pending = ops;
+        options.onPendingChange(pending.length);
+    };
+
+    const emitPeers = () => options.onPeersChange(Array.from(peers.values()));
+
+    const recordLocalState = (state: CollabState) => {
+        const ops = doc.recordLocalChanges(snapshot, state);
+        snapshot = state;
+        if (ops.length === 0) return;
+        setPending([...pending, ...ops]);
+        if (synced) send({ type: 'ops', ops });
+    };
+
+    const applyRemote = (ops: unknown) => {
+        // Alterações locais ainda não registradas entram antes, para não se perderem
+        // na materialização.
+        recordLocalState(options.getLocalState());
+        if (!doc.applyRemote(validOps(ops))) return;
+        snapshot = doc.materialize(snapshot);
+        options.onRemoteState(snapshot);
+    };
+
+    const handleWelcome = (message: { roomId: string; ops: unknown; seq: number; peers: CollabPeer[] }) => {
+        const roomReset = roomId !== null && (message.roomId !== roomId || message.seq < lastSeq);
+        roomId = message.roomId;
+        if (!synced) {
+            doc.applyRemote(validOps(message.ops));
+            if (doc.isEmpty()) {
+                // Sala vazia: o projeto local passa a ser o conteúdo da sala.
+                synced = true;
+                recordLocalState(options.getLocalState());
+            } else {
+                // Sala com conteúdo: ele substitui o projeto local.
+                snapshot = doc.materialize(emptyCollabState);
+                options.onRemoteState(snapshot);
+                synced = true;
+            }
+        } else if (roomReset) {
+            // O servidor perdeu o registro da sala: o que há nele agora está incompleto,
+            // então todo o estado local é reenviado como inclusões, e não só o pendente.
+            applyRemote(message.ops);
+            const ops = doc.recordFullState(snapshot);
+            setPending(ops);
+            if (ops.length > 0) send({ type: 'ops', ops });
+        } else {
+            applyRemote(message.ops);
+            if (pending.length > 0) send({ type: 'ops', ops: pending });
+        }
+        lastSeq = message.seq;
+        peers.clear();
+        message.peers.forEach(peer => peers.set(peer.clientId, peer));
+        emitPeers();
+    };
+
+    const handleMessage = (event: MessageEvent) => {
+        let message: any;
+        try {
+            message = JSON.parse(event.data);
+        } catch {
+            return;
+        }
+        switch (message.type) {
+            case 'welcome':
+                handleWelcome(message);
+                break;
+            case 'ops':
+                applyRemote(message.ops);
+                lastSeq = message.seq;
+                break;
+            case 'ack': {
+                const acked = new Set<string>(message.opIds);
+                setPending(pending.filter(op => !acked.has(op.id)));
+                lastSeq = message.seq;
+                break;
+            }
+            case 'presence': {
+                const { type, ...peer } = message;
+                peers.set(peer.clientId, peer);
+                emitPeers();
+                break;
+            }
+            case 'leave':
+                peers.delete(message.clientId);
+                emitPeers();
+                break;
+        }
+    };
+
+    const connect = () => {
+        if (stopped) return;
+        options.onStatusChange('connecting');
+        let ws: WebSocket;
+        try {
+            ws = new WebSocket(options.url);
+        } catch (error) {
+            console.error('Endereço do servidor de colaboração inválido:', error);
+            options.onStatusChange('offline');
+            return;
+        }
+        socket = ws;
+        ws.onopen = () => {
+            reconnectDelay = RECONNECT_MIN_DELAY;
+            options.onStatusChange('online');
+            send({ type: 'join', room: options.room, clientId: options.clientId, roomId, since: lastSeq, presence });
+        };
+        ws.onmessage = handleMessage;
+        // Nem todo ambiente dispara "close" depois de uma falha ao conectar.
+        ws.onclose = ws.onerror = () => {
+            if (socket !== ws) return;
+            socket = null;
+            peers.clear();
+            emitPeers();
+            if (stopped) return;
+            options.onStatusChange('offline');
+            reconnectTimer = setTimeout(connect, reconnectDelay);
+            reconnectDelay = Math.min(reconnectDelay * 2, RECONNECT_MAX_DELAY);
+        };
+    };
+
+    // Chamado a cada alteração do projeto; sem conexão, as operações ficam pendentes.
+    const pushLocalState = (state: CollabState) => {
+        if (synced) recordLocalState(state);
+    };
+
+    const updatePresence = (update: Partial<CollabPresence>) => {
+        presence = { ...presence, ...update };
+        if (presenceTimer) return;
+        presenceTimer = setTimeout(() => {
+            presenceTimer = null;
+            send({ type: 'presence', presence });
+        }, PRESENCE_INTERVAL);
+    };
+
+    const stop = () => {
+        stopped = true;
+        if (reconnectTimer) clearTimeout(reconnectTimer);
+        if (presenceTimer) clearTimeout(presenceTimer);
+        const ws = socket;
+        socket = null;
+        ws?.close();
+        options.onStatusChange('offline');
+    };
+
+    connect();
+
+    return { pushLocalState, updatePresence, stop };
+};
+
+export type CollabClient = ReturnType<typeof createCollabClient>;
@@ -0,0 +1,194 @@
+import { HistoryState } from '../types';
+
+// Documento compartilhado da colaboração em tempo real. Cada alteração vira uma
+// operação (incluir/alterar ou excluir um item de uma coleção) marcada com um
+// relógio de Lamport. Cada propriedade de um item guarda o valor da operação mais
+// recente, e a exclusão é um marcador que só perde para uma nova inclusão do mesmo
+// item. Aplicar o mesmo conjunto de operações em qualquer ordem, ou repetidas
+// vezes, leva ao mesmo resultado, então as réplicas convergem sem conflitos.
+
+export type CollabState = HistoryState;
+export type CollabCollection = keyof CollabState;
+
+export interface CollabStamp {
+    counter: number;
+    clientId: string;
+}
+
+interface BaseOperation {
+    id: string;
+    stamp: CollabStamp;
+    collection: CollabCollection;
+    itemId: string;
+}
+
+export type CollabOperation =
+    | (BaseOperation & { kind: 'upsert'; fields: Record<string, unknown>; create?: boolean })
+    | (BaseOperation & { kind: 'delete' });
+
+const collections: CollabCollection[] = ['nodes', 'edges', 'annotations', 'swimlanes', 'groups'];
+
+export const emptyCollabState: CollabState = { nodes: [], edges: [], annotations: [], swimlanes: [], groups: [] };
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Confere o formato de uma operação vinda da rede (o servidor faz a mesma verificação).
+export const isCollabOperation = (value: unknown): value is CollabOperation => {
+    if (!isRecord(value) || !isRecord(value.stamp)) return false;
+    const { id, stamp, collection, itemId, kind } = value;
+    return typeof id === 'string'
+        && Number.isFinite(stamp.counter) && typeof stamp.clientId === 'string'
+        && collections.includes(collection as CollabCollection)
+        && typeof itemId === 'string'
+        && (kind === 'delete' || (kind === 'upsert' && isRecord(value.fields)));
+};
+
+interface ItemRecord {
+    fields: Map<string, { value: unknown; stamp: CollabStamp }>;
+    created: CollabStamp | null;
+    deleted: CollabStamp | null;
+}
+
+export const compareStamps = (a: CollabStamp, b: CollabStamp) =>
+    a.counter !== b.counter ? a.counter - b.counter : a.clientId < b.clientId ? -1 : a.clientId > b.clientId ? 1 : 0;
+
+const isVisible = (record: ItemRecord) =>
+    !!record.created && (!record.deleted || compareStamps(record.created, record.deleted) > 0);
+
+const changedFields = (before: Record<string, unknown>, after: Record<string, unknown>) => {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    keys.delete('id');
+    return Array.from(keys).filter(key => JSON.stringify(before[key]) !== JSON.stringify(after[key]));
+};
+
+export const createCollabDocument = (clientId: string) => {
+    const records = new Map<string, ItemRecord>();
+    const appliedIds = new Set<string>();
+    // Itens alterados por operações remotas desde a última materialização.
+    const dirty = new Set<string>();
+    let counter = 0;
+
+    const keyOf = (collection: CollabCollection, itemId: string) => `${collection}:${itemId}`;
+
+    const nextStamp = (): CollabStamp => ({ counter: ++counter, clientId });
+
+    const apply = (op: CollabOperation) => {
+        if (appliedIds.has(op.id)) return false;
+        appliedIds.add(op.id);
+        counter = Math.max(counter, op.stamp.counter);
+
+        const key = keyOf(op.collection, op.itemId);
+        let record = records.get(key);
+        if (!record) {
+            record = { fields: new Map(), created: null, deleted: null };
+            records.set(key, record);
+        }
+
+        if (op.kind === 'delete') {
+            if (!record.deleted || compareStamps(op.stamp, record.deleted) > 0) record.deleted = op.stamp;
+            return true;
+        }
+        Object.entries(op.fields).forEach(([field, value]) => {
+            const current = record!.fields.get(field);
+            if (!current || compareStamps(op.stamp, current.stamp) > 0) record!.fields.set(field, { value, stamp: op.stamp });
+        });
+        if (op.create && (!record.created || compareStamps(op.stamp, record.created) > 0)) record.created = op.stamp;
+        return true;
+    };
+
+    // Converte a diferença entre dois estados locais em operações e as aplica.
+    const recordLocalChanges = (before: CollabState, after: CollabState): CollabOperation[] => {
+        const ops: CollabOperation[] = [];
+        const push = (op: Omit<BaseOperation, 'id' | 'stamp'> & ({ kind: 'upsert'; fields: Record<string, unknown>; create?: boolean } | { kind: 'delete' })) => {
+            const stamp = nextStamp();
+            ops.push({ ...op, id: `${clientId}:${stamp.counter}`, stamp } as CollabOperation);
+        };
+
+        collections.forEach(collection => {
+            const previous = before[collection] as { id: string }[];
+            const next = after[collection] as { id: string }[];
+            if (previous === next) return;
+            const previousById = new Map(previous.map(item => [item.id, item]));
+            const nextIds = new Set(next.map(item => item.id));
+
+            next.forEach(item => {
+                const old = previousById.get(item.id);
+                if (old === item) return;
+                const source = item as unknown as Record<string, unknown>;
+                const keys = old ? changedFields(old as unknown as Record<string, unknown>, source) : changedFields({}, source);
+                if (old && keys.length === 0) return;
+                const fields: Record<string, unknown> = {};
+                // Propriedades removidas viram null, que a materialização omite.
+                keys.forEach(key => { fields[key] = source[key] ?? null; });
+                push({ kind: 'upsert', collection, itemId: item.id, fields, create: !old || undefined });
+            });
+            previous.forEach(item => {
+                if (!nextIds.has(item.id)) push({ kind: 'delete', collection, itemId: item.id });
+            });
+        });
+
+        ops.forEach(op => apply(op));
+        return ops;
+    };
+
+    // Operações que incluem de novo todos os itens do estado, para repor uma sala
+    // que perdeu o registro.
+    const recordFullState = (state: CollabState) => recordLocalChanges(emptyCollabState, state);
+
+    const applyRemote = (ops: CollabOperation[]) => {
+        let changed = false;
+        ops.forEach(op => {
+            if (apply(op)) {
+                dirty.add(keyOf(op.collection, op.itemId));
+                changed = true;
+            }
+        });
+        return changed;
+    };
+
+    // Monta o estado visível. Itens que só mudaram localmente reaproveitam os objetos
+    // de "previous", e a ordem dele é mantida; itens novos entram no fim, pela ordem
+    // de criação.
+    const materialize = (previous: CollabState): CollabState => {
+        const result = { ...emptyCollabState } as CollabState;
+        collections.forEach(collection => {
+            const previousItems = previous[collection] as { id: string }[];
+            const previousIds = new Set(previousItems.map(item => item.id));
+            const build = (itemId: string, record: ItemRecord, fallback?: { id: string }) => {
+                if (fallback && !dirty.has(keyOf(collection, itemId))) return fallback;
+                const item: Record<string, unknown> = { id: itemId };
+                record.fields.forEach(({ value }, field) => {
+                    if (value !== null && value !== undefined) item[field] = value;
+                });
+                return item as { id: string };
+            };
+
+            const items: { id: string }[] = [];
+            previousItems.forEach(item => {
+                const record = records.get(keyOf(collection, item.id));
+                if (!record) items.push(item);
+                else if (isVisible(record)) items.push(build(item.id, record, item));
+            });
+            const added: { itemId: string; record: ItemRecord }[] = [];
+            const prefix = `${collection}:`;
+            records.forEach((record, key) => {
+                if (!key.startsWith(prefix)) return;
+                const itemId = key.slice(prefix.length);
+                if (!previousIds.has(itemId) && isVisible(record)) added.push({ itemId, record });
+            });
+            added
+                .sort((a, b) => compareStamps(a.record.created!, b.record.created!))
+                .forEach(({ itemId, record }) => items.push(build(itemId, record)));
+            (result as any)[collection] = items;
+        });
+        dirty.clear();
+        return result;
+    };
+
+    const isEmpty = () => Array.from(records.values()).every(record => !isVisible(record));
+
+    return { recordLocalChanges, recordFullState, applyRemote, materialize, isEmpty };
+};
+
+export type CollabDocument = ReturnType<typeof createCollabDocument>;
@@ -0,0 +1,64 @@
+import { CommentMessage, CommentTarget, CommentThread, EdgeData, EdgeRouting, NodeData, Position } from '../types';
+import { getNodeSize } from './flowchartUtils';
+import { getEdgeGeometry } from './edgeRoutingService';
+
+// Conversas de comentários presas a blocos, conexões ou pontos do canvas.
+
+export const COMMENT_BADGE_COLOR = '#EC4899';
+
+const createMessage = (author: string, text: string): CommentMessage => ({
+    id: `comment-${Date.now()}${Math.round(Math.random() * 1000)}`,
+    author,
+    text,
+    createdAt: Date.now(),
+});
+
+export const createCommentThread = (target: CommentTarget, author: string, text: string): CommentThread => ({
+    id: `thread-${Date.now()}${Math.round(Math.random() * 1000)}`,
+    target,
+    messages: [createMessage(author, text)],
+});
+
+export const addCommentReply = (thread: CommentThread, author: string, text: string): CommentThread => ({
+    ...thread,
+    messages: [...thread.messages, createMessage(author, text)],
+});
+
+// Ponto de ancoragem do marcador no canvas: o canto superior direito do bloco, o
+// meio da conexão ou o próprio ponto. Sem âncora quando o item não está visível.
+export const getCommentAnchor = (
+    target: CommentTarget,
+    nodes: NodeData[],
+    edges: EdgeData[],
+    autoConnect: boolean,
+    edgeRouting: EdgeRouting
+): Position | null => {
+    if (target.kind === 'point') return target.position;
+    if (target.kind === 'node') {
+        const node = nodes.find(n => n.id === target.id);
+        if (!node) return null;
+        return { x: node.position.x + getNodeSize(node).width, y: node.position.y };
+    }
+    const edge = edges.find(e => e.id === target.id);
+    const source = edge && nodes.find(n => n.id === edge.source);
+    const targetNode = edge && nodes.find(n => n.id === edge.target);
+    if (!edge || !source || !targetNode) return null;
+    return getEdgeGeometry(edge, source, targetNode, autoConnect, edgeRouting, nodes).labelPos;
+};
+
+// Chave que junta as conversas do mesmo item em um único marcador.
+export const getCommentTargetKey = (thread: CommentThread) =>
+    thread.target.kind === 'point' ? thread.id : `${thread.target.kind}:${thread.target.id}`;
+
+export const describeCommentTarget = (target: CommentTarget, nodes: NodeData[], edges: EdgeData[]) => {
+    if (target.kind === 'point') return 'Ponto do canvas';
+    if (target.kind === 'node') {
+        const node = nodes.find(n => n.id === target.id);
+        return node ? `Bloco "${node.text}"` : 'Bloco excluído';
+    }
+    const edge = edges.find(e => e.id === target.id);
+    if (!edge) return 'Conexão excluída';
+    const source = nodes.find(n => n.id === edge.source);
+    const targetNode = nodes.find(n => n.id === edge.target);
+    return `Conexão "${source?.text ?? '?'} → ${targetNode?.text ?? '?'}"`;
+};
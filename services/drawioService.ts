@@ -0,0 +1,478 @@
+import { FlowchartData, NodeData, NodeType, EdgeData, EdgeRouting, AnnotationData, SwimlaneData, LaneData, GroupData, Position } from '../types';
+import { getNodeSize, sanitizeFlowchartData, defaultDimensions, nodeTypes } from './flowchartUtils';
+import { getSwimlaneBounds, getLaneRects, assignNodesToLanes, POOL_HEADER_SIZE, LANE_HEADER_SIZE } from './swimlaneService';
+import { getGroupBounds, ANNOTATION_DEFAULT, GROUP_HEADER_SIZE } from './groupService';
+import { IO_SKEW, PREPARATION_INSET, MANUAL_INPUT_SLOPE, DATABASE_RY } from './shapeService';
+import { nodeColors } from './svgExportService';
+
+// Arquivos do draw.io / diagrams.net (XML do mxGraph). Cada bloco, anotação,
+// conexão, piscina e grupo vira uma célula ("mxCell") com geometria e estilo; os
+// grupos são contêineres com os membros dentro, como no próprio draw.io.
+
+export interface DrawioExportOptions {
+    // Nome da página no draw.io.
+    name: string;
+    // Traçado das conexões que seguem o estilo global.
+    edgeRouting: EdgeRouting;
+}
+
+// Pontos de conexão em coordenadas relativas ao bloco. Índices: 0: Top, 1: Right, 2: Bottom, 3: Left
+const handleAnchors: Position[] = [{ x: 0.5, y: 0 }, { x: 1, y: 0.5 }, { x: 0.5, y: 1 }, { x: 0, y: 0.5 }];
+
+// --- Exportação ---
+
+// O draw.io não conhece "flowType"; o estilo é mantido no arquivo e preserva o
+// tipo na reimportação, já que início e fim, por exemplo, têm o mesmo formato lá.
+const shapeStyles: Record<NodeType, string> = {
+    start: 'rounded=1;arcSize=50',
+    end: 'rounded=1;arcSize=50',
+    process: 'rounded=1;absoluteArcSize=1;arcSize=16',
+    decision: 'rhombus',
+    subprocess: 'shape=process;fixedSize=1;size=12;backgroundOutline=1',
+    inputOutput: `shape=parallelogram;perimeter=parallelogramPerimeter;fixedSize=1;size=${IO_SKEW}`,
+    document: 'shape=document;boundedLbl=1;size=0.15',
+    database: `shape=cylinder3;boundedLbl=1;backgroundOutline=1;size=${DATABASE_RY}`,
+    manualInput: `shape=manualInput;size=${MANUAL_INPUT_SLOPE}`,
+    delay: 'shape=delay',
+    offPage: 'shape=offPageConnector;size=0.22',
+    preparation: `shape=hexagon;perimeter=hexagonPerimeter2;fixedSize=1;size=${PREPARATION_INSET}`,
+};
+
+const routingStyles: Record<EdgeRouting, string> = {
+    curved: 'edgeStyle=orthogonalEdgeStyle;curved=1',
+    straight: 'edgeStyle=none',
+    orthogonal: 'edgeStyle=orthogonalEdgeStyle;rounded=0',
+};
+
+const EDGE_COLOR = '#6B7280';
+
+const escapeXml = (text: string) =>
+    text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/\n/g, '&#xa;');
+
+// Os rótulos são exportados como HTML (html=1) para que o texto quebre dentro da forma.
+const textToHtml = (text: string) =>
+    text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/\r?\n/g, '<br>');
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const geometry = (x: number, y: number, width: number, height: number) =>
+    `<mxGeometry x="${round(x)}" y="${round(y)}" width="${round(width)}" height="${round(height)}" as="geometry"/>`;
+
+const vertex = (id: string, text: string, style: string, parent: string, geometryXml: string) =>
+    `<mxCell id="${escapeXml(id)}" value="${escapeXml(textToHtml(text))}" style="${escapeXml(style)}" vertex="1" parent="${escapeXml(parent)}">${geometryXml}</mxCell>`;
+
+const getNodeStyle = (node: NodeData) => {
+    const colors = node.color
+        ? `fillColor=${node.color};strokeColor=${node.color}`
+        : `fillColor=${nodeColors[node.type].gradient[0]};gradientColor=${nodeColors[node.type].gradient[1]};gradientDirection=south;strokeColor=${nodeColors[node.type].stroke}`;
+    return `${shapeStyles[node.type]};whiteSpace=wrap;html=1;${colors};fontColor=#FFFFFF;strokeWidth=2;flowType=${node.type};`;
+};
+
+const ANNOTATION_STYLE = 'text;whiteSpace=wrap;html=1;align=left;verticalAlign=top;spacing=10;fillColor=#FBBF24;strokeColor=#F59E0B;fontColor=#1F2937;';
+const GROUP_STYLE = `swimlane;startSize=${GROUP_HEADER_SIZE};rounded=1;arcSize=4;dashed=1;fillColor=none;swimlaneLine=0;strokeColor=${EDGE_COLOR};fontColor=${EDGE_COLOR};align=left;spacingLeft=10;whiteSpace=wrap;html=1;`;
+
+export const exportToDrawio = (data: FlowchartData, options: DrawioExportOptions): string => {
+    const annotations = data.annotations || [];
+    const cells: string[] = ['<mxCell id="0"/>', '<mxCell id="1" parent="0"/>'];
+
+    // Piscinas: as raias ficam dentro da piscina, com a geometria relativa a ela.
+    (data.swimlanes || []).forEach(pool => {
+        const bounds = getSwimlaneBounds(pool);
+        const horizontal = pool.orientation === 'horizontal' ? 'horizontal=0;' : '';
+        cells.push(vertex(pool.id, pool.title, `swimlane;${horizontal}startSize=${POOL_HEADER_SIZE};html=1;whiteSpace=wrap;`, '1', geometry(bounds.x, bounds.y, bounds.width, bounds.height)));
+        getLaneRects(pool).forEach(rect => {
+            cells.push(vertex(rect.lane.id, rect.lane.title, `swimlane;${horizontal}startSize=${LANE_HEADER_SIZE};html=1;whiteSpace=wrap;`, pool.id, geometry(rect.x - bounds.x, rect.y - bounds.y, rect.width, rect.height)));
+        });
+    });
+
+    // Grupos viram contêineres, sempre expandidos, com os membros dentro deles.
+    const parentOf = new Map<string, { id: string; origin: Position }>();
+    (data.groups || []).forEach(group => {
+        const bounds = getGroupBounds(group, data.nodes, annotations);
+        if (!bounds) return;
+        cells.push(vertex(group.id, group.title, GROUP_STYLE, '1', geometry(bounds.x, bounds.y, bounds.width, bounds.height)));
+        [...group.nodeIds, ...group.annotationIds].forEach(id => parentOf.set(id, { id: group.id, origin: { x: bounds.x, y: bounds.y } }));
+    });
+    const placement = (id: string, position: Position) => {
+        const parent = parentOf.get(id);
+        return parent
+            ? { parent: parent.id, x: position.x - parent.origin.x, y: position.y - parent.origin.y }
+            : { parent: '1', ...position };
+    };
+
+    // As conexões vêm antes dos blocos para ficarem por baixo deles, como no canvas.
+    data.edges.forEach(edge => {
+        const style = [`${routingStyles[edge.routing ?? options.edgeRouting]};html=1;endArrow=classic;strokeColor=${EDGE_COLOR};strokeWidth=2;labelBackgroundColor=default;`];
+        if (edge.sourceHandle !== undefined && handleAnchors[edge.sourceHandle]) {
+            style.push(`exitX=${handleAnchors[edge.sourceHandle].x};exitY=${handleAnchors[edge.sourceHandle].y};exitDx=0;exitDy=0;`);
+        }
+        if (edge.targetHandle !== undefined && handleAnchors[edge.targetHandle]) {
+            style.push(`entryX=${handleAnchors[edge.targetHandle].x};entryY=${handleAnchors[edge.targetHandle].y};entryDx=0;entryDy=0;`);
+        }
+        const points = edge.waypoints && edge.waypoints.length > 0
+            ? `<Array as="points">${edge.waypoints.map(p => `<mxPoint x="${round(p.x)}" y="${round(p.y)}"/>`).join('')}</Array>`
+            : '';
+        cells.push(
+            `<mxCell id="${escapeXml(edge.id)}" value="${escapeXml(textToHtml(edge.label ?? ''))}" style="${escapeXml(style.join(''))}" edge="1" parent="1" source="${escapeXml(edge.source)}" target="${escapeXml(edge.target)}">`
+            + `<mxGeometry relative="1" as="geometry">${points}</mxGeometry></mxCell>`
+        );
+    });
+
+    data.nodes.forEach(node => {
+        const { width, height } = getNodeSize(node);
+        const { parent, x, y } = placement(node.id, node.position);
+        cells.push(vertex(node.id, node.text, getNodeStyle(node), parent, geometry(x, y, width, height)));
+    });
+    annotations.forEach(annotation => {
+        const { parent, x, y } = placement(annotation.id, annotation.position);
+        cells.push(vertex(annotation.id, annotation.text, ANNOTATION_STYLE, parent, geometry(x, y, annotation.width ?? ANNOTATION_DEFAULT.width, annotation.height ?? ANNOTATION_DEFAULT.height)));
+    });
+
+    return [
+        '<mxfile host="Criador de Fluxogramas">',
+        `  <diagram id="fluxograma" name="${escapeXml(options.name)}">`,
+        '    <mxGraphModel grid="1" gridSize="10" guides="1" tooltips="1" connect="1" arrows="1" fold="1" page="0" pageScale="1" math="0" shadow="0">',
+        '      <root>',
+        ...cells.map(cell => `        ${cell}`),
+        '      </root>',
+        '    </mxGraphModel>',
+        '  </diagram>',
+        '</mxfile>',
+    ].join('\n') + '\n';
+};
+
+// --- Importação ---
+
+interface RawCell {
+    id: string;
+    value: string;
+    style: Map<string, string>;
+    // Nome do estilo base e da forma ("rhombus", "ellipse", "swimlane", "mxgraph.flowchart.decision"...).
+    shapes: Set<string>;
+    parent: string;
+    isVertex: boolean;
+    isEdge: boolean;
+    source?: string;
+    target?: string;
+    // Relativa ao contêiner pai.
+    geometry: { x: number; y: number; width: number; height: number } | null;
+    points: Position[];
+}
+
+// Formas do draw.io (básicas e da biblioteca de fluxogramas) e o tipo de bloco correspondente.
+const shapeTypes: Record<string, NodeType> = {
+    rhombus: 'decision',
+    'mxgraph.flowchart.decision': 'decision',
+    process: 'subprocess',
+    'mxgraph.flowchart.predefined_process': 'subprocess',
+    parallelogram: 'inputOutput',
+    'mxgraph.flowchart.data': 'inputOutput',
+    document: 'document',
+    'mxgraph.flowchart.document': 'document',
+    cylinder: 'database',
+    cylinder3: 'database',
+    datastore: 'database',
+    'mxgraph.flowchart.database': 'database',
+    manualInput: 'manualInput',
+    'mxgraph.flowchart.manual_input': 'manualInput',
+    delay: 'delay',
+    'mxgraph.flowchart.delay': 'delay',
+    offPageConnector: 'offPage',
+    'mxgraph.flowchart.off-page_reference': 'offPage',
+    hexagon: 'preparation',
+    'mxgraph.flowchart.preparation': 'preparation',
+    'mxgraph.flowchart.process': 'process',
+};
+
+// Formas usadas para início e fim; o tipo sai das conexões do bloco.
+const terminalShapes = ['ellipse', 'doubleEllipse', 'mxgraph.flowchart.terminator', 'mxgraph.flowchart.start_1', 'mxgraph.flowchart.start_2'];
+const annotationShapes = ['text', 'note', 'mxgraph.flowchart.annotation_1', 'mxgraph.flowchart.annotation_2'];
+
+// "rounded=1;whiteSpace=wrap;rhombus;" → { rounded: "1", whiteSpace: "wrap", rhombus: "" }
+const parseStyle = (style: string) => {
+    const entries = new Map<string, string>();
+    style.split(';').forEach(part => {
+        const entry = part.trim();
+        if (!entry) return;
+        const separator = entry.indexOf('=');
+        if (separator === -1) entries.set(entry, '');
+        else entries.set(entry.slice(0, separator), entry.slice(separator + 1));
+    });
+    return entries;
+};
+
+const decodeHtmlEntities = (text: string) =>
+    text
+        .replace(/&nbsp;/g, ' ')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&#39;/g, "'")
+        .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCharCode(parseInt(code, 16)))
+        .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(parseInt(code, 10)))
+        .replace(/&amp;/g, '&');
+
+// Rótulos com html=1 são fragmentos de HTML; quebras de linha vêm como <br> ou <div>.
+const htmlToText = (html: string) =>
+    decodeHtmlEntities(
+        html
+            .replace(/<br\s*\/?>/gi, '\n')
+            .replace(/<(div|p|li)\b[^>]*>/gi, '\n')
+            .replace(/<[^>]*>/g, '')
+    ).trim();
+
+const getCellText = (cell: RawCell) => cell.style.get('html') === '1' ? htmlToText(cell.value) : cell.value.trim();
+
+const toNumber = (value: string | null, fallback: number) => {
+    const parsed = value !== null ? parseFloat(value) : NaN;
+    return isFinite(parsed) ? parsed : fallback;
+};
+
+const childElements = (element: Element, tagName: string) => Array.from(element.children).filter(child => child.tagName === tagName);
+
+// Diagramas compactados (o padrão em versões antigas do draw.io) guardam o XML
+// codificado com encodeURIComponent, comprimido com deflate e em base64.
+const inflateDiagram = async (encoded: string): Promise<string> => {
+    const bytes = Uint8Array.from(atob(encoded.replace(/\s+/g, '')), ch => ch.charCodeAt(0));
+    const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+    const inflated = await new Response(stream).text();
+    try {
+        return decodeURIComponent(inflated);
+    } catch {
+        return inflated;
+    }
+};
+
+const parseXml = (source: string) => {
+    const document = new DOMParser().parseFromString(source, 'application/xml');
+    if (document.getElementsByTagName('parsererror').length > 0) throw new Error('O arquivo não é um XML válido.');
+    return document;
+};
+
+// Só a primeira página do arquivo é importada.
+const findGraphModel = async (source: string): Promise<Element> => {
+    const document = parseXml(source);
+    const model = document.getElementsByTagName('mxGraphModel')[0];
+    if (model) return model;
+    const diagram = document.getElementsByTagName('diagram')[0];
+    const encoded = diagram?.textContent?.trim();
+    if (!encoded) throw new Error('O arquivo não é um diagrama do draw.io.');
+    let inflated: string;
+    try {
+        inflated = await inflateDiagram(encoded);
+    } catch {
+        throw new Error('Não foi possível descompactar o diagrama do draw.io.');
+    }
+    const inflatedModel = parseXml(inflated).getElementsByTagName('mxGraphModel')[0];
+    if (!inflatedModel) throw new Error('O arquivo não é um diagrama do draw.io.');
+    return inflatedModel;
+};
+
+const readCells = (model: Element): RawCell[] => {
+    const root = childElements(model, 'root')[0];
+    if (!root) throw new Error('O diagrama do draw.io está vazio.');
+    return Array.from(root.children).flatMap(element => {
+        // Células com propriedades personalizadas vêm dentro de <object> ou <UserObject>,
+        // que guardam o id e o rótulo.
+        const wrapped = element.tagName !== 'mxCell';
+        const cell = wrapped ? childElements(element, 'mxCell')[0] : element;
+        if (!cell) return [];
+        const id = (wrapped ? element : cell).getAttribute('id');
+        if (!id) return [];
+
+        const style = parseStyle(cell.getAttribute('style') || '');
+        const shapes = new Set(Array.from(style.entries()).filter(([, value]) => value === '').map(([key]) => key));
+        if (style.get('shape')) shapes.add(style.get('shape')!);
+
+        const geometryElement = childElements(cell, 'mxGeometry')[0];
+        const arrays = geometryElement ? childElements(geometryElement, 'Array').filter(array => array.getAttribute('as') === 'points') : [];
+        return [{
+            id,
+            value: (wrapped ? element.getAttribute('label') : cell.getAttribute('value')) || '',
+            style,
+            shapes,
+            parent: cell.getAttribute('parent') || '',
+            isVertex: cell.getAttribute('vertex') === '1',
+            isEdge: cell.getAttribute('edge') === '1',
+            source: cell.getAttribute('source') || undefined,
+            target: cell.getAttribute('target') || undefined,
+            geometry: geometryElement && geometryElement.getAttribute('relative') !== '1'
+                ? {
+                    x: toNumber(geometryElement.getAttribute('x'), 0),
+                    y: toNumber(geometryElement.getAttribute('y'), 0),
+                    width: toNumber(geometryElement.getAttribute('width'), 0),
+                    height: toNumber(geometryElement.getAttribute('height'), 0),
+                }
+                : null,
+            points: arrays.flatMap(array => childElements(array, 'mxPoint')).map(point => ({
+                x: toNumber(point.getAttribute('x'), 0),
+                y: toNumber(point.getAttribute('y'), 0),
+            })),
+        }];
+    });
+};
+
+// Cores claras demais para o texto branco dos blocos são descartadas.
+const isDarkEnough = (color: string) => {
+    const hex = color.match(/^#([0-9a-f]{6})$/i)?.[1];
+    if (!hex) return false;
+    const [r, g, b] = [0, 2, 4].map(i => parseInt(hex.slice(i, i + 2), 16));
+    return (0.299 * r + 0.587 * g + 0.114 * b) / 255 < 0.6;
+};
+
+const findHandle = (x: string | undefined, y: string | undefined) => {
+    if (x === undefined || y === undefined) return undefined;
+    const index = handleAnchors.findIndex(anchor => Math.abs(anchor.x - parseFloat(x)) < 0.01 && Math.abs(anchor.y - parseFloat(y)) < 0.01);
+    return index === -1 ? undefined : index;
+};
+
+const getRouting = (style: Map<string, string>): EdgeRouting => {
+    if (style.get('curved') === '1') return 'curved';
+    const edgeStyle = style.get('edgeStyle');
+    return edgeStyle && edgeStyle !== 'none' ? 'orthogonal' : 'straight';
+};
+
+export const parseDrawio = async (source: string): Promise<FlowchartData> => {
+    const cells = readCells(await findGraphModel(source));
+    const cellById = new Map(cells.map(cell => [cell.id, cell]));
+    const childrenOf = new Map<string, RawCell[]>();
+    cells.forEach(cell => childrenOf.set(cell.parent, [...(childrenOf.get(cell.parent) || []), cell]));
+
+    // Posição absoluta da origem de um contêiner, somando a de todos os ancestrais.
+    const originOf = (id: string): Position => {
+        const cell = cellById.get(id);
+        if (!cell || !cell.isVertex || !cell.geometry) return { x: 0, y: 0 };
+        const parentOrigin = originOf(cell.parent);
+        return { x: parentOrigin.x + cell.geometry.x, y: parentOrigin.y + cell.geometry.y };
+    };
+
+    const isSwimlane = (cell: RawCell) => cell.shapes.has('swimlane');
+    const hasVertexChildren = (cell: RawCell) => (childrenOf.get(cell.id) || []).some(child => child.isVertex);
+    // Piscina: contêiner cujas raias são swimlanes filhas, como a "Pool" do draw.io.
+    const isPool = (cell: RawCell) => isSwimlane(cell) && (childrenOf.get(cell.id) || []).some(child => child.isVertex && isSwimlane(child));
+    const isLane = (cell: RawCell) => isSwimlane(cell) && !!cellById.get(cell.parent) && isPool(cellById.get(cell.parent)!);
+    const isEdgeLabel = (cell: RawCell) => !!cellById.get(cell.parent)?.isEdge;
+
+    const swimlanes: SwimlaneData[] = [];
+    const groups: GroupData[] = [];
+    const nodeCells: RawCell[] = [];
+    const annotations: AnnotationData[] = [];
+
+    cells.forEach(cell => {
+        if (!cell.isVertex || !cell.geometry || isEdgeLabel(cell)) return;
+        const origin = originOf(cell.parent);
+        const position = { x: origin.x + cell.geometry.x, y: origin.y + cell.geometry.y };
+
+        if (isPool(cell)) {
+            const orientation = cell.style.get('horizontal') === '0' ? 'horizontal' : 'vertical';
+            const lanes = (childrenOf.get(cell.id) || [])
+                .filter(child => child.isVertex && child.geometry && isSwimlane(child))
+                .sort((a, b) => orientation === 'horizontal' ? a.geometry!.y - b.geometry!.y : a.geometry!.x - b.geometry!.x)
+                .map((lane): LaneData => ({
+                    id: lane.id,
+                    title: getCellText(lane),
+                    size: orientation === 'horizontal' ? lane.geometry!.height : lane.geometry!.width,
+                }));
+            swimlanes.push({
+                id: cell.id,
+                title: getCellText(cell),
+                orientation,
+                position,
+                length: orientation === 'horizontal' ? cell.geometry.width : cell.geometry.height,
+                lanes,
+            });
+            return;
+        }
+        if (isLane(cell)) return;
+        if (hasVertexChildren(cell)) {
+            // Agrupamentos simples do draw.io ("group") não têm moldura; os demais contêineres viram grupos.
+            if (!cell.shapes.has('group')) groups.push({ id: cell.id, title: getCellText(cell) || 'Grupo', nodeIds: [], annotationIds: [] });
+            return;
+        }
+        // Contêineres vazios não têm o que importar.
+        if (isSwimlane(cell)) return;
+        if (annotationShapes.some(shape => cell.shapes.has(shape))) {
+            annotations.push({ id: cell.id, text: getCellText(cell), position, width: cell.geometry.width, height: cell.geometry.height });
+            return;
+        }
+        nodeCells.push(cell);
+    });
+
+    const nodeIds = new Set(nodeCells.map(cell => cell.id));
+    const edgeCells = cells.filter(cell => cell.isEdge && cell.source && cell.target && nodeIds.has(cell.source) && nodeIds.has(cell.target));
+    const hasIncoming = new Set(edgeCells.map(cell => cell.target));
+    const hasOutgoing = new Set(edgeCells.map(cell => cell.source));
+
+    // Elipses e terminadores são início ou fim conforme tenham conexões de entrada;
+    // retângulos arredondados só quando estão na ponta do fluxo.
+    const resolveType = (cell: RawCell): NodeType => {
+        const flowType = cell.style.get('flowType') as NodeType | undefined;
+        if (flowType && nodeTypes.includes(flowType)) return flowType;
+        const mapped = Array.from(cell.shapes).map(shape => shapeTypes[shape]).find(type => type !== undefined);
+        if (mapped) return mapped;
+        if (terminalShapes.some(shape => cell.shapes.has(shape))) return hasIncoming.has(cell.id) ? 'end' : 'start';
+        if (cell.style.get('rounded') === '1') {
+            if (!hasIncoming.has(cell.id)) return 'start';
+            if (!hasOutgoing.has(cell.id)) return 'end';
+        }
+        return 'process';
+    };
+
+    const rawNodes: NodeData[] = nodeCells.map(cell => {
+        const type = resolveType(cell);
+        const { width, height } = cell.geometry!;
+        const origin = originOf(cell.parent);
+        const fillColor = cell.style.get('fillColor');
+        return {
+            id: cell.id,
+            type,
+            text: getCellText(cell),
+            position: { x: origin.x + cell.geometry!.x, y: origin.y + cell.geometry!.y },
+            width: width > 0 && width !== defaultDimensions[type].width ? width : undefined,
+            height: height > 0 && height !== defaultDimensions[type].height ? height : undefined,
+            color: fillColor && isDarkEnough(fillColor) && fillColor.toUpperCase() !== nodeColors[type].gradient[0] ? fillColor : undefined,
+        };
+    });
+
+    // Cada bloco ou anotação entra no grupo do contêiner em que está diretamente.
+    const groupById = new Map(groups.map(group => [group.id, group]));
+    rawNodes.forEach(node => groupById.get(cellById.get(node.id)!.parent)?.nodeIds.push(node.id));
+    annotations.forEach(annotation => groupById.get(cellById.get(annotation.id)!.parent)?.annotationIds.push(annotation.id));
+
+    const rawEdges: EdgeData[] = edgeCells.map(cell => {
+        const origin = originOf(cell.parent);
+        // Rótulos também podem ser células filhas da conexão ("edgeLabel").
+        const label = [getCellText(cell), ...(childrenOf.get(cell.id) || []).filter(child => child.isVertex).map(getCellText)]
+            .filter(text => text.length > 0)
+            .join('\n');
+        return {
+            id: cell.id,
+            source: cell.source!,
+            target: cell.target!,
+            label: label || undefined,
+            sourceHandle: findHandle(cell.style.get('exitX'), cell.style.get('exitY')),
+            targetHandle: findHandle(cell.style.get('entryX'), cell.style.get('entryY')),
+            routing: getRouting(cell.style),
+            waypoints: cell.points.map(point => ({ x: origin.x + point.x, y: origin.y + point.y })),
+        };
+    });
+
+    if (rawNodes.length === 0 && annotations.length === 0) throw new Error('O diagrama do draw.io não tem blocos para importar.');
+
+    return sanitizeFlowchartData({
+        nodes: assignNodesToLanes(rawNodes, swimlanes),
+        edges: rawEdges,
+        annotations,
+        swimlanes,
+        groups,
+    });
+};
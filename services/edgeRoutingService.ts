@@ -0,0 +1,523 @@
+import { EdgeData, EdgeRouting, NodeData, Position } from '../types';
+import { defaultDimensions, getNodeSize } from './flowchartUtils';
+import { getShapeConnectionPoints } from './shapeService';
+import { Rect } from './swimlaneService';
+
+// Traçado das conexões: curva de Bézier, linha reta ou ortogonal (em "cotovelo").
+// O traçado ortogonal procura, com A*, um caminho de segmentos horizontais e
+// verticais sobre uma grade esparsa formada pelas bordas dos blocos, evitando
+// atravessá-los e penalizando cada curva. getEdgeGeometry reúne os pontos de
+// conexão e o caminho de uma aresta para o canvas e para as exportações.
+
+export interface RoutedPath {
+    path: string;
+    labelPos: Position;
+}
+
+export const edgeRoutingOptions: { id: EdgeRouting; label: string }[] = [
+    { id: 'curved', label: 'Curva' },
+    { id: 'straight', label: 'Reta' },
+    { id: 'orthogonal', label: 'Ortogonal' },
+];
+
+interface Box {
+    left: number;
+    top: number;
+    right: number;
+    bottom: number;
+}
+
+// Distância mínima entre a linha e os blocos que ela contorna.
+const MARGIN = 20;
+const BEND_PENALTY = 40;
+// Só os blocos próximos ao trecho entre origem e destino entram como obstáculos.
+const SEARCH_PADDING = 200;
+
+// Índices: 0: Top, 1: Right, 2: Bottom, 3: Left
+const directions: Position[] = [
+    { x: 0, y: -1 },
+    { x: 1, y: 0 },
+    { x: 0, y: 1 },
+    { x: -1, y: 0 },
+];
+
+const normalizeIndex = (index: number) => (directions[index] ? index : 0);
+
+const toPathString = (points: Position[]) =>
+    points.map((p, i) => `${i === 0 ? 'M' : 'L'} ${p.x} ${p.y}`).join(' ');
+
+// Ponto na metade do comprimento da linha poligonal, onde fica o rótulo.
+const getPolylineMidpoint = (points: Position[]): Position => {
+    const lengths = points.slice(1).map((p, i) => Math.hypot(p.x - points[i].x, p.y - points[i].y));
+    const total = lengths.reduce((sum, len) => sum + len, 0);
+    let remaining = total / 2;
+    for (let i = 0; i < lengths.length; i++) {
+        if (remaining <= lengths[i] && lengths[i] > 0) {
+            const t = remaining / lengths[i];
+            return {
+                x: points[i].x + (points[i + 1].x - points[i].x) * t,
+                y: points[i].y + (points[i + 1].y - points[i].y) * t,
+            };
+        }
+        remaining -= lengths[i];
+    }
+    return points[points.length - 1];
+};
+
+// Remove pontos repetidos e pontos intermediários de segmentos alinhados.
+const simplify = (points: Position[]) => {
+    const unique = points.filter((p, i) => i === 0 || p.x !== points[i - 1].x || p.y !== points[i - 1].y);
+    return unique.filter((p, i) => {
+        if (i === 0 || i === unique.length - 1) return true;
+        const prev = unique[i - 1];
+        const next = unique[i + 1];
+        return !((prev.x === p.x && p.x === next.x) || (prev.y === p.y && p.y === next.y));
+    });
+};
+
+export const getStraightPath = (sourcePos: Position, targetPos: Position): RoutedPath => ({
+    path: toPathString([sourcePos, targetPos]),
+    labelPos: { x: (sourcePos.x + targetPos.x) / 2, y: (sourcePos.y + targetPos.y) / 2 },
+});
+
+const isInside = (box: Box, p: Position) =>
+    p.x > box.left && p.x < box.right && p.y > box.top && p.y < box.bottom;
+
+const segmentCrosses = (box: Box, a: Position, b: Position) => {
+    if (a.y === b.y) {
+        return a.y > box.top && a.y < box.bottom && Math.max(a.x, b.x) > box.left && Math.min(a.x, b.x) < box.right;
+    }
+    return a.x > box.left && a.x < box.right && Math.max(a.y, b.y) > box.top && Math.min(a.y, b.y) < box.bottom;
+};
+
+// Fila de prioridade mínima (heap binário) usada pelo A*.
+const createMinHeap = <T>() => {
+    const items: { priority: number; value: T }[] = [];
+
+    const push = (value: T, priority: number) => {
+        items.push({ priority, value });
+        let i = items.length - 1;
+        while (i > 0) {
+            const parent = (i - 1) >> 1;
+            if (items[parent].priority <= items[i].priority) break;
+            [items[parent], items[i]] = [items[i], items[parent]];
+            i = parent;
+        }
+    };
+
+    const pop = (): T | undefined => {
+        if (items.length === 0) return undefined;
+        const top = items[0];
+        const last = items.pop()!;
+        if (items.length > 0) {
+            items[0] = last;
+            let i = 0;
+            for (;;) {
+                const left = i * 2 + 1;
+                const right = left + 1;
+                let smallest = i;
+                if (left < items.length && items[left].priority < items[smallest].priority) smallest = left;
+                if (right < items.length && items[right].priority < items[smallest].priority) smallest = right;
+                if (smallest === i) break;
+                [items[smallest], items[i]] = [items[i], items[smallest]];
+                i = smallest;
+            }
+        }
+        return top.value;
+    };
+
+    return { push, pop, isEmpty: () => items.length === 0 };
+};
+
+// Caminho em "Z" usado quando a busca não encontra passagem entre os blocos.
+const getFallbackPoints = (start: Position, startDir: Position, end: Position): Position[] => {
+    if (startDir.x !== 0) {
+        const midX = (start.x + end.x) / 2;
+        return [start, { x: midX, y: start.y }, { x: midX, y: end.y }, end];
+    }
+    const midY = (start.y + end.y) / 2;
+    return [start, { x: start.x, y: midY }, { x: end.x, y: midY }, end];
+};
+
+const findOrthogonalRoute = (start: Position, startDirIndex: number, end: Position, endDirIndex: number, boxes: Box[]): Position[] | null => {
+    const unique = (values: number[]) => Array.from(new Set(values)).sort((a, b) => a - b);
+    const xs = unique([start.x, end.x, (start.x + end.x) / 2, ...boxes.flatMap(b => [b.left, b.right])]);
+    const ys = unique([start.y, end.y, (start.y + end.y) / 2, ...boxes.flatMap(b => [b.top, b.bottom])]);
+    const key = (xi: number, yi: number) => yi * xs.length + xi;
+
+    const blocked = new Set<number>();
+    xs.forEach((x, xi) => ys.forEach((y, yi) => {
+        if (boxes.some(b => isInside(b, { x, y }))) blocked.add(key(xi, yi));
+    }));
+
+    const startKey = key(xs.indexOf(start.x), ys.indexOf(start.y));
+    const endKey = key(xs.indexOf(end.x), ys.indexOf(end.y));
+    // A chegada ao destino é feita no sentido oposto ao da saída do ponto de conexão.
+    const arrivalDir = (endDirIndex + 2) % 4;
+    const heuristic = (xi: number, yi: number) => Math.abs(xs[xi] - end.x) + Math.abs(ys[yi] - end.y);
+
+    // Estado = ponto da grade + direção em que se chegou nele (para contar curvas).
+    const stateKey = (pointKey: number, dir: number) => pointKey * 4 + dir;
+    const cost = new Map<number, number>();
+    const previous = new Map<number, number>();
+    const heap = createMinHeap<number>();
+
+    const initial = stateKey(startKey, startDirIndex);
+    cost.set(initial, 0);
+    heap.push(initial, heuristic(xs.indexOf(start.x), ys.indexOf(start.y)));
+
+    while (!heap.isEmpty()) {
+        const state = heap.pop()!;
+        const pointKey = Math.floor(state / 4);
+        const dir = state % 4;
+        const currentCost = cost.get(state)!;
+        const xi = pointKey % xs.length;
+        const yi = Math.floor(pointKey / xs.length);
+
+        if (pointKey === endKey) {
+            const points: Position[] = [];
+            let cursor: number | undefined = state;
+            while (cursor !== undefined) {
+                const pk = Math.floor(cursor / 4);
+                points.unshift({ x: xs[pk % xs.length], y: ys[Math.floor(pk / xs.length)] });
+                cursor = previous.get(cursor);
+            }
+            return points;
+        }
+
+        directions.forEach((d, nextDir) => {
+            // Não volta pelo mesmo caminho.
+            if (nextDir === (dir + 2) % 4) return;
+            const nxi = xi + d.x;
+            const nyi = yi + d.y;
+            if (nxi < 0 || nyi < 0 || nxi >= xs.length || nyi >= ys.length) return;
+            const nextKey = key(nxi, nyi);
+            if (blocked.has(nextKey)) return;
+            const from = { x: xs[xi], y: ys[yi] };
+            const to = { x: xs[nxi], y: ys[nyi] };
+            if (boxes.some(b => segmentCrosses(b, from, to))) return;
+
+            let stepCost = Math.abs(to.x - from.x) + Math.abs(to.y - from.y);
+            if (nextDir !== dir) stepCost += BEND_PENALTY;
+            if (nextKey === endKey && nextDir !== arrivalDir) stepCost += BEND_PENALTY;
+            const next = stateKey(nextKey, nextDir);
+            const nextCost = currentCost + stepCost;
+            if (nextCost < (cost.get(next) ?? Infinity)) {
+                cost.set(next, nextCost);
+                previous.set(next, state);
+                heap.push(next, nextCost + heuristic(nxi, nyi));
+            }
+        });
+    }
+    return null;
+};
+
+export const getOrthogonalPath = (
+    sourcePos: Position,
+    sourceIndex: number,
+    targetPos: Position,
+    targetIndex: number,
+    obstacles: NodeData[] = []
+): RoutedPath => {
+    sourceIndex = normalizeIndex(sourceIndex);
+    targetIndex = normalizeIndex(targetIndex);
+    const sourceDir = directions[sourceIndex];
+    const targetDir = directions[targetIndex];
+    const start = { x: sourcePos.x + sourceDir.x * MARGIN, y: sourcePos.y + sourceDir.y * MARGIN };
+    const end = { x: targetPos.x + targetDir.x * MARGIN, y: targetPos.y + targetDir.y * MARGIN };
+
+    const area = {
+        left: Math.min(start.x, end.x) - SEARCH_PADDING,
+        top: Math.min(start.y, end.y) - SEARCH_PADDING,
+        right: Math.max(start.x, end.x) + SEARCH_PADDING,
+        bottom: Math.max(start.y, end.y) + SEARCH_PADDING,
+    };
+    const boxes: Box[] = obstacles
+        .map(node => {
+            const { width, height } = getNodeSize(node);
+            return {
+                left: node.position.x - MARGIN,
+                top: node.position.y - MARGIN,
+                right: node.position.x + width + MARGIN,
+                bottom: node.position.y + height + MARGIN,
+            };
+        })
+        .filter(box => box.right > area.left && box.left < area.right && box.bottom > area.top && box.top < area.bottom)
+        // Blocos que cobrem as extremidades (ex: blocos sobrepostos) impediriam qualquer caminho.
+        .filter(box => !isInside(box, start) && !isInside(box, end));
+
+    const route = findOrthogonalRoute(start, sourceIndex, end, targetIndex, boxes)
+        ?? getFallbackPoints(start, sourceDir, end);
+    const points = simplify([sourcePos, ...route, targetPos]);
+    return { path: toPathString(points), labelPos: getPolylineMidpoint(points) };
+};
+
+const distanceToSegment = (p: Position, a: Position, b: Position) => {
+    const lengthSq = (b.x - a.x) ** 2 + (b.y - a.y) ** 2;
+    const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x) * (b.x - a.x) + (p.y - a.y) * (b.y - a.y)) / lengthSq));
+    return Math.hypot(p.x - (a.x + (b.x - a.x) * t), p.y - (a.y + (b.y - a.y) * t));
+};
+
+// Posição em "waypoints" onde um novo ponto deve entrar: no trecho mais próximo dele.
+export const findWaypointInsertIndex = (sourcePos: Position, waypoints: Position[], targetPos: Position, point: Position) => {
+    const points = [sourcePos, ...waypoints, targetPos];
+    let bestIndex = 0;
+    let bestDistance = Infinity;
+    for (let i = 0; i < points.length - 1; i++) {
+        const distance = distanceToSegment(point, points[i], points[i + 1]);
+        if (distance < bestDistance) {
+            bestDistance = distance;
+            bestIndex = i;
+        }
+    }
+    return bestIndex;
+};
+
+// Segmentos em "L" entre pontos consecutivos. A direção inicial segue a saída da
+// origem e é mantida, de modo que cada ponto intermediário vira um canto da linha.
+const getElbowPoints = (points: Position[], horizontalFirst: boolean) =>
+    points.reduce<Position[]>((acc, p, i) => {
+        if (i === 0) return [p];
+        const prev = points[i - 1];
+        if (prev.x !== p.x && prev.y !== p.y) {
+            acc.push(horizontalFirst ? { x: p.x, y: prev.y } : { x: prev.x, y: p.y });
+        }
+        acc.push(p);
+        return acc;
+    }, []);
+
+// Curva suave (Catmull-Rom convertida em Bézier cúbica) que passa por todos os
+// pontos. Nas extremidades, a tangente segue a direção dos pontos de conexão.
+const getSmoothCurve = (points: Position[], sourceDir: Position, targetDir: Position) => {
+    const last = points.length - 1;
+    const tangents = points.map((p, i) => {
+        if (i === 0) {
+            const len = Math.hypot(points[1].x - p.x, points[1].y - p.y);
+            return { x: sourceDir.x * len, y: sourceDir.y * len };
+        }
+        if (i === last) {
+            const len = Math.hypot(p.x - points[i - 1].x, p.y - points[i - 1].y);
+            return { x: -targetDir.x * len, y: -targetDir.y * len };
+        }
+        return { x: (points[i + 1].x - points[i - 1].x) / 2, y: (points[i + 1].y - points[i - 1].y) / 2 };
+    });
+
+    const segments = points.slice(1).map((p, i) => ({
+        from: points[i],
+        c1: { x: points[i].x + tangents[i].x / 3, y: points[i].y + tangents[i].y / 3 },
+        c2: { x: p.x - tangents[i + 1].x / 3, y: p.y - tangents[i + 1].y / 3 },
+        to: p,
+    }));
+
+    const path = `M ${points[0].x} ${points[0].y} ` + segments
+        .map(({ c1, c2, to }) => `C ${c1.x} ${c1.y}, ${c2.x} ${c2.y}, ${to.x} ${to.y}`)
+        .join(' ');
+
+    // O rótulo fica na metade do comprimento, estimado por amostragem das curvas.
+    const SAMPLES = 16;
+    const sampled = [points[0], ...segments.flatMap(({ from, c1, c2, to }) =>
+        Array.from({ length: SAMPLES }, (_, k) => {
+            const t = (k + 1) / SAMPLES;
+            const mt = 1 - t;
+            return {
+                x: mt * mt * mt * from.x + 3 * mt * mt * t * c1.x + 3 * mt * t * t * c2.x + t * t * t * to.x,
+                y: mt * mt * mt * from.y + 3 * mt * mt * t * c1.y + 3 * mt * t * t * c2.y + t * t * t * to.y,
+            };
+        }))];
+    return { path, labelPos: getPolylineMidpoint(sampled) };
+};
+
+// Caminho que passa, em ordem, pelos pontos intermediários definidos pelo usuário.
+export const getWaypointPath = (
+    sourcePos: Position,
+    sourceIndex: number,
+    waypoints: Position[],
+    targetPos: Position,
+    targetIndex: number,
+    routing: EdgeRouting
+): RoutedPath => {
+    const sourceDir = directions[normalizeIndex(sourceIndex)];
+    const targetDir = directions[normalizeIndex(targetIndex)];
+    const points = [sourcePos, ...waypoints, targetPos];
+
+    if (routing === 'curved') return getSmoothCurve(points, sourceDir, targetDir);
+
+    const polyline = simplify(routing === 'orthogonal' ? getElbowPoints(points, sourceDir.x !== 0) : points);
+    return { path: toPathString(polyline), labelPos: getPolylineMidpoint(polyline) };
+};
+
+export const getConnectionPoints = (node: NodeData): Position[] => {
+    const { type, position } = node;
+    const { width, height } = node.width && node.height
+        ? { width: node.width, height: node.height }
+        : defaultDimensions[type];
+
+    // Índices: 0: Top, 1: Right, 2: Bottom, 3: Left
+    const points = getShapeConnectionPoints(type, width, height);
+
+    return points.map(p => ({ x: p.x + position.x, y: p.y + position.y }));
+};
+
+export const getClosestConnection = (sourceNode: NodeData, targetNode: NodeData) => {
+    const sourcePoints = getConnectionPoints(sourceNode);
+    const targetPoints = getConnectionPoints(targetNode);
+
+    let minDistance = Infinity;
+    let closestPair = {
+        source: sourcePoints[0],
+        target: targetPoints[0],
+        sourceIndex: 0,
+        targetIndex: 0,
+    };
+
+    sourcePoints.forEach((sp, si) => {
+        targetPoints.forEach((tp, ti) => {
+            if (sourceNode.id === targetNode.id) return;
+
+            const dx = sp.x - tp.x;
+            const dy = sp.y - tp.y;
+            const distance = Math.sqrt(dx * dx + dy * dy);
+
+            if (distance < minDistance) {
+                minDistance = distance;
+                closestPair = { source: sp, target: tp, sourceIndex: si, targetIndex: ti };
+            }
+        });
+    });
+    return closestPair;
+};
+
+export const getCurvePath = (sourcePos: Position, sourceIndex: number, targetPos: Position, targetIndex: number) => {
+    const { x: sx, y: sy } = sourcePos;
+    const { x: tx, y: ty } = targetPos;
+
+    const dx = tx - sx;
+    const dy = ty - sy;
+    const dist = Math.sqrt(dx*dx + dy*dy);
+
+    // Aumenta a curvatura baseada na distância para evitar linhas muito retas e coladas
+    const offset = Math.min(150, Math.max(50, dist * 0.5));
+
+    let c1x = sx, c1y = sy;
+    let c2x = tx, c2y = ty;
+
+    // Helper para determinar a direção do vetor de controle baseado no índice do ponto
+    // Índices: 0: Top, 1: Right, 2: Bottom, 3: Left
+    const getControlDirection = (index: number) => {
+        if (index === 0) return { x: 0, y: -1 }; // Sai para cima
+        if (index === 1) return { x: 1, y: 0 };  // Sai para direita
+        if (index === 2) return { x: 0, y: 1 };  // Sai para baixo
+        if (index === 3) return { x: -1, y: 0 }; // Sai para esquerda
+        return { x: 0, y: 0 };
+    };
+
+    if (sourceIndex >= 0 && sourceIndex <= 3) {
+        const dir = getControlDirection(sourceIndex);
+        c1x = sx + dir.x * offset;
+        c1y = sy + dir.y * offset;
+    } else {
+        // Fallback dinâmico para preview line (arrastando mouse)
+        if (Math.abs(dx) > Math.abs(dy)) {
+             c1x = sx + (dx > 0 ? offset : -offset);
+        } else {
+             c1y = sy + (dy > 0 ? offset : -offset);
+        }
+    }
+
+    if (targetIndex >= 0 && targetIndex <= 3) {
+        const dir = getControlDirection(targetIndex);
+        c2x = tx + dir.x * offset;
+        c2y = ty + dir.y * offset;
+    } else {
+        // Fallback dinâmico para preview line
+        if (Math.abs(dx) > Math.abs(dy)) {
+            c2x = tx + (dx > 0 ? -offset : offset);
+        } else {
+            c2y = ty + (dy > 0 ? -offset : offset);
+        }
+    }
+
+    const path = `M ${sx} ${sy} C ${c1x} ${c1y}, ${c2x} ${c2y}, ${tx} ${ty}`;
+
+    // Ponto médio da curva de Bezier Cúbica para o rótulo
+    const t = 0.5;
+    const mt = 1 - t;
+    const midX = mt*mt*mt*sx + 3*mt*mt*t*c1x + 3*mt*t*t*c2x + t*t*t*tx;
+    const midY = mt*mt*mt*sy + 3*mt*mt*t*c1y + 3*mt*t*t*c2y + t*t*t*ty;
+
+    return { path, labelPos: { x: midX, y: midY } };
+};
+
+// Resolve os pontos de conexão de uma aresta (automáticos ou fixados pelo usuário) e o caminho resultante.
+// No traçado ortogonal, "nodes" são os blocos a contornar.
+export const getEdgeGeometry = (
+    edge: EdgeData,
+    sourceNode: NodeData,
+    targetNode: NodeData,
+    autoConnect: boolean,
+    defaultRouting: EdgeRouting = 'curved',
+    nodes: NodeData[] = []
+) => {
+    let sourcePos: Position, targetPos: Position, sourceIndex: number, targetIndex: number;
+
+    // Se autoConnect for true E não houver handles definidos explicitamente (legado ou reset)
+    const useAutoConnect = autoConnect && (edge.sourceHandle === undefined || edge.targetHandle === undefined);
+
+    if (useAutoConnect) {
+        const closest = getClosestConnection(sourceNode, targetNode);
+        sourcePos = closest.source;
+        targetPos = closest.target;
+        sourceIndex = closest.sourceIndex;
+        targetIndex = closest.targetIndex;
+    } else {
+        const sourcePoints = getConnectionPoints(sourceNode);
+        const targetPoints = getConnectionPoints(targetNode);
+
+        sourceIndex = edge.sourceHandle ?? 0; // Default to Top if undefined but autoconnect is off
+        targetIndex = edge.targetHandle ?? 0;
+
+        // Fallback de segurança se o índice salvo for inválido para o tipo atual
+        if (sourceIndex >= sourcePoints.length) sourceIndex = 0;
+        if (targetIndex >= targetPoints.length) targetIndex = 0;
+
+        sourcePos = sourcePoints[sourceIndex];
+        targetPos = targetPoints[targetIndex];
+    }
+
+    const routing = edge.routing ?? defaultRouting;
+    const { path, labelPos } = edge.waypoints && edge.waypoints.length > 0
+        ? getWaypointPath(sourcePos, sourceIndex, edge.waypoints, targetPos, targetIndex, routing)
+        : routing === 'straight'
+            ? getStraightPath(sourcePos, targetPos)
+            : routing === 'orthogonal'
+                ? getOrthogonalPath(sourcePos, sourceIndex, targetPos, targetIndex, nodes)
+                : getCurvePath(sourcePos, sourceIndex, targetPos, targetIndex);
+    return { sourcePos, targetPos, sourceIndex, targetIndex, routing, path, labelPos };
+};
+
+// Folga que garante que a conexão inteira fique dentro do retângulo estimado: as
+// curvas de Bézier se afastam no máximo 150px das pontas (ver getCurvePath) e o
+// traçado ortogonal só contorna blocos a até SEARCH_PADDING delas.
+const EDGE_BOUNDS_MARGIN = SEARCH_PADDING + MARGIN;
+
+// Retângulo que contém a conexão, calculado sem traçá-la. É usado pelo índice
+// espacial do canvas, que precisa dos limites de todas as conexões a cada quadro.
+export const getEdgeBoundsEstimate = (sourceNode: NodeData, targetNode: NodeData, waypoints: Position[] = []): Rect => {
+    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+    const include = (x: number, y: number) => {
+        minX = Math.min(minX, x); minY = Math.min(minY, y);
+        maxX = Math.max(maxX, x); maxY = Math.max(maxY, y);
+    };
+    [sourceNode, targetNode].forEach(node => {
+        const { width, height } = getNodeSize(node);
+        include(node.position.x, node.position.y);
+        include(node.position.x + width, node.position.y + height);
+    });
+    waypoints.forEach(point => include(point.x, point.y));
+    return {
+        x: minX - EDGE_BOUNDS_MARGIN,
+        y: minY - EDGE_BOUNDS_MARGIN,
+        width: maxX - minX + EDGE_BOUNDS_MARGIN * 2,
+        height: maxY - minY + EDGE_BOUNDS_MARGIN * 2,
+    };
+};
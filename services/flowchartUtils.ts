@@ -0,0 +1,237 @@
+import { NodeData, NodeType, EdgeData, AnnotationData, FlowchartData, SwimlaneData, LaneData, GroupData, CommentThread, CommentMessage, CommentTarget } from '../types';
+
+export const defaultDimensions: Record<NodeType, { width: number; height: number }> = {
+    start: { width: 150, height: 60 },
+    end: { width: 150, height: 60 },
+    process: { width: 150, height: 70 },
+    decision: { width: 160, height: 100 },
+    subprocess: { width: 170, height: 70 },
+    inputOutput: { width: 170, height: 70 },
+    document: { width: 150, height: 80 },
+    database: { width: 140, height: 90 },
+    manualInput: { width: 150, height: 70 },
+    delay: { width: 150, height: 70 },
+    offPage: { width: 130, height: 90 },
+    preparation: { width: 170, height: 70 },
+};
+
+export const nodeTypes = Object.keys(defaultDimensions) as NodeType[];
+
+export const getNodeSize = (node: NodeData) => ({
+    width: node.width ?? defaultDimensions[node.type].width,
+    height: node.height ?? defaultDimensions[node.type].height,
+});
+
+export const sanitizeFlowchartData = (data: any): FlowchartData => {
+    if (!data || typeof data !== 'object') {
+        throw new Error('Formato de arquivo inválido.');
+    }
+
+    const seenSwimlaneIds = new Set<string>();
+    const seenLaneIds = new Set<string>();
+    const sanitizedSwimlanes = (Array.isArray(data.swimlanes) ? data.swimlanes : [])
+        .map((s: any) => {
+            if (!s || typeof s.id !== 'string' || !s.id.trim()) return null;
+            if (seenSwimlaneIds.has(s.id)) return null;
+
+            const position = s.position || {};
+            const x = parseFloat(position.x);
+            const y = parseFloat(position.y);
+            const length = parseFloat(s.length);
+            if (!isFinite(x) || !isFinite(y) || !isFinite(length) || length <= 0) return null;
+
+            const lanes = (Array.isArray(s.lanes) ? s.lanes : [])
+                .map((l: any) => {
+                    if (!l || typeof l.id !== 'string' || !l.id.trim()) return null;
+                    if (seenLaneIds.has(l.id)) return null;
+                    const size = parseFloat(l.size);
+                    if (!isFinite(size) || size <= 0) return null;
+
+                    seenLaneIds.add(l.id);
+                    return {
+                        id: l.id,
+                        title: typeof l.title === 'string' ? l.title : 'Raia',
+                        size,
+                    };
+                })
+                .filter((l): l is LaneData => l !== null);
+            if (lanes.length === 0) return null;
+
+            seenSwimlaneIds.add(s.id);
+
+            return {
+                id: s.id,
+                title: typeof s.title === 'string' ? s.title : 'Processo',
+                orientation: s.orientation === 'vertical' ? 'vertical' : 'horizontal',
+                position: { x, y },
+                length,
+                lanes,
+            };
+        })
+        .filter((s): s is SwimlaneData => s !== null);
+
+    const seenNodeIds = new Set<string>();
+    const sanitizedNodes = (Array.isArray(data.nodes) ? data.nodes : [])
+        .map((n: any) => {
+            if (!n || typeof n.id !== 'string' || !n.id.trim()) return null;
+            if (seenNodeIds.has(n.id)) return null; 
+            
+            seenNodeIds.add(n.id);
+            
+            const position = n.position || {};
+            const x = parseFloat(position.x);
+            const y = parseFloat(position.y);
+            if (!isFinite(x) || !isFinite(y)) return null;
+
+            const width = n.width !== undefined ? parseFloat(n.width) : undefined;
+            const height = n.height !== undefined ? parseFloat(n.height) : undefined;
+            if ((width !== undefined && !isFinite(width)) || (height !== undefined && !isFinite(height))) return null;
+
+            return {
+                id: n.id,
+                type: nodeTypes.includes(n.type) ? n.type : 'process',
+                text: typeof n.text === 'string' ? n.text : 'Node',
+                position: { x, y },
+                width: width,
+                height: height,
+                color: typeof n.color === 'string' ? n.color : undefined,
+                laneId: typeof n.laneId === 'string' && seenLaneIds.has(n.laneId) ? n.laneId : undefined,
+                linkedProjectId: n.type === 'subprocess' && typeof n.linkedProjectId === 'string' ? n.linkedProjectId : undefined,
+            };
+        })
+        .filter((n): n is NodeData => n !== null);
+
+    const validNodeIds = new Set(sanitizedNodes.map(n => n.id));
+    const seenEdgeIds = new Set<string>();
+    const sanitizedEdges = (Array.isArray(data.edges) ? data.edges : [])
+        .map((e: any) => {
+            if (!e || typeof e.id !== 'string' || !e.id.trim()) return null;
+            if (seenEdgeIds.has(e.id)) return null;
+
+            if (typeof e.source !== 'string' || !e.source.trim() || typeof e.target !== 'string' || !e.target.trim()) return null;
+            if (!validNodeIds.has(e.source) || !validNodeIds.has(e.target)) return null;
+            
+            seenEdgeIds.add(e.id);
+            
+            const sourceHandle = e.sourceHandle !== undefined ? parseInt(e.sourceHandle, 10) : undefined;
+            const targetHandle = e.targetHandle !== undefined ? parseInt(e.targetHandle, 10) : undefined;
+            if ((sourceHandle !== undefined && !isFinite(sourceHandle)) || (targetHandle !== undefined && !isFinite(targetHandle))) return null;
+
+            const waypoints = Array.isArray(e.waypoints)
+                ? e.waypoints
+                    .filter((p: any) => p && typeof p.x === 'number' && isFinite(p.x) && typeof p.y === 'number' && isFinite(p.y))
+                    .map((p: any) => ({ x: p.x, y: p.y }))
+                : [];
+
+            return {
+                id: e.id,
+                source: e.source,
+                target: e.target,
+                label: typeof e.label === 'string' ? e.label : undefined,
+                sourceHandle: sourceHandle,
+                targetHandle: targetHandle,
+                routing: ['curved', 'straight', 'orthogonal'].includes(e.routing) ? e.routing : undefined,
+                waypoints: waypoints.length > 0 ? waypoints : undefined,
+            };
+        })
+        .filter((e): e is EdgeData => e !== null);
+        
+    const seenAnnotationIds = new Set<string>();
+    const sanitizedAnnotations = (Array.isArray(data.annotations) ? data.annotations : [])
+        .map((a: any) => {
+            if (!a || typeof a.id !== 'string' || !a.id.trim()) return null;
+            if (seenAnnotationIds.has(a.id)) return null;
+
+            seenAnnotationIds.add(a.id);
+            
+            const position = a.position || {};
+            const x = parseFloat(position.x);
+            const y = parseFloat(position.y);
+            if (!isFinite(x) || !isFinite(y)) return null;
+
+            const width = a.width !== undefined ? parseFloat(a.width) : undefined;
+            const height = a.height !== undefined ? parseFloat(a.height) : undefined;
+            if ((width !== undefined && !isFinite(width)) || (height !== undefined && !isFinite(height))) return null;
+
+            return {
+                id: a.id,
+                text: typeof a.text === 'string' ? a.text : 'Anotação',
+                position: { x, y },
+                width: width,
+                height: height,
+            };
+        })
+        .filter((a): a is AnnotationData => a !== null);
+
+    // Cada bloco ou anotação pertence a no máximo um grupo; grupos sem membros são descartados.
+    const validAnnotationIds = new Set(sanitizedAnnotations.map(a => a.id));
+    const seenGroupIds = new Set<string>();
+    const groupedIds = new Set<string>();
+    const pickMembers = (ids: any, validIds: Set<unknown>): string[] =>
+        (Array.isArray(ids) ? ids : []).filter((id: any) => {
+            if (typeof id !== 'string' || !validIds.has(id) || groupedIds.has(id)) return false;
+            groupedIds.add(id);
+            return true;
+        });
+    const sanitizedGroups = (Array.isArray(data.groups) ? data.groups : [])
+        .map((g: any) => {
+            if (!g || typeof g.id !== 'string' || !g.id.trim()) return null;
+            if (seenGroupIds.has(g.id)) return null;
+
+            const nodeIds = pickMembers(g.nodeIds, validNodeIds);
+            const annotationIds = pickMembers(g.annotationIds, validAnnotationIds);
+            if (nodeIds.length === 0) return null;
+
+            seenGroupIds.add(g.id);
+
+            return {
+                id: g.id,
+                title: typeof g.title === 'string' ? g.title : 'Grupo',
+                nodeIds,
+                annotationIds,
+                collapsed: g.collapsed === true ? true : undefined,
+            };
+        })
+        .filter((g): g is GroupData => g !== null);
+
+    // Conversas de itens que não existem mais são mantidas, como no aplicativo.
+    const seenThreadIds = new Set<string>();
+    const sanitizedComments = (Array.isArray(data.comments) ? data.comments : [])
+        .map((t: any) => {
+            if (!t || typeof t.id !== 'string' || !t.id.trim()) return null;
+            if (seenThreadIds.has(t.id)) return null;
+
+            const target = t.target || {};
+            let sanitizedTarget: CommentTarget | null = null;
+            if ((target.kind === 'node' || target.kind === 'edge') && typeof target.id === 'string') {
+                sanitizedTarget = { kind: target.kind, id: target.id };
+            } else if (target.kind === 'point') {
+                const x = parseFloat(target.position?.x);
+                const y = parseFloat(target.position?.y);
+                if (isFinite(x) && isFinite(y)) sanitizedTarget = { kind: 'point', position: { x, y } };
+            }
+            if (!sanitizedTarget) return null;
+
+            const messages = (Array.isArray(t.messages) ? t.messages : [])
+                .filter((m: any) => m && typeof m.id === 'string' && typeof m.text === 'string')
+                .map((m: any) => ({
+                    id: m.id,
+                    author: typeof m.author === 'string' ? m.author : 'Anônimo',
+                    text: m.text,
+                    createdAt: typeof m.createdAt === 'number' && isFinite(m.createdAt) ? m.createdAt : 0,
+                }));
+            if (messages.length === 0) return null;
+
+            seenThreadIds.add(t.id);
+
+            return {
+                id: t.id,
+                target: sanitizedTarget,
+                messages: messages as CommentMessage[],
+                resolved: t.resolved === true ? true : undefined,
+            };
+        })
+        .filter((t): t is CommentThread => t !== null);
+
+    return { nodes: sanitizedNodes, edges: sanitizedEdges, annotations: sanitizedAnnotations, swimlanes: sanitizedSwimlanes, groups: sanitizedGroups, comments: sanitizedComments };
+};
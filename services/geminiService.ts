@@ -1,7 +1,22 @@
 import { GoogleGenAI, Type } from "@google/genai";
-import { FlowchartData, NodeData, EdgeData } from '../types';
+import { FlowchartData, NodeType } from '../types';
+import { sanitizeFlowchartData } from './flowchartUtils';
+import { layoutFlowchart } from './layoutService';
+import { localFlowchartProvider } from './localFlowchartProvider';
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+// Estrutura "crua" devolvida por um provedor: apenas a topologia, sem posições.
+// As posições são calculadas pelo layout automático depois da sanitização.
+export interface GeneratedFlowchart {
+    nodes: { id: string; type: NodeType; text: string }[];
+    edges: { id?: string; source: string; target: string; label?: string }[];
+}
+
+export interface FlowchartProvider {
+    name: string;
+    generate: (prompt: string) => Promise<GeneratedFlowchart>;
+}
+
+const MODEL_NAME = 'gemini-2.5-flash';
 
 const flowchartSchema = {
     type: Type.OBJECT,
@@ -18,4 +33,103 @@ const flowchartSchema = {
                     },
                     type: {
                         type: Type.STRING,
-                        description:
\ No newline at end of file
+                        description: "O tipo do bloco: 'start' para o início, 'process' para uma ação, 'decision' para uma pergunta com ramificações, 'inputOutput' para leitura ou exibição de dados, 'document' para um documento ou relatório, 'database' para um armazenamento de dados e 'end' para o fim.",
+                        enum: ['start', 'process', 'decision', 'inputOutput', 'document', 'database', 'end'],
+                    },
+                    text: {
+                        type: Type.STRING,
+                        description: "O texto curto exibido dentro do bloco, em português.",
+                    },
+                },
+                required: ['id', 'type', 'text'],
+            },
+        },
+        edges: {
+            type: Type.ARRAY,
+            description: "Uma lista de todas as conexões (setas) entre os blocos.",
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    source: {
+                        type: Type.STRING,
+                        description: "O id do nó de origem da seta.",
+                    },
+                    target: {
+                        type: Type.STRING,
+                        description: "O id do nó de destino da seta.",
+                    },
+                    label: {
+                        type: Type.STRING,
+                        description: "Rótulo opcional da seta. Saídas de blocos de decisão devem usar 'Sim' ou 'Não'.",
+                    },
+                },
+                required: ['source', 'target'],
+            },
+        },
+    },
+    required: ['nodes', 'edges'],
+};
+
+const systemInstruction = `Você é um especialista em modelagem de processos. Converta a descrição do usuário em um fluxograma.
+Use exatamente um bloco 'start' e pelo menos um bloco 'end'. Cada bloco 'decision' deve ter duas saídas rotuladas 'Sim' e 'Não'.
+Mantenha os textos curtos e objetivos.`;
+
+export const createGeminiProvider = (apiKey: string): FlowchartProvider => {
+    const ai = new GoogleGenAI({ apiKey });
+    return {
+        name: 'Gemini',
+        generate: async (prompt: string) => {
+            const response = await ai.models.generateContent({
+                model: MODEL_NAME,
+                contents: prompt,
+                config: {
+                    systemInstruction,
+                    responseMimeType: 'application/json',
+                    responseSchema: flowchartSchema,
+                },
+            });
+            const text = response.text;
+            if (!text) {
+                throw new Error('A IA não retornou nenhum conteúdo.');
+            }
+            try {
+                return JSON.parse(text) as GeneratedFlowchart;
+            } catch {
+                throw new Error('A resposta da IA não é um JSON válido.');
+            }
+        },
+    };
+};
+
+// Sem chave de API configurada, usa o provedor local (determinístico e offline).
+export const getDefaultProvider = (): FlowchartProvider => {
+    const apiKey = process.env.API_KEY;
+    return apiKey ? createGeminiProvider(apiKey) : localFlowchartProvider;
+};
+
+export const generateFlowchart = async (prompt: string, provider: FlowchartProvider = getDefaultProvider()): Promise<FlowchartData> => {
+    if (!prompt.trim()) {
+        throw new Error('Descreva o processo antes de gerar o fluxograma.');
+    }
+
+    let generated: GeneratedFlowchart;
+    try {
+        generated = await provider.generate(prompt);
+    } catch (error) {
+        throw new Error(`Falha ao gerar fluxograma (${provider.name}): ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const rawData = {
+        nodes: (Array.isArray(generated?.nodes) ? generated.nodes : []).map(n => ({ ...n, position: { x: 0, y: 0 } })),
+        edges: (Array.isArray(generated?.edges) ? generated.edges : []).map((e, i) => ({
+            ...e,
+            id: typeof e?.id === 'string' && e.id.trim() ? e.id : `e-${e?.source}-${e?.target}-${i}`,
+        })),
+    };
+
+    const sanitizedData = sanitizeFlowchartData(rawData);
+    if (sanitizedData.nodes.length === 0) {
+        throw new Error('O fluxograma gerado está vazio.');
+    }
+    return layoutFlowchart(sanitizedData);
+};
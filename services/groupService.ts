@@ -0,0 +1,160 @@
+import { AnnotationData, EdgeData, GroupData, NodeData, Position } from '../types';
+import { getNodeSize } from './flowchartUtils';
+import { Rect } from './swimlaneService';
+
+// Grupos de blocos e anotações. O quadro de um grupo não é guardado: ele envolve
+// os membros com uma margem e uma faixa para o título. Recolhido, o grupo vira um
+// bloco provisório com o id do próprio grupo, e as conexões que entram ou saem dos
+// membros passam a apontar para ele.
+
+export const GROUP_PADDING = 24;
+export const GROUP_HEADER_SIZE = 32;
+export const COLLAPSED_GROUP_SIZE = { width: 180, height: 70 };
+
+export const ANNOTATION_DEFAULT = { width: 100, height: 80 };
+
+export const getGroupBounds = (group: GroupData, nodes: NodeData[], annotations: AnnotationData[]): Rect | null => {
+    const memberNodeIds = new Set(group.nodeIds);
+    const memberAnnotationIds = new Set(group.annotationIds);
+    const boxes = [
+        ...nodes.filter(n => memberNodeIds.has(n.id)).map(n => ({ position: n.position, ...getNodeSize(n) })),
+        ...annotations.filter(a => memberAnnotationIds.has(a.id)).map(a => ({
+            position: a.position,
+            width: a.width ?? ANNOTATION_DEFAULT.width,
+            height: a.height ?? ANNOTATION_DEFAULT.height,
+        })),
+    ];
+    if (boxes.length === 0) return null;
+
+    const minX = Math.min(...boxes.map(b => b.position.x));
+    const minY = Math.min(...boxes.map(b => b.position.y));
+    const maxX = Math.max(...boxes.map(b => b.position.x + b.width));
+    const maxY = Math.max(...boxes.map(b => b.position.y + b.height));
+    return {
+        x: minX - GROUP_PADDING,
+        y: minY - GROUP_PADDING - GROUP_HEADER_SIZE,
+        width: maxX - minX + GROUP_PADDING * 2,
+        height: maxY - minY + GROUP_PADDING * 2 + GROUP_HEADER_SIZE,
+    };
+};
+
+// Bloco que representa o grupo recolhido, centralizado no quadro do grupo.
+export const getCollapsedPlaceholder = (group: GroupData, nodes: NodeData[], annotations: AnnotationData[]): NodeData | null => {
+    const bounds = getGroupBounds(group, nodes, annotations);
+    if (!bounds) return null;
+    return {
+        id: group.id,
+        type: 'process',
+        text: group.title,
+        position: {
+            x: bounds.x + (bounds.width - COLLAPSED_GROUP_SIZE.width) / 2,
+            y: bounds.y + (bounds.height - COLLAPSED_GROUP_SIZE.height) / 2,
+        },
+        width: COLLAPSED_GROUP_SIZE.width,
+        height: COLLAPSED_GROUP_SIZE.height,
+    };
+};
+
+// Área desenhada do grupo: o quadro ou, se recolhido, o bloco provisório.
+export const getGroupDisplayRect = (group: GroupData, nodes: NodeData[], annotations: AnnotationData[]): Rect | null => {
+    if (!group.collapsed) return getGroupBounds(group, nodes, annotations);
+    const placeholder = getCollapsedPlaceholder(group, nodes, annotations);
+    return placeholder ? { ...placeholder.position, ...COLLAPSED_GROUP_SIZE } : null;
+};
+
+// Cria um grupo com os itens informados, retirando-os de qualquer outro grupo.
+export const addGroup = (groups: GroupData[], nodeIds: string[], annotationIds: string[]): { groups: GroupData[]; group: GroupData } => {
+    const group: GroupData = { id: `group-${Date.now()}`, title: 'Grupo', nodeIds, annotationIds };
+    const taken = new Set([...nodeIds, ...annotationIds]);
+    const remaining = groups
+        .map(g => ({ ...g, nodeIds: g.nodeIds.filter(id => !taken.has(id)), annotationIds: g.annotationIds.filter(id => !taken.has(id)) }))
+        .filter(g => g.nodeIds.length > 0);
+    return { groups: [...remaining, group], group };
+};
+
+// Remove dos grupos os itens que não existem mais e descarta grupos sem blocos.
+export const pruneGroups = (groups: GroupData[], nodes: NodeData[], annotations: AnnotationData[]): GroupData[] => {
+    const nodeIds = new Set(nodes.map(n => n.id));
+    const annotationIds = new Set(annotations.map(a => a.id));
+    const changed = groups.some(g => g.nodeIds.some(id => !nodeIds.has(id)) || g.annotationIds.some(id => !annotationIds.has(id)));
+    if (!changed) return groups;
+    return groups
+        .map(g => ({ ...g, nodeIds: g.nodeIds.filter(id => nodeIds.has(id)), annotationIds: g.annotationIds.filter(id => annotationIds.has(id)) }))
+        .filter(g => g.nodeIds.length > 0);
+};
+
+// Move o grupo para que o quadro (ou o bloco provisório, se recolhido) comece em
+// "position", levando os membros e os pontos intermediários das conexões internas.
+export const moveGroup = (
+    groups: GroupData[],
+    nodes: NodeData[],
+    annotations: AnnotationData[],
+    edges: EdgeData[],
+    groupId: string,
+    position: Position
+) => {
+    const group = groups.find(g => g.id === groupId);
+    const rect = group ? getGroupDisplayRect(group, nodes, annotations) : null;
+    if (!group || !rect) return { nodes, annotations, edges };
+    const dx = position.x - rect.x;
+    const dy = position.y - rect.y;
+    if (dx === 0 && dy === 0) return { nodes, annotations, edges };
+
+    const shift = (p: Position): Position => ({ x: p.x + dx, y: p.y + dy });
+    const nodeIds = new Set(group.nodeIds);
+    const annotationIds = new Set(group.annotationIds);
+    return {
+        nodes: nodes.map(n => nodeIds.has(n.id) ? { ...n, position: shift(n.position) } : n),
+        annotations: annotations.map(a => annotationIds.has(a.id) ? { ...a, position: shift(a.position) } : a),
+        edges: edges.map(e => e.waypoints && nodeIds.has(e.source) && nodeIds.has(e.target)
+            ? { ...e, waypoints: e.waypoints.map(shift) }
+            : e),
+    };
+};
+
+// O que fica visível com os grupos recolhidos: os membros somem, cada grupo
+// recolhido ganha um bloco provisório (devolvido à parte de "nodes", pois não é
+// editável) e as conexões são redirecionadas para ele. Conexões entre membros do
+// mesmo grupo recolhido ficam ocultas.
+export const applyCollapsedGroups = (nodes: NodeData[], edges: EdgeData[], annotations: AnnotationData[], groups: GroupData[]) => {
+    const collapsed = groups.filter(g => g.collapsed);
+    if (collapsed.length === 0) {
+        return { nodes, edges, annotations, placeholders: [] as NodeData[], hiddenNodeIds: new Set<string>() };
+    }
+
+    const owner = new Map<string, string>();
+    const hiddenAnnotationIds = new Set<string>();
+    const placeholders: NodeData[] = [];
+    collapsed.forEach(group => {
+        const placeholder = getCollapsedPlaceholder(group, nodes, annotations);
+        if (!placeholder) return;
+        placeholders.push(placeholder);
+        group.nodeIds.forEach(id => owner.set(id, group.id));
+        group.annotationIds.forEach(id => hiddenAnnotationIds.add(id));
+    });
+
+    const visibleEdges = edges
+        .filter(e => !(owner.has(e.source) && owner.get(e.source) === owner.get(e.target)))
+        .map(e => {
+            const source = owner.get(e.source);
+            const target = owner.get(e.target);
+            if (!source && !target) return e;
+            // Pontos de conexão fixos e pontos intermediários não valem para o bloco provisório.
+            return {
+                ...e,
+                source: source ?? e.source,
+                target: target ?? e.target,
+                sourceHandle: source ? undefined : e.sourceHandle,
+                targetHandle: target ? undefined : e.targetHandle,
+                waypoints: undefined,
+            };
+        });
+
+    return {
+        nodes: nodes.filter(n => !owner.has(n.id)),
+        edges: visibleEdges,
+        annotations: annotations.filter(a => !hiddenAnnotationIds.has(a.id)),
+        placeholders,
+        hiddenNodeIds: new Set(owner.keys()),
+    };
+};
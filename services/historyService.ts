@@ -0,0 +1,267 @@
+import { HistoryEntry, HistoryState } from '../types';
+
+// Histórico de desfazer/refazer. Em memória cada passo guarda o estado completo,
+// mas como o estado é imutável os itens que não mudaram são os mesmos objetos do
+// passo anterior. Para o armazenamento, cada passo é reduzido aos itens que mudaram
+// em relação ao anterior, e a expansão volta a compartilhar os demais.
+
+export const DEFAULT_HISTORY_LIMIT = 100;
+export const historyLimitOptions = [25, 50, 100, 200, 500];
+
+const collections = ['nodes', 'edges', 'annotations', 'swimlanes', 'groups'] as const;
+type Collection = typeof collections[number];
+type Item = { id: string };
+
+const emptyState: HistoryState = { nodes: [], edges: [], annotations: [], swimlanes: [], groups: [] };
+
+export const createHistoryEntry = (state: HistoryState, description: string, timestamp = Date.now()): HistoryEntry => ({
+    state,
+    description,
+    timestamp,
+});
+
+// --- Descrição das alterações ---
+
+const pluralize = (count: number, singular: string, plural: (count: number) => string) =>
+    count === 1 ? singular : plural(count);
+
+const changedKeys = (before: object, after: object): Set<string> => {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    return new Set(Array.from(keys).filter(key =>
+        JSON.stringify((before as any)[key]) !== JSON.stringify((after as any)[key])));
+};
+
+// Itens incluídos, removidos e alterados (com as propriedades que mudaram).
+export const diffItems = <T extends Item>(before: T[], after: T[]) => {
+    const beforeById = new Map(before.map(item => [item.id, item]));
+    const afterIds = new Set(after.map(item => item.id));
+    const changed: { before: T; after: T; keys: Set<string> }[] = [];
+    after.forEach(item => {
+        const previous = beforeById.get(item.id);
+        if (!previous || previous === item) return;
+        const keys = changedKeys(previous, item);
+        if (keys.size > 0) changed.push({ before: previous, after: item, keys });
+    });
+    return {
+        added: after.filter(item => !beforeById.has(item.id)),
+        removed: before.filter(item => !afterIds.has(item.id)),
+        changed,
+    };
+};
+
+// Conta as alterações por categoria, na ordem em que as categorias aparecem.
+const countBy = <T>(items: T[], classify: (item: T) => string) => {
+    const counts = new Map<string, number>();
+    items.forEach(item => {
+        const category = classify(item);
+        counts.set(category, (counts.get(category) ?? 0) + 1);
+    });
+    return counts;
+};
+
+const has = (keys: Set<string>, ...names: string[]) => names.some(name => keys.has(name));
+
+const nodePhrases: Record<string, [string, (n: number) => string]> = {
+    added: ['Adicionou bloco', n => `Adicionou ${n} blocos`],
+    removed: ['Excluiu bloco', n => `Excluiu ${n} blocos`],
+    text: ['Editou o texto do bloco', n => `Editou o texto de ${n} blocos`],
+    type: ['Alterou a forma do bloco', n => `Alterou a forma de ${n} blocos`],
+    color: ['Alterou a cor do bloco', n => `Alterou a cor de ${n} blocos`],
+    link: ['Vinculou subprocesso', n => `Vinculou ${n} subprocessos`],
+    size: ['Redimensionou bloco', n => `Redimensionou ${n} blocos`],
+    move: ['Moveu bloco', n => `Moveu ${n} blocos`],
+    other: ['Alterou bloco', n => `Alterou ${n} blocos`],
+};
+
+const edgePhrases: Record<string, [string, (n: number) => string]> = {
+    added: ['Adicionou conexão', n => `Adicionou ${n} conexões`],
+    removed: ['Excluiu conexão', n => `Excluiu ${n} conexões`],
+    label: ['Editou o rótulo da conexão', n => `Editou o rótulo de ${n} conexões`],
+    reconnect: ['Reconectou conexão', n => `Reconectou ${n} conexões`],
+    route: ['Alterou o traçado da conexão', n => `Alterou o traçado de ${n} conexões`],
+};
+
+const annotationPhrases: Record<string, [string, (n: number) => string]> = {
+    added: ['Adicionou anotação', n => `Adicionou ${n} anotações`],
+    removed: ['Excluiu anotação', n => `Excluiu ${n} anotações`],
+    text: ['Editou anotação', n => `Editou ${n} anotações`],
+    size: ['Redimensionou anotação', n => `Redimensionou ${n} anotações`],
+    move: ['Moveu anotação', n => `Moveu ${n} anotações`],
+};
+
+const swimlanePhrases: Record<string, [string, (n: number) => string]> = {
+    added: ['Adicionou piscina', n => `Adicionou ${n} piscinas`],
+    removed: ['Excluiu piscina', n => `Excluiu ${n} piscinas`],
+    move: ['Moveu piscina', n => `Moveu ${n} piscinas`],
+    other: ['Alterou piscina', n => `Alterou ${n} piscinas`],
+};
+
+const groupPhrases: Record<string, [string, (n: number) => string]> = {
+    added: ['Criou grupo', n => `Criou ${n} grupos`],
+    removed: ['Desfez grupo', n => `Desfez ${n} grupos`],
+    collapsed: ['Recolheu grupo', n => `Recolheu ${n} grupos`],
+    expanded: ['Expandiu grupo', n => `Expandiu ${n} grupos`],
+    title: ['Renomeou grupo', n => `Renomeou ${n} grupos`],
+    other: ['Alterou grupo', n => `Alterou ${n} grupos`],
+};
+
+const describeCollection = <T extends Item>(
+    before: T[],
+    after: T[],
+    phrases: Record<string, [string, (n: number) => string]>,
+    classify: (keys: Set<string>, item: T) => string | null
+) => {
+    if (before === after) return [];
+    const { added, removed, changed } = diffItems(before, after);
+    const counts = new Map<string, number>();
+    if (added.length > 0) counts.set('added', added.length);
+    if (removed.length > 0) counts.set('removed', removed.length);
+    countBy(changed, c => classify(c.keys, c.after) ?? '').forEach((count, category) => {
+        if (category) counts.set(category, count);
+    });
+    return Array.from(counts.entries()).map(([category, count]) => {
+        const [singular, plural] = phrases[category];
+        return pluralize(count, singular, plural);
+    });
+};
+
+// Resume em uma frase o que mudou entre dois estados, ex: "Moveu 3 blocos".
+export const describeChange = (before: HistoryState, after: HistoryState): string => {
+    const movedNodes = diffItems(before.nodes, after.nodes).changed.some(c => has(c.keys, 'position'));
+    const phrases = [
+        ...describeCollection(before.nodes, after.nodes, nodePhrases, keys => {
+            if (keys.has('text')) return 'text';
+            if (keys.has('type')) return 'type';
+            if (keys.has('color')) return 'color';
+            if (keys.has('linkedProjectId')) return 'link';
+            if (has(keys, 'width', 'height')) return 'size';
+            if (has(keys, 'position', 'laneId')) return 'move';
+            return 'other';
+        }),
+        ...describeCollection(before.edges, after.edges, edgePhrases, keys => {
+            if (keys.has('label')) return 'label';
+            if (has(keys, 'source', 'target')) return 'reconnect';
+            // Pontos intermediários acompanham os blocos arrastados; não é outra ação.
+            if (movedNodes && keys.size === 1 && keys.has('waypoints')) return null;
+            return 'route';
+        }),
+        ...describeCollection(before.annotations, after.annotations, annotationPhrases, keys => {
+            if (keys.has('text')) return 'text';
+            if (has(keys, 'width', 'height')) return 'size';
+            return 'move';
+        }),
+        ...describeCollection(before.swimlanes, after.swimlanes, swimlanePhrases, keys =>
+            keys.size === 1 && keys.has('position') ? 'move' : 'other'),
+        ...describeCollection(before.groups, after.groups, groupPhrases, (keys, group) => {
+            if (keys.has('collapsed')) return group.collapsed ? 'collapsed' : 'expanded';
+            if (keys.has('title')) return 'title';
+            return 'other';
+        }),
+    ];
+
+    if (phrases.length === 0) return 'Alteração';
+    if (phrases.length === 1) return phrases[0];
+    const second = phrases[1].charAt(0).toLowerCase() + phrases[1].slice(1);
+    if (phrases.length === 2) return `${phrases[0]} e ${second}`;
+    return `${phrases[0]}, ${second} e mais ${phrases.length - 2} ${phrases.length === 3 ? 'alteração' : 'alterações'}`;
+};
+
+// --- Navegação e limite ---
+
+// Acrescenta um passo depois do atual (descartando os passos desfeitos) e
+// remove os mais antigos além do limite.
+export const pushHistory = (history: HistoryEntry[], historyIndex: number, state: HistoryState, limit: number, description?: string) => {
+    const previous = history[historyIndex]?.state ?? emptyState;
+    const kept = history.slice(0, historyIndex + 1);
+    const next = [...kept, createHistoryEntry(state, description ?? describeChange(previous, state))];
+    const trimmed = next.length > limit ? next.slice(next.length - limit) : next;
+    return { history: trimmed, historyIndex: trimmed.length - 1 };
+};
+
+// Reduz o histórico ao limite mantendo o passo atual: sai primeiro o que é mais
+// antigo e, se ainda faltar, o que foi desfeito.
+export const trimHistory = (history: HistoryEntry[], historyIndex: number, limit: number) => {
+    if (history.length <= limit) return { history, historyIndex };
+    const start = Math.max(0, Math.min(historyIndex, history.length - limit));
+    return { history: history.slice(start, start + limit), historyIndex: historyIndex - start };
+};
+
+// --- Armazenamento ---
+
+interface StoredCollectionChange {
+    // Ordem dos ids, presente apenas quando itens entraram, saíram ou mudaram de posição.
+    ids?: string[];
+    changed: Item[];
+}
+
+export interface StoredHistoryEntry {
+    description: string;
+    timestamp: number;
+    // Coleções ausentes são iguais às do passo anterior.
+    changes: Partial<Record<Collection, StoredCollectionChange>>;
+}
+
+const sameOrder = (before: Item[], after: Item[]) =>
+    before.length === after.length && after.every((item, i) => before[i].id === item.id);
+
+export const compactHistory = (history: HistoryEntry[]): StoredHistoryEntry[] => {
+    let previous = emptyState;
+    return history.map(entry => {
+        const changes: StoredHistoryEntry['changes'] = {};
+        collections.forEach(key => {
+            const before = previous[key] as Item[];
+            const after = entry.state[key] as Item[];
+            if (before === after) return;
+            const beforeById = new Map(before.map(item => [item.id, item]));
+            const changed = after.filter(item => beforeById.get(item.id) !== item);
+            const ordered = sameOrder(before, after);
+            if (changed.length === 0 && ordered) return;
+            changes[key] = ordered ? { changed } : { ids: after.map(item => item.id), changed };
+        });
+        previous = entry.state;
+        return { description: entry.description, timestamp: entry.timestamp, changes };
+    });
+};
+
+// Reaproveita os objetos do passo anterior que têm o mesmo conteúdo.
+const shareUnchanged = <T extends Item>(before: T[], after: T[]): T[] => {
+    const beforeById = new Map(before.map(item => [item.id, item]));
+    return after.map(item => {
+        const previous = beforeById.get(item.id);
+        return previous && JSON.stringify(previous) === JSON.stringify(item) ? previous : item;
+    });
+};
+
+// Reconstrói o histórico salvo. Projetos antigos guardavam o estado completo de
+// cada passo, sem descrição; esses passos são convertidos e descritos aqui.
+export const expandHistory = (stored: unknown): HistoryEntry[] => {
+    if (!Array.isArray(stored)) return [];
+    let previous = emptyState;
+    return stored.map((raw: any, index) => {
+        let entry: HistoryEntry;
+        if (raw && raw.changes && typeof raw.changes === 'object') {
+            const state = { ...previous };
+            collections.forEach(key => {
+                const change: StoredCollectionChange | undefined = raw.changes[key];
+                if (!change) return;
+                const before = previous[key] as Item[];
+                const beforeById = new Map(before.map(item => [item.id, item]));
+                const changedById = new Map(change.changed.map(item => [item.id, item]));
+                const ids = change.ids ?? before.map(item => item.id);
+                (state as any)[key] = ids.map(id => changedById.get(id) ?? beforeById.get(id)).filter(Boolean);
+            });
+            entry = createHistoryEntry(state, raw.description, raw.timestamp);
+        } else {
+            const state: HistoryState = {
+                nodes: shareUnchanged(previous.nodes, raw?.nodes ?? []),
+                edges: shareUnchanged(previous.edges, raw?.edges ?? []),
+                annotations: shareUnchanged(previous.annotations, raw?.annotations ?? []),
+                swimlanes: shareUnchanged(previous.swimlanes, raw?.swimlanes ?? []),
+                groups: shareUnchanged(previous.groups, raw?.groups ?? []),
+            };
+            entry = createHistoryEntry(state, index === 0 ? 'Estado inicial' : describeChange(previous, state), 0);
+        }
+        previous = entry.state;
+        return entry;
+    });
+};
@@ -0,0 +1,393 @@
+import { FlowchartData, NodeData, EdgeData, Position } from '../types';
+import { getNodeSize } from './flowchartUtils';
+
+// Layout hierárquico em camadas (Sugiyama): remoção de ciclos, atribuição de
+// camadas, nós fictícios para arestas longas, redução de cruzamentos e
+// atribuição de coordenadas.
+
+export type LayoutDirection = 'TB' | 'LR';
+
+export interface LayoutOptions {
+    direction?: LayoutDirection;
+    origin?: Position;
+    rankGap?: number;
+    nodeGap?: number;
+}
+
+const DEFAULT_ORIGIN: Position = { x: 50, y: 50 };
+const DEFAULT_RANK_GAP = 100;
+const DEFAULT_NODE_GAP = 60;
+const DUMMY_GAP = 20;
+const ORDERING_SWEEPS = 8;
+const POSITIONING_PASSES = 6;
+
+// Índices dos pontos de conexão: 0: Top, 1: Right, 2: Bottom, 3: Left
+const HANDLE = { top: 0, right: 1, bottom: 2, left: 3 };
+
+type Branch = 'yes' | 'no' | null;
+
+interface LayoutVertex {
+    id: string;
+    isDummy: boolean;
+    // Tamanho ao longo do fluxo (altura em TB) e transversal a ele (largura em TB).
+    along: number;
+    across: number;
+}
+
+interface Segment {
+    upper: string;
+    lower: string;
+    // Deslocamento transversal desejado do vértice inferior em relação ao superior.
+    offset: number;
+}
+
+const normalizeLabel = (label?: string) =>
+    (label || '').trim().toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+
+export const getDecisionBranch = (edge: EdgeData): Branch => {
+    const label = normalizeLabel(edge.label);
+    if (['sim', 's', 'yes', 'y', 'true', 'verdadeiro', 'v'].includes(label)) return 'yes';
+    if (['nao', 'n', 'no', 'false', 'falso', 'f'].includes(label)) return 'no';
+    return null;
+};
+
+// Arestas que voltam para um nó ainda na pilha da DFS formam laços; elas são
+// invertidas no cálculo das camadas para que o grafo possa ser ordenado.
+const findBackEdges = (nodes: NodeData[], edges: EdgeData[]): Set<string> => {
+    const outgoing = new Map<string, EdgeData[]>();
+    nodes.forEach(n => outgoing.set(n.id, []));
+    edges.forEach(e => outgoing.get(e.source)?.push(e));
+
+    const backEdges = new Set<string>();
+    const state = new Map<string, 'visiting' | 'done'>();
+
+    const visit = (nodeId: string) => {
+        state.set(nodeId, 'visiting');
+        for (const edge of outgoing.get(nodeId) || []) {
+            const targetState = state.get(edge.target);
+            if (targetState === 'visiting') {
+                backEdges.add(edge.id);
+            } else if (!targetState) {
+                visit(edge.target);
+            }
+        }
+        state.set(nodeId, 'done');
+    };
+
+    // Começa pelos blocos de início para que o sentido "natural" do fluxo seja preservado.
+    const roots = [...nodes.filter(n => n.type === 'start'), ...nodes.filter(n => n.type !== 'start')];
+    roots.forEach(n => { if (!state.has(n.id)) visit(n.id); });
+
+    return backEdges;
+};
+
+const assignRanks = (nodes: NodeData[], dagEdges: { source: string; target: string }[]): Map<string, number> => {
+    const inDegree = new Map<string, number>();
+    const outgoing = new Map<string, string[]>();
+    nodes.forEach(n => { inDegree.set(n.id, 0); outgoing.set(n.id, []); });
+    dagEdges.forEach(e => {
+        outgoing.get(e.source)!.push(e.target);
+        inDegree.set(e.target, (inDegree.get(e.target) || 0) + 1);
+    });
+
+    const ranks = new Map<string, number>();
+    const queue = nodes.filter(n => inDegree.get(n.id) === 0).map(n => n.id);
+    queue.forEach(id => ranks.set(id, 0));
+
+    while (queue.length > 0) {
+        const id = queue.shift()!;
+        const rank = ranks.get(id) || 0;
+        for (const targetId of outgoing.get(id) || []) {
+            ranks.set(targetId, Math.max(ranks.get(targetId) ?? 0, rank + 1));
+            const remaining = inDegree.get(targetId)! - 1;
+            inDegree.set(targetId, remaining);
+            if (remaining === 0) queue.push(targetId);
+        }
+    }
+
+    return ranks;
+};
+
+const countCrossings = (upper: string[], lower: string[], segments: Segment[]) => {
+    const upperIndex = new Map(upper.map((id, i) => [id, i]));
+    const lowerIndex = new Map(lower.map((id, i) => [id, i]));
+    const pairs = segments
+        .filter(s => upperIndex.has(s.upper) && lowerIndex.has(s.lower))
+        .map(s => [upperIndex.get(s.upper)!, lowerIndex.get(s.lower)!]);
+    let crossings = 0;
+    for (let i = 0; i < pairs.length; i++) {
+        for (let j = i + 1; j < pairs.length; j++) {
+            if ((pairs[i][0] - pairs[j][0]) * (pairs[i][1] - pairs[j][1]) < 0) crossings++;
+        }
+    }
+    return crossings;
+};
+
+// Reordena cada camada pela média das posições dos vizinhos na camada adjacente
+// (heurística do baricentro), alternando o sentido a cada passada e mantendo a
+// ordenação com menos cruzamentos. O ramo lateral de uma decisão recebe um
+// pequeno viés para ficar sempre do mesmo lado do ramo principal.
+const orderLayers = (layers: string[][], segments: Segment[]): string[][] => {
+    const segmentsByLayerPair = layers.slice(1).map((lower, r) => {
+        const upperSet = new Set(layers[r]);
+        const lowerSet = new Set(lower);
+        return segments.filter(s => upperSet.has(s.upper) && lowerSet.has(s.lower));
+    });
+    const totalCrossings = (candidate: string[][]) =>
+        segmentsByLayerPair.reduce((sum, segs, r) => sum + countCrossings(candidate[r], candidate[r + 1], segs), 0);
+
+    const reorder = (layer: string[], reference: string[], segs: Segment[], downward: boolean) => {
+        const referenceIndex = new Map(reference.map((id, i) => [id, i]));
+        const values = new Map<string, number[]>();
+        segs.forEach(s => {
+            const own = downward ? s.lower : s.upper;
+            const other = downward ? s.upper : s.lower;
+            const bias = s.offset === 0 ? 0 : (downward ? 0.5 : -0.5);
+            if (!values.has(own)) values.set(own, []);
+            values.get(own)!.push(referenceIndex.get(other)! + bias);
+        });
+        const barycenters = new Map(layer.map((id, i) => {
+            const v = values.get(id);
+            return [id, v ? v.reduce((a, b) => a + b, 0) / v.length : i] as [string, number];
+        }));
+        return [...layer].sort((a, b) => barycenters.get(a)! - barycenters.get(b)!);
+    };
+
+    let current = layers.map(l => [...l]);
+    let best = current.map(l => [...l]);
+    let bestCrossings = totalCrossings(best);
+
+    for (let sweep = 0; sweep < ORDERING_SWEEPS && bestCrossings > 0; sweep++) {
+        if (sweep % 2 === 0) {
+            for (let r = 1; r < current.length; r++) current[r] = reorder(current[r], current[r - 1], segmentsByLayerPair[r - 1], true);
+        } else {
+            for (let r = current.length - 2; r >= 0; r--) current[r] = reorder(current[r], current[r + 1], segmentsByLayerPair[r], false);
+        }
+        const crossings = totalCrossings(current);
+        if (crossings < bestCrossings) {
+            bestCrossings = crossings;
+            best = current.map(l => [...l]);
+        }
+    }
+    return best;
+};
+
+// Move cada vértice da camada em direção à posição desejada, em ordem de
+// prioridade (blocos reais antes dos fictícios, mais conectados primeiro). Um
+// vértice empurra os de menor prioridade, mas nunca ultrapassa os já fixados.
+const placeLayer = (
+    layer: LayoutVertex[],
+    current: number[],
+    desired: number[],
+    priority: number[],
+    separation: (a: LayoutVertex, b: LayoutVertex) => number,
+) => {
+    const n = layer.length;
+    const pos = [...current];
+    const fixed = new Set<number>();
+    const order = layer.map((_, i) => i).sort((a, b) => priority[b] - priority[a]);
+
+    for (const i of order) {
+        if (desired[i] > pos[i]) {
+            let limit = Infinity;
+            let gap = 0;
+            for (let j = i + 1; j < n; j++) {
+                gap += separation(layer[j - 1], layer[j]);
+                if (fixed.has(j)) { limit = pos[j] - gap; break; }
+            }
+            pos[i] = Math.max(pos[i], Math.min(desired[i], limit));
+            for (let j = i + 1; j < n && pos[j] < pos[j - 1] + separation(layer[j - 1], layer[j]); j++) {
+                pos[j] = pos[j - 1] + separation(layer[j - 1], layer[j]);
+            }
+        } else if (desired[i] < pos[i]) {
+            let limit = -Infinity;
+            let gap = 0;
+            for (let j = i - 1; j >= 0; j--) {
+                gap += separation(layer[j], layer[j + 1]);
+                if (fixed.has(j)) { limit = pos[j] + gap; break; }
+            }
+            pos[i] = Math.min(pos[i], Math.max(desired[i], limit));
+            for (let j = i - 1; j >= 0 && pos[j] > pos[j + 1] - separation(layer[j], layer[j + 1]); j--) {
+                pos[j] = pos[j + 1] - separation(layer[j], layer[j + 1]);
+            }
+        }
+        fixed.add(i);
+    }
+    return pos;
+};
+
+// Garante que o ramo lateral de cada decisão fique depois do ramo principal
+// quando ambos caem na mesma camada.
+const enforceBranchOrder = (layers: string[][], segments: Segment[]) => {
+    const layerOf = new Map<string, string[]>();
+    layers.forEach(layer => layer.forEach(id => layerOf.set(id, layer)));
+    segments.filter(s => s.offset > 0).forEach(side => {
+        const layer = layerOf.get(side.lower)!;
+        segments
+            .filter(main => main.upper === side.upper && main.offset === 0 && layerOf.get(main.lower) === layer)
+            .forEach(main => {
+                const mainIndex = layer.indexOf(main.lower);
+                const sideIndex = layer.indexOf(side.lower);
+                if (sideIndex < mainIndex) {
+                    layer.splice(sideIndex, 1);
+                    layer.splice(layer.indexOf(main.lower) + 1, 0, side.lower);
+                }
+            });
+    });
+};
+
+export const layoutFlowchart = (data: FlowchartData, options: LayoutOptions = {}): FlowchartData => {
+    const {
+        direction = 'TB',
+        origin = DEFAULT_ORIGIN,
+        rankGap = DEFAULT_RANK_GAP,
+        nodeGap = DEFAULT_NODE_GAP,
+    } = options;
+    const { nodes, edges } = data;
+    if (nodes.length === 0) return data;
+
+    const isVertical = direction === 'TB';
+    const nodeById = new Map(nodes.map(n => [n.id, n]));
+    const vertices = new Map<string, LayoutVertex>();
+    nodes.forEach(n => {
+        const { width, height } = getNodeSize(n);
+        vertices.set(n.id, { id: n.id, isDummy: false, along: isVertical ? height : width, across: isVertical ? width : height });
+    });
+
+    // 1. Remoção de ciclos
+    const backEdges = findBackEdges(nodes, edges);
+    const dagEdges = edges
+        .filter(e => e.source !== e.target)
+        .map(e => backEdges.has(e.id) ? { edge: e, source: e.target, target: e.source } : { edge: e, source: e.source, target: e.target });
+
+    // 2. Camadas
+    const ranks = assignRanks(nodes, dagEdges);
+
+    // Em TB o ramo "Não" segue para baixo e o "Sim" sai pela direita; em LR o
+    // "Sim" segue adiante e o "Não" desce. O ramo lateral é deslocado para o lado positivo.
+    const sideBranch: Branch = isVertical ? 'yes' : 'no';
+    const getOffset = (edge: EdgeData, reversed: boolean) => {
+        const source = nodeById.get(edge.source);
+        if (reversed || source?.type !== 'decision' || getDecisionBranch(edge) !== sideBranch) return 0;
+        const target = vertices.get(edge.target)!;
+        return vertices.get(source.id)!.across / 2 + nodeGap + target.across / 2;
+    };
+
+    // 3. Nós fictícios para arestas que atravessam mais de uma camada
+    const segments: Segment[] = [];
+    dagEdges.forEach(({ edge, source, target }) => {
+        const reversed = source !== edge.source;
+        const offset = getOffset(edge, reversed);
+        let previous = source;
+        for (let rank = ranks.get(source)! + 1; rank < ranks.get(target)!; rank++) {
+            const dummyId = `dummy-${edge.id}-${rank}`;
+            vertices.set(dummyId, { id: dummyId, isDummy: true, along: 0, across: 0 });
+            ranks.set(dummyId, rank);
+            segments.push({ upper: previous, lower: dummyId, offset: previous === source ? offset : 0 });
+            previous = dummyId;
+        }
+        segments.push({ upper: previous, lower: target, offset: previous === source ? offset : 0 });
+    });
+
+    // Ordem inicial: a ordem em que os vértices aparecem, que tende a seguir o fluxo.
+    let layers: string[][] = [];
+    vertices.forEach(v => {
+        const rank = ranks.get(v.id) ?? 0;
+        while (layers.length <= rank) layers.push([]);
+        layers[rank].push(v.id);
+    });
+
+    // 4. Redução de cruzamentos
+    layers = orderLayers(layers, segments);
+    enforceBranchOrder(layers, segments);
+
+    // 5. Coordenadas transversais
+    const separation = (a: LayoutVertex, b: LayoutVertex) =>
+        a.across / 2 + b.across / 2 + (a.isDummy || b.isDummy ? DUMMY_GAP : nodeGap);
+    const center = new Map<string, number>();
+    layers.forEach(layer => {
+        let cursor = 0;
+        layer.forEach((id, i) => {
+            const v = vertices.get(id)!;
+            if (i > 0) cursor += separation(vertices.get(layer[i - 1])!, v);
+            center.set(id, cursor);
+        });
+    });
+
+    const incoming = new Map<string, Segment[]>();
+    const outgoing = new Map<string, Segment[]>();
+    segments.forEach(s => {
+        if (!incoming.has(s.lower)) incoming.set(s.lower, []);
+        if (!outgoing.has(s.upper)) outgoing.set(s.upper, []);
+        incoming.get(s.lower)!.push(s);
+        outgoing.get(s.upper)!.push(s);
+    });
+
+    const relaxLayer = (layer: string[], downward: boolean) => {
+        const desired = layer.map(id => {
+            const allSegs = (downward ? incoming : outgoing).get(id) || [];
+            // Blocos reais se alinham preferencialmente a vizinhos reais; arestas longas se adaptam depois.
+            const realSegs = allSegs.filter(s => !vertices.get(downward ? s.upper : s.lower)!.isDummy);
+            const segs = vertices.get(id)!.isDummy || realSegs.length === 0 ? allSegs : realSegs;
+            if (segs.length === 0) return center.get(id)!;
+            const targets = segs.map(s => downward ? center.get(s.upper)! + s.offset : center.get(s.lower)! - s.offset);
+            return targets.reduce((a, b) => a + b, 0) / targets.length;
+        });
+        const priority = layer.map(id => {
+            const degree = (incoming.get(id)?.length || 0) + (outgoing.get(id)?.length || 0);
+            return vertices.get(id)!.isDummy ? degree : 1000 + degree;
+        });
+        const placed = placeLayer(layer.map(id => vertices.get(id)!), layer.map(id => center.get(id)!), desired, priority, separation);
+        layer.forEach((id, i) => center.set(id, placed[i]));
+    };
+
+    for (let pass = 0; pass < POSITIONING_PASSES; pass++) {
+        if (pass % 2 === 0) {
+            for (let r = 1; r < layers.length; r++) relaxLayer(layers[r], true);
+        } else {
+            for (let r = layers.length - 2; r >= 0; r--) relaxLayer(layers[r], false);
+        }
+    }
+    // Uma última passada descendente garante que os ramos laterais terminem deslocados.
+    for (let r = 1; r < layers.length; r++) relaxLayer(layers[r], true);
+
+    // 6. Coordenadas ao longo do fluxo e conversão para posições absolutas
+    const positions = new Map<string, Position>();
+    let layerStart = 0;
+    layers.forEach(layer => {
+        const thickness = Math.max(0, ...layer.map(id => vertices.get(id)!.along));
+        layer.forEach(id => {
+            const v = vertices.get(id)!;
+            if (v.isDummy) return;
+            const along = layerStart + (thickness - v.along) / 2;
+            const across = center.get(id)! - v.across / 2;
+            positions.set(id, isVertical ? { x: across, y: along } : { x: along, y: across });
+        });
+        layerStart += thickness + rankGap;
+    });
+
+    const minX = Math.min(...Array.from(positions.values()).map(p => p.x));
+    const minY = Math.min(...Array.from(positions.values()).map(p => p.y));
+
+    const layoutNodes = nodes.map(n => {
+        const pos = positions.get(n.id)!;
+        return { ...n, position: { x: Math.round(pos.x - minX + origin.x), y: Math.round(pos.y - minY + origin.y) } };
+    });
+
+    // Conexões saem pelo lado do fluxo; laços retornam pela lateral oposta ao ramo de decisão.
+    const forward = isVertical ? { source: HANDLE.bottom, target: HANDLE.top } : { source: HANDLE.right, target: HANDLE.left };
+    const loopHandle = isVertical ? HANDLE.left : HANDLE.top;
+    // Os pontos intermediários foram pensados para a disposição anterior e são descartados.
+    const layoutEdges = edges.map(({ waypoints: _waypoints, ...edge }) => {
+        if (edge.source === edge.target) return edge;
+        const source = nodeById.get(edge.source);
+        const branch = source?.type === 'decision' ? getDecisionBranch(edge) : null;
+        const branchHandle = branch === 'yes' ? HANDLE.right : branch === 'no' ? HANDLE.bottom : undefined;
+        if (backEdges.has(edge.id)) {
+            return { ...edge, sourceHandle: branchHandle ?? loopHandle, targetHandle: loopHandle };
+        }
+        return { ...edge, sourceHandle: branchHandle ?? forward.source, targetHandle: forward.target };
+    });
+
+    return { ...data, nodes: layoutNodes, edges: layoutEdges };
+};
@@ -0,0 +1,99 @@
+import { NodeType } from '../types';
+import type { FlowchartProvider, GeneratedFlowchart } from './geminiService';
+
+// Provedor local que interpreta frases simples em português, sem acesso à rede.
+// Cada frase vira um bloco de processo; frases iniciadas por "Se"/"Caso" viram
+// decisões e "Caso contrário"/"Senão" definem o ramo "Não" da última decisão.
+// A saída é sempre a mesma para o mesmo texto, o que o torna útil em testes.
+
+const CONDITION_PATTERN = /^(se|caso)\s+(.+)$/i;
+const ELSE_PATTERN = /^(caso contr[áa]rio|sen[ãa]o|do contr[áa]rio)\b[\s,:]*(.*)$/i;
+
+type PendingExit = { nodeId: string; label?: string };
+
+const splitSentences = (prompt: string) =>
+    prompt
+        .split(/[.;!\n]+/)
+        .map(s => s.trim())
+        .filter(s => s.length > 0);
+
+const formatText = (text: string) => {
+    const cleaned = text.trim().replace(/[,:]+$/, '');
+    return cleaned.charAt(0).toUpperCase() + cleaned.slice(1);
+};
+
+// Separa "Se <condição>, <ação>" (ou "... então <ação>") em suas duas partes.
+const splitCondition = (body: string): { condition: string; action?: string } => {
+    const match = body.match(/^(.+?)(?:,\s*|\s+ent[ãa]o\s+)(.+)$/i);
+    if (!match) return { condition: body };
+    return { condition: match[1], action: match[2].replace(/^ent[ãa]o\s+/i, '') };
+};
+
+export const localFlowchartProvider: FlowchartProvider = {
+    name: 'Local',
+    generate: async (prompt: string): Promise<GeneratedFlowchart> => {
+        const nodes: GeneratedFlowchart['nodes'] = [];
+        const edges: GeneratedFlowchart['edges'] = [];
+
+        const addNode = (type: NodeType, text: string) => {
+            const id = `node-${nodes.length + 1}`;
+            nodes.push({ id, type, text });
+            return id;
+        };
+        const connect = (exits: PendingExit[], targetId: string) => {
+            exits.forEach(exit => edges.push({ source: exit.nodeId, target: targetId, label: exit.label }));
+        };
+
+        let pending: PendingExit[] = [{ nodeId: addNode('start', 'Início') }];
+        let openDecisionId: string | null = null;
+
+        for (const sentence of splitSentences(prompt)) {
+            const elseMatch = sentence.match(ELSE_PATTERN);
+            if (elseMatch && openDecisionId) {
+                const action = elseMatch[2].trim();
+                if (action) {
+                    const actionId = addNode('process', formatText(action));
+                    connect([{ nodeId: openDecisionId, label: 'Não' }], actionId);
+                    pending = [...pending, { nodeId: actionId }];
+                } else {
+                    pending = [...pending, { nodeId: openDecisionId, label: 'Não' }];
+                }
+                openDecisionId = null;
+                continue;
+            }
+
+            // Uma decisão sem "senão" explícito segue adiante pelo ramo "Não".
+            if (openDecisionId) {
+                pending = [...pending, { nodeId: openDecisionId, label: 'Não' }];
+                openDecisionId = null;
+            }
+
+            const conditionMatch = sentence.match(CONDITION_PATTERN);
+            if (conditionMatch) {
+                const { condition, action } = splitCondition(conditionMatch[2]);
+                const decisionId = addNode('decision', `${formatText(condition)}?`);
+                connect(pending, decisionId);
+                if (action) {
+                    const actionId = addNode('process', formatText(action));
+                    connect([{ nodeId: decisionId, label: 'Sim' }], actionId);
+                    pending = [{ nodeId: actionId }];
+                } else {
+                    pending = [{ nodeId: decisionId, label: 'Sim' }];
+                }
+                openDecisionId = decisionId;
+                continue;
+            }
+
+            const processId = addNode('process', formatText(sentence));
+            connect(pending, processId);
+            pending = [{ nodeId: processId }];
+        }
+
+        if (openDecisionId) {
+            pending = [...pending, { nodeId: openDecisionId, label: 'Não' }];
+        }
+        connect(pending, addNode('end', 'Fim'));
+
+        return { nodes, edges };
+    },
+};
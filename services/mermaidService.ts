@@ -0,0 +1,313 @@
+import { FlowchartData, NodeData, EdgeData, NodeType } from '../types';
+import { sanitizeFlowchartData } from './flowchartUtils';
+import { layoutFlowchart } from './layoutService';
+
+// --- Exportação ---
+
+const shapeDelimiters: Record<NodeType, [string, string]> = {
+    start: ['([', '])'],
+    end: ['([', '])'],
+    process: ['[', ']'],
+    decision: ['{', '}'],
+    subprocess: ['[[', ']]'],
+    inputOutput: ['[/', '/]'],
+    document: ['[', ']'],
+    database: ['[(', ')]'],
+    manualInput: ['[/', '\\]'],
+    delay: ['(', ')'],
+    offPage: ['[\\', '/]'],
+    preparation: ['{{', '}}'],
+};
+
+// Tipos sem formato próprio no Mermaid; a classe preserva o tipo na reimportação.
+// Os nomes têm prefixo porque "end" é palavra reservada no Mermaid.
+const typeClasses: Partial<Record<NodeType, { name: string; style: string }>> = {
+    start: { name: 'fcStart', style: 'fill:#10B981,stroke:#34D399,color:#fff' },
+    end: { name: 'fcEnd', style: 'fill:#EF4444,stroke:#F87171,color:#fff' },
+    document: { name: 'fcDocument', style: 'fill:#0EA5E9,stroke:#38BDF8,color:#fff' },
+    delay: { name: 'fcDelay', style: 'fill:#EAB308,stroke:#FACC15,color:#fff' },
+};
+
+// Caracteres que quebrariam a sintaxe viram entidades numéricas do Mermaid (ex: "#34;").
+const escapeMermaidText = (text: string) =>
+    text
+        .replace(/[#";|]/g, ch => `#${ch.charCodeAt(0)};`)
+        .replace(/\r?\n/g, '<br/>');
+
+export const exportToMermaid = (data: FlowchartData): string => {
+    const mermaidIds = new Map<string, string>();
+    data.nodes.forEach((node, i) => mermaidIds.set(node.id, `n${i + 1}`));
+
+    const lines = ['flowchart TD'];
+    data.nodes.forEach(node => {
+        const [open, close] = shapeDelimiters[node.type];
+        lines.push(`    ${mermaidIds.get(node.id)}${open}"${escapeMermaidText(node.text)}"${close}`);
+    });
+    data.edges.forEach(edge => {
+        const source = mermaidIds.get(edge.source);
+        const target = mermaidIds.get(edge.target);
+        if (!source || !target) return;
+        const label = edge.label?.trim() ? `|${escapeMermaidText(edge.label)}|` : '';
+        lines.push(`    ${source} -->${label} ${target}`);
+    });
+
+    // Início e fim usam o mesmo formato no Mermaid, e documento e espera usam os de
+    // processo e de bloco arredondado; as classes preservam o tipo na reimportação.
+    (Object.keys(typeClasses) as NodeType[]).forEach(type => {
+        const ids = data.nodes.filter(n => n.type === type).map(n => mermaidIds.get(n.id));
+        if (ids.length === 0) return;
+        const { name, style } = typeClasses[type]!;
+        lines.push(`    classDef ${name} ${style}`);
+        lines.push(`    class ${ids.join(',')} ${name}`);
+    });
+
+    return lines.join('\n') + '\n';
+};
+
+// --- Importação ---
+
+type MermaidShape = 'stadium' | 'circle' | 'rhombus' | 'subroutine' | 'cylinder' | 'hexagon' | 'lean' | 'trapezoid' | 'invTrapezoid' | 'other';
+
+interface ParsedNode {
+    id: string;
+    text?: string;
+    shape?: MermaidShape;
+    classes: Set<string>;
+}
+
+// Ordenados do mais longo para o mais curto para que "([" seja reconhecido antes de "(".
+const shapeTokens: { open: string; close: string; shape: MermaidShape }[] = [
+    { open: '(((', close: ')))', shape: 'circle' },
+    { open: '([', close: '])', shape: 'stadium' },
+    { open: '((', close: '))', shape: 'circle' },
+    { open: '[[', close: ']]', shape: 'subroutine' },
+    { open: '[(', close: ')]', shape: 'cylinder' },
+    { open: '{{', close: '}}', shape: 'hexagon' },
+    { open: '[/', close: '/]', shape: 'lean' },
+    { open: '[\\', close: '\\]', shape: 'lean' },
+    { open: '[/', close: '\\]', shape: 'trapezoid' },
+    { open: '[\\', close: '/]', shape: 'invTrapezoid' },
+    { open: '[', close: ']', shape: 'other' },
+    { open: '(', close: ')', shape: 'other' },
+    { open: '{', close: '}', shape: 'rhombus' },
+    { open: '>', close: ']', shape: 'other' },
+];
+
+const ID_PATTERN = /^[A-Za-z0-9_À-ſ]+(?:-[A-Za-z0-9_À-ſ]+)*/;
+const LABELED_LINK_PATTERN = /^(--|==|-\.)\s+(.+?)\s+(-{2,}[>ox]|={2,}[>ox]|\.-+[>ox]?|-{3,}|={3,})/;
+const LINK_PATTERN = /^<?(-{2,}[->ox]?|={2,}[=>ox]?|-\.+-[>ox]?)(?:\|([^|]*)\|)?/;
+const IGNORED_STATEMENTS = /^(subgraph|end|style|linkStyle|click|direction|accTitle|accDescr)\b/;
+
+const decodeMermaidText = (text: string) =>
+    text
+        .replace(/<br\s*\/?>/gi, '\n')
+        .replace(/#quot;/g, '"')
+        .replace(/#amp;/g, '&')
+        .replace(/#lt;/g, '<')
+        .replace(/#gt;/g, '>')
+        .replace(/#(\d+);/g, (_, code) => String.fromCharCode(parseInt(code, 10)))
+        .trim();
+
+// Extrai o primeiro bloco ```mermaid de um arquivo Markdown, se houver.
+const extractMermaidSource = (source: string) => {
+    const fenced = source.match(/```mermaid\s*\n([\s\S]*?)```/);
+    return fenced ? fenced[1] : source;
+};
+
+// Analisa uma única instrução ("A[Texto] -->|rótulo| B & C") da esquerda para a direita.
+const createStatementParser = (text: string) => {
+    let pos = 0;
+
+    const skipWhitespace = () => {
+        while (pos < text.length && /\s/.test(text[pos])) pos++;
+    };
+    const rest = () => text.slice(pos);
+
+    const atEnd = () => {
+        skipWhitespace();
+        return pos >= text.length;
+    };
+
+    const parseNode = (): ParsedNode | null => {
+        skipWhitespace();
+        const idMatch = rest().match(ID_PATTERN);
+        if (!idMatch) return null;
+        pos += idMatch[0].length;
+
+        const node: ParsedNode = { id: idMatch[0], classes: new Set() };
+        const opening = shapeTokens.find(t => rest().startsWith(t.open));
+        if (opening) {
+            pos += opening.open.length;
+            // "[/" e "[\" abrem formatos diferentes conforme o fechamento.
+            const candidates = shapeTokens.filter(t => t.open === opening.open);
+            let token: typeof opening | undefined;
+            let rawText: string;
+            if (text[pos] === '"') {
+                const closingQuote = text.indexOf('"', pos + 1);
+                if (closingQuote === -1) throw new Error(`Texto sem aspas de fechamento no bloco "${node.id}".`);
+                rawText = text.slice(pos + 1, closingQuote);
+                pos = closingQuote + 1;
+                token = candidates.find(t => rest().startsWith(t.close));
+                if (!token) throw new Error(`Formato inválido no bloco "${node.id}".`);
+            } else {
+                let closing = -1;
+                for (const candidate of candidates) {
+                    const index = text.indexOf(candidate.close, pos);
+                    if (index !== -1 && (closing === -1 || index < closing)) {
+                        closing = index;
+                        token = candidate;
+                    }
+                }
+                if (!token) throw new Error(`Formato inválido no bloco "${node.id}".`);
+                rawText = text.slice(pos, closing);
+                pos = closing;
+            }
+            pos += token.close.length;
+            node.text = decodeMermaidText(rawText);
+            node.shape = token.shape;
+        }
+
+        const classMatch = rest().match(/^:::([\w-]+)/);
+        if (classMatch) {
+            node.classes.add(classMatch[1]);
+            pos += classMatch[0].length;
+        }
+        return node;
+    };
+
+    const parseNodeGroup = (): ParsedNode[] | null => {
+        const first = parseNode();
+        if (!first) return null;
+        const group = [first];
+        skipWhitespace();
+        while (text[pos] === '&') {
+            pos++;
+            const next = parseNode();
+            if (!next) throw new Error('Bloco esperado após "&".');
+            group.push(next);
+            skipWhitespace();
+        }
+        return group;
+    };
+
+    // Retorna undefined quando não há ligação na posição atual.
+    const parseLink = (): { label?: string } | undefined => {
+        skipWhitespace();
+        const labeled = rest().match(LABELED_LINK_PATTERN);
+        if (labeled) {
+            pos += labeled[0].length;
+            return { label: decodeMermaidText(labeled[2].replace(/^"|"$/g, '')) || undefined };
+        }
+        const plain = rest().match(LINK_PATTERN);
+        if (plain) {
+            pos += plain[0].length;
+            const label = plain[2] !== undefined ? decodeMermaidText(plain[2].replace(/^"|"$/g, '')) : undefined;
+            return { label: label || undefined };
+        }
+        return undefined;
+    };
+
+    return { atEnd, parseNodeGroup, parseLink };
+};
+
+// Separa as instruções por quebra de linha ou ";", ignorando o ";" dentro de aspas
+// ou de entidades como "#quot;".
+const splitStatements = (source: string) => {
+    const statements: string[] = [];
+    source.split('\n').forEach(line => {
+        let current = '';
+        let inQuotes = false;
+        for (const ch of line.replace(/%%.*$/, '')) {
+            if (ch === '"') inQuotes = !inQuotes;
+            if (ch === ';' && !inQuotes && !/#\w+$/.test(current)) {
+                statements.push(current);
+                current = '';
+            } else {
+                current += ch;
+            }
+        }
+        statements.push(current);
+    });
+    return statements.map(s => s.trim()).filter(s => s.length > 0);
+};
+
+export const parseMermaid = (source: string): FlowchartData => {
+    const statements = splitStatements(extractMermaidSource(source));
+    const header = statements.shift();
+    if (!header || !/^(flowchart|graph)\b/i.test(header)) {
+        throw new Error('O texto não é um fluxograma Mermaid (esperado "flowchart TD" ou "graph TD").');
+    }
+
+    const nodes = new Map<string, ParsedNode>();
+    const edges: { source: string; target: string; label?: string }[] = [];
+
+    const register = (parsed: ParsedNode) => {
+        const existing = nodes.get(parsed.id);
+        if (!existing) {
+            nodes.set(parsed.id, parsed);
+            return;
+        }
+        if (parsed.text !== undefined) existing.text = parsed.text;
+        if (parsed.shape !== undefined) existing.shape = parsed.shape;
+        parsed.classes.forEach(c => existing.classes.add(c));
+    };
+
+    const classAssignments: { ids: string[]; className: string }[] = [];
+
+    statements.forEach((statement, index) => {
+        if (IGNORED_STATEMENTS.test(statement) || statement.startsWith('classDef')) return;
+
+        const classMatch = statement.match(/^class\s+([\w\-,\s]+?)\s+([\w-]+)$/);
+        if (classMatch) {
+            classAssignments.push({ ids: classMatch[1].split(',').map(id => id.trim()), className: classMatch[2] });
+            return;
+        }
+
+        const parser = createStatementParser(statement);
+        let previous = parser.parseNodeGroup();
+        if (!previous) throw new Error(`Linha ${index + 2} não reconhecida: "${statement}"`);
+        previous.forEach(register);
+
+        while (!parser.atEnd()) {
+            const link = parser.parseLink();
+            if (!link) throw new Error(`Ligação inválida em: "${statement}"`);
+            const next = parser.parseNodeGroup();
+            if (!next) throw new Error(`Bloco esperado após a ligação em: "${statement}"`);
+            next.forEach(register);
+            previous.forEach(source => next.forEach(target => {
+                edges.push({ source: source.id, target: target.id, label: link.label });
+            }));
+            previous = next;
+        }
+    });
+
+    classAssignments.forEach(({ ids, className }) => ids.forEach(id => nodes.get(id)?.classes.add(className)));
+
+    const hasIncoming = new Set(edges.map(e => e.target));
+    const resolveType = (node: ParsedNode): NodeType => {
+        const classType = (Object.keys(typeClasses) as NodeType[]).find(type => node.classes.has(typeClasses[type]!.name));
+        if (classType) return classType;
+        if (node.shape === 'rhombus') return 'decision';
+        if (node.shape === 'subroutine') return 'subprocess';
+        if (node.shape === 'cylinder') return 'database';
+        if (node.shape === 'hexagon') return 'preparation';
+        if (node.shape === 'lean') return 'inputOutput';
+        if (node.shape === 'trapezoid') return 'manualInput';
+        if (node.shape === 'invTrapezoid') return 'offPage';
+        if (node.shape === 'stadium' || node.shape === 'circle') {
+            return hasIncoming.has(node.id) ? 'end' : 'start';
+        }
+        return 'process';
+    };
+
+    const rawNodes: NodeData[] = Array.from(nodes.values()).map(node => ({
+        id: node.id,
+        type: resolveType(node),
+        text: node.text ?? node.id,
+        position: { x: 0, y: 0 },
+    }));
+    const rawEdges: EdgeData[] = edges.map((e, i) => ({ id: `e-${e.source}-${e.target}-${i}`, ...e }));
+
+    const direction = /^\S+\s+(LR|RL)\b/i.test(header) ? 'LR' : 'TB';
+    return layoutFlowchart(sanitizeFlowchartData({ nodes: rawNodes, edges: rawEdges }), { direction });
+};
@@ -0,0 +1,118 @@
+import { AnnotationData, EdgeData, NodeData } from '../types';
+
+// Busca e substituição nos textos do fluxograma (blocos, rótulos de conexões e
+// anotações). A comparação ignora maiúsculas e acentos: "Ação" encontra "acao".
+
+export type SearchItemKind = 'node' | 'edge' | 'annotation';
+
+export interface SearchMatch {
+    projectId: string;
+    kind: SearchItemKind;
+    itemId: string;
+    text: string;
+}
+
+interface SearchableProject {
+    id: string;
+    nodes: NodeData[];
+    edges: EdgeData[];
+    annotations: AnnotationData[];
+}
+
+const COMBINING_MARKS = /[\u0300-\u036f]/g;
+
+const normalizeChar = (char: string) => char.normalize('NFD').replace(COMBINING_MARKS, '').toLowerCase();
+
+export const normalizeSearchText = (text: string) => Array.from(text).map(normalizeChar).join('');
+
+// Trechos do texto original que correspondem à busca, como pares [início, fim).
+// A busca é feita no texto normalizado, e cada caractere normalizado guarda a
+// posição do caractere original de onde veio.
+const findOccurrences = (text: string, query: string): [number, number][] => {
+    const needle = normalizeSearchText(query);
+    if (!needle) return [];
+    let normalized = '';
+    const starts: number[] = [];
+    const ends: number[] = [];
+    let offset = 0;
+    for (const char of Array.from(text)) {
+        const folded = normalizeChar(char);
+        for (let i = 0; i < folded.length; i++) {
+            starts.push(offset);
+            ends.push(offset + char.length);
+        }
+        normalized += folded;
+        offset += char.length;
+    }
+
+    const occurrences: [number, number][] = [];
+    let index = normalized.indexOf(needle);
+    while (index !== -1) {
+        occurrences.push([starts[index], ends[index + needle.length - 1]]);
+        index = normalized.indexOf(needle, index + needle.length);
+    }
+    return occurrences;
+};
+
+export const matchesSearch = (text: string | undefined, query: string) =>
+    !!text && findOccurrences(text, query).length > 0;
+
+export const replaceInText = (text: string, query: string, replacement: string) => {
+    const occurrences = findOccurrences(text, query);
+    if (occurrences.length === 0) return text;
+    let result = '';
+    let last = 0;
+    occurrences.forEach(([start, end]) => {
+        result += text.slice(last, start) + replacement;
+        last = end;
+    });
+    return result + text.slice(last);
+};
+
+export const findMatches = (projects: SearchableProject[], query: string): SearchMatch[] => {
+    if (!normalizeSearchText(query).trim()) return [];
+    const matches: SearchMatch[] = [];
+    projects.forEach(project => {
+        project.nodes.forEach(node => {
+            if (matchesSearch(node.text, query)) matches.push({ projectId: project.id, kind: 'node', itemId: node.id, text: node.text });
+        });
+        project.edges.forEach(edge => {
+            if (matchesSearch(edge.label, query)) matches.push({ projectId: project.id, kind: 'edge', itemId: edge.id, text: edge.label! });
+        });
+        project.annotations.forEach(annotation => {
+            if (matchesSearch(annotation.text, query)) matches.push({ projectId: project.id, kind: 'annotation', itemId: annotation.id, text: annotation.text });
+        });
+    });
+    return matches;
+};
+
+// Substitui a busca nos itens indicados (todos os itens do projeto quando não há
+// filtro). Coleções sem alteração mantêm a mesma referência.
+export const replaceInProject = <T extends SearchableProject>(
+    project: T,
+    query: string,
+    replacement: string,
+    only?: { kind: SearchItemKind; itemId: string }
+): T => {
+    const applies = (kind: SearchItemKind, id: string) => !only || (only.kind === kind && only.itemId === id);
+    let changed = false;
+    const replaceItems = <I extends { id: string }>(items: I[], kind: SearchItemKind, field: 'text' | 'label'): I[] => {
+        let collectionChanged = false;
+        const next = items.map(item => {
+            const value = (item as any)[field] as string | undefined;
+            if (!value || !applies(kind, item.id)) return item;
+            const replaced = replaceInText(value, query, replacement);
+            if (replaced === value) return item;
+            collectionChanged = true;
+            return { ...item, [field]: replaced };
+        });
+        if (!collectionChanged) return items;
+        changed = true;
+        return next;
+    };
+
+    const nodes = replaceItems(project.nodes, 'node', 'text');
+    const edges = replaceItems(project.edges, 'edge', 'label');
+    const annotations = replaceItems(project.annotations, 'annotation', 'text');
+    return changed ? { ...project, nodes, edges, annotations } : project;
+};
@@ -0,0 +1,70 @@
+import { NodeType, Position } from '../types';
+
+// Geometria das formas adicionais de fluxograma (entrada/saída, documento, banco de
+// dados, entrada manual, espera, conector de página e preparação). O contorno é um
+// único caminho SVG, usado tanto no canvas quanto na exportação, e os pontos de
+// conexão acompanham a borda real da forma.
+
+export const IO_SKEW = 20;
+export const PREPARATION_INSET = 20;
+export const DOCUMENT_WAVE = 8;
+export const DATABASE_RY = 10;
+export const MANUAL_INPUT_SLOPE = 16;
+export const OFF_PAGE_TIP = 20;
+
+// Contorno das formas adicionais; para as formas originais devolve null.
+export const getShapeOutline = (type: NodeType, width: number, height: number): string | null => {
+    const w = width;
+    const h = height;
+    switch (type) {
+        case 'inputOutput':
+            return `M ${IO_SKEW} 0 H ${w} L ${w - IO_SKEW} ${h} H 0 Z`;
+        case 'document':
+            return `M 0 0 H ${w} V ${h - DOCUMENT_WAVE} Q ${w * 0.75} ${h - DOCUMENT_WAVE * 3} ${w / 2} ${h - DOCUMENT_WAVE} T 0 ${h - DOCUMENT_WAVE} Z`;
+        case 'database':
+            return `M 0 ${DATABASE_RY} A ${w / 2} ${DATABASE_RY} 0 0 1 ${w} ${DATABASE_RY} V ${h - DATABASE_RY} A ${w / 2} ${DATABASE_RY} 0 0 1 0 ${h - DATABASE_RY} Z`;
+        case 'manualInput':
+            return `M 0 ${MANUAL_INPUT_SLOPE} L ${w} 0 V ${h} H 0 Z`;
+        case 'delay': {
+            const r = Math.min(h / 2, w / 2);
+            return `M 0 0 H ${w - r} A ${r} ${h / 2} 0 0 1 ${w - r} ${h} H 0 Z`;
+        }
+        case 'offPage':
+            return `M 0 0 H ${w} V ${h - OFF_PAGE_TIP} L ${w / 2} ${h} L 0 ${h - OFF_PAGE_TIP} Z`;
+        case 'preparation':
+            return `M ${PREPARATION_INSET} 0 H ${w - PREPARATION_INSET} L ${w} ${h / 2} L ${w - PREPARATION_INSET} ${h} H ${PREPARATION_INSET} L 0 ${h / 2} Z`;
+        default:
+            return null;
+    }
+};
+
+// Traço complementar desenhado sobre o contorno (a borda frontal do cilindro).
+export const getShapeDetailPath = (type: NodeType, width: number): string | null =>
+    type === 'database' ? `M 0 ${DATABASE_RY} A ${width / 2} ${DATABASE_RY} 0 0 0 ${width} ${DATABASE_RY}` : null;
+
+// Pontos de conexão relativos ao bloco. Índices: 0: Top, 1: Right, 2: Bottom, 3: Left
+export const getShapeConnectionPoints = (type: NodeType, width: number, height: number): Position[] => {
+    const top = type === 'manualInput' ? MANUAL_INPUT_SLOPE / 2 : 0;
+    const bottom = type === 'document' ? height - DOCUMENT_WAVE : height;
+    const sideInset = type === 'inputOutput' ? IO_SKEW / 2 : 0;
+    return [
+        { x: width / 2, y: top },
+        { x: width - sideInset, y: height / 2 },
+        { x: width / 2, y: bottom },
+        { x: sideInset, y: height / 2 },
+    ];
+};
+
+// Espaço horizontal extra, além do padding normal, que o texto deve evitar.
+export const getShapeTextInset = (type: NodeType, width: number, height: number): number => {
+    switch (type) {
+        case 'inputOutput':
+            return IO_SKEW * 2;
+        case 'preparation':
+            return PREPARATION_INSET * 2;
+        case 'delay':
+            return Math.min(height / 2, width / 2);
+        default:
+            return 0;
+    }
+};
@@ -0,0 +1,61 @@
+import { FlowchartData, EdgeData, NodeData } from '../types';
+import { getDecisionBranch } from './layoutService';
+
+// Execução passo a passo de um fluxograma. O estado da simulação é apenas a
+// trilha de passos percorridos: cada passo guarda o bloco alcançado e a seta
+// usada para chegar até ele, o que permite voltar e exportar o caminho.
+
+export interface SimulationStep {
+    nodeId: string;
+    edgeId?: string;
+}
+
+const branchOrder = { yes: 0, no: 1 };
+
+export const startSimulation = (data: FlowchartData): SimulationStep[] => {
+    const start = data.nodes.find(n => n.type === 'start');
+    if (!start) {
+        throw new Error('O fluxograma não possui um bloco de início para simular.');
+    }
+    return [{ nodeId: start.id }];
+};
+
+// Saídas disponíveis a partir de um bloco; em decisões, "Sim" vem antes de "Não".
+export const getSimulationChoices = (data: FlowchartData, nodeId: string): EdgeData[] => {
+    const nodeIds = new Set(data.nodes.map(n => n.id));
+    const exits = data.edges.filter(e => e.source === nodeId && nodeIds.has(e.target));
+    const rank = (edge: EdgeData) => {
+        const branch = getDecisionBranch(edge);
+        return branch ? branchOrder[branch] : 2;
+    };
+    return exits.sort((a, b) => rank(a) - rank(b));
+};
+
+export const advanceSimulation = (steps: SimulationStep[], edge: EdgeData): SimulationStep[] => [
+    ...steps,
+    { nodeId: edge.target, edgeId: edge.id },
+];
+
+export const getChoiceLabel = (data: FlowchartData, edge: EdgeData) => {
+    if (edge.label?.trim()) return edge.label.trim();
+    const target = data.nodes.find(n => n.id === edge.target);
+    return target ? `Ir para "${target.text}"` : 'Avançar';
+};
+
+const describeStep = (node: NodeData | undefined, nextEdge: EdgeData | undefined) => {
+    const text = node ? node.text.replace(/\s+/g, ' ').trim() : '(bloco removido)';
+    const choice = node?.type === 'decision' && nextEdge?.label?.trim() ? ` → ${nextEdge.label.trim()}` : '';
+    return `${text}${choice}`;
+};
+
+// Lista numerada dos passos, com a resposta escolhida em cada decisão.
+export const exportSimulationPath = (data: FlowchartData, steps: SimulationStep[]): string => {
+    const nodeById = new Map(data.nodes.map(n => [n.id, n]));
+    const edgeById = new Map(data.edges.map(e => [e.id, e]));
+    const lines = steps.map((step, i) => {
+        const nextEdgeId = steps[i + 1]?.edgeId;
+        const nextEdge = nextEdgeId ? edgeById.get(nextEdgeId) : undefined;
+        return `${i + 1}. ${describeStep(nodeById.get(step.nodeId), nextEdge)}`;
+    });
+    return lines.join('\n') + '\n';
+};
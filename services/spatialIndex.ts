@@ -0,0 +1,103 @@
+import { Rect } from './swimlaneService';
+
+// Índice espacial (quadtree) para encontrar rapidamente os itens que tocam uma
+// área: o que está na tela, sob o cursor ou dentro da caixa de seleção. O índice
+// é imutável; quando os itens mudam, basta criar outro (a construção é rápida o
+// bastante para ser refeita a cada quadro de um arraste).
+
+export interface SpatialEntry<T> {
+    rect: Rect;
+    item: T;
+}
+
+export interface SpatialIndex<T> {
+    // Itens cujo retângulo toca a área, na mesma ordem da lista usada na criação
+    // (a ordem de desenho, para que o último seja o que está por cima).
+    search: (area: Rect) => T[];
+}
+
+interface QuadNode {
+    bounds: Rect;
+    // Índices (em "entries") dos itens que não cabem inteiros em um só quadrante.
+    items: number[];
+    children: QuadNode[] | null;
+}
+
+const MAX_ITEMS_PER_NODE = 8;
+const MAX_DEPTH = 10;
+
+export const rectsIntersect = (a: Rect, b: Rect) =>
+    a.x <= b.x + b.width && a.x + a.width >= b.x && a.y <= b.y + b.height && a.y + a.height >= b.y;
+
+const containsRect = (outer: Rect, inner: Rect) =>
+    inner.x >= outer.x && inner.y >= outer.y &&
+    inner.x + inner.width <= outer.x + outer.width && inner.y + inner.height <= outer.y + outer.height;
+
+export const expandRect = (rect: Rect, margin: number): Rect => ({
+    x: rect.x - margin,
+    y: rect.y - margin,
+    width: rect.width + margin * 2,
+    height: rect.height + margin * 2,
+});
+
+export const pointRect = (x: number, y: number, radius = 0): Rect => ({ x: x - radius, y: y - radius, width: radius * 2, height: radius * 2 });
+
+const splitBounds = ({ x, y, width, height }: Rect): Rect[] => {
+    const halfWidth = width / 2;
+    const halfHeight = height / 2;
+    return [
+        { x, y, width: halfWidth, height: halfHeight },
+        { x: x + halfWidth, y, width: halfWidth, height: halfHeight },
+        { x, y: y + halfHeight, width: halfWidth, height: halfHeight },
+        { x: x + halfWidth, y: y + halfHeight, width: halfWidth, height: halfHeight },
+    ];
+};
+
+export const createSpatialIndex = <T>(entries: SpatialEntry<T>[]): SpatialIndex<T> => {
+    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+    entries.forEach(({ rect }) => {
+        minX = Math.min(minX, rect.x); minY = Math.min(minY, rect.y);
+        maxX = Math.max(maxX, rect.x + rect.width); maxY = Math.max(maxY, rect.y + rect.height);
+    });
+    const root: QuadNode = {
+        bounds: isFinite(minX) ? { x: minX, y: minY, width: maxX - minX, height: maxY - minY } : { x: 0, y: 0, width: 0, height: 0 },
+        items: [],
+        children: null,
+    };
+
+    const insert = (node: QuadNode, index: number, depth: number) => {
+        if (node.children) {
+            const child = node.children.find(c => containsRect(c.bounds, entries[index].rect));
+            if (child) {
+                insert(child, index, depth + 1);
+                return;
+            }
+            node.items.push(index);
+            return;
+        }
+        node.items.push(index);
+        if (node.items.length > MAX_ITEMS_PER_NODE && depth < MAX_DEPTH) {
+            node.children = splitBounds(node.bounds).map(bounds => ({ bounds, items: [], children: null }));
+            const items = node.items;
+            node.items = [];
+            items.forEach(i => insert(node, i, depth));
+        }
+    };
+    entries.forEach((_, index) => insert(root, index, 0));
+
+    const search = (area: Rect): T[] => {
+        const found: number[] = [];
+        const visit = (node: QuadNode) => {
+            if (!rectsIntersect(node.bounds, area)) return;
+            node.items.forEach(index => {
+                if (rectsIntersect(entries[index].rect, area)) found.push(index);
+            });
+            node.children?.forEach(visit);
+        };
+        visit(root);
+        return found.sort((a, b) => a - b).map(index => entries[index].item);
+    };
+
+    return { search };
+};
+
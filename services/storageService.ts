@@ -0,0 +1,203 @@
+import { Project } from '../types';
+import { StoredHistoryEntry, compactHistory, expandHistory, createHistoryEntry } from './historyService';
+
+// Armazenamento dos projetos no IndexedDB. Cada projeto é um registro próprio,
+// e só os projetos alterados desde o último salvamento são regravados. Os dados
+// da sessão (abas abertas e aba ativa) ficam em um store separado. O histórico
+// de desfazer é gravado apenas com as diferenças entre passos.
+
+export interface StoredData {
+    projects: Project[];
+    openProjectIds: string[];
+    activeProjectId: string | null;
+}
+
+// Projetos gravados e excluídos por um salvamento, avisados às outras abas.
+export interface SaveResult {
+    savedIds: string[];
+    removedIds: string[];
+}
+
+const DB_NAME = 'flowchart-db';
+const DB_VERSION = 1;
+const PROJECTS_STORE = 'projects';
+const SESSION_STORE = 'session';
+
+const MIGRATED_KEY = 'migrated-from-local-storage';
+const OPEN_IDS_KEY = 'open-project-ids';
+const ACTIVE_ID_KEY = 'active-project-id';
+
+const LEGACY_KEYS = {
+    projects: 'flowchart-projects',
+    openIds: 'flowchart-open-ids',
+    activeId: 'flowchart-active-project-id',
+};
+
+// Registro gravado no banco; projetos antigos ainda trazem o histórico completo.
+type StoredProject = Omit<Project, 'history'> & { history: StoredHistoryEntry[] | unknown[] };
+
+const toStoredProject = (project: Project): StoredProject => ({ ...project, history: compactHistory(project.history) });
+
+const fromStoredProject = (stored: StoredProject): Project => {
+    const history = expandHistory(stored.history);
+    if (history.length === 0) {
+        const { nodes, edges, annotations, swimlanes, groups } = stored;
+        history.push(createHistoryEntry({ nodes, edges, annotations, swimlanes: swimlanes ?? [], groups: groups ?? [] }, 'Estado inicial', 0));
+    }
+    const historyIndex = Math.min(Math.max(0, stored.historyIndex ?? 0), history.length - 1);
+    return { ...stored, history, historyIndex };
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+    new Promise<T>((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+const transactionDone = (transaction: IDBTransaction) =>
+    new Promise<void>((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error ?? new Error('A transação foi cancelada.'));
+    });
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = () => {
+    if (!databasePromise) {
+        databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+            if (typeof indexedDB === 'undefined') {
+                reject(new Error('Este navegador não oferece suporte ao IndexedDB.'));
+                return;
+            }
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(PROJECTS_STORE)) db.createObjectStore(PROJECTS_STORE, { keyPath: 'id' });
+                if (!db.objectStoreNames.contains(SESSION_STORE)) db.createObjectStore(SESSION_STORE);
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+        databasePromise.catch(() => { databasePromise = null; });
+    }
+    return databasePromise;
+};
+
+export const isQuotaExceededError = (error: unknown) =>
+    error instanceof DOMException && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+// Versão de cada projeto que está gravada no banco. Como o estado do React é
+// imutável, basta comparar as referências para saber o que mudou.
+let savedProjects = new Map<string, Project>();
+
+const parseLegacyArray = (key: string): unknown[] => {
+    const raw = window.localStorage.getItem(key);
+    if (!raw) return [];
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed : [];
+};
+
+// Copia os dados antigos do localStorage para o IndexedDB na primeira execução.
+const migrateFromLocalStorage = async (db: IDBDatabase) => {
+    const session = db.transaction(SESSION_STORE, 'readonly').objectStore(SESSION_STORE);
+    if (await requestToPromise(session.get(MIGRATED_KEY))) return;
+
+    let projects: Project[] = [];
+    let openIds: string[] = [];
+    let activeId: string | null = null;
+    try {
+        projects = parseLegacyArray(LEGACY_KEYS.projects) as Project[];
+        openIds = parseLegacyArray(LEGACY_KEYS.openIds).filter((id): id is string => typeof id === 'string');
+        activeId = window.localStorage.getItem(LEGACY_KEYS.activeId);
+    } catch (error) {
+        console.error('Dados antigos do armazenamento local estão corrompidos e foram ignorados.', error);
+    }
+
+    const transaction = db.transaction([PROJECTS_STORE, SESSION_STORE], 'readwrite');
+    const projectStore = transaction.objectStore(PROJECTS_STORE);
+    const sessionStore = transaction.objectStore(SESSION_STORE);
+    projects.forEach(project => {
+        if (project && typeof project.id === 'string') projectStore.put(project);
+    });
+    sessionStore.put(openIds, OPEN_IDS_KEY);
+    sessionStore.put(activeId, ACTIVE_ID_KEY);
+    sessionStore.put(true, MIGRATED_KEY);
+    await transactionDone(transaction);
+
+    Object.values(LEGACY_KEYS).forEach(key => window.localStorage.removeItem(key));
+};
+
+export const loadStoredData = async (): Promise<StoredData> => {
+    const db = await openDatabase();
+    await migrateFromLocalStorage(db);
+
+    const transaction = db.transaction([PROJECTS_STORE, SESSION_STORE], 'readonly');
+    const [storedProjects, openProjectIds, activeProjectId] = await Promise.all([
+        requestToPromise(transaction.objectStore(PROJECTS_STORE).getAll() as IDBRequest<StoredProject[]>),
+        requestToPromise(transaction.objectStore(SESSION_STORE).get(OPEN_IDS_KEY) as IDBRequest<string[] | undefined>),
+        requestToPromise(transaction.objectStore(SESSION_STORE).get(ACTIVE_ID_KEY) as IDBRequest<string | null | undefined>),
+    ]);
+
+    const loadedProjects = storedProjects.map(fromStoredProject);
+    savedProjects = new Map(loadedProjects.map(p => [p.id, p]));
+    return {
+        projects: loadedProjects,
+        openProjectIds: Array.isArray(openProjectIds) ? openProjectIds : [],
+        activeProjectId: activeProjectId ?? null,
+    };
+};
+
+// Indica se o projeto tem alterações ainda não gravadas no banco por esta aba.
+export const hasUnsavedChanges = (project: Project) => savedProjects.get(project.id) !== project;
+
+let saveQueue: Promise<unknown> = Promise.resolve();
+
+const writeChanges = async (projects: Project[], openProjectIds: string[], activeProjectId: string | null): Promise<SaveResult> => {
+    const db = await openDatabase();
+    const changed = projects.filter(p => savedProjects.get(p.id) !== p);
+    const currentIds = new Set(projects.map(p => p.id));
+    const removedIds = [...savedProjects.keys()].filter(id => !currentIds.has(id));
+
+    const transaction = db.transaction([PROJECTS_STORE, SESSION_STORE], 'readwrite');
+    const projectStore = transaction.objectStore(PROJECTS_STORE);
+    changed.forEach(project => projectStore.put(toStoredProject(project)));
+    removedIds.forEach(id => projectStore.delete(id));
+    const sessionStore = transaction.objectStore(SESSION_STORE);
+    sessionStore.put(openProjectIds, OPEN_IDS_KEY);
+    sessionStore.put(activeProjectId, ACTIVE_ID_KEY);
+    await transactionDone(transaction);
+
+    changed.forEach(project => savedProjects.set(project.id, project));
+    removedIds.forEach(id => savedProjects.delete(id));
+    return { savedIds: changed.map(p => p.id), removedIds };
+};
+
+// Os salvamentos são enfileirados para que uma gravação antiga nunca termine
+// depois de uma mais recente.
+export const saveStoredData = (projects: Project[], openProjectIds: string[], activeProjectId: string | null): Promise<SaveResult> => {
+    const result = saveQueue.then(() => writeChanges(projects, openProjectIds, activeProjectId));
+    saveQueue = result.catch(() => undefined);
+    return result;
+};
+
+// Lê projetos gravados por outra aba. A leitura entra na mesma fila dos
+// salvamentos, depois das gravações pendentes desta aba.
+export const loadProjects = (ids: string[]): Promise<Project[]> => {
+    const result = saveQueue.then(async () => {
+        const db = await openDatabase();
+        const store = db.transaction(PROJECTS_STORE, 'readonly').objectStore(PROJECTS_STORE);
+        const stored = await Promise.all(ids.map(id => requestToPromise(store.get(id) as IDBRequest<StoredProject | undefined>)));
+        return stored.filter((p): p is StoredProject => !!p).map(fromStoredProject);
+    });
+    saveQueue = result.catch(() => undefined);
+    return result;
+};
+
+// Registra projetos que já estão no banco (gravados por outra aba) como salvos,
+// e esquece os que outra aba excluiu, para que não sejam gravados de novo.
+// Deve ser chamado só depois que o estado com esses projetos estiver aplicado.
+export const markProjectsSaved = (projects: Project[], removedIds: string[] = []) => {
+    projects.forEach(project => savedProjects.set(project.id, project));
+    removedIds.forEach(id => savedProjects.delete(id));
+};
@@ -0,0 +1,16 @@
+import { Project } from '../types';
+
+// Blocos de subprocesso apontam para outros projetos. Este módulo reúne as
+// consultas sobre esses vínculos e a trilha de navegação entre projetos.
+
+// Projetos (exceto o próprio) que possuem algum subprocesso apontando para "projectId".
+export const findReferencingProjects = (projects: Project[], projectId: string): Project[] =>
+    projects.filter(p => p.id !== projectId && p.nodes.some(n => n.type === 'subprocess' && n.linkedProjectId === projectId));
+
+// Acrescenta um passo à trilha. Se a trilha não termina no projeto de origem, ela
+// recomeça nele; se o destino já está na trilha, volta até ele em vez de repetir.
+export const extendNavigationTrail = (trail: string[], fromProjectId: string, toProjectId: string): string[] => {
+    const base = trail[trail.length - 1] === fromProjectId ? trail : [fromProjectId];
+    const existingIndex = base.indexOf(toProjectId);
+    return existingIndex >= 0 ? base.slice(0, existingIndex + 1) : [...base, toProjectId];
+};
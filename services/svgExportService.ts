@@ -0,0 +1,376 @@
+import { FlowchartData, NodeData, NodeType, AnnotationData, SwimlaneData, GroupData, EdgeRouting, CommentThread } from '../types';
+import { getNodeSize } from './flowchartUtils';
+import { getEdgeGeometry } from './edgeRoutingService';
+import { getSwimlaneBounds, getLaneRects, POOL_HEADER_SIZE, LANE_HEADER_SIZE, Rect } from './swimlaneService';
+import { applyCollapsedGroups, getGroupBounds, GROUP_HEADER_SIZE, ANNOTATION_DEFAULT } from './groupService';
+import { getShapeOutline, getShapeDetailPath, getShapeTextInset } from './shapeService';
+import { COMMENT_BADGE_COLOR, getCommentAnchor, getCommentTargetKey } from './commentService';
+
+// Serializa o fluxograma diretamente em um SVG autocontido (estilos e cores
+// embutidos, sem foreignObject nem recursos externos), pronto para ser salvo
+// como arquivo ou rasterizado em PNG sem acesso à rede.
+
+export type ExportTheme = 'light' | 'dark';
+
+export interface SvgExportOptions {
+    theme: ExportTheme;
+    autoConnect: boolean;
+    edgeRouting?: EdgeRouting;
+    padding?: number;
+    // Marcadores das conversas de comentários em aberto; fora da imagem por padrão.
+    includeComments?: boolean;
+}
+
+export interface SvgExportResult {
+    svg: string;
+    width: number;
+    height: number;
+}
+
+const DEFAULT_PADDING = 50;
+const FONT_FAMILY = "Inter, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif";
+const NODE_FONT_SIZE = 14;
+const EDGE_FONT_SIZE = 12;
+const LINE_HEIGHT = 20;
+
+const themeColors: Record<ExportTheme, { background: string; edge: string; laneFill: string; laneHeader: string; laneText: string }> = {
+    dark: { background: '#111827', edge: '#9CA3AF', laneFill: '#1F2937', laneHeader: '#2D3748', laneText: '#F9FAFB' },
+    light: { background: '#F9FAFB', edge: '#6B7280', laneFill: '#F3F4F6', laneHeader: '#FFFFFF', laneText: '#1F2937' },
+};
+
+export const nodeColors: Record<NodeType, { stroke: string; gradient: [string, string] }> = {
+    start: { stroke: '#34D399', gradient: ['#10B981', '#059669'] },
+    end: { stroke: '#F87171', gradient: ['#EF4444', '#DC2626'] },
+    process: { stroke: '#60A5FA', gradient: ['#3B82F6', '#2563EB'] },
+    decision: { stroke: '#A78BFA', gradient: ['#8B5CF6', '#7C3AED'] },
+    subprocess: { stroke: '#2DD4BF', gradient: ['#14B8A6', '#0D9488'] },
+    inputOutput: { stroke: '#FB923C', gradient: ['#F97316', '#EA580C'] },
+    document: { stroke: '#38BDF8', gradient: ['#0EA5E9', '#0284C7'] },
+    database: { stroke: '#818CF8', gradient: ['#6366F1', '#4F46E5'] },
+    manualInput: { stroke: '#F472B6', gradient: ['#EC4899', '#DB2777'] },
+    delay: { stroke: '#FACC15', gradient: ['#EAB308', '#CA8A04'] },
+    offPage: { stroke: '#94A3B8', gradient: ['#64748B', '#475569'] },
+    preparation: { stroke: '#A3E635', gradient: ['#84CC16', '#65A30D'] },
+};
+
+const SUBPROCESS_BAR_INSET = 12;
+
+const COMMENT_BADGE_RADIUS = 11;
+const COMMENT_NOTE_MAX_LENGTH = 48;
+const COMMENT_FONT_SIZE = 12;
+
+const escapeXml = (text: string) =>
+    text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+let measureContext: CanvasRenderingContext2D | null | undefined;
+
+// Mede o texto com um canvas quando disponível; fora do navegador usa uma largura média por caractere.
+const measureText = (text: string, fontSize: number, fontWeight: number) => {
+    if (measureContext === undefined) {
+        measureContext = typeof document !== 'undefined' ? document.createElement('canvas').getContext('2d') : null;
+    }
+    if (!measureContext) return text.length * fontSize * 0.55;
+    measureContext.font = `${fontWeight} ${fontSize}px ${FONT_FAMILY}`;
+    return measureContext.measureText(text).width;
+};
+
+// Quebra o texto em linhas que cabem na largura disponível; palavras longas são
+// quebradas por caractere, como o "break-all" usado no canvas.
+const wrapText = (text: string, maxWidth: number, fontSize: number, fontWeight: number, preserveNewlines: boolean) => {
+    const paragraphs = preserveNewlines ? text.split('\n') : [text.replace(/\s+/g, ' ')];
+    const lines: string[] = [];
+    paragraphs.forEach(paragraph => {
+        let current = '';
+        paragraph.split(' ').forEach(word => {
+            const candidate = current ? `${current} ${word}` : word;
+            if (measureText(candidate, fontSize, fontWeight) <= maxWidth) {
+                current = candidate;
+                return;
+            }
+            if (current) lines.push(current);
+            current = '';
+            for (const ch of word) {
+                if (current && measureText(current + ch, fontSize, fontWeight) > maxWidth) {
+                    lines.push(current);
+                    current = '';
+                }
+                current += ch;
+            }
+        });
+        lines.push(current);
+    });
+    return lines;
+};
+
+const renderTextBlock = (lines: string[], cx: number, cy: number, attributes: string) => {
+    const firstY = cy - ((lines.length - 1) * LINE_HEIGHT) / 2;
+    const tspans = lines
+        .map((line, i) => `<tspan x="${round(cx)}" y="${round(firstY + i * LINE_HEIGHT)}">${escapeXml(line) || ' '}</tspan>`)
+        .join('');
+    return `<text text-anchor="middle" dominant-baseline="central" ${attributes}>${tspans}</text>`;
+};
+
+const getShapeMarkup = (type: NodeType, width: number, height: number, paint: string) => {
+    switch (type) {
+        case 'start':
+        case 'end':
+            return `<rect x="0" y="0" width="${width}" height="${height}" rx="${height / 2}" ry="${height / 2}" ${paint}/>`;
+        case 'process':
+            return `<rect x="0" y="0" width="${width}" height="${height}" rx="8" ry="8" ${paint}/>`;
+        case 'decision':
+            return `<path d="M ${width / 2} 0 L ${width} ${height / 2} L ${width / 2} ${height} L 0 ${height / 2} Z" ${paint}/>`;
+        case 'subprocess':
+            return `<rect x="0" y="0" width="${width}" height="${height}" rx="4" ry="4" ${paint}/>`
+                + `<path d="M ${SUBPROCESS_BAR_INSET} 0 V ${height} M ${width - SUBPROCESS_BAR_INSET} 0 V ${height}" stroke="rgba(255, 255, 255, 0.6)" stroke-width="1.5"/>`;
+        default: {
+            const detail = getShapeDetailPath(type, width);
+            return `<path d="${getShapeOutline(type, width, height) ?? `M 0 0 H ${width} V ${height} H 0 Z`}" ${paint}/>`
+                + (detail ? `<path d="${detail}" fill="none" stroke="rgba(255, 255, 255, 0.6)" stroke-width="1.5"/>` : '');
+        }
+    }
+};
+
+const renderNode = (node: NodeData) => {
+    const { width, height } = getNodeSize(node);
+    const paint = node.color
+        ? `fill="${escapeXml(node.color)}" stroke="${escapeXml(node.color)}" stroke-width="1.5"`
+        : `fill="url(#export-grad-${node.type})" stroke="${nodeColors[node.type].stroke}" stroke-width="1.5"`;
+    const horizontalPadding = node.type === 'decision' ? 40 : node.type === 'subprocess' ? 16 + SUBPROCESS_BAR_INSET * 2 : 16 + getShapeTextInset(node.type, width, height);
+    const lines = wrapText(node.text, Math.max(10, width - horizontalPadding), NODE_FONT_SIZE, 500, false);
+    return `<g transform="translate(${round(node.position.x)}, ${round(node.position.y)})">`
+        + `<g filter="url(#export-node-shadow)">${getShapeMarkup(node.type, width, height, paint)}</g>`
+        + renderTextBlock(lines, width / 2, height / 2, `fill="#FFFFFF" font-size="${NODE_FONT_SIZE}" font-weight="500"`)
+        + `</g>`;
+};
+
+const renderAnnotation = (annotation: AnnotationData) => {
+    const width = annotation.width ?? ANNOTATION_DEFAULT.width;
+    const height = annotation.height ?? ANNOTATION_DEFAULT.height;
+    const lines = wrapText(annotation.text, Math.max(10, width - 32), NODE_FONT_SIZE, 500, true);
+    return `<g transform="translate(${round(annotation.position.x)}, ${round(annotation.position.y)}) rotate(-2, ${width / 2}, ${height / 2})">`
+        + `<rect x="0" y="0" width="${width}" height="${height}" fill="#FBBF24" stroke="#F59E0B" stroke-width="1.5" filter="url(#export-annotation-shadow)"/>`
+        + renderTextBlock(lines, width / 2, height / 2, `fill="#1F2937" font-size="${NODE_FONT_SIZE}" font-weight="500"`)
+        + `</g>`;
+};
+
+// Títulos de piscinas horizontais são escritos na vertical, como no canvas.
+const renderSwimlaneTitle = (text: string, x: number, y: number, width: number, height: number, rotate: boolean, attributes: string) => {
+    const cx = round(x + width / 2);
+    const cy = round(y + height / 2);
+    const transform = rotate ? ` transform="rotate(-90, ${cx}, ${cy})"` : '';
+    return `<text x="${cx}" y="${cy}" text-anchor="middle" dominant-baseline="central"${transform} ${attributes}>${escapeXml(text)}</text>`;
+};
+
+const renderSwimlane = (swimlane: SwimlaneData, colors: typeof themeColors[ExportTheme]) => {
+    const isHorizontal = swimlane.orientation === 'horizontal';
+    const bounds = getSwimlaneBounds(swimlane);
+    const border = `stroke="${colors.edge}" stroke-width="1"`;
+    const lanes = getLaneRects(swimlane).map(rect => {
+        const header = isHorizontal
+            ? { x: rect.x, y: rect.y, width: LANE_HEADER_SIZE, height: rect.height }
+            : { x: rect.x, y: rect.y, width: rect.width, height: LANE_HEADER_SIZE };
+        return `<rect x="${round(rect.x)}" y="${round(rect.y)}" width="${round(rect.width)}" height="${round(rect.height)}" fill="none" ${border}/>`
+            + `<rect x="${round(header.x)}" y="${round(header.y)}" width="${round(header.width)}" height="${round(header.height)}" fill="${colors.laneHeader}" ${border}/>`
+            + renderSwimlaneTitle(rect.lane.title, header.x, header.y, header.width, header.height, isHorizontal, `fill="${colors.laneText}" font-size="${EDGE_FONT_SIZE}" font-weight="500"`);
+    }).join('');
+    const poolHeader = isHorizontal
+        ? { x: bounds.x, y: bounds.y, width: POOL_HEADER_SIZE, height: bounds.height }
+        : { x: bounds.x, y: bounds.y, width: bounds.width, height: POOL_HEADER_SIZE };
+    return `<g>`
+        + `<rect x="${round(bounds.x)}" y="${round(bounds.y)}" width="${round(bounds.width)}" height="${round(bounds.height)}" fill="${colors.laneFill}" fill-opacity="0.6" stroke="${colors.edge}" stroke-width="1.5"/>`
+        + lanes
+        + `<rect x="${round(poolHeader.x)}" y="${round(poolHeader.y)}" width="${round(poolHeader.width)}" height="${round(poolHeader.height)}" fill="${colors.laneHeader}" stroke="${colors.edge}" stroke-width="1.5"/>`
+        + renderSwimlaneTitle(swimlane.title, poolHeader.x, poolHeader.y, poolHeader.width, poolHeader.height, isHorizontal, `fill="${colors.laneText}" font-size="${NODE_FONT_SIZE}" font-weight="600"`)
+        + `</g>`;
+};
+
+const renderGroupFrame = (group: GroupData, bounds: Rect, colors: typeof themeColors[ExportTheme]) =>
+    `<g>`
+    + `<rect x="${round(bounds.x)}" y="${round(bounds.y)}" width="${round(bounds.width)}" height="${round(bounds.height)}" rx="10" fill="none" stroke="${colors.edge}" stroke-width="1.5" stroke-dasharray="6 4"/>`
+    + `<text x="${round(bounds.x + 12)}" y="${round(bounds.y + GROUP_HEADER_SIZE / 2)}" dominant-baseline="central" fill="${colors.laneText}" font-size="${NODE_FONT_SIZE}" font-weight="600">${escapeXml(group.title)}</text>`
+    + `</g>`;
+
+// Todos os pontos do caminho (extremidades e pontos de controle) limitam a curva,
+// então servem para ampliar a área exportada.
+const getPathPoints = (path: string) => {
+    const numbers = (path.match(/-?\d+(?:\.\d+)?(?:e-?\d+)?/gi) || []).map(Number);
+    const points: { x: number; y: number }[] = [];
+    for (let i = 0; i + 1 < numbers.length; i += 2) points.push({ x: numbers[i], y: numbers[i + 1] });
+    return points;
+};
+
+const getGroupFrames = (groups: GroupData[], nodes: NodeData[], annotations: AnnotationData[]) => groups
+    .filter(group => !group.collapsed)
+    .map(group => ({ group, bounds: getGroupBounds(group, nodes, annotations) }))
+    .filter((frame): frame is { group: GroupData; bounds: Rect } => frame.bounds !== null);
+
+// Área ocupada pelo fluxograma como aparece no canvas (raias, grupos, blocos,
+// anotações e o traçado das conexões). É a mesma área usada na exportação e no
+// enquadramento do canvas; null quando não há nada desenhado.
+export const getFlowchartBounds = (data: FlowchartData, autoConnect: boolean, edgeRouting: EdgeRouting = 'curved'): Rect | null => {
+    const groups = data.groups || [];
+    const visible = applyCollapsedGroups(data.nodes, data.edges, data.annotations || [], groups);
+    const nodes = [...visible.nodes, ...visible.placeholders];
+    const nodeById = new Map(nodes.map(n => [n.id, n]));
+
+    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+    const include = (x: number, y: number) => {
+        minX = Math.min(minX, x); minY = Math.min(minY, y);
+        maxX = Math.max(maxX, x); maxY = Math.max(maxY, y);
+    };
+
+    (data.swimlanes || []).forEach(swimlane => {
+        const bounds = getSwimlaneBounds(swimlane);
+        include(bounds.x, bounds.y);
+        include(bounds.x + bounds.width, bounds.y + bounds.height);
+    });
+    getGroupFrames(groups, data.nodes, visible.annotations).forEach(({ bounds }) => {
+        include(bounds.x, bounds.y);
+        include(bounds.x + bounds.width, bounds.y + bounds.height);
+    });
+    nodes.forEach(node => {
+        const { width, height } = getNodeSize(node);
+        include(node.position.x, node.position.y);
+        include(node.position.x + width, node.position.y + height);
+    });
+    visible.annotations.forEach(ann => {
+        include(ann.position.x, ann.position.y);
+        include(ann.position.x + (ann.width ?? ANNOTATION_DEFAULT.width), ann.position.y + (ann.height ?? ANNOTATION_DEFAULT.height));
+    });
+    visible.edges.forEach(edge => {
+        const sourceNode = nodeById.get(edge.source);
+        const targetNode = nodeById.get(edge.target);
+        if (!sourceNode || !targetNode) return;
+        const { path } = getEdgeGeometry(edge, sourceNode, targetNode, autoConnect, edgeRouting, nodes);
+        getPathPoints(path).forEach(p => include(p.x, p.y));
+    });
+
+    if (!isFinite(minX)) return null;
+    return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+};
+
+export const exportToSvg = (data: FlowchartData, options: SvgExportOptions): SvgExportResult => {
+    const { theme, autoConnect, edgeRouting = 'curved', padding = DEFAULT_PADDING, includeComments = false } = options;
+    const colors = themeColors[theme];
+    const swimlanes = data.swimlanes || [];
+    const groups = data.groups || [];
+    // Grupos recolhidos são exportados como aparecem no canvas: um único bloco.
+    const visible = applyCollapsedGroups(data.nodes, data.edges, data.annotations || [], groups);
+    const annotations = visible.annotations;
+    const nodes = [...visible.nodes, ...visible.placeholders];
+    const nodeById = new Map(nodes.map(n => [n.id, n]));
+    const groupFrames = getGroupFrames(groups, data.nodes, annotations);
+
+    const contentBounds = getFlowchartBounds(data, autoConnect, edgeRouting);
+    let minX = contentBounds?.x ?? Infinity, minY = contentBounds?.y ?? Infinity;
+    let maxX = contentBounds ? contentBounds.x + contentBounds.width : -Infinity;
+    let maxY = contentBounds ? contentBounds.y + contentBounds.height : -Infinity;
+    const include = (x: number, y: number) => {
+        minX = Math.min(minX, x); minY = Math.min(minY, y);
+        maxX = Math.max(maxX, x); maxY = Math.max(maxY, y);
+    };
+
+    const edgeMarkup = visible.edges.map(edge => {
+        const sourceNode = nodeById.get(edge.source);
+        const targetNode = nodeById.get(edge.target);
+        if (!sourceNode || !targetNode) return '';
+        const { path, labelPos } = getEdgeGeometry(edge, sourceNode, targetNode, autoConnect, edgeRouting, nodes);
+        const label = edge.label
+            ? `<text x="${round(labelPos.x)}" y="${round(labelPos.y)}" text-anchor="middle" dominant-baseline="central" fill="${colors.edge}" font-size="${EDGE_FONT_SIZE}" font-weight="500" stroke="${colors.background}" stroke-width="4" stroke-linejoin="round" paint-order="stroke">${escapeXml(edge.label)}</text>`
+            : '';
+        return `<g><path d="${path}" fill="none" stroke="${colors.edge}" stroke-width="2" marker-end="url(#export-arrowhead)"/>${label}</g>`;
+    }).join('');
+
+    // Um marcador por item comentado, com a contagem e o início da primeira conversa.
+    const commentsByTarget = new Map<string, CommentThread[]>();
+    (includeComments ? data.comments || [] : []).filter(thread => !thread.resolved).forEach(thread => {
+        const key = getCommentTargetKey(thread);
+        commentsByTarget.set(key, [...(commentsByTarget.get(key) || []), thread]);
+    });
+    const commentMarkup = Array.from(commentsByTarget.values()).map(threads => {
+        const anchor = getCommentAnchor(threads[0].target, nodes, visible.edges, autoConnect, edgeRouting);
+        if (!anchor) return '';
+        const first = threads[0].messages[0];
+        const text = `${first.author}: ${first.text}`.replace(/\s+/g, ' ');
+        const note = text.length > COMMENT_NOTE_MAX_LENGTH ? `${text.slice(0, COMMENT_NOTE_MAX_LENGTH - 1)}…` : text;
+        const count = threads.reduce((sum, thread) => sum + thread.messages.length, 0);
+        include(anchor.x - COMMENT_BADGE_RADIUS, anchor.y - COMMENT_BADGE_RADIUS);
+        include(anchor.x + COMMENT_BADGE_RADIUS + 6 + note.length * COMMENT_FONT_SIZE * 0.6, anchor.y + COMMENT_BADGE_RADIUS);
+        return `<g transform="translate(${round(anchor.x)}, ${round(anchor.y)})">`
+            + `<circle r="${COMMENT_BADGE_RADIUS}" fill="${COMMENT_BADGE_COLOR}" stroke="${colors.background}" stroke-width="2"/>`
+            + `<text text-anchor="middle" dominant-baseline="central" fill="#FFFFFF" font-size="11" font-weight="700">${count}</text>`
+            + `<text x="${COMMENT_BADGE_RADIUS + 6}" dominant-baseline="central" fill="${colors.laneText}" font-size="${COMMENT_FONT_SIZE}" stroke="${colors.background}" stroke-width="4" stroke-linejoin="round" paint-order="stroke">${escapeXml(note)}</text>`
+            + `</g>`;
+    }).join('');
+
+    if (!isFinite(minX)) {
+        minX = 0; minY = 0; maxX = 0; maxY = 0;
+    }
+
+    const width = Math.ceil(maxX - minX + padding * 2);
+    const height = Math.ceil(maxY - minY + padding * 2);
+
+    const gradients = (Object.keys(nodeColors) as NodeType[]).map(type => {
+        const [from, to] = nodeColors[type].gradient;
+        const stops = `<stop offset="0%" stop-color="${from}"/><stop offset="100%" stop-color="${to}"/>`;
+        return type === 'start' || type === 'end'
+            ? `<radialGradient id="export-grad-${type}">${stops}</radialGradient>`
+            : `<linearGradient id="export-grad-${type}" x1="0%" y1="0%" x2="${type === 'decision' ? '100%' : '0%'}" y2="100%">${stops}</linearGradient>`;
+    }).join('');
+
+    const svg = [
+        `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="${FONT_FAMILY}">`,
+        `<defs>`,
+        gradients,
+        `<marker id="export-arrowhead" viewBox="0 0 10 10" refX="8" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">`,
+        `<path d="M 1 2 L 7 5 L 1 8" fill="none" stroke="${colors.edge}" stroke-width="1.5" stroke-linecap="round"/>`,
+        `</marker>`,
+        `<filter id="export-node-shadow" x="-20%" y="-20%" width="140%" height="160%"><feDropShadow dx="0" dy="4" stdDeviation="3" flood-color="#000000" flood-opacity="0.3"/></filter>`,
+        `<filter id="export-annotation-shadow" x="-50%" y="-50%" width="200%" height="200%"><feDropShadow dx="3" dy="5" stdDeviation="5" flood-color="#000000" flood-opacity="0.4"/></filter>`,
+        `</defs>`,
+        `<rect x="0" y="0" width="${width}" height="${height}" fill="${colors.background}"/>`,
+        `<g transform="translate(${round(-minX + padding)}, ${round(-minY + padding)})">`,
+        swimlanes.map(swimlane => renderSwimlane(swimlane, colors)).join(''),
+        groupFrames.map(({ group, bounds }) => renderGroupFrame(group, bounds, colors)).join(''),
+        edgeMarkup,
+        annotations.map(renderAnnotation).join(''),
+        nodes.map(renderNode).join(''),
+        commentMarkup,
+        `</g>`,
+        `</svg>`,
+    ].join('\n');
+
+    return { svg, width, height };
+};
+
+// Rasteriza o SVG em um canvas e devolve um data URL PNG. Usa um data URL como
+// origem da imagem, então nada é buscado na rede e o canvas não fica "contaminado".
+export const rasterizeSvg = (svg: string, width: number, height: number, scale = 2): Promise<string> =>
+    new Promise((resolve, reject) => {
+        const image = new Image();
+        image.onload = () => {
+            const canvas = document.createElement('canvas');
+            canvas.width = Math.ceil(width * scale);
+            canvas.height = Math.ceil(height * scale);
+            const context = canvas.getContext('2d');
+            if (!context) {
+                reject(new Error('Canvas 2D indisponível.'));
+                return;
+            }
+            context.scale(scale, scale);
+            context.drawImage(image, 0, 0, width, height);
+            try {
+                resolve(canvas.toDataURL('image/png'));
+            } catch (error) {
+                reject(error);
+            }
+        };
+        image.onerror = () => reject(new Error('Não foi possível renderizar o SVG.'));
+        image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+    });
@@ -0,0 +1,162 @@
+import { NodeData, Position, SwimlaneData, SwimlaneOrientation, LaneData } from '../types';
+import { getNodeSize } from './flowchartUtils';
+
+// Geometria e operações das piscinas (swimlanes). Uma piscina horizontal tem o
+// título em uma faixa à esquerda e as raias empilhadas de cima para baixo; na
+// vertical, o título fica no topo e as raias são colunas lado a lado. Cada raia
+// reserva uma faixa para o próprio título antes da área útil.
+
+export const POOL_HEADER_SIZE = 40;
+export const LANE_HEADER_SIZE = 32;
+export const DEFAULT_LANE_SIZE = 200;
+export const DEFAULT_POOL_LENGTH = 900;
+export const MIN_LANE_SIZE = 80;
+export const MIN_POOL_LENGTH = 300;
+
+export interface Rect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface LaneRect extends Rect {
+    lane: LaneData;
+}
+
+export const getSwimlaneBounds = (pool: SwimlaneData): Rect => {
+    const breadth = pool.lanes.reduce((sum, lane) => sum + lane.size, 0);
+    return pool.orientation === 'horizontal'
+        ? { x: pool.position.x, y: pool.position.y, width: pool.length, height: breadth }
+        : { x: pool.position.x, y: pool.position.y, width: breadth, height: pool.length };
+};
+
+// Área de cada raia (incluindo a faixa do título da raia, sem o título da piscina).
+export const getLaneRects = (pool: SwimlaneData): LaneRect[] => {
+    let offset = 0;
+    return pool.lanes.map(lane => {
+        const rect = pool.orientation === 'horizontal'
+            ? { x: pool.position.x + POOL_HEADER_SIZE, y: pool.position.y + offset, width: pool.length - POOL_HEADER_SIZE, height: lane.size }
+            : { x: pool.position.x + offset, y: pool.position.y + POOL_HEADER_SIZE, width: lane.size, height: pool.length - POOL_HEADER_SIZE };
+        offset += lane.size;
+        return { ...rect, lane };
+    });
+};
+
+const containsPoint = (rect: Rect, point: Position) =>
+    point.x >= rect.x && point.x <= rect.x + rect.width && point.y >= rect.y && point.y <= rect.y + rect.height;
+
+// Procura a raia sob o ponto; piscinas desenhadas por último ficam por cima.
+export const findLaneAt = (swimlanes: SwimlaneData[], point: Position): { swimlane: SwimlaneData; lane: LaneData } | null => {
+    for (let i = swimlanes.length - 1; i >= 0; i--) {
+        const laneRect = getLaneRects(swimlanes[i]).find(rect => containsPoint(rect, point));
+        if (laneRect) return { swimlane: swimlanes[i], lane: laneRect.lane };
+    }
+    return null;
+};
+
+// Define a raia de cada bloco pelo seu centro. Sem "nodeIds", todos os blocos são reavaliados.
+export const assignNodesToLanes = (nodes: NodeData[], swimlanes: SwimlaneData[], nodeIds?: Set<string>): NodeData[] =>
+    nodes.map(node => {
+        if (nodeIds && !nodeIds.has(node.id)) return node;
+        const { width, height } = getNodeSize(node);
+        const laneId = findLaneAt(swimlanes, { x: node.position.x + width / 2, y: node.position.y + height / 2 })?.lane.id;
+        if (laneId === node.laneId) return node;
+        const { laneId: _previous, ...rest } = node;
+        return laneId ? { ...rest, laneId } : rest;
+    });
+
+export const createSwimlane = (orientation: SwimlaneOrientation, position: Position, laneCount = 3): SwimlaneData => {
+    const stamp = Date.now();
+    return {
+        id: `swimlane-${stamp}`,
+        title: 'Processo',
+        orientation,
+        position,
+        length: DEFAULT_POOL_LENGTH,
+        lanes: Array.from({ length: laneCount }, (_, i) => ({
+            id: `lane-${stamp}-${i}`,
+            title: `Raia ${i + 1}`,
+            size: DEFAULT_LANE_SIZE,
+        })),
+    };
+};
+
+const getLaneIds = (pool: SwimlaneData) => new Set(pool.lanes.map(lane => lane.id));
+
+const shiftNodes = (nodes: NodeData[], laneIds: Set<string>, dx: number, dy: number) =>
+    dx === 0 && dy === 0
+        ? nodes
+        : nodes.map(node => node.laneId && laneIds.has(node.laneId)
+            ? { ...node, position: { x: node.position.x + dx, y: node.position.y + dy } }
+            : node);
+
+// Move a piscina levando junto os blocos que pertencem às suas raias.
+export const moveSwimlane = (swimlanes: SwimlaneData[], nodes: NodeData[], swimlaneId: string, position: Position) => {
+    const pool = swimlanes.find(s => s.id === swimlaneId);
+    if (!pool) return { swimlanes, nodes };
+    const dx = position.x - pool.position.x;
+    const dy = position.y - pool.position.y;
+    return {
+        swimlanes: swimlanes.map(s => s.id === swimlaneId ? { ...s, position } : s),
+        nodes: shiftNodes(nodes, getLaneIds(pool), dx, dy),
+    };
+};
+
+// Redimensiona uma raia; as raias seguintes (e seus blocos) são deslocadas.
+export const resizeLane = (swimlanes: SwimlaneData[], nodes: NodeData[], swimlaneId: string, laneId: string, size: number) => {
+    const pool = swimlanes.find(s => s.id === swimlaneId);
+    const laneIndex = pool ? pool.lanes.findIndex(l => l.id === laneId) : -1;
+    if (!pool || laneIndex === -1) return { swimlanes, nodes };
+    const newSize = Math.max(MIN_LANE_SIZE, size);
+    const delta = newSize - pool.lanes[laneIndex].size;
+    const followingLaneIds = new Set(pool.lanes.slice(laneIndex + 1).map(l => l.id));
+    return {
+        swimlanes: swimlanes.map(s => s.id === swimlaneId
+            ? { ...s, lanes: s.lanes.map(l => l.id === laneId ? { ...l, size: newSize } : l) }
+            : s),
+        nodes: pool.orientation === 'horizontal'
+            ? shiftNodes(nodes, followingLaneIds, 0, delta)
+            : shiftNodes(nodes, followingLaneIds, delta, 0),
+    };
+};
+
+export const resizeSwimlaneLength = (swimlanes: SwimlaneData[], swimlaneId: string, length: number) =>
+    swimlanes.map(s => s.id === swimlaneId ? { ...s, length: Math.max(MIN_POOL_LENGTH, length) } : s);
+
+export const addLane = (swimlanes: SwimlaneData[], swimlaneId: string) =>
+    swimlanes.map(s => s.id === swimlaneId
+        ? { ...s, lanes: [...s.lanes, { id: `lane-${Date.now()}`, title: `Raia ${s.lanes.length + 1}`, size: DEFAULT_LANE_SIZE }] }
+        : s);
+
+// Remove uma raia: seus blocos deixam de pertencer a ela e as raias seguintes sobem.
+export const removeLane = (swimlanes: SwimlaneData[], nodes: NodeData[], swimlaneId: string, laneId: string) => {
+    const pool = swimlanes.find(s => s.id === swimlaneId);
+    const laneIndex = pool ? pool.lanes.findIndex(l => l.id === laneId) : -1;
+    if (!pool || laneIndex === -1 || pool.lanes.length <= 1) return { swimlanes, nodes };
+    const removedSize = pool.lanes[laneIndex].size;
+    const followingLaneIds = new Set(pool.lanes.slice(laneIndex + 1).map(l => l.id));
+    const detached = releaseNodes(nodes, new Set([laneId]));
+    return {
+        swimlanes: swimlanes.map(s => s.id === swimlaneId ? { ...s, lanes: s.lanes.filter(l => l.id !== laneId) } : s),
+        nodes: pool.orientation === 'horizontal'
+            ? shiftNodes(detached, followingLaneIds, 0, -removedSize)
+            : shiftNodes(detached, followingLaneIds, -removedSize, 0),
+    };
+};
+
+export const releaseNodes = (nodes: NodeData[], laneIds: Set<string>) =>
+    nodes.map(node => {
+        if (!node.laneId || !laneIds.has(node.laneId)) return node;
+        const { laneId: _removed, ...rest } = node;
+        return rest;
+    });
+
+export const deleteSwimlane = (swimlanes: SwimlaneData[], nodes: NodeData[], swimlaneId: string) => {
+    const pool = swimlanes.find(s => s.id === swimlaneId);
+    if (!pool) return { swimlanes, nodes };
+    return {
+        swimlanes: swimlanes.filter(s => s.id !== swimlaneId),
+        nodes: releaseNodes(nodes, getLaneIds(pool)),
+    };
+};
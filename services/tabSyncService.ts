@@ -0,0 +1,50 @@
+// Comunicação entre abas do navegador com o aplicativo aberto. Usa o
+// BroadcastChannel e, nos navegadores sem suporte, eventos "storage" do
+// localStorage. As mensagens nunca voltam para a aba que as enviou.
+
+export type TabSyncMessage =
+    // Projetos gravados ou excluídos no IndexedDB por outra aba.
+    | { type: 'saved'; tabId: string; projectIds: string[]; removedIds: string[] }
+    // Projeto ativo de cada aba, para avisar quando o mesmo projeto está aberto em duas.
+    | { type: 'presence'; tabId: string; activeProjectId: string | null }
+    | { type: 'hello'; tabId: string }
+    | { type: 'bye'; tabId: string };
+
+const CHANNEL_NAME = 'flowchart-tab-sync';
+const STORAGE_KEY = 'flowchart-tab-sync';
+
+export const createTabId = () => `tab-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createTabSync = (onMessage: (message: TabSyncMessage) => void) => {
+    if (typeof BroadcastChannel !== 'undefined') {
+        const channel = new BroadcastChannel(CHANNEL_NAME);
+        channel.onmessage = (event: MessageEvent<TabSyncMessage>) => onMessage(event.data);
+        return {
+            post: (message: TabSyncMessage) => channel.postMessage(message),
+            close: () => channel.close(),
+        };
+    }
+
+    const handleStorage = (event: StorageEvent) => {
+        if (event.key !== STORAGE_KEY || !event.newValue) return;
+        try {
+            onMessage(JSON.parse(event.newValue).message);
+        } catch (error) {
+            console.error('Mensagem de sincronização entre abas inválida.', error);
+        }
+    };
+    window.addEventListener('storage', handleStorage);
+    return {
+        // O evento só dispara quando o valor muda, por isso cada mensagem leva um carimbo único.
+        post: (message: TabSyncMessage) => {
+            try {
+                window.localStorage.setItem(STORAGE_KEY, JSON.stringify({ message, nonce: `${Date.now()}-${Math.random()}` }));
+            } catch (error) {
+                console.error('Falha ao enviar mensagem para as outras abas.', error);
+            }
+        },
+        close: () => window.removeEventListener('storage', handleStorage),
+    };
+};
+
+export type TabSync = ReturnType<typeof createTabSync>;
@@ -0,0 +1,166 @@
+import { FlowchartData, NodeData, EdgeData } from '../types';
+
+// Regras estruturais verificadas sobre o grafo do projeto. Cada regra devolve
+// uma lista de problemas apontando os blocos (e, quando faz sentido, as setas)
+// envolvidos, para que a interface possa selecioná-los no canvas.
+
+export type ValidationSeverity = 'error' | 'warning';
+
+export interface ValidationIssue {
+    id: string;
+    ruleId: string;
+    severity: ValidationSeverity;
+    message: string;
+    nodeIds: string[];
+    edgeIds: string[];
+}
+
+interface FlowGraph {
+    nodes: NodeData[];
+    edges: EdgeData[];
+    nodeById: Map<string, NodeData>;
+    outgoing: Map<string, EdgeData[]>;
+    incoming: Map<string, EdgeData[]>;
+}
+
+export interface ValidationRule {
+    id: string;
+    description: string;
+    check: (graph: FlowGraph) => Omit<ValidationIssue, 'id' | 'ruleId'>[];
+}
+
+const describeNode = (node: NodeData) => `"${node.text.trim() || node.id}"`;
+
+const buildGraph = (data: FlowchartData): FlowGraph => {
+    const nodeById = new Map(data.nodes.map(n => [n.id, n]));
+    const outgoing = new Map<string, EdgeData[]>(data.nodes.map(n => [n.id, []]));
+    const incoming = new Map<string, EdgeData[]>(data.nodes.map(n => [n.id, []]));
+    // Setas que apontam para blocos inexistentes são ignoradas.
+    const edges = data.edges.filter(e => nodeById.has(e.source) && nodeById.has(e.target));
+    edges.forEach(edge => {
+        outgoing.get(edge.source)!.push(edge);
+        incoming.get(edge.target)!.push(edge);
+    });
+    return { nodes: data.nodes, edges, nodeById, outgoing, incoming };
+};
+
+// Busca em largura a partir dos blocos iniciais, seguindo as setas no sentido indicado.
+const collectReachable = (graph: FlowGraph, fromIds: string[], direction: 'forward' | 'backward') => {
+    const visited = new Set(fromIds);
+    const queue = [...fromIds];
+    while (queue.length > 0) {
+        const id = queue.shift()!;
+        const links = direction === 'forward' ? graph.outgoing.get(id) : graph.incoming.get(id);
+        links?.forEach(edge => {
+            const nextId = direction === 'forward' ? edge.target : edge.source;
+            if (!visited.has(nextId)) {
+                visited.add(nextId);
+                queue.push(nextId);
+            }
+        });
+    }
+    return visited;
+};
+
+export const validationRules: ValidationRule[] = [
+    {
+        id: 'single-start',
+        description: 'O fluxograma deve ter exatamente um bloco de início.',
+        check: graph => {
+            const starts = graph.nodes.filter(n => n.type === 'start');
+            if (starts.length === 1) return [];
+            if (starts.length === 0) {
+                return [{ severity: 'error', message: 'O fluxograma não possui um bloco de início.', nodeIds: [], edgeIds: [] }];
+            }
+            return [{
+                severity: 'error',
+                message: `O fluxograma possui ${starts.length} blocos de início; mantenha apenas um.`,
+                nodeIds: starts.map(n => n.id),
+                edgeIds: [],
+            }];
+        },
+    },
+    {
+        id: 'reachable-from-start',
+        description: 'Todo bloco deve ser alcançável a partir do início.',
+        check: graph => {
+            const startIds = graph.nodes.filter(n => n.type === 'start').map(n => n.id);
+            if (startIds.length === 0) return [];
+            const reachable = collectReachable(graph, startIds, 'forward');
+            return graph.nodes
+                .filter(n => !reachable.has(n.id))
+                .map(n => ({
+                    severity: 'warning' as const,
+                    message: `O bloco ${describeNode(n)} não é alcançável a partir do início.`,
+                    nodeIds: [n.id],
+                    edgeIds: [],
+                }));
+        },
+    },
+    {
+        id: 'reaches-end',
+        description: 'Todo bloco deve ter um caminho até um bloco de fim.',
+        check: graph => {
+            const endIds = graph.nodes.filter(n => n.type === 'end').map(n => n.id);
+            if (graph.nodes.length === 0) return [];
+            if (endIds.length === 0) {
+                return [{ severity: 'error', message: 'O fluxograma não possui um bloco de fim.', nodeIds: [], edgeIds: [] }];
+            }
+            const canReachEnd = collectReachable(graph, endIds, 'backward');
+            return graph.nodes
+                .filter(n => !canReachEnd.has(n.id))
+                .map(n => ({
+                    severity: 'error' as const,
+                    message: `Nenhum caminho a partir de ${describeNode(n)} chega a um bloco de fim.`,
+                    nodeIds: [n.id],
+                    edgeIds: [],
+                }));
+        },
+    },
+    {
+        id: 'decision-exits',
+        description: 'Decisões devem ter pelo menos duas saídas rotuladas.',
+        check: graph => graph.nodes
+            .filter(n => n.type === 'decision')
+            .flatMap(n => {
+                const exits = graph.outgoing.get(n.id) || [];
+                const unlabeled = exits.filter(e => !e.label?.trim());
+                if (exits.length < 2) {
+                    return [{
+                        severity: 'error' as const,
+                        message: `A decisão ${describeNode(n)} tem ${exits.length === 0 ? 'nenhuma saída' : 'apenas uma saída'}; são necessárias pelo menos duas.`,
+                        nodeIds: [n.id],
+                        edgeIds: exits.map(e => e.id),
+                    }];
+                }
+                if (exits.length - unlabeled.length < 2) {
+                    return [{
+                        severity: 'error' as const,
+                        message: `A decisão ${describeNode(n)} precisa de pelo menos duas saídas rotuladas (ex: "Sim" e "Não").`,
+                        nodeIds: [n.id],
+                        edgeIds: unlabeled.map(e => e.id),
+                    }];
+                }
+                return [];
+            }),
+    },
+    {
+        id: 'end-without-exits',
+        description: 'Blocos de fim não podem ter saídas.',
+        check: graph => graph.nodes
+            .filter(n => n.type === 'end' && (graph.outgoing.get(n.id) || []).length > 0)
+            .map(n => ({
+                severity: 'error' as const,
+                message: `O bloco de fim ${describeNode(n)} possui setas de saída.`,
+                nodeIds: [n.id],
+                edgeIds: graph.outgoing.get(n.id)!.map(e => e.id),
+            })),
+    },
+];
+
+export const validateFlowchart = (data: FlowchartData, rules: ValidationRule[] = validationRules): ValidationIssue[] => {
+    const graph = buildGraph(data);
+    return rules.flatMap(rule =>
+        rule.check(graph).map((issue, i) => ({ ...issue, id: `${rule.id}-${i}`, ruleId: rule.id }))
+    );
+};
@@ -0,0 +1,53 @@
+import { EdgeData, HistoryState, NodeData, ProjectVersion } from '../types';
+import { diffItems } from './historyService';
+
+// Versões nomeadas de um projeto e a comparação de uma versão com o estado atual.
+
+export type DiffStatus = 'added' | 'removed' | 'changed';
+
+export interface VersionDiff {
+    nodes: Map<string, DiffStatus>;
+    edges: Map<string, DiffStatus>;
+    // Itens que só existem na versão, desenhados como fantasmas sobre o canvas.
+    removedNodes: NodeData[];
+    removedEdges: EdgeData[];
+    summary: Record<DiffStatus, number>;
+}
+
+export const diffColors: Record<DiffStatus, string> = {
+    added: '#34D399',
+    removed: '#F87171',
+    changed: '#FBBF24',
+};
+
+export const createVersion = (name: string, state: HistoryState): ProjectVersion => ({
+    id: `version-${Date.now()}`,
+    name,
+    createdAt: Date.now(),
+    state,
+});
+
+const collectStatuses = <T extends { id: string }>(before: T[], after: T[]) => {
+    const { added, removed, changed } = diffItems(before, after);
+    const statuses = new Map<string, DiffStatus>();
+    added.forEach(item => statuses.set(item.id, 'added'));
+    removed.forEach(item => statuses.set(item.id, 'removed'));
+    changed.forEach(c => statuses.set(c.after.id, 'changed'));
+    return { statuses, removed };
+};
+
+// Compara a versão ("before") com o estado atual ("after"). Blocos movidos ou
+// redimensionados também contam como alterados.
+export const diffVersion = (before: HistoryState, after: HistoryState): VersionDiff => {
+    const nodes = collectStatuses(before.nodes, after.nodes);
+    const edges = collectStatuses(before.edges, after.edges);
+    const summary: Record<DiffStatus, number> = { added: 0, removed: 0, changed: 0 };
+    [nodes.statuses, edges.statuses].forEach(statuses => statuses.forEach(status => { summary[status]++; }));
+    return {
+        nodes: nodes.statuses,
+        edges: edges.statuses,
+        removedNodes: nodes.removed,
+        removedEdges: edges.removed,
+        summary,
+    };
+};
@@ -1,5 +1,5 @@
 
-export type NodeType = 'start' | 'process' | 'decision' | 'end';
+export type NodeType = 'start' | 'process' | 'decision' | 'end' | 'subprocess' | 'inputOutput' | 'document' | 'database' | 'manualInput' | 'delay' | 'offPage' | 'preparation';
 
 export interface Position {
   x: number;
@@ -14,8 +14,13 @@ export interface NodeData {
   width?: number;
   height?: number;
   color?: string;
+  laneId?: string;
+  // Projeto aberto por um bloco de subprocesso.
+  linkedProjectId?: string;
 }
 
+export type EdgeRouting = 'curved' | 'straight' | 'orthogonal';
+
 export interface EdgeData {
   id: string;
   source: string;
@@ -23,6 +28,10 @@ export interface EdgeData {
   label?: string;
   sourceHandle?: number;
   targetHandle?: number;
+  // Sem valor, a conexão segue o estilo global escolhido nas configurações.
+  routing?: EdgeRouting;
+  // Pontos intermediários, em ordem, pelos quais a conexão deve passar.
+  waypoints?: Position[];
 }
 
 export interface AnnotationData {
@@ -33,16 +42,95 @@ export interface AnnotationData {
   height?: number;
 }
 
+export type SwimlaneOrientation = 'horizontal' | 'vertical';
+
+export interface LaneData {
+  id: string;
+  title: string;
+  // Altura da raia em piscinas horizontais, largura em piscinas verticais.
+  size: number;
+}
+
+export interface SwimlaneData {
+  id: string;
+  title: string;
+  orientation: SwimlaneOrientation;
+  position: Position;
+  // Comprimento total da piscina no sentido do fluxo (largura se horizontal, altura se vertical).
+  length: number;
+  lanes: LaneData[];
+}
+
+// Moldura com título que agrupa blocos e anotações. O quadro é calculado a partir
+// dos membros; recolhido, o grupo aparece como um único bloco no lugar deles.
+export interface GroupData {
+  id: string;
+  title: string;
+  nodeIds: string[];
+  annotationIds: string[];
+  collapsed?: boolean;
+}
+
+// Mensagem de uma conversa de comentários.
+export interface CommentMessage {
+  id: string;
+  author: string;
+  text: string;
+  createdAt: number;
+}
+
+// Onde a conversa está presa: um bloco, uma conexão ou um ponto livre do canvas.
+export type CommentTarget =
+  | { kind: 'node'; id: string }
+  | { kind: 'edge'; id: string }
+  | { kind: 'point'; position: Position };
+
+// Conversa de revisão. A primeira mensagem abre a conversa; as demais são respostas.
+export interface CommentThread {
+  id: string;
+  target: CommentTarget;
+  messages: CommentMessage[];
+  resolved?: boolean;
+}
+
 export interface FlowchartData {
   nodes: NodeData[];
   edges: EdgeData[];
   annotations?: AnnotationData[];
+  swimlanes?: SwimlaneData[];
+  groups?: GroupData[];
+  comments?: CommentThread[];
 }
 
 export interface HistoryState {
   nodes: NodeData[];
   edges: EdgeData[];
   annotations: AnnotationData[];
+  swimlanes: SwimlaneData[];
+  groups: GroupData[];
+}
+
+// Passo do histórico de desfazer, com a descrição da ação que o gerou.
+export interface HistoryEntry {
+  state: HistoryState;
+  description: string;
+  // Momento em que o passo foi registrado; 0 quando desconhecido.
+  timestamp: number;
+}
+
+// Cópia nomeada do fluxograma, salva pelo usuário para consulta ou restauração.
+export interface ProjectVersion {
+  id: string;
+  name: string;
+  createdAt: number;
+  state: HistoryState;
+}
+
+// Deslocamento e zoom do canvas.
+export interface Viewport {
+  x: number;
+  y: number;
+  zoom: number;
 }
 
 export interface Project {
@@ -51,7 +139,12 @@ export interface Project {
   nodes: NodeData[];
   edges: EdgeData[];
   annotations: AnnotationData[];
-  history: HistoryState[];
+  swimlanes: SwimlaneData[];
+  groups: GroupData[];
+  history: HistoryEntry[];
   historyIndex: number;
+  versions: ProjectVersion[];
+  // Comentários de revisão; ficam fora do histórico de desfazer.
+  comments: CommentThread[];
   isDirty: boolean;
 }
\ No newline at end of file